@@ -9,6 +9,7 @@ import Emails from './pages/Emails';
 import Quotations from './pages/Quotations';
 import Equipment from './pages/Equipment';
 import Settings from './pages/Settings';
+import ClientPortal from './pages/ClientPortal';
 
 interface GlobalError {
   title: string;
@@ -30,27 +31,36 @@ function App() {
   };
 
   return (
-    <AuthWrapper>
-      <Router>
-        <Layout onGlobalError={handleGlobalError}>
-          <Routes>
-            <Route path="/" element={<Dashboard onGlobalError={handleGlobalError} />} />
-            <Route path="/emails" element={<Emails onGlobalError={handleGlobalError} />} />
-            <Route path="/quotations" element={<Quotations onGlobalError={handleGlobalError} />} />
-            <Route path="/equipment" element={<Equipment onGlobalError={handleGlobalError} />} />
-            <Route path="/settings" element={<Settings onGlobalError={handleGlobalError} />} />
-          </Routes>
-        </Layout>
-        <ErrorModal
-          isOpen={!!globalError}
-          onClose={clearGlobalError}
-          title={globalError?.title || 'Error'}
-          message={globalError?.message || ''}
-          type={globalError?.type || 'error'}
-          onRetry={globalError?.type === 'network' ? clearGlobalError : undefined}
+    <Router>
+      <Routes>
+        {/* Clients open their quotation link without an account */}
+        <Route path="/portal" element={<ClientPortal />} />
+        <Route
+          path="/*"
+          element={
+            <AuthWrapper>
+              <Layout onGlobalError={handleGlobalError}>
+                <Routes>
+                  <Route path="/" element={<Dashboard onGlobalError={handleGlobalError} />} />
+                  <Route path="/emails" element={<Emails onGlobalError={handleGlobalError} />} />
+                  <Route path="/quotations" element={<Quotations onGlobalError={handleGlobalError} />} />
+                  <Route path="/equipment" element={<Equipment onGlobalError={handleGlobalError} />} />
+                  <Route path="/settings" element={<Settings onGlobalError={handleGlobalError} />} />
+                </Routes>
+              </Layout>
+              <ErrorModal
+                isOpen={!!globalError}
+                onClose={clearGlobalError}
+                title={globalError?.title || 'Error'}
+                message={globalError?.message || ''}
+                type={globalError?.type || 'error'}
+                onRetry={globalError?.type === 'network' ? clearGlobalError : undefined}
+              />
+            </AuthWrapper>
+          }
         />
-      </Router>
-    </AuthWrapper>
+      </Routes>
+    </Router>
   );
 }
 
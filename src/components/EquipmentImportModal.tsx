@@ -19,6 +19,17 @@ import Papa from 'papaparse';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import {
+  findBoqHeaderRow,
+  matchBoqLine,
+  parseBoqNumber,
+  type BoqCatalogItem,
+  type BoqLine,
+  type BoqMatch
+} from '../../supabase/functions/_shared/boq';
+import { toItemPayload } from '../../supabase/functions/_shared/quotationItems';
+import { BASE_CURRENCY, CURRENCIES, convertAmount, formatMoney } from '../../supabase/functions/_shared/currency';
+import { useExchangeRates } from '../hooks/useExchangeRates';
 // Simple ID generator function to replace uuid
 const generateId = () => {
   return 'eq_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
@@ -46,6 +57,27 @@ interface EquipmentImportModalProps {
   onClose: () => void;
   onImportComplete: () => void;
   onGlobalError?: (error: { title: string; message: string; type?: 'error' | 'timeout' | 'network' }) => void;
+  // 'boq' prices a bill of quantities into a new draft quotation instead of importing equipment
+  mode?: 'equipment' | 'boq';
+  onQuotationCreated?: (quotation: CreatedQuotation) => void;
+}
+
+// The inserted quotations row
+interface CreatedQuotation {
+  id: string;
+  quotation_number: string;
+  [key: string]: unknown;
+}
+
+interface CatalogEquipment extends BoqCatalogItem {
+  cost_eur?: number | null;
+  currency?: string | null;
+  description?: string | null;
+  specifications?: Record<string, unknown> | null;
+}
+
+interface BoqRow extends BoqLine {
+  match: BoqMatch<CatalogEquipment> | null;
 }
 
 const systemFields = [
@@ -54,12 +86,24 @@ const systemFields = [
   { value: 'category', label: 'Category *', required: true },
   { value: 'type', label: 'Type', required: false },
   { value: 'power_kw', label: 'Power (kW)', required: false },
-  { value: 'price_eur', label: 'Price (EUR) *', required: true },
+  { value: 'price_eur', label: 'List Price *', required: true },
+  { value: 'cost_eur', label: 'Cost Price', required: false },
+  { value: 'currency', label: 'Price Currency (default EUR)', required: false },
   { value: 'description', label: 'Description', required: false },
   { value: 'specifications', label: 'Specifications (Auto-Combined)', required: false },
   { value: 'in_stock', label: 'In Stock', required: false }
 ];
 
+const boqSystemFields = [
+  { value: 'description', label: 'Description *', required: true },
+  { value: 'quantity', label: 'Quantity *', required: true },
+  { value: 'unit', label: 'Unit', required: false },
+  { value: 'brand', label: 'Brand', required: false },
+  { value: 'model', label: 'Model', required: false },
+  { value: 'power_kw', label: 'Power (kW)', required: false },
+  { value: 'unit_price', label: 'Client Rate (EUR)', required: false }
+];
+
 const categoryOptions = [
   'air_conditioning',
   'heating', 
@@ -77,7 +121,10 @@ const mepFieldPatterns = {
   category: ['category', 'class', 'group', 'classification', 'equipment_category'],
   type: ['type', 'equipment_type', 'unit_type', 'variant', 'style', 'configuration', 'subtype'],
   power_kw: ['power', 'power_kw', 'power_consumption', 'electrical_power', 'wattage'],
-  price_eur: ['price', 'cost', 'price_eur', 'price_euro', 'unit_price', 'list_price'],
+  // Checked before price_eur, so "Cost Price" is not taken for the list price
+  cost_eur: ['cost', 'cost_eur', 'purchase_price', 'net_price', 'buy_price', 'trade_price'],
+  price_eur: ['price', 'price_eur', 'price_euro', 'unit_price', 'list_price'],
+  currency: ['currency', 'curr', 'ccy'],
   description: ['description', 'desc', 'name', 'title', 'product_name'],
   in_stock: ['in_stock', 'stock', 'available', 'inventory', 'availability'],
   
@@ -101,6 +148,21 @@ const mepFieldPatterns = {
   warranty: ['warranty', 'guarantee', 'warranty_years']
 };
 
+// BoQ column patterns for smart mapping; unit_price comes before unit so
+// "Unit Price" is not taken for the unit column
+const boqFieldPatterns = {
+  description: ['description', 'desc', 'particulars', 'specification', 'equipment'],
+  quantity: ['qty', 'quantity', 'quantities', 'nos', 'pcs', 'q_ty'],
+  unit_price: ['rate', 'unit_price', 'unit_cost', 'price', 'cost'],
+  unit: ['unit', 'uom'],
+  brand: ['brand', 'manufacturer', 'make'],
+  model: ['model', 'part_number', 'product_code', 'ref'],
+  power_kw: ['power', 'kw', 'capacity']
+};
+
+const QUOTATION_VALIDITY_DAYS = 30;
+const DEFAULT_MARGIN_PERCENTAGE = 20;
+
 // Category mapping for common variations
 const categoryMapping = {
   'hvac': 'air_conditioning',
@@ -126,9 +188,39 @@ const categoryMapping = {
   'hwc': 'hot_water'
 };
 
-export default function EquipmentImportModal({ isOpen, onClose, onImportComplete, onGlobalError }: EquipmentImportModalProps) {
+// Turn raw sheet rows into records keyed by the header row. BoQs usually
+// start with a title block, so the header is looked up rather than assumed.
+const rowsToRecords = (rows: unknown[][]): ImportData[] => {
+  const headerIndex = Math.max(0, findBoqHeaderRow(rows));
+  const header = (rows[headerIndex] || []).map((cell, index) => String(cell ?? '').trim() || `Column ${index + 1}`);
+
+  return rows.slice(headerIndex + 1)
+    .filter(row => row.some(cell => cell !== '' && cell !== null && cell !== undefined))
+    .map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])));
+};
+
+// Same categories the import maps to, matched as whole words in a BoQ description
+const guessCategory = (text: string): string => {
+  const lower = text.toLowerCase();
+  const key = Object.keys(categoryMapping).find(variation => new RegExp(`\\b${variation}\\b`).test(lower));
+  return key ? categoryMapping[key as keyof typeof categoryMapping] : 'materials';
+};
+
+const specializationFor = (category: string) =>
+  ['materials', 'services'].includes(category) ? category : 'primary_hvac';
+
+export default function EquipmentImportModal({
+  isOpen,
+  onClose,
+  onImportComplete,
+  onGlobalError,
+  mode = 'equipment',
+  onQuotationCreated
+}: EquipmentImportModalProps) {
+  const isBoqMode = mode === 'boq';
   const modalRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
+  const { rates: exchangeRates } = useExchangeRates();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'importing'>('upload');
@@ -171,7 +263,29 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
     const fileExtension = file.name.split('.').pop()?.toLowerCase();
     console.log('📂 EquipmentImport: Processing file', { name: file.name, extension: fileExtension, size: file.size });
 
-    if (fileExtension === 'csv') {
+    if (fileExtension === 'csv' && isBoqMode) {
+      Papa.parse(file, {
+        header: false,
+        skipEmptyLines: true,
+        complete: (results) => {
+          const data = rowsToRecords(results.data as unknown[][]);
+          if (data.length > 0) {
+            console.log('📂 EquipmentImport: Parsed BoQ CSV data:', data.length, 'rows');
+            setRawData(data);
+            setFileColumns(Object.keys(data[0]));
+            generateSmartMapping(Object.keys(data[0]), data[0]);
+            setStep('mapping');
+          } else {
+            console.error('📂 EquipmentImport: No data found in CSV file');
+            setImportError('No data found in CSV file');
+          }
+        },
+        error: (error) => {
+          console.error('📂 EquipmentImport: CSV parsing error:', error);
+          setImportError(`CSV parsing error: ${error.message}`);
+        }
+      });
+    } else if (fileExtension === 'csv') {
       Papa.parse(file, {
         header: true,
         skipEmptyLines: true,
@@ -200,9 +314,20 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
         try {
           const data = new Uint8Array(e.target?.result as ArrayBuffer);
           const workbook = XLSX.read(data, { type: 'array' });
-          const sheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' }) as ImportData[];
+          let jsonData: ImportData[];
+
+          if (isBoqMode) {
+            // First sheet that looks like a BoQ, otherwise the first sheet
+            const sheets = workbook.SheetNames.map(name =>
+              XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: '' }) as unknown[][]
+            );
+            const boqSheet = sheets.find(rows => findBoqHeaderRow(rows) !== -1) || sheets[0] || [];
+            jsonData = rowsToRecords(boqSheet);
+          } else {
+            const sheetName = workbook.SheetNames[0];
+            const worksheet = workbook.Sheets[sheetName];
+            jsonData = XLSX.utils.sheet_to_json(worksheet, { defval: '' }) as ImportData[];
+          }
           
           if (jsonData.length > 0) {
             console.log('📂 EquipmentImport: Parsed Excel data:', jsonData.length, 'rows');
@@ -231,6 +356,11 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
   };
 
   const generateSmartMapping = (columns: string[], sampleRow: ImportData) => {
+    if (isBoqMode) {
+      generateBoqMapping(columns);
+      return;
+    }
+
     console.log('📂 EquipmentImport: Generating smart mapping for columns:', columns.length);
     const mappings: ColumnMapping[] = [];
     const detectedSpecFields: string[] = [];
@@ -242,7 +372,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
       
       // First check for exact system fields
       for (const [systemField, patterns] of Object.entries(mepFieldPatterns)) {
-        if (['brand', 'model', 'category', 'type', 'power_kw', 'price_eur', 'description', 'in_stock'].includes(systemField)) {
+        if (['brand', 'model', 'category', 'type', 'power_kw', 'price_eur', 'cost_eur', 'currency', 'description', 'in_stock'].includes(systemField)) {
           if (patterns.some(pattern => lowerColumn.includes(pattern.replace(/[^a-z0-9]/g, '_')))) {
             suggestedField = systemField;
             break;
@@ -253,7 +383,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
       // If not a core field, check if it's a technical specification field
       if (!suggestedField) {
         for (const [specType, patterns] of Object.entries(mepFieldPatterns)) {
-          if (!['brand', 'model', 'category', 'type', 'power_kw', 'price_eur', 'description', 'in_stock'].includes(specType)) {
+          if (!['brand', 'model', 'category', 'type', 'power_kw', 'price_eur', 'cost_eur', 'currency', 'description', 'in_stock'].includes(specType)) {
             if (patterns.some(pattern => lowerColumn.includes(pattern.replace(/[^a-z0-9]/g, '_')))) {
               suggestedField = 'specifications';
               isSpecField = true;
@@ -279,6 +409,26 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
     console.log('📂 EquipmentImport: Detected specification fields:', detectedSpecFields.length);
   };
 
+  // Each BoQ field is mapped to at most one column
+  const generateBoqMapping = (columns: string[]) => {
+    console.log('📂 EquipmentImport: Generating BoQ mapping for columns:', columns.length);
+    const usedFields = new Set<string>();
+
+    const mappings: ColumnMapping[] = columns.map(column => {
+      const lowerColumn = column.toLowerCase().trim().replace(/[^a-z0-9]/g, '_');
+      const suggestedField = Object.entries(boqFieldPatterns).find(([field, patterns]) =>
+        !usedFields.has(field) && patterns.some(pattern => lowerColumn.includes(pattern))
+      )?.[0] || '';
+
+      if (suggestedField) usedFields.add(suggestedField);
+      return { fileColumn: column, systemField: suggestedField, defaultValue: '', isSpecField: false };
+    });
+
+    setColumnMappings(mappings);
+    setSpecFields([]);
+    console.log('📂 EquipmentImport: BoQ mapping generated:', usedFields.size, 'fields mapped');
+  };
+
   const updateMapping = (fileColumn: string, systemField: string) => {
     setColumnMappings(prev => prev.map(mapping => 
       mapping.fileColumn === fileColumn 
@@ -370,6 +520,12 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
       if (!row.price_eur || isNaN(price) || price <= 0) {
         errors.push({ row: index + 1, field: 'price_eur', message: 'Valid price greater than 0 is required' });
       }
+      if (row.cost_eur !== null && row.cost_eur !== undefined && row.cost_eur < 0) {
+        errors.push({ row: index + 1, field: 'cost_eur', message: 'Cost price cannot be negative' });
+      }
+      if (!CURRENCIES.some(currency => currency.code === row.currency)) {
+        errors.push({ row: index + 1, field: 'currency', message: `Currency must be one of: ${CURRENCIES.map(currency => currency.code).join(', ')}` });
+      }
       
       // Category validation
       if (row.category && !categoryOptions.includes(row.category.toString().toLowerCase())) {
@@ -388,10 +544,82 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
     return errors;
   };
 
+  // Map rows to BoQ lines and match each one against the equipment catalog
+  const processBoqData = async () => {
+    console.log('📂 EquipmentImport: Processing BoQ with', rawData.length, 'rows');
+    setImportError('');
+
+    const valueOf = (row: ImportData, field: string) => {
+      const mapping = columnMappings.find(m => m.systemField === field);
+      if (!mapping) return '';
+      const value = row[mapping.fileColumn];
+      return value === undefined || value === null || value === '' ? mapping.defaultValue || '' : value;
+    };
+
+    const errors: ValidationError[] = [];
+    const lines: BoqLine[] = [];
+
+    rawData.forEach((row, index) => {
+      const description = valueOf(row, 'description').toString().trim();
+      const quantity = parseBoqNumber(valueOf(row, 'quantity'));
+
+      // Section headings and subtotals carry no quantity
+      if (!quantity) return;
+
+      if (!description) {
+        errors.push({ row: index + 1, field: 'description', message: 'Description is required' });
+        return;
+      }
+      if (quantity < 0) {
+        errors.push({ row: index + 1, field: 'quantity', message: 'Quantity must be greater than 0' });
+        return;
+      }
+
+      lines.push({
+        description,
+        quantity,
+        unit: valueOf(row, 'unit').toString().trim() || undefined,
+        unit_price: parseBoqNumber(valueOf(row, 'unit_price')),
+        brand: valueOf(row, 'brand').toString().trim() || undefined,
+        model: valueOf(row, 'model').toString().trim() || undefined,
+        power_kw: parseBoqNumber(valueOf(row, 'power_kw')),
+        row: index + 1
+      });
+    });
+
+    try {
+      const { data: catalog, error } = await supabase
+        .from('equipment')
+        .select('id, brand, model, category, power_kw, price_eur, cost_eur, currency, description, specifications')
+        .eq('user_id', user?.id)
+        .eq('in_stock', true);
+
+      if (error) throw error;
+
+      const rows: BoqRow[] = lines.map(line => ({ ...line, match: matchBoqLine(line, (catalog || []) as CatalogEquipment[]) }));
+      const matched = rows.filter(row => row.match).length;
+
+      setProcessedData(rows);
+      setValidationErrors(errors);
+      setImportStats({ total: rows.length, valid: matched, errors: rows.length - matched });
+      console.log('📂 EquipmentImport: BoQ matched', { lines: rows.length, matched, skipped: errors.length });
+      setStep('preview');
+    } catch (error) {
+      console.error('📂 EquipmentImport: Failed to load equipment catalog:', error);
+      setImportError(`Failed to load your equipment catalog: ${(error as Error).message}`);
+    }
+  };
+
   const processData = () => {
+    if (isBoqMode) {
+      processBoqData();
+      return;
+    }
+
     console.log('📂 EquipmentImport: Processing data with', rawData.length, 'rows');
     const processed = rawData.map(row => {
-      const newRow: any = {};
+      // Prices are in EUR unless a currency column says otherwise
+      const newRow: any = { currency: BASE_CURRENCY };
       
       // Process core system fields
       columnMappings.forEach(mapping => {
@@ -406,6 +634,10 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
           // Type conversions and cleaning
           if (mapping.systemField === 'price_eur') {
             newRow[mapping.systemField] = cleanNumericValue(value, 'price') || 0;
+          } else if (mapping.systemField === 'cost_eur') {
+            newRow[mapping.systemField] = cleanNumericValue(value, 'price');
+          } else if (mapping.systemField === 'currency') {
+            newRow[mapping.systemField] = value.toString().trim().toUpperCase() || BASE_CURRENCY;
           } else if (mapping.systemField === 'power_kw') {
             newRow[mapping.systemField] = cleanNumericValue(value, 'power');
           } else if (mapping.systemField === 'in_stock') {
@@ -534,6 +766,161 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
     }
   };
 
+  // Create the draft quotation from the matched BoQ; unmatched lines are kept
+  // at the client's rate (or 0) and flagged so nothing in the BoQ is dropped
+  const createBoqQuotation = async () => {
+    console.log('📂 EquipmentImport: Creating draft quotation from BoQ');
+    if (!user) {
+      setImportError('User not authenticated');
+      return;
+    }
+
+    setImporting(true);
+    setImportError('');
+
+    try {
+      const rows = processedData as BoqRow[];
+      const items = rows.map(row => {
+        const reference = `${fileName} / row ${row.row}`;
+        if (row.match) {
+          const equipment = row.match.item;
+          // Priced at cost like workflow lines; the margin goes on top. The
+          // draft is in EUR, so costs in other currencies are converted
+          const currency = equipment.currency || BASE_CURRENCY;
+          const sourceListPrice = Number(equipment.price_eur) || 0;
+          const sourceCost = Number(equipment.cost_eur ?? sourceListPrice) || 0;
+          const convertedCost = convertAmount(sourceCost, currency, BASE_CURRENCY, exchangeRates);
+          if (convertedCost === null) {
+            console.warn('📂 EquipmentImport: No exchange rate for', currency, '- cost left unconverted');
+          }
+          const unitPrice = convertedCost ?? sourceCost;
+          const listPrice = convertAmount(sourceListPrice, currency, BASE_CURRENCY, exchangeRates) ?? sourceListPrice;
+          return {
+            equipment_id: equipment.id,
+            brand: equipment.brand,
+            model: equipment.model,
+            category: equipment.category,
+            quantity: row.quantity,
+            unit_price: unitPrice,
+            list_price: listPrice,
+            cost_currency: currency,
+            source_cost_price: sourceCost,
+            total_price: Math.round(unitPrice * row.quantity * 100) / 100,
+            description: [equipment.description, `BoQ: ${row.description}`].filter(Boolean).join(' - '),
+            notes: convertedCost === null ? `No ${currency} exchange rate set; cost not converted to ${BASE_CURRENCY}` : null,
+            specifications: equipment.specifications || {},
+            ai_specialization: specializationFor(equipment.category),
+            power_kw: Number(equipment.power_kw) || 0,
+            boq_match: 'matched',
+            boq_match_score: Math.round(row.match.score * 100) / 100,
+            boq_reference: reference
+          };
+        }
+
+        const category = guessCategory(row.description);
+        const unitPrice = row.unit_price ?? 0;
+        return {
+          equipment_id: null,
+          brand: row.brand || '',
+          model: row.model || '',
+          category,
+          quantity: row.quantity,
+          unit_price: unitPrice,
+          total_price: Math.round(unitPrice * row.quantity * 100) / 100,
+          description: `${row.description} - not in your equipment database`,
+          specifications: row.unit ? { unit: row.unit } : {},
+          ai_specialization: specializationFor(category),
+          power_kw: row.power_kw ?? 0,
+          boq_match: 'unmatched',
+          boq_reference: reference
+        };
+      });
+
+      const subtotal = items.reduce((sum, item) => sum + item.total_price, 0);
+      const grandTotal = Math.round(subtotal * (1 + DEFAULT_MARGIN_PERCENTAGE / 100) * 100) / 100;
+      const projectName = fileName.replace(/\.[^.]+$/, '');
+      const unmatched = items.filter(item => item.boq_match === 'unmatched').length;
+
+      // Get default company
+      const { data: company } = await supabase
+        .from('companies')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('is_default', true)
+        .maybeSingle();
+
+      const validUntil = new Date();
+      validUntil.setDate(validUntil.getDate() + QUOTATION_VALIDITY_DAYS);
+
+      const { data: quotation, error } = await supabase
+        .from('quotations')
+        .insert({
+          user_id: user.id,
+          company_id: company?.id || null,
+          status: 'draft',
+          analysis: {
+            source: 'boq_import',
+            boq_file: fileName,
+            project_identification: { project_name: projectName },
+            equipment: items,
+            boq_summary: {
+              total_lines: items.length,
+              matched_lines: items.length - unmatched,
+              unmatched_lines: unmatched
+            },
+            pricing: {
+              subtotal: Math.round(subtotal * 100) / 100,
+              margin_percentage: DEFAULT_MARGIN_PERCENTAGE,
+              grand_total: grandTotal
+            }
+          },
+          total_amount: grandTotal,
+          margin_percentage: DEFAULT_MARGIN_PERCENTAGE,
+          project_summary: { total_equipment_items: items.length, source: 'boq_import' },
+          client_details: { project_name: projectName },
+          processing_metadata: { processing_status: 'completed', source: 'boq_import', boq_file: fileName },
+          valid_until: validUntil.toISOString().split('T')[0]
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      const { data: quotationItems, error: itemsError } = await supabase.rpc('sync_quotation_items', {
+        p_quotation_id: quotation.id,
+        p_items: toItemPayload(items, DEFAULT_MARGIN_PERCENTAGE)
+      });
+
+      if (itemsError) throw itemsError;
+
+      const { error: revisionError } = await supabase.rpc('record_quotation_revision', {
+        p_quotation_id: quotation.id,
+        p_source: 'import'
+      });
+
+      if (revisionError) throw revisionError;
+
+      console.log('📂 EquipmentImport: Draft quotation created from BoQ:', quotation.quotation_number);
+      onImportComplete();
+      onQuotationCreated?.({ ...quotation, quotation_items: quotationItems });
+      resetModal();
+      onClose();
+    } catch (error) {
+      const message = (error as Error).message;
+      console.error('📂 EquipmentImport: Failed to create quotation from BoQ:', error);
+      setImportError(message || 'Failed to create quotation');
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'BoQ Pricing Failed',
+          message: `Failed to create quotation: ${message}`,
+          type: 'network'
+        });
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const downloadTemplate = () => {
     const templateData = [
       {
@@ -591,6 +978,8 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
 
   if (!isOpen) return null;
 
+  const mappingFields = isBoqMode ? boqSystemFields : systemFields;
+
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div ref={modalRef} className="bg-white rounded-3xl shadow-2xl max-w-6xl w-full max-h-[95vh] overflow-y-auto">
@@ -602,8 +991,12 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                 <Upload className="w-7 h-7 text-white" />
               </div>
               <div>
-                <h2 className="text-2xl font-bold">MEP Equipment Import</h2>
-                <p className="text-emerald-100 mt-1">Import professional MEP equipment data from CSV or Excel</p>
+                <h2 className="text-2xl font-bold">{isBoqMode ? 'Price a Bill of Quantities' : 'MEP Equipment Import'}</h2>
+                <p className="text-emerald-100 mt-1">
+                  {isBoqMode
+                    ? 'Match a client BoQ against your equipment and create a draft quotation'
+                    : 'Import professional MEP equipment data from CSV or Excel'}
+                </p>
               </div>
             </div>
             <button
@@ -622,8 +1015,8 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
             {[
               { id: 'upload', name: 'Upload File', icon: Upload },
               { id: 'mapping', name: 'Smart Mapping', icon: Settings },
-              { id: 'preview', name: 'Preview Data', icon: Eye },
-              { id: 'importing', name: 'Import', icon: Save }
+              { id: 'preview', name: isBoqMode ? 'Review Matches' : 'Preview Data', icon: Eye },
+              { id: 'importing', name: isBoqMode ? 'Create Quotation' : 'Import', icon: Save }
             ].map((stepItem, index) => {
               const isActive = step === stepItem.id;
               const isCompleted = ['upload', 'mapping', 'preview', 'importing'].indexOf(step) > index;
@@ -664,8 +1057,14 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
           {step === 'upload' && (
             <div className="space-y-8">
               <div className="text-center">
-                <h3 className="text-2xl font-bold text-gray-900 mb-4">Upload MEP Equipment Data</h3>
-                <p className="text-gray-600 mb-8">Upload CSV or Excel files with VRF, chillers, pumps, and other MEP equipment</p>
+                <h3 className="text-2xl font-bold text-gray-900 mb-4">
+                  {isBoqMode ? 'Upload Bill of Quantities' : 'Upload MEP Equipment Data'}
+                </h3>
+                <p className="text-gray-600 mb-8">
+                  {isBoqMode
+                    ? 'Upload the client\'s BoQ as CSV or Excel; each line with a quantity becomes a quotation item'
+                    : 'Upload CSV or Excel files with VRF, chillers, pumps, and other MEP equipment'}
+                </p>
                 
                 <div className="border-2 border-dashed border-gray-300 rounded-2xl p-12 hover:border-emerald-400 transition-colors">
                   <input
@@ -694,6 +1093,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                 </div>
               </div>
               
+              {!isBoqMode && (
               <div className="bg-gradient-to-br from-blue-50 to-indigo-50 rounded-2xl p-6 border border-blue-200">
                 <div className="flex items-start space-x-4">
                   <Download className="w-6 h-6 text-blue-600 mt-1" />
@@ -712,7 +1112,23 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                   </div>
                 </div>
               </div>
+              )}
 
+              {isBoqMode ? (
+                <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-2xl p-6 border border-emerald-200">
+                  <div className="flex items-start space-x-4">
+                    <Settings className="w-6 h-6 text-emerald-600 mt-1" />
+                    <div className="flex-1">
+                      <h4 className="text-lg font-bold text-emerald-900 mb-2">Catalog Matching</h4>
+                      <div className="text-sm text-emerald-700 space-y-1">
+                        <div>• <strong>Header detection:</strong> title blocks above the column headings are skipped</div>
+                        <div>• <strong>Matching:</strong> lines are matched to your in-stock equipment by model code, or by brand and capacity</div>
+                        <div>• <strong>Unmatched lines:</strong> kept in the draft at the client's rate and flagged for review</div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ) : (
               <div className="bg-gradient-to-br from-emerald-50 to-teal-50 rounded-2xl p-6 border border-emerald-200">
                 <div className="flex items-start space-x-4">
                   <Settings className="w-6 h-6 text-emerald-600 mt-1" />
@@ -730,6 +1146,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                   </div>
                 </div>
               </div>
+              )}
             </div>
           )}
 
@@ -739,7 +1156,9 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
               <div className="text-center">
                 <h3 className="text-2xl font-bold text-gray-900 mb-2">Smart Column Mapping</h3>
                 <p className="text-gray-600 mb-6">
-                  AI-powered mapping detected your MEP equipment fields. Review and adjust as needed.
+                  {isBoqMode
+                    ? 'Detected the BoQ columns. Description and quantity are required; brand, model and power improve matching.'
+                    : 'AI-powered mapping detected your MEP equipment fields. Review and adjust as needed.'}
                 </p>
                 <div className="inline-flex items-center px-4 py-2 bg-emerald-100 text-emerald-800 rounded-lg text-sm font-medium">
                   <FileSpreadsheet className="w-4 h-4 mr-2" />
@@ -795,7 +1214,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                             className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-emerald-500"
                           >
                             <option value="">-- Skip this column --</option>
-                            {systemFields.map(field => (
+                            {mappingFields.map(field => (
                               <option key={field.value} value={field.value}>
                                 {field.label}
                               </option>
@@ -826,7 +1245,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                 <div className="space-y-4">
                   <h4 className="text-lg font-bold text-gray-900">System Fields</h4>
                   <div className="space-y-3">
-                    {systemFields.map(field => {
+                    {mappingFields.map(field => {
                       const isMapped = columnMappings.some(m => m.systemField === field.value);
                       const mappedCount = columnMappings.filter(m => m.systemField === field.value).length;
                       return (
@@ -872,6 +1291,7 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                 </button>
                 <button
                   onClick={processData}
+                  disabled={isBoqMode && !['description', 'quantity'].every(field => columnMappings.some(m => m.systemField === field))}
                   className="px-8 py-3 bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-xl hover:from-emerald-700 hover:to-teal-700 transition-all duration-200 font-medium flex items-center"
                 >
                   Process Data
@@ -881,8 +1301,123 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
             </div>
           )}
 
+          {/* Step 3: BoQ match review */}
+          {step === 'preview' && isBoqMode && (
+            <div className="space-y-8">
+              <div className="text-center">
+                <h3 className="text-2xl font-bold text-gray-900 mb-2">Review Catalog Matches</h3>
+                <p className="text-gray-600 mb-6">Unmatched lines are added at the client's rate and flagged for review in the editor</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="bg-blue-50 p-4 rounded-xl border border-blue-200">
+                    <p className="text-2xl font-bold text-blue-900">{importStats.total}</p>
+                    <p className="text-blue-600 font-medium">BoQ Lines</p>
+                  </div>
+                  <div className="bg-green-50 p-4 rounded-xl border border-green-200">
+                    <p className="text-2xl font-bold text-green-900">{importStats.valid}</p>
+                    <p className="text-green-600 font-medium">Matched</p>
+                  </div>
+                  <div className="bg-amber-50 p-4 rounded-xl border border-amber-200">
+                    <p className="text-2xl font-bold text-amber-900">{importStats.errors}</p>
+                    <p className="text-amber-600 font-medium">Unmatched</p>
+                  </div>
+                </div>
+              </div>
+
+              {validationErrors.length > 0 && (
+                <div className="bg-red-50 rounded-xl p-6 border border-red-200">
+                  <h4 className="text-lg font-bold text-red-900 mb-4 flex items-center">
+                    <AlertCircle className="w-5 h-5 mr-2" />
+                    Skipped Rows
+                  </h4>
+                  <div className="space-y-2 max-h-40 overflow-y-auto">
+                    {validationErrors.map((error, index) => (
+                      <div key={index} className="text-sm text-red-800">
+                        Row {error.row}, {error.field}: {error.message}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+                <div className="overflow-x-auto max-h-96">
+                  <table className="w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">Row</th>
+                        <th className="px-4 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">BoQ Description</th>
+                        <th className="px-4 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">Qty</th>
+                        <th className="px-4 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">Matched Equipment</th>
+                        <th className="px-4 py-3 text-left text-xs font-bold text-gray-700 uppercase tracking-wider">Unit Price</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {(processedData as BoqRow[]).map((row, index) => (
+                        <tr key={index} className={row.match ? 'hover:bg-gray-50' : 'bg-amber-50'}>
+                          <td className="px-4 py-3 text-sm text-gray-900 font-medium">{row.row}</td>
+                          <td className="px-4 py-3 text-sm text-gray-900 max-w-xs">
+                            <div className="truncate" title={row.description}>{row.description}</div>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {row.quantity} {row.unit || ''}
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            {row.match ? (
+                              <div className="flex items-center space-x-2">
+                                <CheckCircle className="w-4 h-4 text-green-600" />
+                                <span className="text-gray-900">{row.match.item.brand} {row.match.item.model}</span>
+                                <span className="text-xs text-gray-500">({Math.round(row.match.score * 100)}%)</span>
+                              </div>
+                            ) : (
+                              <div className="flex items-center space-x-2 text-amber-700">
+                                <AlertTriangle className="w-4 h-4" />
+                                <span className="font-medium">Unmatched</span>
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {row.match
+                              ? formatMoney(Number(row.match.item.price_eur) || 0, row.match.item.currency)
+                              : formatMoney(row.unit_price ?? 0)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="flex justify-between">
+                <button
+                  onClick={() => setStep('mapping')}
+                  className="px-6 py-3 bg-gray-200 text-gray-800 rounded-xl hover:bg-gray-300 transition-colors font-medium"
+                >
+                  Back to Mapping
+                </button>
+                <button
+                  onClick={createBoqQuotation}
+                  disabled={importStats.total === 0 || importing}
+                  className="px-8 py-3 bg-gradient-to-r from-green-600 to-emerald-600 text-white rounded-xl hover:from-green-700 hover:to-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 font-medium flex items-center"
+                >
+                  {importing ? (
+                    <>
+                      <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    <>
+                      Create Draft Quotation
+                      <Save className="w-5 h-5 ml-2" />
+                    </>
+                  )}
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Step 3: Preview */}
-          {step === 'preview' && (
+          {step === 'preview' && !isBoqMode && (
             <div className="space-y-8">
               <div className="text-center">
                 <h3 className="text-2xl font-bold text-gray-900 mb-2">Preview Processed Data</h3>
@@ -955,7 +1490,12 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
                             <td className="px-4 py-3 text-sm text-gray-900">{row.model || '-'}</td>
                             <td className="px-4 py-3 text-sm text-gray-900">{row.category || '-'}</td>
                             <td className="px-4 py-3 text-sm text-gray-600">{row.type || '-'}</td>
-                            <td className="px-4 py-3 text-sm text-gray-900">€{row.price_eur || 0}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">
+                              {formatMoney(row.price_eur || 0, row.currency)}
+                              {row.cost_eur !== null && row.cost_eur !== undefined && (
+                                <div className="text-xs text-gray-500">Cost {formatMoney(row.cost_eur, row.currency)}</div>
+                              )}
+                            </td>
                             <td className="px-4 py-3 text-sm text-gray-500 max-w-xs">
                               <div className="truncate">
                                 {Object.keys(row.specifications || {}).length > 0 
@@ -1008,9 +1548,13 @@ export default function EquipmentImportModal({ isOpen, onClose, onImportComplete
           {importing && (
             <div className="text-center py-16">
               <Loader2 className="w-16 h-16 text-emerald-600 animate-spin mx-auto mb-6" />
-              <h3 className="text-2xl font-bold text-gray-900 mb-2">Importing MEP Equipment</h3>
-              <p className="text-gray-600">Processing your professional equipment database...</p>
-              <p className="text-sm text-gray-500 mt-2">This may take a few moments for large catalogs.</p>
+              <h3 className="text-2xl font-bold text-gray-900 mb-2">
+                {isBoqMode ? 'Creating Draft Quotation' : 'Importing MEP Equipment'}
+              </h3>
+              <p className="text-gray-600">
+                {isBoqMode ? 'Pricing the matched BoQ lines...' : 'Processing your professional equipment database...'}
+              </p>
+              {!isBoqMode && <p className="text-sm text-gray-500 mt-2">This may take a few moments for large catalogs.</p>}
             </div>
           )}
         </div>
@@ -1,117 +1,119 @@
-import React, { useRef } from 'react';
-import { X, Download, Printer, Eye } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Download, Printer, Eye, LayoutTemplate, Save, RotateCcw, FileText } from 'lucide-react';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useQuotationPdf } from '../hooks/useQuotationPdf';
+import type { PdfCompany } from '../lib/quotationPdf';
+import {
+  DEFAULT_DOCUMENT_TEMPLATE,
+  DOCUMENT_PLACEHOLDERS,
+  renderQuotationDocument,
+  type DocumentData,
+  type DocumentSection,
+  type DocumentTemplate
+} from '../../supabase/functions/_shared/documentTemplate';
 
 interface HTMLQuotationModalProps {
   isOpen: boolean;
   onClose: () => void;
   htmlContent: string;
   quotationNumber: string;
+  // Needed to store the PDF; its header, footer and terms come from the company
+  quotationId?: string;
+  company?: PdfCompany | null;
+  validUntil?: string | null;
+  onDocumentStored?: () => Promise<void> | void;
+  onError?: (message: string) => void;
+  // With data, the document is rendered from the company's template instead of htmlContent
+  documentData?: DocumentData | null;
+  template?: DocumentTemplate;
+  // Without it the template can be previewed but not changed
+  onSaveTemplate?: (template: DocumentTemplate) => Promise<void>;
 }
 
 export default function HTMLQuotationModal({ 
   isOpen, 
   onClose, 
   htmlContent, 
-  quotationNumber 
+  quotationNumber,
+  quotationId,
+  company = null,
+  validUntil,
+  onDocumentStored,
+  onError,
+  documentData = null,
+  template = DEFAULT_DOCUMENT_TEMPLATE,
+  onSaveTemplate
 }: HTMLQuotationModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  const { generatePdf, generateDocx, generating } = useQuotationPdf();
+  const [designing, setDesigning] = useState(false);
+  const [draftTemplate, setDraftTemplate] = useState<DocumentTemplate>(template);
+  const [savingTemplate, setSavingTemplate] = useState(false);
 
   // Close modal when clicking outside
   useOutsideClick(modalRef, onClose);
 
-  const handleDownloadPDF = () => {
-    // Use browser's print-to-PDF functionality
-    const printWindow = window.open('', '_blank');
-    if (printWindow) {
-      printWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <title>Quotation ${quotationNumber}</title>
-            <style>
-              @media print {
-                @page {
-                  margin: 1in;
-                  size: A4;
-                }
-                body {
-                  font-family: Arial, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                }
-                .no-print {
-                  display: none !important;
-                }
-                table {
-                  width: 100%;
-                  border-collapse: collapse;
-                  margin: 20px 0;
-                }
-                th, td {
-                  border: 1px solid #ddd;
-                  padding: 12px;
-                  text-align: left;
-                }
-                th {
-                  background-color: #f5f5f5;
-                  font-weight: bold;
-                }
-                .header {
-                  text-align: center;
-                  margin-bottom: 30px;
-                }
-                .company-info {
-                  margin-bottom: 30px;
-                }
-                .client-info {
-                  margin-bottom: 30px;
-                }
-                .total-section {
-                  margin-top: 30px;
-                  text-align: right;
-                }
-                .page-break {
-                  page-break-before: always;
-                }
-              }
-              @media screen {
-                body {
-                  font-family: Arial, sans-serif;
-                  line-height: 1.6;
-                  color: #333;
-                  margin: 20px;
-                }
-                table {
-                  width: 100%;
-                  border-collapse: collapse;
-                  margin: 20px 0;
-                }
-                th, td {
-                  border: 1px solid #ddd;
-                  padding: 12px;
-                  text-align: left;
-                }
-                th {
-                  background-color: #f5f5f5;
-                  font-weight: bold;
-                }
-              }
-            </style>
-          </head>
-          <body>
-            ${htmlContent}
-          </body>
-        </html>
-      `);
-      printWindow.document.close();
-      
-      // Wait for content to load then trigger print
-      setTimeout(() => {
-        printWindow.print();
-        printWindow.close();
-      }, 500);
+  // Start from the stored template whenever the modal opens or it was saved
+  useEffect(() => {
+    setDraftTemplate(template);
+    if (!isOpen) setDesigning(false);
+  }, [isOpen, template]);
+
+  // The preview is what gets printed and stored as the PDF
+  const documentHtml = documentData ? renderQuotationDocument(draftTemplate, documentData) : htmlContent;
+  const templateChanged = JSON.stringify(draftTemplate) !== JSON.stringify(template);
+
+  const updateSection = (key: DocumentSection['key'], changes: Partial<DocumentSection>) => {
+    setDraftTemplate(current => ({
+      sections: current.sections.map(section => (section.key === key ? { ...section, ...changes } : section))
+    }));
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!onSaveTemplate) return;
+    setSavingTemplate(true);
+    try {
+      await onSaveTemplate(draftTemplate);
+    } catch (error) {
+      onError?.((error as Error).message);
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const downloadFile = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Renders the A4 PDF, stores it as the quotation's PDF and downloads that same file
+  const handleDownloadPDF = async () => {
+    if (!quotationId) return;
+
+    try {
+      const { blob } = await generatePdf(quotationId, { html: documentHtml, quotationNumber, company, validUntil });
+      downloadFile(blob, `${quotationNumber}.pdf`);
+      await onDocumentStored?.();
+    } catch (error) {
+      onError?.((error as Error).message);
+    }
+  };
+
+  // The editable Word version, from the same template as the preview
+  const handleDownloadWord = async () => {
+    if (!quotationId || !documentData) return;
+
+    try {
+      const { blob } = await generateDocx(quotationId, { template: draftTemplate, data: documentData, quotationNumber, company, validUntil });
+      downloadFile(blob, `${quotationNumber}.docx`);
+      await onDocumentStored?.();
+    } catch (error) {
+      onError?.((error as Error).message);
     }
   };
 
@@ -164,7 +166,7 @@ export default function HTMLQuotationModal({
             </style>
           </head>
           <body>
-            ${htmlContent}
+            ${documentHtml}
           </body>
         </html>
       `);
@@ -190,6 +192,15 @@ export default function HTMLQuotationModal({
               <p className="text-slate-200 mt-1">{quotationNumber}</p>
             </div>
             <div className="flex items-center space-x-3">
+              {documentData && (
+                <button
+                  onClick={() => setDesigning(!designing)}
+                  className={`${designing ? 'bg-white text-slate-700' : 'bg-white/20 hover:bg-white/30 text-white'} px-4 py-2 rounded-xl font-medium transition-colors flex items-center`}
+                >
+                  <LayoutTemplate className="w-4 h-4 mr-2" />
+                  Design
+                </button>
+              )}
               <button
                 onClick={handlePrint}
                 className="bg-white/20 hover:bg-white/30 text-white px-4 py-2 rounded-xl font-medium transition-colors flex items-center"
@@ -197,12 +208,23 @@ export default function HTMLQuotationModal({
                 <Printer className="w-4 h-4 mr-2" />
                 Print
               </button>
+              {documentData && (
+                <button
+                  onClick={handleDownloadWord}
+                  disabled={generating || !quotationId}
+                  className="bg-white/20 hover:bg-white/30 disabled:opacity-50 text-white px-4 py-2 rounded-xl font-medium transition-colors flex items-center"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Word
+                </button>
+              )}
               <button
                 onClick={handleDownloadPDF}
-                className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-xl font-medium transition-colors flex items-center"
+                disabled={generating || !quotationId}
+                className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-4 py-2 rounded-xl font-medium transition-colors flex items-center"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Download PDF
+                {generating ? 'Generating...' : 'Download PDF'}
               </button>
               <button
                 onClick={onClose}
@@ -215,13 +237,83 @@ export default function HTMLQuotationModal({
         </div>
 
         {/* Content */}
-        <div className="flex-1 overflow-y-auto bg-gray-50">
-          <div className="max-w-4xl mx-auto bg-white shadow-lg m-6">
-            <div 
-              ref={contentRef}
-              className="p-8"
-              dangerouslySetInnerHTML={{ __html: htmlContent }}
-            />
+        <div className="flex-1 flex overflow-hidden">
+          {designing && documentData && (
+            <div className="w-96 flex-shrink-0 overflow-y-auto border-r border-gray-200 p-4 space-y-4">
+              {!onSaveTemplate && (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                  This quotation has no company, so the template can be previewed but not saved.
+                </p>
+              )}
+
+              {draftTemplate.sections.map(section => (
+                <div key={section.key} className="border border-gray-200 rounded-xl p-3">
+                  <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                    <input
+                      type="checkbox"
+                      checked={section.enabled}
+                      onChange={(e) => updateSection(section.key, { enabled: e.target.checked })}
+                      className="mr-2"
+                    />
+                    Show section
+                  </label>
+                  <input
+                    type="text"
+                    value={section.title}
+                    onChange={(e) => updateSection(section.key, { title: e.target.value })}
+                    disabled={!section.enabled}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-semibold mb-2 disabled:bg-gray-100"
+                  />
+                  <textarea
+                    value={section.body}
+                    onChange={(e) => updateSection(section.key, { body: e.target.value })}
+                    disabled={!section.enabled}
+                    rows={section.key === 'equipment' ? 2 : 4}
+                    placeholder={section.key === 'equipment' ? 'Text above the equipment table' : ''}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-100"
+                  />
+                </div>
+              ))}
+
+              <div className="text-xs text-gray-600">
+                <p className="font-medium mb-1">Placeholders</p>
+                <ul className="space-y-0.5">
+                  {DOCUMENT_PLACEHOLDERS.map(placeholder => (
+                    <li key={placeholder.key}>
+                      <code className="text-blue-700">{`{{${placeholder.key}}}`}</code> {placeholder.label}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setDraftTemplate(DEFAULT_DOCUMENT_TEMPLATE)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center"
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Default
+                </button>
+                <button
+                  onClick={handleSaveTemplate}
+                  disabled={!onSaveTemplate || !templateChanged || savingTemplate}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {savingTemplate ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="flex-1 overflow-y-auto bg-gray-50">
+            <div className="max-w-4xl mx-auto bg-white shadow-lg m-6">
+              <div 
+                ref={contentRef}
+                className="p-8"
+                dangerouslySetInnerHTML={{ __html: documentHtml }}
+              />
+            </div>
           </div>
         </div>
 
@@ -240,12 +332,23 @@ export default function HTMLQuotationModal({
                 <Printer className="w-4 h-4 mr-2" />
                 Print
               </button>
+              {documentData && (
+                <button
+                  onClick={handleDownloadWord}
+                  disabled={generating || !quotationId}
+                  className="bg-gray-600 hover:bg-gray-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors text-sm flex items-center"
+                >
+                  <FileText className="w-4 h-4 mr-2" />
+                  Save as Word
+                </button>
+              )}
               <button
                 onClick={handleDownloadPDF}
-                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors text-sm flex items-center"
+                disabled={generating || !quotationId}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg font-medium transition-colors text-sm flex items-center"
               >
                 <Download className="w-4 h-4 mr-2" />
-                Save as PDF
+                {generating ? 'Generating...' : 'Save as PDF'}
               </button>
             </div>
           </div>
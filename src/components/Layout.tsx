@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Link, useLocation } from 'react-router-dom';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { 
   Mail, 
   FileText, 
@@ -18,6 +18,8 @@ import {
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
+import { useNotifications } from '../hooks/useNotifications';
+import { useOutsideClick } from '../hooks/useOutsideClick';
 import UserProfileModal from './UserProfileModal';
 
 interface GlobalError {
@@ -74,6 +76,13 @@ export default function Layout({ children, onGlobalError }: LayoutProps) {
   const { user, profile, refreshProfile } = useAuth();
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [showNotifications, setShowNotifications] = useState(false);
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAllRead } = useNotifications();
+  const notificationsRef = useRef<HTMLDivElement>(null);
+
+  // Close notifications when clicking outside
+  useOutsideClick(notificationsRef, () => setShowNotifications(false));
 
   // Log route transitions for debugging
   useEffect(() => {
@@ -85,6 +94,18 @@ export default function Layout({ children, onGlobalError }: LayoutProps) {
     await supabase.auth.signOut();
   };
 
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch (error) {
+      onGlobalError?.({
+        title: 'Notifications Error',
+        message: `Failed to update notifications: ${(error as Error).message}`,
+        type: 'network'
+      });
+    }
+  };
+
   const currentPage = navigation.find(item => item.href === location.pathname);
 
   return (
@@ -209,7 +230,10 @@ export default function Layout({ children, onGlobalError }: LayoutProps) {
                       Edit Profile
                     </button>
                     <button
-                      onClick={() => setShowUserMenu(false)}
+                      onClick={() => {
+                        setShowNotifications(true);
+                        setShowUserMenu(false);
+                      }}
                       className="w-full flex items-center px-4 py-3 text-sm font-medium text-slate-700 rounded-xl hover:bg-gradient-to-r hover:from-slate-50 hover:to-slate-100 transition-all duration-200 group"
                     >
                       <Bell className="w-4 h-4 mr-3 group-hover:scale-110 transition-transform duration-200" />
@@ -290,10 +314,55 @@ export default function Layout({ children, onGlobalError }: LayoutProps) {
                   <span className="text-sm font-semibold text-green-700">All Systems Operational</span>
                 </div>
                 
-                <button className="relative p-3 bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 border border-slate-200/50 group">
-                  <Bell className="w-5 h-5 text-slate-600 group-hover:text-blue-600 transition-colors duration-200" />
-                  <div className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full border-2 border-white"></div>
-                </button>
+                <div ref={notificationsRef} className="relative">
+                  <button
+                    onClick={() => setShowNotifications(!showNotifications)}
+                    className="relative p-3 bg-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 border border-slate-200/50 group"
+                  >
+                    <Bell className="w-5 h-5 text-slate-600 group-hover:text-blue-600 transition-colors duration-200" />
+                    {unreadCount > 0 && (
+                      <div className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 rounded-full border-2 border-white text-[10px] font-bold text-white flex items-center justify-center">
+                        {unreadCount}
+                      </div>
+                    )}
+                  </button>
+
+                  {showNotifications && (
+                    <div className="absolute right-0 mt-2 w-96 bg-white rounded-2xl shadow-2xl border border-slate-200/50 z-50 overflow-hidden">
+                      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200/50">
+                        <p className="font-bold text-slate-900">Notifications</p>
+                        {unreadCount > 0 && (
+                          <button
+                            onClick={handleMarkAllRead}
+                            className="text-xs font-medium text-blue-600 hover:text-blue-700"
+                          >
+                            Mark all read
+                          </button>
+                        )}
+                      </div>
+                      <div className="max-h-96 overflow-y-auto divide-y divide-slate-100">
+                        {notifications.length === 0 ? (
+                          <p className="px-4 py-6 text-sm text-slate-500 text-center">No notifications yet</p>
+                        ) : (
+                          notifications.map(notification => (
+                            <button
+                              key={notification.id}
+                              onClick={() => {
+                                setShowNotifications(false);
+                                navigate('/quotations');
+                              }}
+                              className={`w-full text-left px-4 py-3 hover:bg-slate-50 transition-colors ${notification.read_at ? '' : 'bg-blue-50/50'}`}
+                            >
+                              <p className="text-sm font-semibold text-slate-900">{notification.title}</p>
+                              {notification.message && <p className="text-sm text-slate-600">{notification.message}</p>}
+                              <p className="text-xs text-slate-400 mt-1">{new Date(notification.created_at).toLocaleString()}</p>
+                            </button>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
           </div>
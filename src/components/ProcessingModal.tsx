@@ -1,4 +1,5 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useCallback, useEffect, useState, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { 
   X, 
   Loader2, 
@@ -35,12 +36,13 @@ import {
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useProcessingJob } from '../hooks/useProcessingJob';
 
 interface ProcessingModalProps {
   isOpen: boolean;
   onClose: () => void;
   emailId: string;
-  processingResult?: any;
+  jobId?: string | null;
   processingError?: string | null;
   onProcessingComplete?: (result: any) => void;
 }
@@ -67,7 +69,7 @@ export default function ProcessingModal({
   isOpen, 
   onClose, 
   emailId, 
-  processingResult, 
+  jobId, 
   processingError, 
   onProcessingComplete 
 }: ProcessingModalProps) {
@@ -133,7 +135,14 @@ export default function ProcessingModal({
   const [isProcessing, setIsProcessing] = useState(false);
   const [analysisComplete, setAnalysisComplete] = useState(false);
   const [finalComplete, setFinalComplete] = useState(false);
-  const [pollingForCompletion, setPollingForCompletion] = useState(false);
+  const [watchingForCompletion, setWatchingForCompletion] = useState(false);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const completionChannelRef = useRef<RealtimeChannel | null>(null);
+  // The job state last acted on; the job row is replaced on every realtime
+  // update and refetch, but each state is handled once
+  const handledJobStateRef = useRef<string | null>(null);
+  const { job, error: jobSubscriptionError } = useProcessingJob(jobId);
+  const displayError = processingError || jobError;
   const [analysisData, setAnalysisData] = useState<any>(null);
   const [expandedSections, setExpandedSections] = useState<string[]>(['project_summary']);
   const [showDetailedView, setShowDetailedView] = useState(false);
@@ -142,25 +151,18 @@ export default function ProcessingModal({
   // Close modal when clicking outside
   useOutsideClick(modalRef, onClose);
 
-  // Enhanced cleanup effect
-  useEffect(() => {
-    if (!isOpen) {
-      console.log('🧹 ProcessingModal closed - cleaning up state');
-      resetModalState();
-    }
-  }, [isOpen]);
-
-  useEffect(() => {
-    if (emailId) {
-      console.log(`🔄 EmailId changed to: ${emailId} - resetting modal state`);
-      resetModalState();
+  // Callbacks, as the effects below depend on them
+  const stopWatchingForCompletion = useCallback(() => {
+    if (completionChannelRef.current) {
+      supabase.removeChannel(completionChannelRef.current);
+      completionChannelRef.current = null;
     }
-  }, [emailId]);
+  }, []);
 
-  const resetModalState = () => {
+  const resetModalState = useCallback(() => {
     setAnalysisComplete(false);
     setFinalComplete(false);
-    setPollingForCompletion(false);
+    setWatchingForCompletion(false);
     setAnalysisData(null);
     setCurrentStep(0);
     setElapsedTime(0);
@@ -169,90 +171,39 @@ export default function ProcessingModal({
     setExpandedSections(['project_summary']);
     setShowDetailedView(false);
     setNeedsClarification(false);
+    setJobError(null);
+    handledJobStateRef.current = null;
+    stopWatchingForCompletion();
     setSteps(prev => prev.map(step => ({ ...step, status: 'pending', details: undefined })));
-  };
+  }, [stopWatchingForCompletion]);
 
-  useEffect(() => {
-    if (isOpen && !processingStartTime) {
-      console.log(`🚀 ProcessingModal opening - starting fresh processing for email: ${emailId}`);
-      resetModalState();
-      setProcessingStartTime(new Date());
-      setIsProcessing(true);
-      startProcessingAnimation();
-    }
-  }, [isOpen, emailId]);
+  const handleFailedProcessing = useCallback((error: string) => {
+    console.error('❌ Processing failed:', error);
+    setSteps(prev => prev.map(step => ({ ...step, status: 'failed' })));
+    setWatchingForCompletion(false);
+    stopWatchingForCompletion();
+  }, [stopWatchingForCompletion]);
 
-  // Enhanced result handling
-  useEffect(() => {
-    if (processingResult) {
-      console.log('📨 Processing result received:', processingResult);
-      
-      if (processingResult.status === 'analysis_complete') {
-        handleAnalysisComplete(processingResult);
-      } else if (processingResult.status === 'clarification_needed') {
-        handleClarificationNeeded(processingResult);
-      } else if (processingResult.success || processingResult.status === 'draft_created') {
-        handleFinalComplete(processingResult);
-      } else {
-        setIsProcessing(false);
-        handleFailedProcessing(processingResult.error || 'Processing failed');
+  const updateStepStatus = useCallback((stepIndex: number, status: 'pending' | 'processing' | 'completed' | 'failed', details?: string) => {
+    setSteps(prev => prev.map((step, index) => {
+      if (index === stepIndex) {
+        return { ...step, status, details };
+      } else if (index < stepIndex && status === 'completed') {
+        return { ...step, status: 'completed' };
       }
-    }
-  }, [processingResult]);
-
-  useEffect(() => {
-    if (processingError) {
-      setIsProcessing(false);
-      handleFailedProcessing(processingError);
-    }
-  }, [processingError]);
-
-  // Enhanced timer
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if ((isProcessing || pollingForCompletion) && processingStartTime) {
-      interval = setInterval(() => {
-        setElapsedTime(Math.floor((Date.now() - processingStartTime.getTime()) / 1000));
-      }, 1000);
-    }
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isProcessing, pollingForCompletion, processingStartTime]);
+      return step;
+    }));
+    setCurrentStep(stepIndex);
+  }, []);
 
-  const startProcessingAnimation = () => {
+  const startProcessingAnimation = useCallback(() => {
     setSteps(prev => prev.map(step => ({ ...step, status: 'pending' })));
     setTimeout(() => updateStepStatus(0, 'processing'), 500);
-  };
-
-  const handleAnalysisComplete = (result: any) => {
-    setIsProcessing(false);
-    setAnalysisComplete(true);
-    setAnalysisData(result);
-    
-    // Update AI analysis step
-    updateStepStatus(0, 'completed', 'Project requirements successfully extracted and analyzed');
-    
-    // Start background processing animation
-    setTimeout(() => updateStepStatus(1, 'processing'), 1000);
-    setTimeout(() => updateStepStatus(2, 'processing'), 2500);
-    setTimeout(() => updateStepStatus(3, 'processing'), 4000);
-    
-    // Start polling for completion
-    setPollingForCompletion(true);
-    startPollingForCompletion();
-  };
+  }, [updateStepStatus]);
 
-  const handleClarificationNeeded = (result: any) => {
+  const handleFinalComplete = useCallback((result: any) => {
     setIsProcessing(false);
-    setNeedsClarification(true);
-    setAnalysisData(result);
-    updateStepStatus(0, 'completed', 'Analysis complete - additional information needed');
-  };
-
-  const handleFinalComplete = (result: any) => {
-    setIsProcessing(false);
-    setPollingForCompletion(false);
+    setWatchingForCompletion(false);
     setFinalComplete(true);
     setAnalysisData(result);
     
@@ -285,88 +236,41 @@ export default function ProcessingModal({
     if (onProcessingComplete) {
       onProcessingComplete(result);
     }
-  };
+  }, [steps.length, onProcessingComplete]);
 
-  const startPollingForCompletion = async () => {
-    const maxAttempts = 40;
-    let attempts = 0;
-    
-    const poll = async () => {
-      attempts++;
-      console.log(`🔍 Polling for quotation completion (attempt ${attempts}/${maxAttempts})`);
-      
-      let shouldContinuePolling = true;
-      let quotationRecord = null;
-      
-      try {
-        // Get authenticated user
-        let user = null;
-        try {
-          const authPromise = supabase.auth.getUser();
-          const timeoutPromise = new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Auth timeout')), 8000)
-          );
-          
-          const { data: { user: authUser }, error: authError } = await Promise.race([
-            authPromise, 
-            timeoutPromise
-          ]) as any;
-          
-          if (authUser) {
-            user = authUser;
-            console.log(`👤 User authenticated: ${authUser.id}`);
-          }
-        } catch (authError) {
-          console.warn('⚠️ Authentication timeout:', authError.message);
-        }
-        
-        // Query quotations table
-        if (user) {
-          try {
-            const { data: record, error } = await supabase
-              .from('quotations')
-              .select('*')
-              .eq('gmail_id', emailId)
-              .eq('user_id', user.id)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .maybeSingle();
-
-            if (!error && record) {
-              quotationRecord = record;
-              console.log(`✅ Found quotation: ${record.status}`);
-            }
-          } catch (dbError) {
-            console.warn('❌ Database query failed:', dbError.message);
-          }
-        }
-        
-        // Fallback query without user_id
-        if (!quotationRecord) {
-          try {
-            const { data: fallbackRecord, error: fallbackError } = await supabase
-              .from('quotations')
-              .select('*')
-              .eq('gmail_id', emailId)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .maybeSingle();
-
-            if (!fallbackError && fallbackRecord) {
-              quotationRecord = fallbackRecord;
-              console.log(`✅ Found quotation via fallback: ${fallbackRecord.status}`);
-            }
-          } catch (fallbackError) {
-            console.warn('❌ Fallback query failed:', fallbackError.message);
-          }
-        }
-        
-        // Process result
-        if (quotationRecord) {
-          if (quotationRecord.status === 'draft') {
+  const watchForCompletion = useCallback((quotationId?: string | null) => {
+    if (!quotationId) {
+      console.warn('⚠️ No quotation id to watch - processing continues in background');
+      setWatchingForCompletion(false);
+      return;
+    }
+
+    console.log(`👀 Watching quotation ${quotationId} for completion`);
+    stopWatchingForCompletion();
+
+    completionChannelRef.current = supabase
+      .channel(`quotation_completion_${quotationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'quotations',
+          filter: `id=eq.${quotationId}`
+        },
+        (payload) => {
+          const quotationRecord = payload.new as any;
+
+          if (['failed', 'quarantined'].includes(quotationRecord.processing_metadata?.processing_status)) {
+            console.log('❌ Quotation failed');
+            stopWatchingForCompletion();
+            setJobError(quotationRecord.processing_metadata?.error || 'Quotation generation failed. Please try again.');
+            handleFailedProcessing('Quotation generation failed. Please try again.');
+          } else if (quotationRecord.status === 'draft') {
             console.log('✅ Draft quotation ready!');
-            
-            const finalResult = {
+            stopWatchingForCompletion();
+
+            handleFinalComplete({
               success: true,
               status: 'draft_created',
               message: 'Professional quotation created and ready for review',
@@ -385,55 +289,119 @@ export default function ProcessingModal({
                 stage: 'quotation_complete',
                 project_complexity: quotationRecord.analysis?.qualification_assessment?.project_complexity || 'medium'
               }
-            };
-            
-            handleFinalComplete(finalResult);
-            shouldContinuePolling = false;
-          } else if (quotationRecord.status === 'failed') {
-            console.log('❌ Quotation failed');
-            setPollingForCompletion(false);
-            handleFailedProcessing('Quotation generation failed. Please try again.');
-            shouldContinuePolling = false;
-          } else {
-            console.log(`⏳ Still processing... Status: ${quotationRecord.status}`);
+            });
           }
-        } else {
-          console.warn('⚠️ No quotation record found, continuing to poll');
         }
-        
-      } catch (error) {
-        console.error('💥 Polling error:', error);
-      }
-      
-      // Schedule next poll
-      if (shouldContinuePolling && attempts < maxAttempts) {
-        const nextInterval = attempts <= 2 ? 8000 : attempts <= 5 ? 12000 : 15000;
-        setTimeout(poll, nextInterval);
-      } else if (attempts >= maxAttempts) {
-        console.log('⏰ Polling timeout - processing may continue in background');
-        setPollingForCompletion(false);
-      }
-    };
+      )
+      .subscribe();
+  }, [stopWatchingForCompletion, handleFailedProcessing, handleFinalComplete]);
+
+  const handleAnalysisComplete = useCallback((result: any) => {
+    setIsProcessing(false);
+    setAnalysisComplete(true);
+    setAnalysisData(result);
     
-    setTimeout(poll, 25000);
-  };
+    // Update AI analysis step
+    updateStepStatus(0, 'completed', 'Project requirements successfully extracted and analyzed');
+    
+    // Start background processing animation
+    setTimeout(() => updateStepStatus(1, 'processing'), 1000);
+    setTimeout(() => updateStepStatus(2, 'processing'), 2500);
+    setTimeout(() => updateStepStatus(3, 'processing'), 4000);
+    
+    // The workflow keeps building the quotation; wait for it to land
+    setWatchingForCompletion(true);
+    watchForCompletion(result.quotation_details?.quotation_id || result.quotation_id || job?.quotation_id);
+  }, [updateStepStatus, watchForCompletion, job?.quotation_id]);
 
-  const updateStepStatus = (stepIndex: number, status: 'pending' | 'processing' | 'completed' | 'failed', details?: string) => {
-    setSteps(prev => prev.map((step, index) => {
-      if (index === stepIndex) {
-        return { ...step, status, details };
-      } else if (index < stepIndex && status === 'completed') {
-        return { ...step, status: 'completed' };
+  const handleClarificationNeeded = useCallback((result: any) => {
+    setIsProcessing(false);
+    setNeedsClarification(true);
+    setAnalysisData(result);
+    updateStepStatus(0, 'completed', 'Analysis complete - additional information needed');
+  }, [updateStepStatus]);
+
+  // Enhanced cleanup effect
+  useEffect(() => {
+    if (!isOpen) {
+      console.log('🧹 ProcessingModal closed - cleaning up state');
+      resetModalState();
+    }
+  }, [isOpen, resetModalState]);
+
+  useEffect(() => {
+    if (emailId) {
+      console.log(`🔄 EmailId changed to: ${emailId} - resetting modal state`);
+      resetModalState();
+    }
+  }, [emailId, resetModalState]);
+
+  useEffect(() => {
+    if (isOpen && !processingStartTime) {
+      console.log(`🚀 ProcessingModal opening - starting fresh processing for email: ${emailId}`);
+      resetModalState();
+      setProcessingStartTime(new Date());
+      setIsProcessing(true);
+      startProcessingAnimation();
+    }
+  }, [isOpen, emailId, processingStartTime, resetModalState, startProcessingAnimation]);
+
+  // Follow the processing job; its result replaces the old synchronous response
+  useEffect(() => {
+    const jobState = jobSubscriptionError ? `error:${jobSubscriptionError}` : job ? `${job.id}:${job.status}` : null;
+    if (!jobState || jobState === handledJobStateRef.current) return;
+    handledJobStateRef.current = jobState;
+
+    if (jobSubscriptionError) {
+      setIsProcessing(false);
+      setJobError(jobSubscriptionError);
+      handleFailedProcessing(jobSubscriptionError);
+    } else if (job?.status === 'completed' && job.result) {
+      const result: any = job.result;
+      console.log('📨 Processing result received:', result);
+
+      if (result.status === 'analysis_complete') {
+        handleAnalysisComplete(result);
+      } else if (result.status === 'clarification_needed') {
+        handleClarificationNeeded(result);
+      } else if (result.success || result.status === 'draft_created') {
+        handleFinalComplete(result);
+      } else {
+        setIsProcessing(false);
+        setJobError(result.error || 'Processing failed');
+        handleFailedProcessing(result.error || 'Processing failed');
       }
-      return step;
-    }));
-    setCurrentStep(stepIndex);
-  };
+    } else if (job?.status === 'failed') {
+      setIsProcessing(false);
+      setJobError(job.last_error || 'Processing failed');
+      handleFailedProcessing(job.last_error || 'Processing failed');
+    }
+  }, [job, jobSubscriptionError, handleFailedProcessing, handleAnalysisComplete, handleClarificationNeeded, handleFinalComplete]);
 
-  const handleFailedProcessing = (error: string) => {
-    setSteps(prev => prev.map(step => ({ ...step, status: 'failed' })));
-    setPollingForCompletion(false);
-  };
+  // Stop listening for quotation updates when the modal goes away
+  useEffect(() => {
+    return () => stopWatchingForCompletion();
+  }, [stopWatchingForCompletion]);
+
+  useEffect(() => {
+    if (processingError) {
+      setIsProcessing(false);
+      handleFailedProcessing(processingError);
+    }
+  }, [processingError, handleFailedProcessing]);
+
+  // Enhanced timer
+  useEffect(() => {
+    let interval: NodeJS.Timeout;
+    if ((isProcessing || watchingForCompletion) && processingStartTime) {
+      interval = setInterval(() => {
+        setElapsedTime(Math.floor((Date.now() - processingStartTime.getTime()) / 1000));
+      }, 1000);
+    }
+    return () => {
+      if (interval) clearInterval(interval);
+    };
+  }, [isProcessing, watchingForCompletion, processingStartTime]);
 
   const toggleSection = (sectionId: string) => {
     setExpandedSections(prev => 
@@ -790,7 +758,7 @@ export default function ProcessingModal({
                         <p className="text-sm text-blue-700">Equipment matching, pricing optimization, and document generation in progress...</p>
                       </div>
                     </div>
-                    {pollingForCompletion && (
+                    {watchingForCompletion && (
                       <RefreshCw className="w-5 h-5 text-blue-600 animate-spin" />
                     )}
                   </div>
@@ -799,7 +767,7 @@ export default function ProcessingModal({
                       <div className="bg-gradient-to-r from-blue-500 to-indigo-600 h-2 rounded-full animate-pulse" style={{ width: '75%' }}></div>
                     </div>
                     <p className="text-xs text-blue-600 mt-1">
-                      {pollingForCompletion ? 'Monitoring every 15 seconds...' : 'Processing continues in background...'}
+                      {watchingForCompletion ? 'Waiting for the workflow to finish...' : 'Processing continues in background...'}
                     </p>
                   </div>
                 </div>
@@ -834,6 +802,14 @@ export default function ProcessingModal({
                   <CheckCircle className="w-6 h-6 text-green-600 mr-3" />
                   <h3 className="text-lg font-semibold text-green-900">🎉 Professional Quotation Ready!</h3>
                 </div>
+
+                {analysisData.fallback_from && (
+                  <div className="bg-yellow-50 rounded-lg p-3 border border-yellow-200 mb-4">
+                    <p className="text-yellow-800 text-sm">
+                      <strong>Built-in analyzer draft:</strong> the {analysisData.fallback_from} workflow was unavailable, so this draft was estimated from the email text and your equipment database. Check quantities and pricing before sending.
+                    </p>
+                  </div>
+                )}
                 
                 <div className="bg-white rounded-lg p-4 border border-green-200 mb-4">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -900,13 +876,13 @@ export default function ProcessingModal({
           )}
 
           {/* Error Display */}
-          {processingError && (
+          {displayError && (
             <div className="mt-8 p-6 bg-red-50 rounded-xl border-2 border-red-200">
               <div className="flex items-center mb-4">
                 <AlertCircle className="w-6 h-6 text-red-600 mr-3" />
                 <h3 className="text-lg font-semibold text-red-900">Processing Issue</h3>
               </div>
-              <p className="text-red-700 leading-relaxed mb-4">{processingError}</p>
+              <p className="text-red-700 leading-relaxed mb-4">{displayError}</p>
               <div className="bg-red-100 rounded-lg p-3 border border-red-300 mb-4">
                 <p className="text-red-800 text-sm">
                   <strong>Common causes:</strong> Complex email formatting, network connectivity, or incomplete project information.
@@ -922,7 +898,7 @@ export default function ProcessingModal({
           )}
 
           {/* Initial Processing State */}
-          {isProcessing && !analysisComplete && !processingError && (
+          {isProcessing && !analysisComplete && !displayError && (
             <div className="mt-8 p-6 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl border-2 border-blue-200">
               <div className="flex items-center justify-center mb-6">
                 <div className="relative">
@@ -935,6 +911,14 @@ export default function ProcessingModal({
                 <p className="text-blue-700 mb-6">
                   Our advanced AI is analyzing your project requirements and extracting technical specifications...
                 </p>
+                {job?.status === 'queued' && job.attempts > 0 && (
+                  <div className="bg-yellow-50 rounded-lg p-3 border border-yellow-200 mb-6 text-left">
+                    <p className="text-yellow-800 text-sm">
+                      <strong>Attempt {job.attempts} of {job.max_attempts} failed</strong>
+                      {job.last_error ? `: ${job.last_error}` : ''}. Retrying automatically...
+                    </p>
+                  </div>
+                )}
                 <div className="bg-blue-100 rounded-lg p-4 border border-blue-300 mb-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-blue-800">
                     <div className="space-y-2">
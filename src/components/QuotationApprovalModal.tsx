@@ -27,6 +27,8 @@ import {
   Gauge
 } from 'lucide-react';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { fromItemRows, type QuotationItemRow } from '../../supabase/functions/_shared/quotationItems';
+import type { ApprovalDelivery } from '../../supabase/functions/_shared/workflowSchema';
 
 interface QuotationApprovalModalProps {
   isOpen: boolean;
@@ -38,19 +40,24 @@ interface QuotationApprovalModalProps {
     margin_percentage: number;
     analysis?: any;
     client_details?: any;
+    quotation_items?: QuotationItemRow[];
   } | null;
-  onConfirm: (quotationId: string) => Promise<void>;
+  onConfirm: (quotationId: string, delivery: ApprovalDelivery) => Promise<void>;
+  // Offers sending from the user's Gmail instead of the approval workflow
+  gmailConnected?: boolean;
 }
 
 export default function QuotationApprovalModal({ 
   isOpen, 
   onClose, 
   quotationData, 
-  onConfirm 
+  onConfirm,
+  gmailConnected = false
 }: QuotationApprovalModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
   const [confirming, setConfirming] = useState(false);
   const [acknowledged, setAcknowledged] = useState(false);
+  const [delivery, setDelivery] = useState<ApprovalDelivery>('workflow');
   const [checkedItems, setCheckedItems] = useState({
     technical: false,
     pricing: false,
@@ -72,6 +79,11 @@ export default function QuotationApprovalModal({
     }
   }, [isOpen, quotationData]);
 
+  // Gmail is the default whenever it is connected
+  useEffect(() => {
+    if (isOpen) setDelivery(gmailConnected ? 'gmail' : 'workflow');
+  }, [isOpen, gmailConnected]);
+
   const extractQuotationData = () => {
     if (!quotationData) return;
 
@@ -98,7 +110,7 @@ export default function QuotationApprovalModal({
       });
 
       // Extract equipment breakdown
-      const equipment = analysis?.equipment || analysis?.equipment_selection || [];
+      const equipment = fromItemRows(quotationData.quotation_items);
       
       const hvacEquipment = equipment.filter((item: any) => 
         item.ai_specialization === 'primary_hvac' ||
@@ -128,20 +140,17 @@ export default function QuotationApprovalModal({
       });
 
       // Calculate technical metrics
-      const totalCapacity = equipment.reduce((sum: number, item: any) => {
-        const capacity = item.power_kw || item.total_capacity_provided || item.cooling_capacity_kw || 0;
-        return sum + (capacity * (item.quantity || 1));
-      }, 0);
+      const totalCapacity = equipment.reduce((sum, item) => sum + (item.power_kw || 0) * (item.quantity || 1), 0);
 
       const vrfSystems = equipment.filter((item: any) => 
         item.model?.toLowerCase().includes('vrf') || 
         item.model?.toLowerCase().includes('vrv') ||
-        item.specifications?.toLowerCase().includes('vrf')
+        (typeof item.specifications === 'string' && item.specifications.toLowerCase().includes('vrf'))
       );
 
       const chillerSystems = equipment.filter((item: any) => 
         item.model?.toLowerCase().includes('chiller') ||
-        item.specifications?.toLowerCase().includes('chiller')
+        (typeof item.specifications === 'string' && item.specifications.toLowerCase().includes('chiller'))
       );
 
       const totalValue = equipment.reduce((sum: number, item: any) => sum + (item.total_price || 0), 0);
@@ -181,7 +190,7 @@ export default function QuotationApprovalModal({
 
     setConfirming(true);
     try {
-      await onConfirm(quotationData.id);
+      await onConfirm(quotationData.id, delivery);
       onClose();
     } catch (error) {
       console.error('Error confirming quotation:', error);
@@ -534,7 +543,7 @@ export default function QuotationApprovalModal({
               <div>
                 <h4 className="font-bold text-red-900 mb-2">Critical: Final Authorization Required</h4>
                 <ul className="text-red-800 space-y-1 text-sm">
-                  <li>• This quotation will be immediately sent to {clientInfo.email}</li>
+                  <li>• {delivery === 'gmail' ? 'This quotation will be ready to send' : 'This quotation will be immediately sent'} to {clientInfo.email}</li>
                   <li>• The quotation becomes legally binding upon client acceptance</li>
                   <li>• No modifications can be made after transmission</li>
                   <li>• All technical specifications become contractual commitments</li>
@@ -543,6 +552,45 @@ export default function QuotationApprovalModal({
             </div>
           </div>
 
+          {/* Delivery */}
+          <div className="bg-slate-50 rounded-3xl p-6 border border-slate-200 space-y-3">
+            <h4 className="font-bold text-slate-900 flex items-center">
+              <Mail className="w-5 h-5 mr-2" />
+              Delivery
+            </h4>
+            <label className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="radio"
+                name="delivery"
+                checked={delivery === 'gmail'}
+                disabled={!gmailConnected}
+                onChange={() => setDelivery('gmail')}
+                className="mt-1"
+              />
+              <div>
+                <span className="font-medium text-slate-900">Compose and send from my Gmail</span>
+                <p className="text-sm text-slate-600">
+                  {gmailConnected
+                    ? 'Review the email, add CC/BCC and attachments, and reply in the RFQ thread.'
+                    : 'Connect Gmail on the Emails page to use this.'}
+                </p>
+              </div>
+            </label>
+            <label className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="radio"
+                name="delivery"
+                checked={delivery === 'workflow'}
+                onChange={() => setDelivery('workflow')}
+                className="mt-1"
+              />
+              <div>
+                <span className="font-medium text-slate-900">Send automatically</span>
+                <p className="text-sm text-slate-600">The approval workflow emails the quotation right away.</p>
+              </div>
+            </label>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-4 pt-6 border-t border-slate-200">
             <button
@@ -565,7 +613,7 @@ export default function QuotationApprovalModal({
                 <>
                   <Shield className="w-5 h-5 mr-3" />
                   <Send className="w-4 h-4 mr-2" />
-                  Authorize & Send Quotation
+                  {delivery === 'gmail' ? 'Authorize & Compose Email' : 'Authorize & Send Quotation'}
                 </>
               )}
             </button>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   X, 
   Save, 
@@ -27,10 +27,69 @@ import {
   Database,
   Wrench,
   Fan,
-  Briefcase
+  Briefcase,
+  AlertTriangle,
+  History,
+  HardHat,
+  Ruler,
+  Lightbulb,
+  LayoutTemplate,
+  BookmarkPlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useAuth } from '../hooks/useAuth';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useQuotationTemplates } from '../hooks/useQuotationTemplates';
+import { scaleTemplateLines, toTemplateLines, type QuotationTemplate } from '../lib/quotationTemplates';
+import QuotationRevisionHistory from './QuotationRevisionHistory';
+import {
+  defaultMarkup,
+  fromItemRows,
+  priceLine,
+  summarizePricing,
+  type QuotationItemRow
+} from '../../supabase/functions/_shared/quotationItems';
+import {
+  DEFAULT_TAX_RATES,
+  REVERSE_CHARGE_NOTE,
+  findTaxRate,
+  normalizeTaxRates,
+  resolveLineTax,
+  summarizeTax,
+  taxAmount,
+  type TaxRate
+} from '../../supabase/functions/_shared/tax';
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  convertAmount,
+  currencySymbol,
+  formatMoney,
+  rateFor,
+  type ExchangeRates
+} from '../../supabase/functions/_shared/currency';
+import {
+  DEFAULT_LABOUR_RATES,
+  LINE_TYPES,
+  findLabourRate,
+  lineTypeInfo,
+  normalizeLabourRates,
+  suggestInstallationLines,
+  type LabourRate,
+  type LineType,
+  type SuggestedLine
+} from '../../supabase/functions/_shared/lineTypes';
+import {
+  OPTION_KINDS,
+  hasOptions,
+  includedAlternative,
+  isIncluded,
+  optionGroups,
+  optionKind,
+  summarizeOptions,
+  type OptionKind
+} from '../../supabase/functions/_shared/options';
 
 interface EquipmentItem {
   id: string;
@@ -40,6 +99,8 @@ interface EquipmentItem {
   type: string;
   power_kw: number;
   price_eur: number;
+  cost_eur?: number | null;
+  currency?: string | null;
   description: string;
   specifications: any;
   in_stock: boolean;
@@ -47,17 +108,44 @@ interface EquipmentItem {
 
 interface QuotationItem {
   id?: string;
-  equipment_id?: string;
+  equipment_id?: string | null;
+  // Missing means equipment; labour lines are priced from the trade's rate
+  line_type?: LineType;
+  unit?: string | null;
+  trade?: string | null;
+  // Missing means base scope; lines of one optional extra or alternative share a group
+  option_kind?: OptionKind;
+  option_group?: string | null;
   brand: string;
   model: string;
   category: string;
   quantity: number;
+  // Cost in the quotation currency; derived from source_cost_price when the
+  // cost was entered in another currency
+  cost_price?: number;
+  cost_currency?: string | null;
+  source_cost_price?: number | null;
+  list_price?: number;
+  // Own markup on cost; both empty means the category or quotation default
+  markup_percentage?: number | null;
+  markup_amount?: number | null;
+  // Sell price, derived from cost, markup and discount
   unit_price: number;
+  discount_percentage?: number;
+  discount_amount?: number;
   total_price: number;
+  // Own VAT code; empty means the quotation's rate
+  tax_code?: string | null;
+  tax_rate?: number;
+  tax_amount?: number;
   description: string;
+  notes?: string | null;
   specifications?: any;
   ai_specialization?: string;
   power_kw?: number;
+  // Set on lines priced from a bill of quantities
+  boq_match?: 'matched' | 'unmatched';
+  boq_reference?: string;
 }
 
 interface ClientDetails {
@@ -77,16 +165,43 @@ interface QuotationData {
   analysis: any;
   total_amount: number;
   margin_percentage: number;
+  company_id?: string | null;
+  tax_code?: string | null;
+  tax_rate?: number;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  // Rates the quotation was priced with; frozen once exchange_rates_locked_at is set
+  exchange_rates?: ExchangeRates | null;
+  exchange_rates_locked_at?: string | null;
+  // Options in the total; after acceptance, those the client accepted
+  selected_alternative?: string | null;
+  selected_optionals?: string[] | null;
+  options_accepted_at?: string | null;
   status: string;
   client_details?: ClientDetails;
+  quotation_items?: QuotationItemRow[];
 }
 
+// A line's cost in the quotation currency. Lines sourced in another currency are
+// converted with the current rates; without a rate the last converted cost stays
+const lineCost = (item: QuotationItem, currency: string, rates: ExchangeRates) => {
+  const fallback = item.cost_price ?? item.unit_price;
+  if (item.source_cost_price === null || item.source_cost_price === undefined || !item.cost_currency) return fallback;
+  return convertAmount(item.source_cost_price, item.cost_currency, currency, rates) ?? fallback;
+};
+
+// Fixed amounts on a line in another currency; without a rate they stay as they are
+const convertLineAmount = <T extends number | null | undefined>(amount: T, from: string, to: string, rates: ExchangeRates): T =>
+  amount === null || amount === undefined ? amount : ((convertAmount(amount, from, to, rates) ?? amount) as T);
+
 interface QuotationEditorModalProps {
   isOpen: boolean;
   onClose: () => void;
   quotationData: QuotationData | null;
   onSave: (updatedData: any) => Promise<void>;
   onApprove: (quotationId: string, updatedData: any) => Promise<void>;
+  // Called after a revision was restored, so the caller can reload the quotation
+  onRevisionRestored?: () => Promise<void>;
 }
 
 export default function QuotationEditorModal({ 
@@ -94,11 +209,12 @@ export default function QuotationEditorModal({
   onClose, 
   quotationData, 
   onSave,
-  onApprove 
+  onApprove,
+  onRevisionRestored
 }: QuotationEditorModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
   const equipmentBrowserRef = useRef<HTMLDivElement>(null);
-  const [activeTab, setActiveTab] = useState<'equipment' | 'client' | 'pricing'>('equipment');
+  const [activeTab, setActiveTab] = useState<'equipment' | 'client' | 'pricing' | 'history'>('equipment');
   const [equipmentCategory, setEquipmentCategory] = useState<'hvac' | 'ventilation' | 'materials' | 'all'>('all');
   const [editableItems, setEditableItems] = useState<QuotationItem[]>([]);
   const [clientDetails, setClientDetails] = useState<ClientDetails>({
@@ -112,12 +228,42 @@ export default function QuotationEditorModal({
     building_type: ''
   });
   const [marginPercentage, setMarginPercentage] = useState(25);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>(DEFAULT_TAX_RATES);
+  const [labourRates, setLabourRates] = useState<LabourRate[]>(DEFAULT_LABOUR_RATES);
+  // Installation labour offered for the last equipment added
+  const [suggestedLines, setSuggestedLines] = useState<SuggestedLine[]>([]);
+  // Lines picked for "Save as template"; none picked means all lines
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templateFactors, setTemplateFactors] = useState<Record<string, string>>({});
+  const { templates: allTemplates, error: templateError, saveTemplate } = useQuotationTemplates();
+  // Templates of the quotation's company and those kept for all companies
+  const templates = allTemplates.filter(template => !template.company_id || template.company_id === quotationData?.company_id);
+  const [quotationTaxCode, setQuotationTaxCode] = useState<string | null>(null);
+  // Alternative and optional extras priced into the total
+  const [selectedAlternative, setSelectedAlternative] = useState<string | null>(null);
+  const [selectedOptionals, setSelectedOptionals] = useState<string[]>([]);
+  const [currency, setCurrency] = useState(BASE_CURRENCY);
   const [saving, setSaving] = useState(false);
   const [approving, setApproving] = useState(false);
   const [showEquipmentBrowser, setShowEquipmentBrowser] = useState(false);
   const [availableEquipment, setAvailableEquipment] = useState<EquipmentItem[]>([]);
   const [equipmentSearch, setEquipmentSearch] = useState('');
   const [loadingEquipment, setLoadingEquipment] = useState(false);
+  // Whether a line's markup / discount input is an amount rather than %, keyed by `${itemId}-markup` etc.
+  const [amountModes, setAmountModes] = useState<Record<string, boolean>>({});
+  const { profile } = useAuth();
+  const categoryMargins = profile?.category_margins;
+  const { rates: currentRates } = useExchangeRates();
+  // Approved quotations keep the rates they were approved with
+  const ratesLocked = Boolean(quotationData?.exchange_rates_locked_at);
+  const lockedRates = quotationData?.exchange_rates;
+  const exchangeRates = useMemo(
+    () => (ratesLocked ? lockedRates || {} : currentRates),
+    [ratesLocked, lockedRates, currentRates]
+  );
+  const exchangeRate = rateFor(currency, exchangeRates);
+  const money = (amount: number) => formatMoney(amount, currency);
 
   // Close main modal when clicking outside
   useOutsideClick(modalRef, onClose);
@@ -132,6 +278,35 @@ export default function QuotationEditorModal({
     }
   }, [isOpen, quotationData]);
 
+  // VAT and labour rates of the quotation's company, else of the default company
+  useEffect(() => {
+    if (!isOpen || !quotationData) return;
+
+    const loadCompanyRates = async () => {
+      try {
+        let query = supabase.from('companies').select('tax_rates, default_tax_code, labour_rates');
+        query = quotationData.company_id
+          ? query.eq('id', quotationData.company_id)
+          : query.order('is_default', { ascending: false });
+
+        const { data, error } = await query.limit(1).maybeSingle();
+        if (error) throw error;
+
+        const rates = normalizeTaxRates(data?.tax_rates);
+        setTaxRates(rates);
+        setLabourRates(normalizeLabourRates(data?.labour_rates));
+        // Drafts from before VAT was recorded start with the company default
+        if (!quotationData.tax_code && quotationData.status === 'draft') {
+          setQuotationTaxCode(data?.default_tax_code || rates[0].code);
+        }
+      } catch (error) {
+        console.error('Error loading tax rates:', error);
+      }
+    };
+
+    loadCompanyRates();
+  }, [isOpen, quotationData]);
+
   const initializeData = () => {
     if (!quotationData) return;
 
@@ -142,11 +317,13 @@ export default function QuotationEditorModal({
         analysis = JSON.parse(analysis);
       }
 
-      // Initialize equipment items
-      const equipment = analysis?.equipment || analysis?.equipment_selection || [];
-      setEditableItems(equipment.map((item: any) => ({
+      // Initialize equipment items from the quotation_items rows
+      const equipment = fromItemRows(quotationData.quotation_items);
+      setEditableItems(equipment.map(item => ({
         ...item,
         id: item.id || item.equipment_id || `temp-${Date.now()}-${Math.random()}`,
+        line_type: lineTypeInfo(item.line_type).value,
+        option_kind: optionKind(item),
         power_kw: item.power_kw || 0
       })));
 
@@ -167,6 +344,10 @@ export default function QuotationEditorModal({
       });
 
       setMarginPercentage(quotationData.margin_percentage || 25);
+      setQuotationTaxCode(quotationData.tax_code || null);
+      setCurrency(quotationData.currency || BASE_CURRENCY);
+      setSelectedAlternative(quotationData.selected_alternative || null);
+      setSelectedOptionals(quotationData.selected_optionals || []);
     } catch (error) {
       console.error('Error initializing data:', error);
     }
@@ -190,18 +371,60 @@ export default function QuotationEditorModal({
     }
   };
 
+  // A code that is no longer in the company's list keeps the rate it was saved with
+  const quotationTax = {
+    tax_code: quotationTaxCode,
+    tax_rate: findTaxRate(taxRates, quotationTaxCode)?.rate
+      ?? (quotationTaxCode === quotationData?.tax_code ? quotationData?.tax_rate || 0 : 0)
+  };
+
+  const markupFor = (item: QuotationItem) => defaultMarkup(item.category, categoryMargins, marginPercentage);
+
+  // Sell prices follow from cost, markup and discount; the quotation margin only
+  // applies to lines without their own markup or a category default
+  const pricedItems = useMemo(
+    () => editableItems.map(item => {
+      const costPrice = lineCost(item, currency, exchangeRates);
+      const pricing = priceLine(
+        { ...item, cost_price: costPrice },
+        defaultMarkup(item.category, categoryMargins, marginPercentage)
+      );
+      const tax = resolveLineTax(item, { tax_code: quotationTax.tax_code, tax_rate: quotationTax.tax_rate }, taxRates);
+      return {
+        ...item,
+        cost_price: costPrice,
+        ...pricing,
+        tax_code: item.tax_code || null,
+        tax_rate: tax.tax_rate,
+        tax_amount: taxAmount(pricing.total_price, tax.tax_rate)
+      };
+    }),
+    [editableItems, categoryMargins, marginPercentage, quotationTax.tax_code, quotationTax.tax_rate, taxRates, currency, exchangeRates]
+  );
+
+  const optionSelection = { selected_alternative: selectedAlternative, selected_optionals: selectedOptionals };
+
+  // Totals cover the base scope, the selected alternative and the selected
+  // optional extras; every option also gets its own subtotal
   const calculateTotals = () => {
-    const subtotal = editableItems.reduce((sum, item) => sum + item.total_price, 0);
-    const marginAmount = (subtotal * marginPercentage) / 100;
-    const total = subtotal + marginAmount;
-    
-    return { subtotal, marginAmount, total };
+    const includedItems = pricedItems.filter(item => isIncluded(item, pricedItems, optionSelection));
+    const summary = summarizePricing(includedItems);
+    const tax = summarizeTax(includedItems, quotationTax, taxRates);
+    return {
+      cost: summary.cost,
+      grossProfit: summary.gross_profit,
+      marginOnSell: summary.margin_percentage,
+      categories: summary.categories,
+      total: summary.sell,
+      tax,
+      options: summarizeOptions(pricedItems, optionSelection)
+    };
   };
 
   const getEquipmentByCategory = () => {
-    if (equipmentCategory === 'all') return editableItems;
+    if (equipmentCategory === 'all') return pricedItems;
     
-    return editableItems.filter(item => {
+    return pricedItems.filter(item => {
       switch (equipmentCategory) {
         case 'hvac':
           return item.ai_specialization === 'primary_hvac' || 
@@ -260,6 +483,9 @@ export default function QuotationEditorModal({
   };
 
   const addEquipmentFromDatabase = (equipment: EquipmentItem) => {
+    const equipmentCurrency = equipment.currency || BASE_CURRENCY;
+    const sourceCost = Number(equipment.cost_eur ?? equipment.price_eur) || 0;
+    const listPrice = Number(equipment.price_eur) || 0;
     const newItem: QuotationItem = {
       id: `selected-${Date.now()}-${equipment.id}`,
       equipment_id: equipment.id,
@@ -267,6 +493,12 @@ export default function QuotationEditorModal({
       model: equipment.model,
       category: equipment.category,
       quantity: 1,
+      cost_price: convertAmount(sourceCost, equipmentCurrency, currency, exchangeRates) ?? sourceCost,
+      cost_currency: equipmentCurrency,
+      source_cost_price: sourceCost,
+      list_price: convertAmount(listPrice, equipmentCurrency, currency, exchangeRates) ?? listPrice,
+      markup_percentage: null,
+      markup_amount: null,
       unit_price: equipment.price_eur,
       total_price: equipment.price_eur,
       description: equipment.description,
@@ -275,9 +507,65 @@ export default function QuotationEditorModal({
       ai_specialization: getCategorySpecialization(equipment)
     };
     setEditableItems(prev => [...prev, newItem]);
+    setSuggestedLines(suggestInstallationLines({ ...newItem, quantity: 1 }, labourRates));
     setShowEquipmentBrowser(false);
   };
 
+  // Labour rates are in EUR and follow the quotation currency like catalog costs
+  const labourCost = (rate: number) => ({
+    cost_price: convertAmount(rate, BASE_CURRENCY, currency, exchangeRates) ?? rate,
+    cost_currency: BASE_CURRENCY,
+    source_cost_price: rate
+  });
+
+  // Provisional sums are passed on at cost, so they start without markup
+  const addLine = (lineType: LineType) => {
+    const info = lineTypeInfo(lineType);
+    const labourRate = lineType === 'labour' ? labourRates[0] : undefined;
+    const newItem: QuotationItem = {
+      id: `line-${Date.now()}-${Math.random()}`,
+      line_type: lineType,
+      unit: info.units[0],
+      trade: labourRate?.trade ?? null,
+      brand: '',
+      model: '',
+      category: info.category || 'services',
+      quantity: 1,
+      ...(labourRate ? labourCost(labourRate.rate) : { cost_price: 0 }),
+      markup_percentage: lineType === 'provisional_sum' ? 0 : null,
+      markup_amount: null,
+      unit_price: 0,
+      total_price: 0,
+      description: labourRate?.label || info.label,
+      ai_specialization: lineType === 'material' ? 'materials' : 'services'
+    };
+    setEditableItems(prev => [...prev, newItem]);
+  };
+
+  const addSuggestedLines = (lines: SuggestedLine[]) => {
+    setEditableItems(prev => [
+      ...prev,
+      ...lines.map((line, index) => ({
+        id: `suggested-${Date.now()}-${index}`,
+        line_type: line.line_type,
+        unit: line.unit,
+        trade: line.trade,
+        brand: '',
+        model: '',
+        category: line.category,
+        quantity: line.quantity,
+        ...labourCost(line.cost_price),
+        markup_percentage: null,
+        markup_amount: null,
+        unit_price: 0,
+        total_price: 0,
+        description: line.description,
+        ai_specialization: 'services'
+      }))
+    ]);
+    setSuggestedLines(prev => prev.filter(line => !lines.includes(line)));
+  };
+
   const getCategorySpecialization = (equipment: EquipmentItem): string => {
     if (equipment.category?.toLowerCase() === 'air_conditioning' && 
         ['outdoor', 'cassette', 'wall', 'ducted', 'precision'].includes(equipment.type?.toLowerCase())) {
@@ -293,28 +581,139 @@ export default function QuotationEditorModal({
     return 'ventilation_auxiliary';
   };
 
-  const updateItemQuantity = (itemId: string, quantity: number) => {
-    setEditableItems(prev => prev.map(item => {
-      if (item.id === itemId) {
-        const newTotalPrice = quantity * item.unit_price;
-        return { ...item, quantity, total_price: newTotalPrice };
-      }
-      return item;
-    }));
+  // Unit and total prices are derived in pricedItems
+  const updateItem = (itemId: string, changes: Partial<QuotationItem>) => {
+    setEditableItems(prev => prev.map(item => (item.id === itemId ? { ...item, ...changes } : item)));
   };
 
-  const updateItemPrice = (itemId: string, unitPrice: number) => {
-    setEditableItems(prev => prev.map(item => {
-      if (item.id === itemId) {
-        const newTotalPrice = item.quantity * unitPrice;
-        return { ...item, unit_price: unitPrice, total_price: newTotalPrice };
-      }
-      return item;
-    }));
+  const updateItemQuantity = (itemId: string, quantity: number) => updateItem(itemId, { quantity });
+
+  const updateItemTrade = (itemId: string, trade: string) => {
+    const labourRate = findLabourRate(labourRates, trade);
+    updateItem(itemId, { trade, ...(labourRate ? labourCost(labourRate.rate) : {}) });
+  };
+
+  // A cost typed in the editor is in the quotation currency
+  const updateItemCost = (itemId: string, costPrice: number) =>
+    updateItem(itemId, { cost_price: costPrice, cost_currency: currency, source_cost_price: costPrice });
+
+  // Costs follow from their source currency; fixed amounts on the lines are
+  // converted so the quotation keeps its value
+  const changeCurrency = (nextCurrency: string) => {
+    const convert = <T extends number | null | undefined>(amount: T) =>
+      convertLineAmount(amount, currency, nextCurrency, exchangeRates);
+
+    setEditableItems(prev => prev.map(item => ({
+      ...item,
+      cost_currency: item.cost_currency || currency,
+      source_cost_price: item.source_cost_price ?? item.cost_price ?? item.unit_price,
+      list_price: convert(item.list_price),
+      markup_amount: convert(item.markup_amount),
+      discount_amount: convert(item.discount_amount)
+    })));
+    setCurrency(nextCurrency);
+  };
+
+  // The rates in use, stored on the quotation
+  const currencyFields = () => ({
+    currency,
+    exchange_rate: exchangeRate ?? 1,
+    exchange_rates: exchangeRates
+  });
+
+  // Selections of options that no longer exist are dropped
+  const optionFields = () => ({
+    selected_alternative: includedAlternative(pricedItems, optionSelection),
+    selected_optionals: selectedOptionals.filter(group => optionGroups(pricedItems, 'optional').includes(group))
+  });
+
+  // A line moved into an option joins the last option of that kind, if any
+  const updateItemOption = (item: QuotationItem, kind: OptionKind) => {
+    const groups = optionGroups(editableItems, kind);
+    updateItem(item.id!, {
+      option_kind: kind,
+      option_group: kind === 'base' ? null : item.option_group || groups[groups.length - 1] || null
+    });
+  };
+
+  const toggleOptional = (group: string) => {
+    setSelectedOptionals(prev => (prev.includes(group) ? prev.filter(entry => entry !== group) : [...prev, group]));
+  };
+
+  const isAmountMode = (item: QuotationItem, field: 'markup' | 'discount') =>
+    amountModes[`${item.id}-${field}`] ??
+    (field === 'markup' ? item.markup_amount !== null && item.markup_amount !== undefined : (item.discount_amount || 0) > 0);
+
+  // Empty markup means the default; the other unit is cleared so only one applies
+  const updateItemMarkup = (item: QuotationItem, value: string, asAmount: boolean) => {
+    const markup = value === '' ? null : parseFloat(value) || 0;
+    setAmountModes(prev => ({ ...prev, [`${item.id}-markup`]: asAmount }));
+    updateItem(item.id!, asAmount
+      ? { markup_amount: markup, markup_percentage: null }
+      : { markup_percentage: markup, markup_amount: null });
+  };
+
+  const updateItemDiscount = (item: QuotationItem, value: string, asAmount: boolean) => {
+    const discount = Math.max(0, parseFloat(value) || 0);
+    setAmountModes(prev => ({ ...prev, [`${item.id}-discount`]: asAmount }));
+    updateItem(item.id!, asAmount
+      ? { discount_amount: discount, discount_percentage: 0 }
+      : { discount_percentage: Math.min(100, discount), discount_amount: 0 });
+  };
+
+  const toggleItemSelected = (itemId: string) => {
+    setSelectedItemIds(prev => (prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]));
+  };
+
+  const saveAsTemplate = async () => {
+    const lines = selectedItemIds.length > 0
+      ? pricedItems.filter(item => selectedItemIds.includes(item.id!))
+      : pricedItems;
+    if (lines.length === 0) return;
+
+    const name = window.prompt(`Template name for ${lines.length} line${lines.length === 1 ? '' : 's'}:`);
+    if (!name?.trim()) return;
+
+    try {
+      await saveTemplate({
+        name: name.trim(),
+        description: null,
+        company_id: quotationData?.company_id ?? null,
+        currency,
+        items: toTemplateLines(lines, currency)
+      });
+      setSelectedItemIds([]);
+    } catch (error) {
+      console.error('Error saving template:', error);
+    }
+  };
+
+  // Template lines are added after the existing ones, scaled by the factor
+  // entered for the template (e.g. 4 apartments)
+  const insertTemplate = (template: QuotationTemplate) => {
+    const factor = parseFloat(templateFactors[template.id] || '1') || 1;
+    const convert = <T extends number | null | undefined>(amount: T) =>
+      convertLineAmount(amount, template.currency, currency, exchangeRates);
+
+    setEditableItems(prev => [
+      ...prev,
+      ...scaleTemplateLines(template.items, factor).map((line, index) => ({
+        ...line,
+        id: `template-${Date.now()}-${index}`,
+        line_type: lineTypeInfo(line.line_type).value,
+        option_kind: optionKind(line),
+        list_price: convert(line.list_price),
+        markup_amount: convert(line.markup_amount),
+        discount_amount: convert(line.discount_amount),
+        power_kw: line.power_kw || 0
+      }))
+    ]);
+    setShowTemplates(false);
   };
 
   const removeItem = (itemId: string) => {
     setEditableItems(prev => prev.filter(item => item.id !== itemId));
+    setSelectedItemIds(prev => prev.filter(id => id !== itemId));
   };
 
   const duplicateItem = (itemId: string) => {
@@ -333,11 +732,11 @@ export default function QuotationEditorModal({
 
     setSaving(true);
     try {
-      const { total } = calculateTotals();
+      const { total, tax } = calculateTotals();
       
       const updatedAnalysis = {
         ...quotationData.analysis,
-        equipment: editableItems,
+        equipment: pricedItems,
         project_identification: {
           client_name: clientDetails.name,
           client_company: clientDetails.company,
@@ -348,14 +747,25 @@ export default function QuotationEditorModal({
         },
         pricing: {
           margin_percentage: marginPercentage,
-          grand_total: total
+          net_total: total,
+          tax_code: quotationTax.tax_code,
+          tax_rate: quotationTax.tax_rate,
+          tax_total: tax.tax,
+          grand_total: tax.gross,
+          ...currencyFields(),
+          ...optionFields()
         }
       };
 
       await onSave({
         analysis: updatedAnalysis,
+        items: pricedItems,
         total_amount: total,
         margin_percentage: marginPercentage,
+        tax_code: quotationTax.tax_code,
+        tax_rate: quotationTax.tax_rate,
+        ...currencyFields(),
+        ...optionFields(),
         client_details: clientDetails
       });
 
@@ -371,11 +781,11 @@ export default function QuotationEditorModal({
 
     setApproving(true);
     try {
-      const { total } = calculateTotals();
+      const { total, tax } = calculateTotals();
       
       const updatedAnalysis = {
         ...quotationData.analysis,
-        equipment: editableItems,
+        equipment: pricedItems,
         project_identification: {
           client_name: clientDetails.name,
           client_company: clientDetails.company,
@@ -386,7 +796,13 @@ export default function QuotationEditorModal({
         },
         pricing: {
           margin_percentage: marginPercentage,
-          grand_total: total
+          net_total: total,
+          tax_code: quotationTax.tax_code,
+          tax_rate: quotationTax.tax_rate,
+          tax_total: tax.tax,
+          grand_total: tax.gross,
+          ...currencyFields(),
+          ...optionFields()
         }
       };
 
@@ -401,7 +817,7 @@ export default function QuotationEditorModal({
 
   if (!isOpen || !quotationData) return null;
 
-  const { subtotal, marginAmount, total } = calculateTotals();
+  const { cost, grossProfit, marginOnSell, categories, total, tax, options } = calculateTotals();
   const categoryEquipment = getEquipmentByCategory();
 
   return (
@@ -459,6 +875,17 @@ export default function QuotationEditorModal({
               <Calculator className="w-5 h-5 inline mr-2" />
               Pricing & Summary
             </button>
+            <button
+              onClick={() => setActiveTab('history')}
+              className={`py-4 px-2 border-b-2 font-medium text-sm ${
+                activeTab === 'history'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              <History className="w-5 h-5 inline mr-2" />
+              Revisions
+            </button>
           </div>
         </div>
 
@@ -516,15 +943,135 @@ export default function QuotationEditorModal({
                     </button>
                   </div>
                 </div>
-                <button
-                  onClick={() => setShowEquipmentBrowser(true)}
-                  className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white px-6 py-3 rounded-xl font-medium transition-all duration-200 flex items-center"
-                >
-                  <Database className="w-5 h-5 mr-2" />
-                  Add Equipment
-                </button>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => setShowTemplates(prev => !prev)}
+                    className="border border-slate-300 hover:bg-slate-100 text-slate-700 px-4 py-3 rounded-xl font-medium transition-colors flex items-center"
+                  >
+                    <LayoutTemplate className="w-5 h-5 mr-2" />
+                    Templates
+                  </button>
+                  <button
+                    onClick={saveAsTemplate}
+                    disabled={editableItems.length === 0}
+                    className="border border-slate-300 hover:bg-slate-100 text-slate-700 px-4 py-3 rounded-xl font-medium transition-colors flex items-center disabled:opacity-50"
+                    title={selectedItemIds.length > 0 ? 'Save the selected lines as a template' : 'Save all lines as a template'}
+                  >
+                    <BookmarkPlus className="w-5 h-5 mr-2" />
+                    Save as Template{selectedItemIds.length > 0 ? ` (${selectedItemIds.length})` : ''}
+                  </button>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && addLine(e.target.value as LineType)}
+                    className="border border-slate-300 rounded-xl px-4 py-3 font-medium text-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Add line...</option>
+                    {LINE_TYPES.filter(type => type.value !== 'equipment').map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => setShowEquipmentBrowser(true)}
+                    className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white px-6 py-3 rounded-xl font-medium transition-all duration-200 flex items-center"
+                  >
+                    <Database className="w-5 h-5 mr-2" />
+                    Add Equipment
+                  </button>
+                </div>
               </div>
 
+              {/* Templates */}
+              {showTemplates && (
+                <div className="bg-slate-50 rounded-2xl p-6 border border-slate-200">
+                  <h4 className="font-bold text-slate-900 mb-4 flex items-center">
+                    <LayoutTemplate className="w-5 h-5 mr-2" />
+                    Insert Template
+                  </h4>
+                  {templateError && (
+                    <p className="text-sm text-red-700 mb-3">{templateError}</p>
+                  )}
+                  {templates.length === 0 ? (
+                    <p className="text-sm text-slate-600">
+                      No templates yet. Select lines and use "Save as Template" to create one.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {templates.map(template => (
+                        <div key={template.id} className="flex items-center justify-between bg-white rounded-xl px-4 py-3 border border-slate-200">
+                          <div>
+                            <p className="font-semibold text-slate-900">{template.name}</p>
+                            <p className="text-sm text-slate-600">
+                              {template.items.length} lines{template.description ? ` • ${template.description}` : ''}
+                            </p>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <span className="text-sm text-slate-600">×</span>
+                            <input
+                              type="number"
+                              min="0.01"
+                              step="any"
+                              value={templateFactors[template.id] ?? '1'}
+                              onChange={(e) => setTemplateFactors(prev => ({ ...prev, [template.id]: e.target.value }))}
+                              className="w-20 border border-slate-300 rounded-lg px-2 py-1 text-center text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              title="Quantities are multiplied by this factor"
+                            />
+                            <button
+                              onClick={() => insertTemplate(template)}
+                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-sm font-medium transition-colors flex items-center"
+                            >
+                              <Plus className="w-4 h-4 mr-1" />
+                              Insert
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Suggested installation labour */}
+              {suggestedLines.length > 0 && (
+                <div className="bg-amber-50 rounded-2xl p-6 border border-amber-200">
+                  <div className="flex items-center justify-between mb-4">
+                    <h4 className="font-bold text-amber-900 flex items-center">
+                      <Lightbulb className="w-5 h-5 mr-2" />
+                      Suggested installation
+                    </h4>
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => addSuggestedLines(suggestedLines)}
+                        className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-xl text-sm font-medium transition-colors"
+                      >
+                        Add all
+                      </button>
+                      <button
+                        onClick={() => setSuggestedLines([])}
+                        className="px-4 py-2 bg-white hover:bg-amber-100 text-amber-800 border border-amber-300 rounded-xl text-sm font-medium transition-colors"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {suggestedLines.map((line, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm">
+                        <span className="text-amber-900">
+                          {line.description}: {line.quantity} {line.unit} × {formatMoney(line.cost_price)}
+                        </span>
+                        <button
+                          onClick={() => addSuggestedLines([line])}
+                          className="text-amber-700 hover:text-amber-900 font-medium flex items-center"
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Equipment List */}
               <div className="space-y-4">
                 {categoryEquipment.length === 0 ? (
@@ -546,12 +1093,24 @@ export default function QuotationEditorModal({
                         {/* Equipment Info */}
                         <div className="lg:col-span-5">
                           <div className="flex items-start space-x-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedItemIds.includes(item.id!)}
+                              onChange={() => toggleItemSelected(item.id!)}
+                              className="mt-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 w-4 h-4"
+                              title="Select for template"
+                            />
                             <div className={`p-3 rounded-2xl ${
+                              item.line_type === 'labour' ? 'bg-amber-100' :
                               item.ai_specialization === 'primary_hvac' ? 'bg-blue-100' :
                               item.ai_specialization === 'ventilation_auxiliary' ? 'bg-green-100' :
                               'bg-purple-100'
                             }`}>
-                              {item.ai_specialization === 'primary_hvac' ? (
+                              {item.line_type === 'labour' ? (
+                                <HardHat className="w-6 h-6 text-amber-600" />
+                              ) : item.line_type === 'material' ? (
+                                <Ruler className="w-6 h-6 text-purple-600" />
+                              ) : item.ai_specialization === 'primary_hvac' ? (
                                 <Activity className={`w-6 h-6 ${
                                   item.ai_specialization === 'primary_hvac' ? 'text-blue-600' : ''
                                 }`} />
@@ -562,7 +1121,60 @@ export default function QuotationEditorModal({
                               )}
                             </div>
                             <div className="flex-1">
-                              <h4 className="font-bold text-slate-900">{item.brand} {item.model}</h4>
+                              {item.line_type && item.line_type !== 'equipment' ? (
+                                <div className="space-y-2">
+                                  <input
+                                    type="text"
+                                    value={item.description}
+                                    onChange={(e) => updateItem(item.id!, { description: e.target.value })}
+                                    className="w-full border border-slate-300 rounded-xl px-3 py-2 font-bold text-slate-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  />
+                                  <div className="flex flex-wrap items-center gap-2">
+                                    <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-md text-xs font-medium">
+                                      {lineTypeInfo(item.line_type).label}
+                                    </span>
+                                    {item.line_type === 'labour' && (
+                                      <select
+                                        value={item.trade || ''}
+                                        onChange={(e) => updateItemTrade(item.id!, e.target.value)}
+                                        className="border border-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                      >
+                                        {labourRates.map(rate => (
+                                          <option key={rate.trade} value={rate.trade}>{rate.label}</option>
+                                        ))}
+                                        {item.trade && !findLabourRate(labourRates, item.trade) && (
+                                          <option value={item.trade}>{item.trade}</option>
+                                        )}
+                                      </select>
+                                    )}
+                                    <select
+                                      value={item.unit || ''}
+                                      onChange={(e) => updateItem(item.id!, { unit: e.target.value })}
+                                      className="border border-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                      {lineTypeInfo(item.line_type).units.map(unit => (
+                                        <option key={unit} value={unit}>{unit}</option>
+                                      ))}
+                                      {item.unit && !lineTypeInfo(item.line_type).units.includes(item.unit) && (
+                                        <option value={item.unit}>{item.unit}</option>
+                                      )}
+                                    </select>
+                                  </div>
+                                </div>
+                              ) : (
+                                <h4 className="font-bold text-slate-900">
+                                  {item.brand || item.model ? `${item.brand} ${item.model}` : item.description}
+                                </h4>
+                              )}
+                              {item.boq_match === 'unmatched' && (
+                                <span
+                                  className="inline-flex items-center mt-1 px-2 py-0.5 rounded-md text-xs font-medium bg-amber-100 text-amber-800"
+                                  title={item.boq_reference}
+                                >
+                                  <AlertTriangle className="w-3 h-3 mr-1" />
+                                  Not in your catalog - check price
+                                </span>
+                              )}
                               <p className="text-sm text-slate-600 capitalize">{item.category?.replace('_', ' ')}</p>
                               {item.power_kw > 0 && (
                                 <div className="flex items-center space-x-2 mt-1">
@@ -570,7 +1182,7 @@ export default function QuotationEditorModal({
                                   <span className="text-sm font-medium text-yellow-700">{item.power_kw}kW</span>
                                 </div>
                               )}
-                              {item.specifications && (
+                              {typeof item.specifications === 'string' && item.specifications && (
                                 <p className="text-xs text-slate-500 mt-1">{item.specifications}</p>
                               )}
                             </div>
@@ -579,33 +1191,50 @@ export default function QuotationEditorModal({
 
                         {/* Quantity */}
                         <div className="lg:col-span-2">
-                          <label className="block text-sm font-medium text-slate-700 mb-2">Quantity</label>
-                          <input
-                            type="number"
-                            min="1"
-                            value={item.quantity}
-                            onChange={(e) => updateItemQuantity(item.id!, parseInt(e.target.value) || 1)}
-                            className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                          />
+                          <label className="block text-sm font-medium text-slate-700 mb-2">
+                            Quantity{item.unit ? ` (${item.unit})` : ''}
+                          </label>
+                          {item.line_type && item.line_type !== 'equipment' ? (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={item.quantity}
+                              onChange={(e) => updateItemQuantity(item.id!, parseFloat(e.target.value) || 0)}
+                              className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          ) : (
+                            <input
+                              type="number"
+                              min="1"
+                              value={item.quantity}
+                              onChange={(e) => updateItemQuantity(item.id!, parseInt(e.target.value) || 1)}
+                              className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                          )}
                         </div>
 
-                        {/* Unit Price */}
+                        {/* Unit Cost */}
                         <div className="lg:col-span-2">
-                          <label className="block text-sm font-medium text-slate-700 mb-2">Unit Price (€)</label>
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Unit Cost ({currencySymbol(currency)})</label>
                           <input
                             type="number"
+                            min="0"
                             step="0.01"
-                            value={item.unit_price}
-                            onChange={(e) => updateItemPrice(item.id!, parseFloat(e.target.value) || 0)}
+                            value={item.cost_price ?? item.unit_price}
+                            onChange={(e) => updateItemCost(item.id!, parseFloat(e.target.value) || 0)}
                             className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
                           />
+                          {item.cost_currency && item.cost_currency !== currency && item.source_cost_price !== null && item.source_cost_price !== undefined && (
+                            <p className="text-xs text-slate-500 mt-1">{formatMoney(item.source_cost_price, item.cost_currency)} source cost</p>
+                          )}
                         </div>
 
                         {/* Total Price */}
                         <div className="lg:col-span-2">
-                          <label className="block text-sm font-medium text-slate-700 mb-2">Total (€)</label>
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Total ({currencySymbol(currency)})</label>
                           <div className="bg-slate-50 border border-slate-300 rounded-xl px-3 py-2 font-bold text-slate-900">
-                            €{item.total_price.toLocaleString()}
+                            {money(item.total_price)}
                           </div>
                         </div>
 
@@ -629,6 +1258,132 @@ export default function QuotationEditorModal({
                           </div>
                         </div>
                       </div>
+
+                      {/* Scope, VAT, Markup, Discount & Sell Price */}
+                      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-end mt-4 pt-4 border-t border-slate-100">
+                        <div className="lg:col-span-3">
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Scope</label>
+                          <div className="flex space-x-2">
+                            <select
+                              value={item.option_kind || 'base'}
+                              onChange={(e) => updateItemOption(item, e.target.value as OptionKind)}
+                              className="border border-slate-300 rounded-xl px-2 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {OPTION_KINDS.map(kind => (
+                                <option key={kind.value} value={kind.value}>{kind.label}</option>
+                              ))}
+                            </select>
+                            {item.option_kind && item.option_kind !== 'base' && (
+                              <>
+                                <input
+                                  type="text"
+                                  list={`option-groups-${item.option_kind}`}
+                                  value={item.option_group || ''}
+                                  onChange={(e) => updateItem(item.id!, { option_group: e.target.value || null })}
+                                  placeholder={item.option_kind === 'alternative' ? 'Option A: Daikin' : 'Optional extra'}
+                                  className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <datalist id={`option-groups-${item.option_kind}`}>
+                                  {optionGroups(editableItems, item.option_kind).map(group => (
+                                    <option key={group} value={group} />
+                                  ))}
+                                </datalist>
+                              </>
+                            )}
+                          </div>
+                          {!isIncluded(item, pricedItems, optionSelection) && (
+                            <p className="text-xs text-slate-500 mt-1">Not in the quotation total</p>
+                          )}
+                        </div>
+
+                        <div className="lg:col-span-2">
+                          <label className="block text-sm font-medium text-slate-700 mb-2">VAT</label>
+                          <select
+                            value={item.tax_code || ''}
+                            onChange={(e) => updateItem(item.id!, {
+                              tax_code: e.target.value || null,
+                              tax_rate: findTaxRate(taxRates, e.target.value)?.rate ?? 0
+                            })}
+                            className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Quotation rate ({quotationTax.tax_rate}%)</option>
+                            {taxRates.map(rate => (
+                              <option key={rate.code} value={rate.code}>{rate.label}</option>
+                            ))}
+                            {item.tax_code && !findTaxRate(taxRates, item.tax_code) && (
+                              <option value={item.tax_code}>{item.tax_code} ({item.tax_rate}%)</option>
+                            )}
+                          </select>
+                        </div>
+
+                        <div className="lg:col-span-3">
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Markup</label>
+                          <div className="flex space-x-2">
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={(isAmountMode(item, 'markup') ? item.markup_amount : item.markup_percentage) ?? ''}
+                              onChange={(e) => updateItemMarkup(item, e.target.value, isAmountMode(item, 'markup'))}
+                              placeholder={`Default ${markupFor(item)}%`}
+                              className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <select
+                              value={isAmountMode(item, 'markup') ? 'amount' : 'percentage'}
+                              onChange={(e) => updateItemMarkup(
+                                item,
+                                String((isAmountMode(item, 'markup') ? item.markup_amount : item.markup_percentage) ?? ''),
+                                e.target.value === 'amount'
+                              )}
+                              className="border border-slate-300 rounded-xl px-2 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="percentage">%</option>
+                              <option value="amount">{currencySymbol(currency)}</option>
+                            </select>
+                          </div>
+                        </div>
+
+                        <div className="lg:col-span-2">
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Discount</label>
+                          <div className="flex space-x-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={(isAmountMode(item, 'discount') ? item.discount_amount : item.discount_percentage) || ''}
+                              onChange={(e) => updateItemDiscount(item, e.target.value, isAmountMode(item, 'discount'))}
+                              placeholder="0"
+                              className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <select
+                              value={isAmountMode(item, 'discount') ? 'amount' : 'percentage'}
+                              onChange={(e) => updateItemDiscount(
+                                item,
+                                String((isAmountMode(item, 'discount') ? item.discount_amount : item.discount_percentage) || 0),
+                                e.target.value === 'amount'
+                              )}
+                              className="border border-slate-300 rounded-xl px-2 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="percentage">%</option>
+                              <option value="amount">{currencySymbol(currency)}</option>
+                            </select>
+                          </div>
+                        </div>
+
+                        <div className="lg:col-span-2">
+                          <label className="block text-sm font-medium text-slate-700 mb-2">Unit Sell ({currencySymbol(currency)})</label>
+                          <div className="bg-slate-50 border border-slate-300 rounded-xl px-3 py-2 text-slate-900">
+                            {money(item.unit_price)}
+                          </div>
+                        </div>
+
+                        <div className="lg:col-span-1">
+                          <p className="text-xs text-slate-500">GP</p>
+                          <p className={`font-bold ${item.gross_profit < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                            {money(item.gross_profit)}
+                          </p>
+                          <p className="text-xs text-slate-500">{item.margin_percentage}% margin</p>
+                        </div>
+                      </div>
                     </div>
                   ))
                 )}
@@ -754,29 +1509,32 @@ export default function QuotationEditorModal({
                     <div className="bg-white rounded-2xl p-6 border border-purple-200">
                       <div className="flex items-center space-x-3 mb-3">
                         <Package className="w-6 h-6 text-purple-600" />
-                        <span className="text-purple-800 font-medium">Equipment Subtotal</span>
+                        <span className="text-purple-800 font-medium">Total Cost</span>
+                      </div>
+                      <p className="text-3xl font-bold text-purple-900">{money(cost)}</p>
+                      <div className="flex items-center space-x-2 mt-3">
+                        <span className="text-purple-800 text-sm">Default markup</span>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={marginPercentage}
+                          onChange={(e) => setMarginPercentage(parseFloat(e.target.value) || 0)}
+                          className="w-16 border border-purple-300 rounded-lg px-2 py-1 text-center text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                        <span className="text-purple-800 text-sm">%</span>
                       </div>
-                      <p className="text-3xl font-bold text-purple-900">€{subtotal.toLocaleString()}</p>
                     </div>
                     
                     <div className="bg-white rounded-2xl p-6 border border-purple-200">
                       <div className="flex items-center space-x-3 mb-3">
                         <TrendingUp className="w-6 h-6 text-purple-600" />
-                        <span className="text-purple-800 font-medium">Profit Margin</span>
-                        <div className="flex items-center space-x-2">
-                          <input
-                            type="number"
-                            min="0"
-                            max="100"
-                            step="0.1"
-                            value={marginPercentage}
-                            onChange={(e) => setMarginPercentage(parseFloat(e.target.value) || 0)}
-                            className="w-16 border border-purple-300 rounded-lg px-2 py-1 text-center text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
-                          />
-                          <span className="text-purple-800 text-sm">%</span>
-                        </div>
+                        <span className="text-purple-800 font-medium">Gross Profit</span>
                       </div>
-                      <p className="text-3xl font-bold text-purple-900">€{marginAmount.toLocaleString()}</p>
+                      <p className={`text-3xl font-bold ${grossProfit < 0 ? 'text-red-600' : 'text-purple-900'}`}>
+                        {money(grossProfit)}
+                      </p>
+                      <p className="text-sm text-purple-700 mt-3">{marginOnSell}% margin on sell price</p>
                     </div>
                     
                     <div className="bg-gradient-to-r from-green-500 to-emerald-500 rounded-2xl p-6 text-white">
@@ -784,10 +1542,220 @@ export default function QuotationEditorModal({
                         <DollarSign className="w-6 h-6 text-white" />
                         <span className="text-green-100 font-medium">Total Project Value</span>
                       </div>
-                      <p className="text-3xl font-bold text-white">€{total.toLocaleString()}</p>
+                      <p className="text-3xl font-bold text-white">{money(total)}</p>
+                      <p className="text-sm text-green-100 mt-3">excl. VAT • {money(tax.gross)} incl. VAT</p>
+                    </div>
+                  </div>
+
+                  {/* Currency */}
+                  <div className="bg-white rounded-2xl p-6 border border-purple-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <div>
+                        <h4 className="font-bold text-purple-900">Currency</h4>
+                        <p className="text-sm text-purple-700 mt-1">
+                          {currency === BASE_CURRENCY
+                            ? 'Priced in euro'
+                            : `1 ${BASE_CURRENCY} = ${exchangeRate ?? '?'} ${currency}`}
+                          {ratesLocked && quotationData.exchange_rates_locked_at && (
+                            <> • rates frozen on {new Date(quotationData.exchange_rates_locked_at).toLocaleDateString()}</>
+                          )}
+                        </p>
+                      </div>
+                      <select
+                        value={currency}
+                        onChange={(e) => changeCurrency(e.target.value)}
+                        disabled={ratesLocked}
+                        className="border border-purple-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-slate-100"
+                      >
+                        {CURRENCIES.map(entry => (
+                          <option key={entry.code} value={entry.code} disabled={rateFor(entry.code, exchangeRates) === null}>
+                            {entry.code} ({entry.symbol}){rateFor(entry.code, exchangeRates) === null ? ' - no rate set' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {/* Options */}
+                  {hasOptions(pricedItems) && (
+                    <div className="bg-white rounded-2xl border border-purple-200 overflow-hidden">
+                      <div className="px-6 pt-6 pb-4">
+                        <h4 className="font-bold text-purple-900">Options</h4>
+                        <p className="text-sm text-purple-700 mt-1">
+                          The total includes the base scope, one alternative and the optional extras ticked here
+                          {quotationData.options_accepted_at && (
+                            <> • client's choice recorded on {new Date(quotationData.options_accepted_at).toLocaleDateString()}</>
+                          )}
+                        </p>
+                      </div>
+                      <table className="w-full text-sm">
+                        <thead className="bg-purple-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left font-semibold text-purple-800">In total</th>
+                            <th className="px-4 py-3 text-left font-semibold text-purple-800">Option</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">Net</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">VAT</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">Total incl. VAT</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {options.map(option => (
+                            <tr key={`${option.kind}-${option.group}`} className={option.included ? '' : 'text-slate-400'}>
+                              <td className="px-4 py-3">
+                                {option.kind === 'alternative' ? (
+                                  <input
+                                    type="radio"
+                                    name="selected-alternative"
+                                    checked={option.included}
+                                    onChange={() => setSelectedAlternative(option.group)}
+                                    className="text-purple-600 focus:ring-purple-500"
+                                  />
+                                ) : option.kind === 'optional' ? (
+                                  <input
+                                    type="checkbox"
+                                    checked={option.included}
+                                    onChange={() => toggleOptional(option.group!)}
+                                    className="rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+                                  />
+                                ) : (
+                                  <CheckCircle className="w-4 h-4 text-purple-600" />
+                                )}
+                              </td>
+                              <td className={`px-4 py-3 ${option.included ? 'text-slate-900' : ''}`}>
+                                {option.kind === 'base' ? 'Base scope' : `${option.kind === 'alternative' ? 'Alternative' : 'Optional extra'}: ${option.group}`}
+                              </td>
+                              <td className="px-4 py-3 text-right">{money(option.net)}</td>
+                              <td className="px-4 py-3 text-right">{money(option.tax)}</td>
+                              <td className="px-4 py-3 text-right font-semibold">{money(option.net + option.tax)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {/* VAT */}
+                  <div className="bg-white rounded-2xl p-6 border border-purple-200">
+                    <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                      <h4 className="font-bold text-purple-900">VAT</h4>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-purple-800 text-sm">Quotation rate</span>
+                        <select
+                          value={quotationTaxCode || ''}
+                          onChange={(e) => setQuotationTaxCode(e.target.value || null)}
+                          className="border border-purple-300 rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value="">No VAT</option>
+                          {taxRates.map(rate => (
+                            <option key={rate.code} value={rate.code}>{rate.label}</option>
+                          ))}
+                          {quotationTaxCode && !findTaxRate(taxRates, quotationTaxCode) && (
+                            <option value={quotationTaxCode}>{quotationTaxCode} ({quotationTax.tax_rate}%)</option>
+                          )}
+                        </select>
+                      </div>
                     </div>
+                    <table className="w-full text-sm">
+                      <thead className="bg-purple-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-semibold text-purple-800">Rate</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Net</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">VAT</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {tax.breakdown.map(group => (
+                          <tr key={`${group.code}-${group.rate}`}>
+                            <td className="px-4 py-3 text-slate-900">{group.label}</td>
+                            <td className="px-4 py-3 text-right text-slate-700">{money(group.net)}</td>
+                            <td className="px-4 py-3 text-right text-slate-700">{money(group.tax)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot className="border-t border-purple-200">
+                        <tr>
+                          <td className="px-4 py-3 font-semibold text-purple-900">Total</td>
+                          <td className="px-4 py-3 text-right text-slate-700">{money(tax.net)}</td>
+                          <td className="px-4 py-3 text-right text-slate-700">{money(tax.tax)}</td>
+                        </tr>
+                        <tr>
+                          <td colSpan={2} className="px-4 py-3 font-semibold text-purple-900">Total incl. VAT</td>
+                          <td className="px-4 py-3 text-right font-bold text-purple-900">{money(tax.gross)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                    {tax.reverse_charge && (
+                      <p className="text-xs text-slate-500 mt-3">{REVERSE_CHARGE_NOTE}</p>
+                    )}
+                  </div>
+
+                  {/* Line Pricing */}
+                  <div className="bg-white rounded-2xl border border-purple-200 overflow-hidden">
+                    <h4 className="font-bold text-purple-900 px-6 pt-6 pb-4">Line Pricing</h4>
+                    <table className="w-full text-sm">
+                      <thead className="bg-purple-50">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-semibold text-purple-800">Item</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Qty</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Unit Cost</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Unit Sell</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Total</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">GP</th>
+                          <th className="px-4 py-3 text-right font-semibold text-purple-800">Margin</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {pricedItems.map(item => (
+                          <tr key={item.id}>
+                            <td className="px-4 py-3 text-slate-900">
+                              {item.brand || item.model ? `${item.brand} ${item.model}` : item.description}
+                              {item.option_kind && item.option_kind !== 'base' && (
+                                <span className="ml-2 text-xs text-slate-500">{item.option_group || OPTION_KINDS.find(kind => kind.value === item.option_kind)?.label}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right text-slate-700">{item.quantity}</td>
+                            <td className="px-4 py-3 text-right text-slate-700">{money(item.cost_price ?? 0)}</td>
+                            <td className="px-4 py-3 text-right text-slate-700">{money(item.unit_price)}</td>
+                            <td className="px-4 py-3 text-right font-semibold text-slate-900">{money(item.total_price)}</td>
+                            <td className={`px-4 py-3 text-right ${item.gross_profit < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                              {money(item.gross_profit)}
+                            </td>
+                            <td className="px-4 py-3 text-right text-slate-700">{item.margin_percentage}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
 
+                  {/* Category Pricing */}
+                  {categories.length > 0 && (
+                    <div className="bg-white rounded-2xl border border-purple-200 overflow-hidden">
+                      <h4 className="font-bold text-purple-900 px-6 pt-6 pb-4">By Category</h4>
+                      <table className="w-full text-sm">
+                        <thead className="bg-purple-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left font-semibold text-purple-800">Category</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">Cost</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">Sell</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">GP</th>
+                            <th className="px-4 py-3 text-right font-semibold text-purple-800">Margin</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {categories.map(category => (
+                            <tr key={category.category}>
+                              <td className="px-4 py-3 text-slate-900 capitalize">{category.category.replace('_', ' ')}</td>
+                              <td className="px-4 py-3 text-right text-slate-700">{money(category.cost)}</td>
+                              <td className="px-4 py-3 text-right text-slate-700">{money(category.sell)}</td>
+                              <td className="px-4 py-3 text-right text-slate-700">{money(category.gross_profit)}</td>
+                              <td className="px-4 py-3 text-right text-slate-700">{category.margin_percentage}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
                   {/* Project Statistics */}
                   <div className="bg-white rounded-2xl p-6 border border-purple-200">
                     <h4 className="font-bold text-purple-900 mb-4">Project Statistics</h4>
@@ -821,6 +1789,17 @@ export default function QuotationEditorModal({
             </div>
           )}
 
+          {/* Revisions Tab */}
+          {activeTab === 'history' && (
+            <QuotationRevisionHistory
+              quotationId={quotationData.id}
+              quotationStatus={quotationData.status}
+              onRestored={async () => {
+                await onRevisionRestored?.();
+              }}
+            />
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-4 pt-8 border-t border-slate-200">
             <button
@@ -964,7 +1943,7 @@ export default function QuotationEditorModal({
                                 </div>
                               )}
                             </div>
-                            <span className="text-green-600 font-bold">€{equipment.price_eur.toLocaleString()}</span>
+                            <span className="text-green-600 font-bold">{formatMoney(equipment.price_eur, equipment.currency)}</span>
                           </div>
                           <p className="text-xs text-slate-500 mb-3">{equipment.description}</p>
                           <button
@@ -0,0 +1,276 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send, Paperclip, Mail, AlertTriangle } from 'lucide-react';
+import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useQuotationEmail, type QuotationToEmail } from '../hooks/useQuotationEmail';
+import { gmailService } from '../lib/gmail';
+
+interface QuotationEmailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  quotation: QuotationToEmail | null;
+  clientEmail: string;
+  clientName: string;
+  projectName: string;
+  companyName: string;
+  gmailConnected: boolean;
+  onSent: () => Promise<void> | void;
+  onError?: (message: string) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseAddresses = (value: string) => value.split(/[,;\s]+/).map(address => address.trim()).filter(Boolean);
+
+// Emails added by hand get a made-up id, so there is no Gmail thread to reply in
+const hasRfqThread = (quotation: QuotationToEmail | null) =>
+  !!quotation?.gmail_id && !quotation.gmail_id.startsWith('manual-');
+
+export default function QuotationEmailModal({
+  isOpen,
+  onClose,
+  quotation,
+  clientEmail,
+  clientName,
+  projectName,
+  companyName,
+  gmailConnected,
+  onSent,
+  onError
+}: QuotationEmailModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null);
+  const { sendQuotation, sending, error } = useQuotationEmail();
+  // Mounted afresh for every quotation (keyed by its id), so the fields start from it
+  const newSubject = `Quotation ${quotation?.quotation_number || ''}${projectName ? ` - ${projectName}` : ''}`;
+  const [to, setTo] = useState(clientEmail);
+  const [cc, setCc] = useState('');
+  const [bcc, setBcc] = useState('');
+  const [subject, setSubject] = useState(newSubject);
+  const [body, setBody] = useState(
+    `Dear ${clientName || 'Sir/Madam'},\n\n` +
+    `Please find attached our quotation ${quotation?.quotation_number || ''}${projectName ? ` for ${projectName}` : ''}.\n\n` +
+    'We remain at your disposal for any questions.\n\n' +
+    `Kind regards,\n${companyName}`
+  );
+  const [attachPdf, setAttachPdf] = useState(!!quotation?.pdf_url);
+  const [attachDocx, setAttachDocx] = useState(false);
+  const [replyToRfq, setReplyToRfq] = useState(hasRfqThread(quotation));
+  const [rfqSubject, setRfqSubject] = useState<string | null>(null);
+  const rfqGmailId = hasRfqThread(quotation) ? quotation!.gmail_id! : null;
+
+  // Close modal when clicking outside
+  useOutsideClick(modalRef, onClose);
+
+  // A reply keeps the RFQ's subject, which Gmail needs to thread it
+  useEffect(() => {
+    if (!isOpen || !rfqGmailId || !gmailConnected) return;
+
+    gmailService.getEmailDetails(rfqGmailId).then(rfq => {
+      if (!rfq) return;
+      setRfqSubject(rfq.subject);
+      setSubject(/^re:/i.test(rfq.subject) ? rfq.subject : `Re: ${rfq.subject}`);
+    });
+  }, [isOpen, rfqGmailId, gmailConnected]);
+
+  const handleReplyToggle = (checked: boolean) => {
+    setReplyToRfq(checked);
+    if (checked && rfqSubject) {
+      setSubject(/^re:/i.test(rfqSubject) ? rfqSubject : `Re: ${rfqSubject}`);
+    } else if (!checked) {
+      setSubject(newSubject);
+    }
+  };
+
+  const invalidAddresses = [...parseAddresses(to), ...parseAddresses(cc), ...parseAddresses(bcc)]
+    .filter(address => !EMAIL_PATTERN.test(address));
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quotation || invalidAddresses.length > 0) return;
+
+    try {
+      await sendQuotation(quotation, {
+        to: parseAddresses(to),
+        cc: parseAddresses(cc),
+        bcc: parseAddresses(bcc),
+        subject: subject.trim(),
+        body,
+        attachPdf,
+        attachDocx,
+        replyToRfq: replyToRfq && hasRfqThread(quotation)
+      });
+      await onSent();
+      onClose();
+    } catch (err) {
+      onError?.((err as Error).message);
+    }
+  };
+
+  if (!isOpen || !quotation) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div ref={modalRef} className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <Mail className="w-6 h-6 text-blue-600 mr-3" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Send Quotation</h2>
+              <p className="text-sm text-gray-500">{quotation.quotation_number}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSend} className="p-6 space-y-4">
+          {!gmailConnected && (
+            <div className="flex items-start bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+              <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              Connect your Gmail account on the Emails page to send quotations from it.
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              To *
+            </label>
+            <input
+              type="text"
+              required
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="client@company.com"
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                CC
+              </label>
+              <input
+                type="text"
+                value={cc}
+                onChange={(e) => setCc(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="consultant@company.com"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                BCC
+              </label>
+              <input
+                type="text"
+                value={bcc}
+                onChange={(e) => setBcc(e.target.value)}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {invalidAddresses.length > 0 && (
+            <p className="text-sm text-red-600">Not a valid address: {invalidAddresses.join(', ')}</p>
+          )}
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={replyToRfq && hasRfqThread(quotation)}
+              disabled={!hasRfqThread(quotation)}
+              onChange={(e) => handleReplyToggle(e.target.checked)}
+              className="mr-2"
+            />
+            Reply in the thread of the original RFQ
+            {!hasRfqThread(quotation) && <span className="text-gray-400 ml-1">(no RFQ email)</span>}
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Subject *
+            </label>
+            <input
+              type="text"
+              required
+              value={subject}
+              onChange={(e) => setSubject(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Message
+            </label>
+            <textarea
+              rows={8}
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+            <p className="text-sm font-medium text-gray-700 flex items-center">
+              <Paperclip className="w-4 h-4 mr-2" />
+              Attachments
+            </p>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={attachPdf && !!quotation.pdf_url}
+                disabled={!quotation.pdf_url}
+                onChange={(e) => setAttachPdf(e.target.checked)}
+                className="mr-2"
+              />
+              {quotation.quotation_number}.pdf
+            </label>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={attachDocx && !!quotation.docx_url}
+                disabled={!quotation.docx_url}
+                onChange={(e) => setAttachDocx(e.target.checked)}
+                className="mr-2"
+              />
+              {quotation.quotation_number}.docx
+            </label>
+            {(!quotation.pdf_url || !quotation.docx_url) && (
+              <p className="text-xs text-gray-500">
+                Documents are attached once generated from the quotation's Document view.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={sending || !gmailConnected || invalidAddresses.length > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {sending ? 'Sending...' : 'Send'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
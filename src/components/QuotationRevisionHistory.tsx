@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, GitCompare, Plus, Minus, Edit3 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth';
+import { useQuotationRevisions } from '../hooks/useQuotationRevisions';
+import {
+  diffRevisions,
+  summarizeDiff,
+  REVISION_SOURCE_LABELS,
+  type LineChange,
+  type QuotationRevision
+} from '../lib/quotationRevisions';
+import { formatMoney } from '../../supabase/functions/_shared/currency';
+
+interface QuotationRevisionHistoryProps {
+  quotationId: string;
+  quotationStatus: string;
+  onRestored: () => Promise<void> | void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  quantity: 'Qty',
+  unit: 'Unit',
+  option_kind: 'Scope',
+  option_group: 'Option',
+  cost_price: 'Unit cost',
+  markup_percentage: 'Markup',
+  markup_amount: 'Markup',
+  unit_price: 'Unit price',
+  discount_percentage: 'Discount',
+  discount_amount: 'Discount',
+  total_price: 'Line total',
+  tax_rate: 'VAT rate',
+  description: 'Description',
+  notes: 'Notes',
+  total_amount: 'Total amount',
+  margin_percentage: 'Margin',
+  gross_amount: 'Total incl. VAT',
+  currency: 'Currency',
+  name: 'Client name',
+  company: 'Company',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  project_name: 'Project',
+  location: 'Location',
+  building_type: 'Building type'
+};
+
+const CHANGE_STYLES: Record<LineChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800'
+};
+
+function formatValue(field: string, value: unknown, currency?: string): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (['cost_price', 'markup_amount', 'unit_price', 'discount_amount', 'total_price', 'total_amount', 'gross_amount'].includes(field)) {
+    return formatMoney(Number(value), currency);
+  }
+  if (['markup_percentage', 'discount_percentage', 'margin_percentage', 'tax_rate'].includes(field)) return `${Number(value)}%`;
+  return String(value);
+}
+
+export default function QuotationRevisionHistory({ quotationId, quotationStatus, onRestored }: QuotationRevisionHistoryProps) {
+  const { user } = useAuth();
+  const { revisions, loading, restoring, error, restoreRevision } = useQuotationRevisions(quotationId);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+
+  // Default comparison: the latest revision against the one before it
+  useEffect(() => {
+    setToId(revisions[0]?.id || '');
+    setFromId(revisions[1]?.id || revisions[0]?.id || '');
+  }, [revisions]);
+
+  const revisionById = (id: string) => revisions.find(revision => revision.id === id);
+  const from = revisionById(fromId);
+  const to = revisionById(toId);
+  const diff = useMemo(() => (from && to ? diffRevisions(from, to) : null), [from, to]);
+
+  const summaryFor = (revision: QuotationRevision, index: number) => {
+    const previous = revisions[index + 1];
+    if (revision.source === 'restore') return `Restored revision ${revision.restored_from}`;
+    return previous ? summarizeDiff(diffRevisions(previous, revision)) : `${revision.items.length} items`;
+  };
+
+  const authorFor = (revision: QuotationRevision) => {
+    if (!revision.created_by) return 'System';
+    return revision.created_by === user?.id ? 'You' : 'Another user';
+  };
+
+  const handleRestore = async (revision: QuotationRevision) => {
+    const confirmed = window.confirm(
+      `Restore revision ${revision.revision}? The current lines, pricing and client details will be replaced. ` +
+      'The current state stays in the history.'
+    );
+    if (!confirmed) return;
+
+    try {
+      await restoreRevision(revision.id);
+      await onRestored();
+    } catch {
+      // Surfaced through the hook's error state
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="text-slate-600 mt-4">Loading revision history...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-2xl p-4 text-sm text-red-800">{error}</div>
+      )}
+
+      {/* Revision List */}
+      <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center">
+          <History className="w-5 h-5 text-slate-600 mr-3" />
+          <h3 className="text-xl font-bold text-slate-900">Revision History</h3>
+          <span className="ml-3 text-sm text-slate-500">{revisions.length} revisions</span>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="px-6 py-8 text-center text-slate-500">No revisions yet. Saving the draft records the first one.</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="px-6 py-4 flex items-center justify-between hover:bg-slate-50">
+                <div>
+                  <div className="flex items-center space-x-3">
+                    <span className="font-bold text-slate-900">Revision {revision.revision}</span>
+                    <span className="px-2 py-1 bg-slate-100 text-slate-700 rounded-full text-xs font-medium">
+                      {REVISION_SOURCE_LABELS[revision.source] || revision.source}
+                    </span>
+                    {index === 0 && (
+                      <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs font-medium">Current</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-slate-600 mt-1">
+                    {format(new Date(revision.created_at), 'MMM d, yyyy HH:mm')} • {authorFor(revision)} • {summaryFor(revision, index)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <span className="font-semibold text-slate-900">{formatMoney(Number(revision.total_amount || 0), revision.currency)}</span>
+                  {index > 0 && quotationStatus === 'draft' && (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoring}
+                      className="px-4 py-2 bg-slate-100 text-slate-700 rounded-xl hover:bg-slate-200 disabled:opacity-50 transition-colors text-sm font-medium flex items-center"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Revision Comparison */}
+      {revisions.length > 1 && (
+        <div className="bg-gradient-to-br from-slate-50 to-blue-50 rounded-3xl p-6 border border-slate-200">
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <GitCompare className="w-5 h-5 text-blue-600" />
+            <span className="font-bold text-slate-900">Compare revision</span>
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="border border-slate-300 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.id}>Revision {revision.revision}</option>
+              ))}
+            </select>
+            <span className="text-slate-600">with</span>
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="border border-slate-300 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.id}>Revision {revision.revision}</option>
+              ))}
+            </select>
+          </div>
+
+          {diff && diff.lines.length === 0 && diff.totals.length === 0 && diff.client.length === 0 ? (
+            <p className="text-slate-600">These revisions are identical.</p>
+          ) : diff && (
+            <div className="space-y-6">
+              {diff.lines.length > 0 && (
+                <div className="bg-white rounded-2xl border border-slate-200 overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left font-semibold text-slate-700">Line</th>
+                        <th className="px-4 py-3 text-left font-semibold text-slate-700">Change</th>
+                        <th className="px-4 py-3 text-left font-semibold text-slate-700">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {diff.lines.map((change, index) => (
+                        <tr key={index}>
+                          <td className="px-4 py-3 font-medium text-slate-900">{change.label}</td>
+                          <td className="px-4 py-3">
+                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${CHANGE_STYLES[change.kind]}`}>
+                              {change.kind === 'added' && <Plus className="w-3 h-3 mr-1" />}
+                              {change.kind === 'removed' && <Minus className="w-3 h-3 mr-1" />}
+                              {change.kind === 'changed' && <Edit3 className="w-3 h-3 mr-1" />}
+                              {change.kind.charAt(0).toUpperCase() + change.kind.slice(1)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-slate-700">
+                            {change.kind === 'changed'
+                              ? change.fields.map(field => (
+                                  <div key={field}>
+                                    {FIELD_LABELS[field] || field}: {formatValue(field, change.before?.[field as keyof typeof change.before], diff.currency)}
+                                    {' → '}
+                                    <span className="font-semibold">{formatValue(field, change.after?.[field as keyof typeof change.after], diff.currency)}</span>
+                                  </div>
+                                ))
+                              : (() => {
+                                  const line = change.after || change.before;
+                                  return `${line?.quantity} × ${formatValue('unit_price', line?.unit_price, diff.currency)} = ${formatValue('total_price', line?.total_price, diff.currency)}`;
+                                })()}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {[...diff.totals, ...diff.client].length > 0 && (
+                <div className="bg-white rounded-2xl border border-slate-200 p-4 space-y-2 text-sm">
+                  {[...diff.totals, ...diff.client].map(change => (
+                    <div key={change.field} className="flex items-center justify-between">
+                      <span className="text-slate-600">{FIELD_LABELS[change.field] || change.field}</span>
+                      <span className="text-slate-900">
+                        {formatValue(change.field, change.before, diff.currency)} → <span className="font-semibold">{formatValue(change.field, change.after, diff.currency)}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
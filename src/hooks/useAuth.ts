@@ -11,6 +11,9 @@ interface UserProfile {
   address: string;
   job_title: string;
   website?: string;
+  workflow_provider?: 'n8n' | 'local' | 'fixture' | null;
+  // Default markup on cost in percent, by equipment category
+  category_margins?: Record<string, number>;
 }
 
 interface AuthState {
@@ -0,0 +1,56 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+
+// Links to the client acceptance portal: the app's /portal page, with a token
+// issued by the quotation-portal edge function
+export function useClientPortal() {
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Issues a new link for the quotation; earlier links stop working
+  const createClientLink = useCallback(async (quotationId: string): Promise<string> => {
+    console.log('🔗 ClientPortal: Creating client link for quotation:', quotationId);
+    setCreatingLink(true);
+    setError(null);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('User authentication required');
+      }
+
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/quotation-portal`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'create_link',
+          quotation_id: quotationId
+        })
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to create client link');
+      }
+
+      console.log('🔗 ClientPortal: Client link created');
+      return `${window.location.origin}/portal?token=${encodeURIComponent(result.token)}`;
+    } catch (err) {
+      console.error('🔗 ClientPortal: Error creating client link:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setCreatingLink(false);
+    }
+  }, []);
+
+  return {
+    creatingLink,
+    error,
+    createClientLink
+  };
+}
@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { ExchangeRates } from '../../supabase/functions/_shared/currency';
+
+export interface ExchangeRateRow {
+  id: string;
+  currency: string;
+  rate: number;
+  updated_at: string;
+}
+
+// The user's hand-maintained exchange rates, as units per 1 EUR
+export function useExchangeRates() {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<ExchangeRateRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRates = useCallback(async () => {
+    if (!user) return;
+
+    console.log('💱 ExchangeRates: Loading exchange rates');
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('exchange_rates')
+        .select('id, currency, rate, updated_at')
+        .order('currency', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      console.log('💱 ExchangeRates: Loaded rates:', data?.length || 0);
+      setRows(data || []);
+    } catch (err) {
+      console.error('💱 ExchangeRates: Error loading rates:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const saveRate = useCallback(async (currency: string, rate: number) => {
+    console.log('💱 ExchangeRates: Saving rate:', currency, rate);
+    setError(null);
+
+    try {
+      const { error: saveError } = await supabase
+        .from('exchange_rates')
+        .upsert({ currency, rate, user_id: user?.id }, { onConflict: 'user_id,currency' });
+
+      if (saveError) throw saveError;
+      await loadRates();
+    } catch (err) {
+      console.error('💱 ExchangeRates: Error saving rate:', err);
+      setError((err as Error).message);
+      throw err;
+    }
+  }, [user, loadRates]);
+
+  const rates = useMemo<ExchangeRates>(
+    () => Object.fromEntries(rows.map(row => [row.currency, Number(row.rate)])),
+    [rows]
+  );
+
+  return {
+    rates,
+    rows,
+    loading,
+    error,
+    loadRates,
+    saveRate
+  };
+}
@@ -0,0 +1,103 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  quotation_id: string | null;
+  kind: string;
+  title: string;
+  message: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// The user's latest notifications, kept current via realtime
+export function useNotifications(limit = 20) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('notifications')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (fetchError) throw fetchError;
+      setNotifications(data || []);
+    } catch (err) {
+      console.error('🔔 Notifications: Error loading notifications:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadNotifications();
+
+    const channel = supabase
+      .channel('notifications_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`
+        },
+        () => {
+          console.log('🔔 Notifications: Realtime change received');
+          loadNotifications();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, loadNotifications]);
+
+  const markAllRead = useCallback(async () => {
+    const unreadIds = notifications.filter(notification => !notification.read_at).map(notification => notification.id);
+    if (unreadIds.length === 0) return;
+
+    setError(null);
+    try {
+      const readAt = new Date().toISOString();
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', unreadIds);
+
+      if (updateError) throw updateError;
+      setNotifications(prev => prev.map(notification => (
+        unreadIds.includes(notification.id) ? { ...notification, read_at: readAt } : notification
+      )));
+    } catch (err) {
+      console.error('🔔 Notifications: Error marking notifications read:', err);
+      setError((err as Error).message);
+      throw err;
+    }
+  }, [notifications]);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.read_at).length,
+    loading,
+    error,
+    loadNotifications,
+    markAllRead
+  };
+}
@@ -0,0 +1,108 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { OptionSubtotal } from '../../supabase/functions/_shared/options';
+import type { TaxSummary } from '../../supabase/functions/_shared/tax';
+
+// The quotation as the client portal shows it (see the quotation-portal function)
+export interface PortalQuotationView {
+  quotation_number: string;
+  company_name: string | null;
+  project_name: string | null;
+  valid_until: string | null;
+  currency: string | null;
+  html_quotation: string | null;
+  items: { label: string; quantity: number; unit: string | null; total_price: number }[];
+  options: OptionSubtotal[] | null;
+  selected_alternative: string | null;
+  tax: TaxSummary | null;
+  total: number;
+  // Set once the quotation can no longer be answered, with the reason
+  notice: string | null;
+}
+
+export type PortalResponse =
+  | { response: 'accept'; name: string; signature: string | null; alternative: string | null; optionals: string[] }
+  | { response: 'reject'; reason: string };
+
+// The client has no session, so the portal is called with the anon key and the link's token
+const callPortal = async (body: Record<string, unknown>) => {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/quotation-portal`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  });
+
+  return { ok: response.ok, result: await response.json() };
+};
+
+// The client's side of the acceptance portal: the quotation behind a link and the response to it
+export function usePortalQuotation(token: string | null) {
+  const [quotation, setQuotation] = useState<PortalQuotationView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuotation = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      if (!token) {
+        throw new Error('This link is not complete. Please open it again from the email you received.');
+      }
+
+      const { ok, result } = await callPortal({ action: 'view', token });
+      if (!ok || !result.success) {
+        throw new Error(result.error || 'The quotation could not be loaded');
+      }
+
+      setQuotation(result.quotation);
+    } catch (err) {
+      console.error('🔗 ClientPortal: Error loading quotation:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadQuotation();
+  }, [loadQuotation]);
+
+  const respond = useCallback(async (response: PortalResponse) => {
+    console.log('🔗 ClientPortal: Sending client response:', response.response);
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const { ok, result } = await callPortal({ action: 'respond', token, ...response });
+
+      // A quotation answered or expired meanwhile comes back with its notice
+      if (result.quotation) {
+        setQuotation(result.quotation);
+      }
+      if (!ok || !result.success) {
+        throw new Error(result.error || 'Your response could not be recorded');
+      }
+
+      console.log('🔗 ClientPortal: Client response recorded');
+    } catch (err) {
+      console.error('🔗 ClientPortal: Error sending client response:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [token]);
+
+  return {
+    quotation,
+    loading,
+    submitting,
+    error,
+    respond
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { RfqJobResult } from '../../supabase/functions/_shared/workflowSchema';
+
+export interface ProcessingJob {
+  id: string;
+  job_type: 'process_rfq';
+  gmail_id: string | null;
+  quotation_id: string | null;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  last_error: string | null;
+  result: RfqJobResult | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Follows a processing_jobs row via realtime; the queue owns timeouts and
+// retries, so the UI only reflects whatever state the job is in.
+export function useProcessingJob(jobId: string | null | undefined) {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJob(null);
+    setError(null);
+
+    if (!jobId) return;
+
+    console.log('🧵 ProcessingJob: Subscribing to job:', jobId);
+
+    const channel = supabase
+      .channel(`processing_job_${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'processing_jobs',
+          filter: `id=eq.${jobId}`
+        },
+        (payload) => {
+          const updated = payload.new as ProcessingJob;
+          console.log('🧵 ProcessingJob: Job changed:', updated.status, `attempt ${updated.attempts}/${updated.max_attempts}`);
+          setJob(updated);
+        }
+      )
+      .subscribe();
+
+    // Initial fetch after subscribing so a fast job is not missed
+    supabase
+      .from('processing_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle()
+      .then(({ data, error: fetchError }) => {
+        if (fetchError) {
+          console.error('🧵 ProcessingJob: Error loading job:', fetchError);
+          setError(fetchError.message);
+        } else if (data) {
+          // Realtime may already have delivered a newer row
+          setJob(prev => prev && prev.updated_at > data.updated_at ? prev : data);
+        }
+      });
+
+    return () => {
+      console.log('🧵 ProcessingJob: Cleaning up job subscription');
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  return { job, error };
+}
@@ -1,15 +1,30 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { ApprovalDelivery, ApprovalResult } from '../../supabase/functions/_shared/workflowSchema';
+import { toItemPayload, type QuotationLine } from '../../supabase/functions/_shared/quotationItems';
 
 interface QuotationData {
   id: string;
   analysis: any;
   total_amount: number;
   margin_percentage: number;
+  // Lines without their own VAT code take this rate
+  tax_code: string | null;
+  tax_rate: number;
+  // Quotation currency and the rates (per 1 EUR) it is priced with
+  currency: string;
+  exchange_rate: number;
+  exchange_rates: Record<string, number>;
+  // Options priced into the total (see options.ts)
+  selected_alternative: string | null;
+  selected_optionals: string[];
   client_details: any;
+  items: QuotationLine[];
 }
 
 export function useQuotationEditor() {
+  const { user } = useAuth();
   const [saving, setSaving] = useState(false);
   const [approving, setApproving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -27,12 +42,39 @@ export function useQuotationEditor() {
           analysis: updatedData.analysis,
           total_amount: updatedData.total_amount,
           margin_percentage: updatedData.margin_percentage,
+          tax_code: updatedData.tax_code,
+          tax_rate: updatedData.tax_rate,
+          currency: updatedData.currency,
+          exchange_rate: updatedData.exchange_rate,
+          exchange_rates: updatedData.exchange_rates,
+          selected_alternative: updatedData.selected_alternative,
+          selected_optionals: updatedData.selected_optionals,
           client_details: updatedData.client_details,
-          updated_at: new Date().toISOString()
+          updated_at: new Date().toISOString(),
+          last_modified_at: new Date().toISOString(),
+          last_modified_by: user?.id
         })
         .eq('id', quotationId);
 
       if (updateError) throw updateError;
+
+      if (updatedData.items) {
+        console.log('💾 QuotationEditor: Syncing quotation items:', updatedData.items.length);
+        const { error: itemsError } = await supabase.rpc('sync_quotation_items', {
+          p_quotation_id: quotationId,
+          p_items: toItemPayload(updatedData.items)
+        });
+
+        if (itemsError) throw itemsError;
+      }
+
+      // Every save is kept as an immutable revision
+      const { error: revisionError } = await supabase.rpc('record_quotation_revision', {
+        p_quotation_id: quotationId,
+        p_source: 'draft_save'
+      });
+
+      if (revisionError) throw revisionError;
       
       console.log('💾 QuotationEditor: Draft saved successfully');
       return { success: true };
@@ -44,18 +86,19 @@ export function useQuotationEditor() {
       console.log('💾 QuotationEditor: Setting saving to false');
       setSaving(false);
     }
-  }, []);
+  }, [user]);
 
-  const approveQuotation = useCallback(async (quotationId: string, updatedAnalysisData: any) => {
+  const approveQuotation = useCallback(async (quotationId: string, updatedAnalysisData: any, delivery: ApprovalDelivery = 'workflow') => {
     console.log('✅ QuotationEditor: Starting approveQuotation for:', quotationId);
     setApproving(true);
     setError(null);
     
     try {
       console.log('✅ QuotationEditor: Getting current user for approval');
-      // Get current user
+      // Get current user and session; the edge function authenticates with the session JWT
       const { data: { user }, error: userError } = await supabase.auth.getUser();
-      if (userError || !user) {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (userError || !user || !session) {
         console.error('✅ QuotationEditor: User authentication failed');
         throw new Error('User authentication required');
       }
@@ -65,13 +108,15 @@ export function useQuotationEditor() {
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/approve-quotation`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           quotation_id: quotationId,
           user_id: user.id,
-          updated_analysis_data: updatedAnalysisData
+          updated_analysis_data: updatedAnalysisData,
+          delivery
         })
       });
 
@@ -81,7 +126,7 @@ export function useQuotationEditor() {
         throw new Error(errorData.error || 'Failed to approve quotation');
       }
 
-      const result = await response.json();
+      const result: ApprovalResult = await response.json();
       
       if (!result.success) {
         console.error('✅ QuotationEditor: Edge function returned failure:', result);
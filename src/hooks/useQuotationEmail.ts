@@ -0,0 +1,115 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { gmailService, type OutgoingAttachment } from '../lib/gmail';
+import { QUOTATION_PDF_BUCKET } from '../lib/quotationPdf';
+import { DOCX_MIME_TYPE } from '../lib/quotationDocx';
+
+export interface QuotationEmailDraft {
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  subject: string;
+  body: string;
+  attachPdf: boolean;
+  attachDocx: boolean;
+  // Send as a reply in the RFQ's thread instead of a new conversation
+  replyToRfq: boolean;
+}
+
+export interface QuotationToEmail {
+  id: string;
+  quotation_number: string;
+  gmail_id?: string | null;
+  pdf_url?: string | null;
+  docx_url?: string | null;
+}
+
+// Emails an approved quotation from the user's Gmail with its stored PDF and
+// Word document, then records the message and marks the quotation sent
+export function useQuotationEmail() {
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const downloadAttachment = async (path: string, mimeType: string, filename: string): Promise<OutgoingAttachment> => {
+    const { data, error: downloadError } = await supabase.storage.from(QUOTATION_PDF_BUCKET).download(path);
+    if (downloadError) throw downloadError;
+    return { filename, mimeType, data: new Uint8Array(await data.arrayBuffer()) };
+  };
+
+  const sendQuotation = useCallback(async (quotation: QuotationToEmail, draft: QuotationEmailDraft) => {
+    console.log('📤 QuotationEmail: Sending quotation from Gmail:', quotation.id);
+    setSending(true);
+    setError(null);
+
+    try {
+      if (draft.to.length === 0) throw new Error('At least one recipient is required');
+
+      // Documents are cleared once the quotation changes, so only what is stored now is current
+      const { data: documents, error: documentsError } = await supabase
+        .from('quotations')
+        .select('pdf_url, docx_url')
+        .eq('id', quotation.id)
+        .single();
+
+      if (documentsError) throw documentsError;
+      if ((draft.attachPdf && !documents.pdf_url) || (draft.attachDocx && !documents.docx_url)) {
+        throw new Error('The quotation changed since its documents were generated. Generate them again from the Document view.');
+      }
+
+      const attachments: OutgoingAttachment[] = [];
+      if (draft.attachPdf && documents.pdf_url) {
+        attachments.push(await downloadAttachment(documents.pdf_url, 'application/pdf', `${quotation.quotation_number}.pdf`));
+      }
+      if (draft.attachDocx && documents.docx_url) {
+        attachments.push(await downloadAttachment(documents.docx_url, DOCX_MIME_TYPE, `${quotation.quotation_number}.docx`));
+      }
+
+      const sent = await gmailService.sendEmail({
+        to: draft.to,
+        cc: draft.cc,
+        bcc: draft.bcc,
+        subject: draft.subject,
+        body: draft.body,
+        attachments,
+        replyToMessageId: draft.replyToRfq ? quotation.gmail_id : null
+      });
+
+      // The email is out, so a failure from here on must say so, or it gets sent twice
+      const { error: updateError } = await supabase
+        .from('quotations')
+        .update({
+          sent_message_id: sent.id,
+          sent_thread_id: sent.threadId,
+          sent_recipients: [...draft.to, ...draft.cc, ...draft.bcc]
+        })
+        .eq('id', quotation.id);
+
+      const { error: transitionError } = await supabase.rpc('transition_quotation_status', {
+        p_quotation_id: quotation.id,
+        p_status: 'sent',
+        p_reason: `Sent from Gmail to ${draft.to.join(', ')}`
+      });
+
+      if (updateError || transitionError) {
+        console.error('📤 QuotationEmail: Email sent but not recorded:', updateError || transitionError);
+        throw new Error(`The email was sent, but the quotation could not be updated: ${(updateError || transitionError)!.message}`);
+      }
+
+      console.log('📤 QuotationEmail: Quotation sent in Gmail message:', sent.id);
+      return sent;
+    } catch (err) {
+      console.error('📤 QuotationEmail: Error sending quotation:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setSending(false);
+    }
+  }, []);
+
+  return {
+    sending,
+    error,
+    sendQuotation,
+    clearError: () => setError(null)
+  };
+}
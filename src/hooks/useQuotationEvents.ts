@@ -0,0 +1,48 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { QuotationEvent } from '../lib/quotationStatus';
+
+// Status history of one quotation, newest first
+export function useQuotationEvents(quotationId: string | null | undefined) {
+  const [events, setEvents] = useState<QuotationEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    if (!quotationId) return;
+
+    console.log('🧾 QuotationEvents: Loading events for quotation:', quotationId);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('quotation_events')
+        .select('*')
+        .eq('quotation_id', quotationId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      console.log('🧾 QuotationEvents: Loaded events:', data?.length || 0);
+      setEvents(data || []);
+    } catch (err) {
+      console.error('🧾 QuotationEvents: Error loading events:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [quotationId]);
+
+  useEffect(() => {
+    setEvents([]);
+    loadEvents();
+  }, [loadEvents]);
+
+  return {
+    events,
+    loading,
+    error,
+    loadEvents
+  };
+}
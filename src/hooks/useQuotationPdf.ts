@@ -0,0 +1,119 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import {
+  QUOTATION_PDF_BUCKET,
+  quotationPdfPath,
+  renderQuotationPdf,
+  type QuotationPdfInput
+} from '../lib/quotationPdf';
+import {
+  DOCX_MIME_TYPE,
+  quotationDocxPath,
+  renderQuotationDocx,
+  type QuotationDocxInput
+} from '../lib/quotationDocx';
+
+// Signed links to stored PDFs stay valid this long (seconds)
+const PDF_LINK_EXPIRY = 60 * 60;
+
+// Quotation PDFs and Word documents: rendered in the browser, stored in the
+// quotation-pdfs bucket and linked from quotations.pdf_url and docx_url
+export function useQuotationPdf() {
+  const { user } = useAuth();
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Renders the PDF and replaces the stored one; returns the file for download
+  const generatePdf = useCallback(async (quotationId: string, input: QuotationPdfInput) => {
+    if (!user) throw new Error('User authentication required');
+
+    console.log('📄 QuotationPdf: Generating PDF for quotation:', quotationId);
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const blob = await renderQuotationPdf(input);
+      const path = quotationPdfPath(user.id, quotationId, input.quotationNumber);
+
+      const { error: uploadError } = await supabase.storage
+        .from(QUOTATION_PDF_BUCKET)
+        .upload(path, blob, { contentType: 'application/pdf', upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { error: updateError } = await supabase
+        .from('quotations')
+        .update({ pdf_url: path, pdf_generated_at: new Date().toISOString() })
+        .eq('id', quotationId);
+
+      if (updateError) throw updateError;
+
+      console.log('📄 QuotationPdf: PDF stored at:', path);
+      return { blob, path };
+    } catch (err) {
+      console.error('📄 QuotationPdf: Error generating PDF:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setGenerating(false);
+    }
+  }, [user]);
+
+  // Same for the Word document, which is attached to the email next to the PDF
+  const generateDocx = useCallback(async (quotationId: string, input: QuotationDocxInput) => {
+    if (!user) throw new Error('User authentication required');
+
+    console.log('📄 QuotationPdf: Generating Word document for quotation:', quotationId);
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const blob = await renderQuotationDocx(input);
+      const path = quotationDocxPath(user.id, quotationId, input.quotationNumber);
+
+      const { error: uploadError } = await supabase.storage
+        .from(QUOTATION_PDF_BUCKET)
+        .upload(path, blob, { contentType: DOCX_MIME_TYPE, upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { error: updateError } = await supabase
+        .from('quotations')
+        .update({ docx_url: path, docx_generated_at: new Date().toISOString() })
+        .eq('id', quotationId);
+
+      if (updateError) throw updateError;
+
+      console.log('📄 QuotationPdf: Word document stored at:', path);
+      return { blob, path };
+    } catch (err) {
+      console.error('📄 QuotationPdf: Error generating Word document:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setGenerating(false);
+    }
+  }, [user]);
+
+  const getPdfLink = useCallback(async (path: string) => {
+    const { data, error: signError } = await supabase.storage
+      .from(QUOTATION_PDF_BUCKET)
+      .createSignedUrl(path, PDF_LINK_EXPIRY);
+
+    if (signError) {
+      console.error('📄 QuotationPdf: Error signing PDF link:', signError);
+      setError(signError.message);
+      throw signError;
+    }
+    return data.signedUrl;
+  }, []);
+
+  return {
+    generating,
+    error,
+    generatePdf,
+    generateDocx,
+    getPdfLink
+  };
+}
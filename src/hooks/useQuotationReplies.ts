@@ -0,0 +1,48 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { QuotationReply } from '../lib/quotationReplies';
+
+// Client replies in the thread of one quotation, newest first
+export function useQuotationReplies(quotationId: string | null | undefined) {
+  const [replies, setReplies] = useState<QuotationReply[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReplies = useCallback(async () => {
+    if (!quotationId) return;
+
+    console.log('📨 QuotationReplies: Loading replies for quotation:', quotationId);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('quotation_replies')
+        .select('*')
+        .eq('quotation_id', quotationId)
+        .order('received_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      console.log('📨 QuotationReplies: Loaded replies:', data?.length || 0);
+      setReplies(data || []);
+    } catch (err) {
+      console.error('📨 QuotationReplies: Error loading replies:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [quotationId]);
+
+  useEffect(() => {
+    setReplies([]);
+    loadReplies();
+  }, [loadReplies]);
+
+  return {
+    replies,
+    loading,
+    error,
+    loadReplies
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { QuotationRevision } from '../lib/quotationRevisions';
+
+// Revision history of one quotation, newest first
+export function useQuotationRevisions(quotationId: string | null | undefined) {
+  const [revisions, setRevisions] = useState<QuotationRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    if (!quotationId) return;
+
+    console.log('🕘 QuotationRevisions: Loading revisions for quotation:', quotationId);
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('quotation_revisions')
+        .select('*')
+        .eq('quotation_id', quotationId)
+        .order('revision', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      console.log('🕘 QuotationRevisions: Loaded revisions:', data?.length || 0);
+      setRevisions(data || []);
+    } catch (err) {
+      console.error('🕘 QuotationRevisions: Error loading revisions:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [quotationId]);
+
+  useEffect(() => {
+    setRevisions([]);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Writes the revision back to the draft; the restore is itself recorded as a new revision
+  const restoreRevision = useCallback(async (revisionId: string) => {
+    console.log('🕘 QuotationRevisions: Restoring revision:', revisionId);
+    setRestoring(true);
+    setError(null);
+
+    try {
+      const { data, error: restoreError } = await supabase.rpc('restore_quotation_revision', {
+        p_revision_id: revisionId
+      });
+
+      if (restoreError) throw restoreError;
+
+      console.log('🕘 QuotationRevisions: Restored as revision:', data?.revision);
+      await loadRevisions();
+      return data as QuotationRevision;
+    } catch (err) {
+      console.error('🕘 QuotationRevisions: Error restoring revision:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setRestoring(false);
+    }
+  }, [loadRevisions]);
+
+  return {
+    revisions,
+    loading,
+    restoring,
+    error,
+    loadRevisions,
+    restoreRevision
+  };
+}
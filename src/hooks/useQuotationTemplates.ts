@@ -0,0 +1,109 @@
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import type { QuotationTemplate } from '../lib/quotationTemplates';
+
+export type TemplateInput = Pick<QuotationTemplate, 'name' | 'description' | 'company_id' | 'currency' | 'items'>;
+
+// The user's quotation templates, by name
+export function useQuotationTemplates() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<QuotationTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    if (!user) return;
+
+    console.log('📑 QuotationTemplates: Loading templates');
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('quotation_templates')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      console.log('📑 QuotationTemplates: Loaded templates:', data?.length || 0);
+      setTemplates(data || []);
+    } catch (err) {
+      console.error('📑 QuotationTemplates: Error loading templates:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const saveTemplate = useCallback(async (template: TemplateInput) => {
+    console.log('📑 QuotationTemplates: Saving template:', template.name, template.items.length);
+    setError(null);
+
+    try {
+      const { error: saveError } = await supabase
+        .from('quotation_templates')
+        .insert({ ...template, user_id: user?.id });
+
+      if (saveError) throw saveError;
+      await loadTemplates();
+    } catch (err) {
+      console.error('📑 QuotationTemplates: Error saving template:', err);
+      setError((err as Error).message);
+      throw err;
+    }
+  }, [user, loadTemplates]);
+
+  const updateTemplate = useCallback(async (templateId: string, changes: Partial<TemplateInput>) => {
+    console.log('📑 QuotationTemplates: Updating template:', templateId);
+    setError(null);
+
+    try {
+      const { error: updateError } = await supabase
+        .from('quotation_templates')
+        .update(changes)
+        .eq('id', templateId);
+
+      if (updateError) throw updateError;
+      await loadTemplates();
+    } catch (err) {
+      console.error('📑 QuotationTemplates: Error updating template:', err);
+      setError((err as Error).message);
+      throw err;
+    }
+  }, [loadTemplates]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    console.log('📑 QuotationTemplates: Deleting template:', templateId);
+    setError(null);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('quotation_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (deleteError) throw deleteError;
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+    } catch (err) {
+      console.error('📑 QuotationTemplates: Error deleting template:', err);
+      setError((err as Error).message);
+      throw err;
+    }
+  }, []);
+
+  return {
+    templates,
+    loading,
+    error,
+    loadTemplates,
+    saveTemplate,
+    updateTemplate,
+    deleteTemplate
+  };
+}
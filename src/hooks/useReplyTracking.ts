@@ -0,0 +1,199 @@
+import { useState, useCallback, useEffect } from 'react';
+import { format, subDays, subMinutes } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './useAuth';
+import { gmailService } from '../lib/gmail';
+import { classifyReply, stripQuotedText, type QuotationReply } from '../lib/quotationReplies';
+
+// Quotations whose threads are watched for client replies: sent ones, and
+// expired ones for a while after their validity ended
+const TRACKED_STATUSES = ['sent', 'expired'];
+const DAYS_AFTER_VALIDITY = 30;
+
+// A sync reads at most this many threads, the longest unchecked first, and
+// skips threads checked recently unless the user asked for the check
+const MAX_THREADS_PER_SYNC = 20;
+const RECHECK_AFTER_MINUTES = 15;
+
+interface TrackedQuotation {
+  id: string;
+  gmail_id: string | null;
+  sent_thread_id: string | null;
+  sent_at: string | null;
+}
+
+interface ReplyCheckpoint {
+  quotation_id: string;
+  thread_id: string;
+  history_id: string | null;
+  checked_at: string;
+}
+
+// Quotations sent by the approval workflow have no sent_thread_id; it
+// replies in the RFQ's thread, so that thread is watched instead
+async function threadOf(quotation: TrackedQuotation) {
+  if (quotation.sent_thread_id) return quotation.sent_thread_id;
+  if (!quotation.gmail_id || quotation.gmail_id.startsWith('manual-')) return null;
+  return gmailService.getThreadId(quotation.gmail_id);
+}
+
+// Finds client replies in the Gmail threads of sent quotations, classifies
+// them and keeps the replies whose suggestion is still open
+export function useReplyTracking() {
+  const { user } = useAuth();
+  const [openReplies, setOpenReplies] = useState<QuotationReply[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadOpenReplies = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error: fetchError } = await supabase
+      .from('quotation_replies')
+      .select('*')
+      .is('resolved_at', null)
+      .order('received_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('📨 ReplyTracking: Error loading open replies:', fetchError);
+      setError(fetchError.message);
+      return;
+    }
+    setOpenReplies(data || []);
+  }, [user]);
+
+  useEffect(() => {
+    loadOpenReplies();
+  }, [loadOpenReplies]);
+
+  // Returns the number of new replies; `force` also reads threads checked recently
+  const syncReplies = useCallback(async (force = false) => {
+    if (!user) return 0;
+
+    console.log('📨 ReplyTracking: Checking quotation threads for replies');
+    setSyncing(true);
+    setError(null);
+
+    try {
+      const { data: quotations, error: fetchError } = await supabase
+        .from('quotations')
+        .select('id, gmail_id, sent_thread_id, sent_at')
+        .eq('user_id', user.id)
+        .in('status', TRACKED_STATUSES)
+        .gte('valid_until', format(subDays(new Date(), DAYS_AFTER_VALIDITY), 'yyyy-MM-dd'));
+
+      if (fetchError) throw fetchError;
+
+      const tracked = (quotations || []) as TrackedQuotation[];
+      const ids = tracked.map(quotation => quotation.id);
+
+      const [{ data: checkpointRows, error: checkpointError }, { data: knownRows, error: knownError }] = await Promise.all([
+        supabase.from('quotation_reply_checkpoints').select('quotation_id, thread_id, history_id, checked_at').in('quotation_id', ids),
+        supabase.from('quotation_replies').select('quotation_id, gmail_id').in('quotation_id', ids)
+      ]);
+
+      if (checkpointError) throw checkpointError;
+      if (knownError) throw knownError;
+
+      const checkpoints = new Map((checkpointRows as ReplyCheckpoint[] || []).map(row => [row.quotation_id, row]));
+      const recheckAfter = subMinutes(new Date(), RECHECK_AFTER_MINUTES).toISOString();
+      const due = tracked
+        .filter(quotation => force || !checkpoints.has(quotation.id) || checkpoints.get(quotation.id)!.checked_at < recheckAfter)
+        .sort((a, b) => (checkpoints.get(a.id)?.checked_at || '').localeCompare(checkpoints.get(b.id)?.checked_at || ''))
+        .slice(0, MAX_THREADS_PER_SYNC);
+
+      let found = 0;
+      for (const quotation of due) {
+        const checkpoint = checkpoints.get(quotation.id);
+        const threadId = quotation.sent_thread_id || checkpoint?.thread_id || await threadOf(quotation);
+        if (!threadId) continue;
+
+        const knownIds = new Set(
+          (knownRows || []).filter(row => row.quotation_id === quotation.id).map(row => row.gmail_id as string)
+        );
+        if (quotation.gmail_id) knownIds.add(quotation.gmail_id);
+
+        const { historyId, replies } = await gmailService.fetchThreadReplies(
+          threadId,
+          new Date(quotation.sent_at || 0),
+          // A changed thread (sent again in another thread) starts over
+          checkpoint?.thread_id === threadId ? checkpoint.history_id : null,
+          knownIds
+        );
+
+        const rows = replies.map(message => {
+          const body = stripQuotedText(message.body || '');
+          return {
+            quotation_id: quotation.id,
+            user_id: user.id,
+            gmail_id: message.gmail_id,
+            thread_id: message.thread_id,
+            from_email: message.from_email,
+            from_name: message.from_name || null,
+            subject: message.subject,
+            snippet: message.snippet,
+            body,
+            received_at: message.received_date,
+            ...classifyReply(message.subject, body)
+          };
+        });
+
+        if (rows.length > 0) {
+          const { data: inserted, error: insertError } = await supabase
+            .from('quotation_replies')
+            .upsert(rows, { onConflict: 'quotation_id,gmail_id', ignoreDuplicates: true })
+            .select('id');
+
+          if (insertError) throw insertError;
+          found += inserted?.length || 0;
+        }
+
+        // Saved after the replies, so a failed insert is retried on the next sync
+        const { error: saveError } = await supabase
+          .from('quotation_reply_checkpoints')
+          .upsert({
+            quotation_id: quotation.id,
+            user_id: user.id,
+            thread_id: threadId,
+            history_id: historyId,
+            checked_at: new Date().toISOString()
+          });
+
+        if (saveError) throw saveError;
+      }
+
+      console.log('📨 ReplyTracking: New replies found:', found, `(${due.length} of ${tracked.length} threads checked)`);
+      await loadOpenReplies();
+      return found;
+    } catch (err) {
+      console.error('📨 ReplyTracking: Error checking replies:', err);
+      setError((err as Error).message);
+      throw err;
+    } finally {
+      setSyncing(false);
+    }
+  }, [user, loadOpenReplies]);
+
+  const resolveReply = useCallback(async (replyId: string, resolution: 'applied' | 'dismissed') => {
+    const { error: updateError } = await supabase
+      .from('quotation_replies')
+      .update({ resolved_at: new Date().toISOString(), resolution })
+      .eq('id', replyId);
+
+    if (updateError) {
+      console.error('📨 ReplyTracking: Error resolving reply:', updateError);
+      setError(updateError.message);
+      throw updateError;
+    }
+    setOpenReplies(current => current.filter(reply => reply.id !== replyId));
+  }, []);
+
+  return {
+    openReplies,
+    syncing,
+    error,
+    syncReplies,
+    resolveReply,
+    loadOpenReplies
+  };
+}
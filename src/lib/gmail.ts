@@ -16,26 +16,113 @@ interface GmailMessage {
   internalDate: string;
 }
 
-interface ProcessedEmail {
+export interface ProcessedEmail {
   gmail_id: string;
   subject: string;
   from_email: string;
   from_name?: string;
   body?: string;
-  attachments: any[];
+  attachments: GmailAttachment[];
   received_date: string;
   is_unread: boolean;
   thread_id: string;
   snippet: string;
 }
 
-interface GmailAttachment {
+// Attachment metadata; process-rfq downloads the content by attachmentId
+export interface GmailAttachment {
   filename: string;
   mimeType: string;
   size: number;
   attachmentId: string;
 }
 
+export interface OutgoingAttachment {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  attachments?: OutgoingAttachment[];
+  // Gmail id of the message this answers; the email goes into its thread
+  replyToMessageId?: string | null;
+}
+
+export interface ThreadReplies {
+  // Pass back as lastHistoryId on the next check of the thread
+  historyId: string | null;
+  replies: ProcessedEmail[];
+}
+
+export interface SentEmail {
+  id: string;
+  threadId: string;
+}
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Base64 bodies are wrapped at 76 characters, as RFC 2045 requires
+const mimeBase64 = (bytes: Uint8Array) => bytesToBase64(bytes).replace(/.{76}(?=.)/g, '$&\r\n');
+
+// Non-ASCII header values as RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${bytesToBase64(new TextEncoder().encode(value))}?=`;
+
+// multipart/mixed RFC 2822 message: the text body, then the attachments
+function buildMimeMessage(email: OutgoingEmail, threading: { inReplyTo?: string; references?: string }): string {
+  const boundary = `quotation_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+  const encoder = new TextEncoder();
+  const headers = [
+    `To: ${email.to.join(', ')}`,
+    email.cc?.length ? `Cc: ${email.cc.join(', ')}` : null,
+    email.bcc?.length ? `Bcc: ${email.bcc.join(', ')}` : null,
+    `Subject: ${encodeHeader(email.subject)}`,
+    threading.inReplyTo ? `In-Reply-To: ${threading.inReplyTo}` : null,
+    threading.references ? `References: ${threading.references}` : null,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`
+  ].filter((header): header is string => header !== null);
+
+  const parts = [
+    [
+      'Content-Type: text/plain; charset="UTF-8"',
+      'Content-Transfer-Encoding: base64',
+      '',
+      mimeBase64(encoder.encode(email.body))
+    ].join('\r\n'),
+    ...(email.attachments || []).map(attachment => {
+      const filename = encodeHeader(attachment.filename).replace(/"/g, '');
+      return [
+        `Content-Type: ${attachment.mimeType}; name="${filename}"`,
+        `Content-Disposition: attachment; filename="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        mimeBase64(attachment.data)
+      ].join('\r\n');
+    })
+  ];
+
+  return [
+    ...headers,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
 class GmailService {
   private accessToken: string | null = null;
   private isInitialized = false;
@@ -653,6 +740,109 @@ class GmailService {
       return false;
     }
   }
+
+  async getThreadId(messageId: string): Promise<string | null> {
+    try {
+      await this.ensureInitialized();
+      const response = await window.gapi.client.gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'minimal',
+      });
+      return response.result.threadId || null;
+    } catch (error) {
+      console.error('Error fetching thread of message:', error);
+      return null;
+    }
+  }
+
+  // Messages others sent in a thread after a point in time; our own are left
+  // out. The thread is listed without bodies first: when its history id is
+  // still the one from the last check nothing is fetched, otherwise only the
+  // new messages not already known are.
+  async fetchThreadReplies(
+    threadId: string,
+    after: Date,
+    lastHistoryId?: string | null,
+    knownIds: Set<string> = new Set()
+  ): Promise<ThreadReplies> {
+    if (!this.accessToken) {
+      throw new Error('Gmail access token not available');
+    }
+    await this.ensureInitialized();
+
+    const response = await window.gapi.client.gmail.users.threads.get({
+      userId: 'me',
+      id: threadId,
+      format: 'minimal',
+    });
+    const historyId: string | null = response.result.historyId || null;
+    if (historyId && historyId === lastHistoryId) {
+      return { historyId, replies: [] };
+    }
+
+    const messages: GmailMessage[] = response.result.messages || [];
+    const newIds = messages
+      .filter(message => !message.labelIds?.includes('SENT') && !message.labelIds?.includes('DRAFT'))
+      .filter(message => parseInt(message.internalDate) > after.getTime())
+      .filter(message => !knownIds.has(message.id))
+      .map(message => message.id);
+
+    const replies: ProcessedEmail[] = [];
+    for (const id of newIds) {
+      const reply = await this.getEmailDetails(id);
+      if (reply) replies.push(reply);
+    }
+    return { historyId, replies };
+  }
+
+  // Sends a message with attachments; a reply goes into the original thread
+  // with In-Reply-To and References set from the original's Message-ID
+  async sendEmail(email: OutgoingEmail): Promise<SentEmail> {
+    if (!this.accessToken) {
+      throw new Error('Gmail access token not available');
+    }
+    await this.ensureInitialized();
+
+    let threadId: string | undefined;
+    const threading: { inReplyTo?: string; references?: string } = {};
+
+    if (email.replyToMessageId) {
+      const original = await window.gapi.client.gmail.users.messages.get({
+        userId: 'me',
+        id: email.replyToMessageId,
+        format: 'metadata',
+        metadataHeaders: ['Message-ID', 'References']
+      });
+      const headers: Array<{ name: string; value: string }> = original.result.payload?.headers || [];
+      const header = (name: string) => headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+      const messageId = header('Message-ID');
+
+      threadId = original.result.threadId;
+      if (messageId) {
+        threading.inReplyTo = messageId;
+        threading.references = [header('References'), messageId].filter(Boolean).join(' ');
+      }
+    }
+
+    const raw = bytesToBase64(new TextEncoder().encode(buildMimeMessage(email, threading))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    try {
+      const response = await window.gapi.client.gmail.users.messages.send({
+        userId: 'me',
+        resource: threadId ? { raw, threadId } : { raw }
+      });
+      console.log(`📤 Sent Gmail message ${response.result.id} in thread ${response.result.threadId}`);
+      return { id: response.result.id, threadId: response.result.threadId };
+    } catch (error) {
+      console.error('Error sending email:', error);
+      const gapiError = error as { status?: number; message?: string; result?: { error?: { message?: string } } };
+      if (gapiError.status === 401) {
+        throw new Error('Gmail access token expired. Please reconnect your account.');
+      }
+      throw new Error(`Failed to send email from Gmail: ${gapiError.result?.error?.message || gapiError.message || 'Unknown error'}`);
+    }
+  }
 }
 
 export const gmailService = new GmailService();
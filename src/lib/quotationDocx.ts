@@ -0,0 +1,343 @@
+import { format } from 'date-fns';
+import {
+  fillPlaceholders,
+  type DocumentData,
+  type DocumentTemplate
+} from '../../supabase/functions/_shared/documentTemplate';
+import { loadLogo, type PdfCompany } from './quotationPdf';
+
+// Builds an editable Word file of a quotation from the company's document
+// template, with the same sections, header, footer and terms as the PDF. A
+// DOCX is a ZIP of XML parts; the parts are written here and stored
+// uncompressed, which every Word version reads.
+
+export interface QuotationDocxInput {
+  template: DocumentTemplate;
+  data: DocumentData;
+  quotationNumber: string;
+  company: PdfCompany | null;
+  validUntil?: string | null;
+}
+
+export const quotationDocxPath = (userId: string, quotationId: string, quotationNumber: string) =>
+  `${userId}/${quotationId}/${quotationNumber.replace(/[^A-Za-z0-9_-]/g, '_')}.docx`;
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 with 15 mm margins, in twentieths of a point
+const PAGE = { width: 11906, height: 16838, margin: 850 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+const LINE_COLUMNS = [CONTENT_WIDTH - 4600, 1400, 1600, 1600];
+// Logo height in the header, in EMU (15 mm)
+const LOGO_HEIGHT = 540000;
+const LOGO_MAX_WIDTH = 1800000;
+
+const NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+interface RunStyle {
+  bold?: boolean;
+  // Half-points
+  size?: number;
+  color?: string;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const properties = [
+    style.bold ? '<w:b/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    `<w:sz w:val="${style.size || 20}"/>`
+  ].join('');
+
+  const content = text
+    .split('\n')
+    .map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`)
+    .join('<w:br/>');
+
+  return `<w:r><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial"/>${properties}</w:rPr>${content}</w:r>`;
+}
+
+function paragraph(runs: string, options: { align?: 'left' | 'right'; after?: number; before?: number } = {}): string {
+  return `<w:p><w:pPr><w:spacing w:before="${options.before || 0}" w:after="${options.after ?? 160}"/>` +
+    `${options.align === 'right' ? '<w:jc w:val="right"/>' : ''}</w:pPr>${runs}</w:p>`;
+}
+
+// Blank lines separate paragraphs; single line breaks are kept
+const textParagraphs = (text: string) =>
+  text
+    .split(/\n\s*\n/)
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => paragraph(run(part)))
+    .join('');
+
+function tableCell(content: string, width: number, shaded = false): string {
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>` +
+    `${shaded ? '<w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/>' : ''}</w:tcPr>${content}</w:tc>`;
+}
+
+function table(rows: string[][], widths: number[], options: { header?: boolean; rightFrom?: number } = {}): string {
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="DDDDDD"/>`;
+  const body = rows
+    .map((cells, rowIndex) => {
+      const isHeader = options.header && rowIndex === 0;
+      return '<w:tr>' + cells
+        .map((cell, column) => tableCell(
+          paragraph(cell, { align: column >= (options.rightFrom ?? widths.length) ? 'right' : 'left', after: 0 }),
+          widths[column],
+          isHeader
+        ))
+        .join('') + '</w:tr>';
+    })
+    .join('');
+
+  return '<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>' +
+    ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('') +
+    '</w:tblBorders><w:tblCellMar><w:top w:w="80" w:type="dxa"/><w:left w:w="100" w:type="dxa"/>' +
+    '<w:bottom w:w="80" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${body}</w:tbl>`;
+}
+
+function equipmentTables(data: DocumentData): string {
+  const lines = table(
+    [
+      ['Description', 'Qty', 'Unit price', 'Total'].map(label => run(label, { bold: true })),
+      ...data.lines.map(line => [
+        run(line.description) + (line.option_label ? run(`\n${line.option_label}`, { size: 16, color: '666666' }) : ''),
+        run(`${line.quantity}${line.unit ? ` ${line.unit}` : ''}`),
+        run(data.formatAmount(line.unit_price)),
+        run(data.formatAmount(line.total_price))
+      ])
+    ],
+    LINE_COLUMNS,
+    { header: true, rightFrom: 1 }
+  );
+
+  const totals = table(
+    [
+      ['Total excl. VAT', data.values.total_net],
+      ['VAT', data.values.total_vat],
+      ['Total incl. VAT', data.values.total_gross]
+    ].map(([label, amount], index) => [run(label, { bold: index === 2 }), run(amount || '', { bold: index === 2 })]),
+    [CONTENT_WIDTH - 2400, 2400],
+    { rightFrom: 1 }
+  );
+
+  return lines + paragraph('', { after: 120 }) + totals;
+}
+
+function documentBody(input: QuotationDocxInput): string {
+  const { values } = input.data;
+  const client = [values.client_company, values.client_company ? values.client_name : '', [values.project_name, values.project_location].filter(Boolean).join(', ')]
+    .filter(Boolean);
+  const heading = (text: string) => paragraph(run(text, { bold: true, size: 28 }), { before: 240, after: 120 });
+
+  const sections = input.template.sections
+    .filter(section => section.enabled)
+    .map(section => {
+      const body = textParagraphs(fillPlaceholders(section.body, values));
+      const extra = section.key === 'equipment' ? equipmentTables(input.data) : '';
+      if (!body && !extra) return '';
+      return heading(fillPlaceholders(section.title, values)) + body + extra;
+    })
+    .join('');
+
+  const terms = input.company?.quotation_terms?.trim();
+  const termsBlock = terms || input.validUntil
+    ? heading('Terms and Conditions') +
+      (input.validUntil ? paragraph(run(`This quotation is valid until ${format(new Date(input.validUntil), 'dd/MM/yyyy')}.`, { size: 18 })) : '') +
+      (terms ? paragraph(run(terms, { size: 18 })) : '')
+    : '';
+
+  return paragraph(run(`Quotation ${input.quotationNumber}`, { bold: true, size: 36 }), { after: 60 }) +
+    paragraph(run([values.quotation_date, values.valid_until ? `Valid until ${values.valid_until}` : ''].filter(Boolean).join(' · '), { color: '666666' })) +
+    (client.length > 0 ? paragraph(run(values.client_company || values.client_name, { bold: true }) + (client.length > 1 ? run(`\n${client.slice(1).join('\n')}`) : '')) : '') +
+    sections +
+    termsBlock;
+}
+
+function logoDrawing(logo: { width: number; height: number }): string {
+  const width = Math.min(Math.round(LOGO_HEIGHT * (logo.width / logo.height)), LOGO_MAX_WIDTH);
+  const height = Math.round(width / (logo.width / logo.height));
+
+  return `<w:r><w:drawing><wp:inline><wp:extent cx="${width}" cy="${height}"/><wp:docPr id="1" name="Logo"/>` +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    '<pic:nvPicPr><pic:cNvPr id="1" name="logo.png"/><pic:cNvPicPr/></pic:nvPicPr>' +
+    '<pic:blipFill><a:blip r:embed="rIdLogo"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>' +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>';
+}
+
+// Company on the left, the quotation number against the right margin
+function headerXml(input: QuotationDocxInput, logo: { width: number; height: number } | null): string {
+  const rightTab = `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs>`;
+  const line = (left: string, right: string) =>
+    `<w:p><w:pPr>${rightTab}<w:spacing w:after="0"/></w:pPr>${left}<w:r><w:tab/></w:r>${right}</w:p>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:hdr ${NAMESPACES}>` +
+    (logo ? paragraph(logoDrawing(logo), { after: 60 }) : '') +
+    line(run(input.company?.name || '', { bold: true, size: 26, color: '1E293B' }), run('QUOTATION', { bold: true, size: 22, color: '1E293B' })) +
+    line(run(input.company?.address || '', { size: 18, color: '64748B' }), run(input.quotationNumber, { size: 18 })) +
+    '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="CBD5E1"/></w:pBdr><w:spacing w:after="240"/></w:pPr></w:p>' +
+    '</w:hdr>';
+}
+
+function footerXml(input: QuotationDocxInput): string {
+  const contact = [input.company?.name, input.company?.email, input.company?.phone].filter(Boolean).join(' · ');
+  const field = (instruction: string) =>
+    `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r>` +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r>' + run('1', { size: 16, color: '64748B' }) + '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+  const small = (text: string) => run(text, { size: 16, color: '64748B' });
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:ftr ${NAMESPACES}>` +
+    `<w:p><w:pPr><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="CBD5E1"/></w:pBdr>` +
+    `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH}"/></w:tabs></w:pPr>` +
+    `${small(contact)}<w:r><w:tab/></w:r>${small('Page ')}${field('PAGE')}${small(' of ')}${field('NUMPAGES')}</w:p>` +
+    '</w:ftr>';
+}
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ZIP archive with the files stored as they are (no compression)
+function zip(files: { name: string; data: Uint8Array }[], date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const dosTime = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const dosDate = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(12, dosTime, true);
+    entry.setUint16(14, dosDate, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: DOCX_MIME_TYPE });
+}
+
+const dataUrlBytes = (dataUrl: string) =>
+  Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(',') + 1)), char => char.charCodeAt(0));
+
+export async function renderQuotationDocx(input: QuotationDocxInput): Promise<Blob> {
+  console.log('📄 QuotationDocx: Rendering Word document for quotation:', input.quotationNumber);
+  const logo = input.company?.logo_url ? await loadLogo(input.company.logo_url) : null;
+  const encoder = new TextEncoder();
+  const xml = (content: string) => encoder.encode(content);
+
+  const relationship = (id: string, type: string, target: string) =>
+    `<Relationship Id="${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/>`;
+  const relationships = (content: string) =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${content}</Relationships>`;
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      data: xml(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Default Extension="png" ContentType="image/png"/>' +
+        '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+        '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' +
+        '<Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/>' +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '</Types>'
+      )
+    },
+    {
+      name: '_rels/.rels',
+      data: xml(relationships(
+        relationship('rId1', 'officeDocument', 'word/document.xml') +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+      ))
+    },
+    {
+      name: 'docProps/core.xml',
+      data: xml(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><cp:coreProperties ' +
+        'xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+        `<dc:title>Quotation ${escapeXml(input.quotationNumber)}</dc:title><dc:creator>${escapeXml(input.company?.name || '')}</dc:creator>` +
+        '</cp:coreProperties>'
+      )
+    },
+    {
+      name: 'word/document.xml',
+      data: xml(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document ${NAMESPACES}><w:body>` +
+        documentBody(input) +
+        '<w:sectPr><w:headerReference w:type="default" r:id="rIdHeader"/><w:footerReference w:type="default" r:id="rIdFooter"/>' +
+        `<w:pgSz w:w="${PAGE.width}" w:h="${PAGE.height}"/>` +
+        `<w:pgMar w:top="${PAGE.margin * 2}" w:right="${PAGE.margin}" w:bottom="${PAGE.margin * 2}" w:left="${PAGE.margin}" w:header="${PAGE.margin}" w:footer="${PAGE.margin}" w:gutter="0"/>` +
+        '</w:sectPr></w:body></w:document>'
+      )
+    },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: xml(relationships(
+        relationship('rIdHeader', 'header', 'header1.xml') + relationship('rIdFooter', 'footer', 'footer1.xml')
+      ))
+    },
+    { name: 'word/header1.xml', data: xml(headerXml(input, logo)) },
+    { name: 'word/footer1.xml', data: xml(footerXml(input)) }
+  ];
+
+  if (logo) {
+    files.push(
+      { name: 'word/_rels/header1.xml.rels', data: xml(relationships(relationship('rIdLogo', 'image', 'media/logo.png'))) },
+      { name: 'word/media/logo.png', data: dataUrlBytes(logo.dataUrl) }
+    );
+  }
+
+  return zip(files);
+}
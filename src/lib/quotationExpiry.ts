@@ -0,0 +1,27 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+// Quotations that went out expire the day after `valid_until` (the
+// expire_quotations job); they are flagged this many days before.
+export const EXPIRY_WARNING_DAYS = 7;
+
+// Same default validity as new quotations get in process-rfq
+export const QUOTATION_VALIDITY_DAYS = 30;
+
+const AWAITING_RESPONSE = ['approved', 'sent'];
+
+interface ExpiringQuotation {
+  status: string;
+  valid_until?: string | null;
+}
+
+// Whole days left until valid_until (0 on the last valid day); null without a date
+export const daysUntilExpiry = (validUntil: string | null | undefined, today = new Date()) =>
+  validUntil ? differenceInCalendarDays(parseISO(validUntil), today) : null;
+
+export function isExpiringSoon(quotation: ExpiringQuotation, today = new Date()): boolean {
+  const days = daysUntilExpiry(quotation.valid_until, today);
+  return AWAITING_RESPONSE.includes(quotation.status) && days !== null && days >= 0 && days <= EXPIRY_WARNING_DAYS;
+}
+
+export const expiryLabel = (days: number) =>
+  days === 0 ? 'expires today' : `expires in ${days} day${days === 1 ? '' : 's'}`;
@@ -0,0 +1,59 @@
+// Quotation numbers are handed out by generate_quotation_number from a
+// per-company sequence; this mirrors the format for previews in Settings.
+
+export type NumberingYear = 'YYYY' | 'YY' | 'none';
+export type NumberingReset = 'yearly' | 'never';
+
+export interface QuotationNumbering {
+  prefix: string;
+  year: NumberingYear;
+  // Minimum digits of the sequence
+  padding: number;
+  reset: NumberingReset;
+}
+
+export const DEFAULT_QUOTATION_NUMBERING: QuotationNumbering = {
+  prefix: 'QUO',
+  year: 'YYYY',
+  padding: 4,
+  reset: 'yearly'
+};
+
+export const NUMBERING_YEARS: { value: NumberingYear; label: string }[] = [
+  { value: 'YYYY', label: 'Full year (2026)' },
+  { value: 'YY', label: 'Short year (26)' },
+  { value: 'none', label: 'No year' }
+];
+
+export const NUMBERING_RESETS: { value: NumberingReset; label: string }[] = [
+  { value: 'yearly', label: 'Every year' },
+  { value: 'never', label: 'Never' }
+];
+
+export function normalizeNumbering(value: unknown): QuotationNumbering {
+  if (typeof value !== 'object' || value === null) return DEFAULT_QUOTATION_NUMBERING;
+  const numbering = value as Record<string, unknown>;
+
+  return {
+    prefix: typeof numbering.prefix === 'string' ? numbering.prefix.trim() : DEFAULT_QUOTATION_NUMBERING.prefix,
+    year: NUMBERING_YEARS.some(year => year.value === numbering.year)
+      ? numbering.year as NumberingYear
+      : DEFAULT_QUOTATION_NUMBERING.year,
+    padding: Math.min(Math.max(Math.round(Number(numbering.padding)) || DEFAULT_QUOTATION_NUMBERING.padding, 1), 10),
+    reset: numbering.reset === 'never' ? 'never' : 'yearly'
+  };
+}
+
+// Kept in step with format_quotation_number in the migrations
+export function formatQuotationNumber(numbering: QuotationNumbering, sequence: number, date = new Date()): string {
+  const year = numbering.year === 'none'
+    ? null
+    : String(date.getFullYear()).slice(numbering.year === 'YY' ? -2 : 0);
+
+  return [numbering.prefix || null, year, String(sequence).padStart(numbering.padding, '0')]
+    .filter(part => part !== null)
+    .join('-');
+}
+
+export const revisedQuotationNumber = (quotationNumber: string, revision: number) =>
+  `${quotationNumber.replace(/-R\d+$/, '')}-R${revision}`;
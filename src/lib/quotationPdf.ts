@@ -0,0 +1,218 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { format } from 'date-fns';
+
+// Renders a quotation document as A4 pages: the company header with its logo
+// on every page, the document body, the company's terms at the end, and a
+// footer with the contact details and page numbers.
+
+export const QUOTATION_PDF_BUCKET = 'quotation-pdfs';
+
+// Same as the default of companies.quotation_terms
+export const DEFAULT_QUOTATION_TERMS =
+  'Prices are valid until the date stated on this quotation. Installation is carried out during normal working hours. ' +
+  'Payment terms: 40% on order, 50% on delivery of the equipment and 10% on completion. ' +
+  'Equipment remains our property until paid in full.';
+
+export interface PdfCompany {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  logo_url?: string | null;
+  quotation_terms?: string | null;
+}
+
+export interface QuotationPdfInput {
+  html: string;
+  quotationNumber: string;
+  company: PdfCompany | null;
+  validUntil?: string | null;
+}
+
+// Page layout in mm
+const PAGE = { width: 210, height: 297, margin: 15, headerHeight: 25, footerHeight: 15 };
+const CONTENT_WIDTH = PAGE.width - 2 * PAGE.margin;
+const CONTENT_TOP = PAGE.margin + PAGE.headerHeight;
+const CONTENT_HEIGHT = PAGE.height - CONTENT_TOP - PAGE.margin - PAGE.footerHeight;
+// Page breaks move up to this far to fall between lines of text
+const BREAK_SEARCH = 40;
+// The body is laid out at this width (180 mm at 96 dpi) and rendered at twice that
+const RENDER_WIDTH_PX = 680;
+const RENDER_SCALE = 2;
+
+const DOCUMENT_STYLES = `
+  font-family: Arial, sans-serif;
+  font-size: 13px;
+  line-height: 1.5;
+  color: #333;
+`;
+
+const TABLE_STYLES = `
+  .quotation-pdf table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  .quotation-pdf th, .quotation-pdf td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+  .quotation-pdf th { background-color: #f5f5f5; font-weight: bold; }
+  .quotation-pdf .total-section { margin-top: 24px; }
+  .quotation-pdf .terms { margin-top: 32px; padding-top: 16px; border-top: 2px solid #333; font-size: 11px; }
+  .quotation-pdf .terms h3 { font-size: 13px; margin: 0 0 8px; }
+`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const quotationPdfPath = (userId: string, quotationId: string, quotationNumber: string) =>
+  `${userId}/${quotationId}/${quotationNumber.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+
+function termsHtml(company: PdfCompany | null, validUntil?: string | null): string {
+  const terms = company?.quotation_terms?.trim();
+  if (!terms && !validUntil) return '';
+
+  return `
+    <div class="terms">
+      <h3>Terms and Conditions</h3>
+      ${validUntil ? `<p>This quotation is valid until ${format(new Date(validUntil), 'dd/MM/yyyy')}.</p>` : ''}
+      ${terms ? `<p>${escapeHtml(terms).replace(/\n/g, '<br>')}</p>` : ''}
+    </div>`;
+}
+
+async function renderBody(html: string): Promise<HTMLCanvasElement> {
+  const container = document.createElement('div');
+  container.className = 'quotation-pdf';
+  container.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${RENDER_WIDTH_PX}px; background: #fff; ${DOCUMENT_STYLES}`;
+  container.innerHTML = `<style>${TABLE_STYLES}</style>${html}`;
+  document.body.appendChild(container);
+
+  try {
+    return await html2canvas(container, { scale: RENDER_SCALE, useCORS: true, backgroundColor: '#ffffff', logging: false });
+  } finally {
+    document.body.removeChild(container);
+  }
+}
+
+// The lowest blank row between minY and y, so a page does not end mid-line; y when there is none
+function findPageBreak(canvas: HTMLCanvasElement, y: number, minY: number): number {
+  const context = canvas.getContext('2d');
+  if (!context || y >= canvas.height) return Math.min(y, canvas.height);
+
+  const top = Math.max(minY, 0);
+  const { data } = context.getImageData(0, top, canvas.width, y - top);
+  for (let row = y - top - 1; row >= 0; row--) {
+    let blank = true;
+    for (let offset = row * canvas.width * 4; offset < (row + 1) * canvas.width * 4; offset += 4) {
+      if (data[offset] < 245 || data[offset + 1] < 245 || data[offset + 2] < 245) {
+        blank = false;
+        break;
+      }
+    }
+    if (blank) return top + row + 1;
+  }
+  return y;
+}
+
+// Logos on other hosts need CORS; without it the PDF goes out without a logo
+export async function loadLogo(url: string): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  try {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error(`Could not load ${url}`));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), width: image.naturalWidth, height: image.naturalHeight };
+  } catch (error) {
+    console.warn('📄 QuotationPdf: Logo not included:', (error as Error).message);
+    return null;
+  }
+}
+
+function drawHeader(pdf: jsPDF, input: QuotationPdfInput, logo: Awaited<ReturnType<typeof loadLogo>>) {
+  const top = PAGE.margin;
+  let textLeft = PAGE.margin;
+
+  if (logo) {
+    const height = 15;
+    const width = Math.min(height * (logo.width / logo.height), 50);
+    pdf.addImage(logo.dataUrl, 'PNG', PAGE.margin, top, width, width / (logo.width / logo.height));
+    textLeft += width + 5;
+  }
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(13);
+  pdf.setTextColor(30, 41, 59);
+  pdf.text(input.company?.name || '', textLeft, top + 6);
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(100, 116, 139);
+  if (input.company?.address) {
+    pdf.text(pdf.splitTextToSize(input.company.address, 90).slice(0, 2), textLeft, top + 11);
+  }
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(11);
+  pdf.setTextColor(30, 41, 59);
+  pdf.text('QUOTATION', PAGE.width - PAGE.margin, top + 6, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.text(input.quotationNumber, PAGE.width - PAGE.margin, top + 11, { align: 'right' });
+
+  pdf.setDrawColor(203, 213, 225);
+  pdf.line(PAGE.margin, CONTENT_TOP - 4, PAGE.width - PAGE.margin, CONTENT_TOP - 4);
+}
+
+function drawFooter(pdf: jsPDF, input: QuotationPdfInput, page: number, pages: number) {
+  const y = PAGE.height - PAGE.margin;
+  const contact = [input.company?.name, input.company?.email, input.company?.phone].filter(Boolean).join(' · ');
+
+  pdf.setDrawColor(203, 213, 225);
+  pdf.line(PAGE.margin, y - 6, PAGE.width - PAGE.margin, y - 6);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(100, 116, 139);
+  pdf.text(contact, PAGE.margin, y);
+  pdf.text(`Page ${page} of ${pages}`, PAGE.width - PAGE.margin, y, { align: 'right' });
+}
+
+export async function renderQuotationPdf(input: QuotationPdfInput): Promise<Blob> {
+  console.log('📄 QuotationPdf: Rendering PDF for quotation:', input.quotationNumber);
+  const [body, logo] = await Promise.all([
+    renderBody(input.html + termsHtml(input.company, input.validUntil)),
+    input.company?.logo_url ? loadLogo(input.company.logo_url) : Promise.resolve(null)
+  ]);
+
+  const pxPerMm = body.width / CONTENT_WIDTH;
+  const pageHeightPx = Math.floor(CONTENT_HEIGHT * pxPerMm);
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+
+  let y = 0;
+  let page = 0;
+  while (y < body.height) {
+    const end = findPageBreak(body, y + pageHeightPx, y + pageHeightPx - Math.floor(BREAK_SEARCH * pxPerMm));
+    const slice = document.createElement('canvas');
+    slice.width = body.width;
+    slice.height = end - y;
+    slice.getContext('2d')?.drawImage(body, 0, y, body.width, slice.height, 0, 0, body.width, slice.height);
+
+    if (page > 0) pdf.addPage();
+    pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE.margin, CONTENT_TOP, CONTENT_WIDTH, slice.height / pxPerMm);
+    y = end;
+    page++;
+  }
+
+  const pages = pdf.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    pdf.setPage(i);
+    drawHeader(pdf, input, logo);
+    drawFooter(pdf, input, i, pages);
+  }
+
+  pdf.setProperties({ title: `Quotation ${input.quotationNumber}`, author: input.company?.name || '' });
+  console.log('📄 QuotationPdf: Rendered pages:', pages);
+  return pdf.output('blob');
+}
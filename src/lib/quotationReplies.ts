@@ -0,0 +1,106 @@
+import { canTransition, type QuotationStatus } from './quotationStatus';
+
+// Client replies found in the Gmail threads of sent quotations. A keyword
+// classifier sorts each reply into what the client most likely means; the
+// Quotations page suggests the matching status change for the user to confirm.
+
+export type ReplyClassification = 'accept' | 'reject' | 'question' | 'revision_request' | 'other';
+
+export interface QuotationReply {
+  id: string;
+  quotation_id: string;
+  user_id: string;
+  gmail_id: string;
+  thread_id: string;
+  from_email: string;
+  from_name: string | null;
+  subject: string | null;
+  snippet: string | null;
+  body: string | null;
+  received_at: string;
+  classification: ReplyClassification;
+  suggested_status: QuotationStatus | null;
+  resolved_at: string | null;
+  resolution: 'applied' | 'dismissed' | null;
+  created_at: string;
+}
+
+export const REPLY_LABELS: Record<ReplyClassification, string> = {
+  accept: 'Acceptance',
+  reject: 'Rejection',
+  question: 'Question',
+  revision_request: 'Revision request',
+  other: 'Reply'
+};
+
+const SUGGESTED_STATUS: Partial<Record<ReplyClassification, QuotationStatus>> = {
+  accept: 'accepted',
+  reject: 'rejected',
+  revision_request: 'draft'
+};
+
+// Phrases per classification; a phrase counts once however often it appears
+const PHRASES: Record<Exclude<ReplyClassification, 'other'>, string[]> = {
+  accept: [
+    'we accept', 'i accept', 'accepted', 'approve the quotation', 'approved', 'go ahead', 'proceed with the order',
+    'please proceed', 'purchase order', 'happy to proceed', 'confirm the order', 'we confirm', 'award', 'signed copy'
+  ],
+  reject: [
+    'not proceed', 'not be proceeding', 'decline', 'declined', 'reject', 'another supplier', 'another contractor',
+    'gone with', 'not successful', 'unsuccessful', 'no longer required', 'cancelled', 'on hold', 'too expensive',
+    'not interested'
+  ],
+  revision_request: [
+    'revise', 'revised quotation', 'revision', 'update the quotation', 'updated quotation', 'amend', 'change the',
+    'discount', 'better price', 'lower price', 'reduce the price', 'alternative', 'instead of', 'remove the',
+    'add the', 're-quote', 'requote'
+  ],
+  question: [
+    'could you', 'can you', 'would you', 'please clarify', 'clarification', 'what is', 'how long', 'when can',
+    'lead time', 'delivery time', 'warranty', 'does the', 'is the', 'please confirm'
+  ]
+};
+
+// Negated acceptance reads as a rejection ("we cannot accept", "will not go ahead")
+const NEGATED_ACCEPT = /\b(not|cannot|can't|won't|unable to|don't)\s+(be\s+)?(accept|approve|go ahead|proceed)/;
+
+// The reply without the quoted message below it
+export function stripQuotedText(body: string): string {
+  const lines = body.split(/\r?\n/);
+  const end = lines.findIndex(line =>
+    /^On .+wrote:\s*$/.test(line.trim()) ||
+    /^-{2,}\s*(Original Message|Forwarded message)/i.test(line.trim()) ||
+    /^From:\s/.test(line.trim())
+  );
+  return (end === -1 ? lines : lines.slice(0, end))
+    .filter(line => !line.trim().startsWith('>'))
+    .join('\n')
+    .trim();
+}
+
+export function classifyReply(subject: string, body: string): { classification: ReplyClassification; suggested_status: QuotationStatus | null } {
+  const text = `${subject.replace(/^(re|fwd?):\s*/gi, '')}\n${stripQuotedText(body)}`.toLowerCase();
+
+  const scores = Object.fromEntries(
+    (Object.keys(PHRASES) as (keyof typeof PHRASES)[]).map(kind => [kind, PHRASES[kind].filter(phrase => text.includes(phrase)).length])
+  ) as Record<keyof typeof PHRASES, number>;
+
+  if (NEGATED_ACCEPT.test(text)) {
+    scores.reject += 2;
+    scores.accept = 0;
+  }
+  if (text.includes('?')) scores.question += 1;
+
+  // On a tie the reply that needs more work wins: a rejection, then a revision
+  const order: (keyof typeof PHRASES)[] = ['reject', 'revision_request', 'accept', 'question'];
+  const best = order.reduce((winner, kind) => (scores[kind] > scores[winner] ? kind : winner), order[0]);
+  const classification: ReplyClassification = scores[best] > 0 ? best : 'other';
+
+  return { classification, suggested_status: SUGGESTED_STATUS[classification] || null };
+}
+
+// The suggestion only stands while the quotation can still make that move
+export const applicableSuggestion = (reply: QuotationReply, status: string) =>
+  !reply.resolved_at && reply.suggested_status && canTransition(status, reply.suggested_status)
+    ? reply.suggested_status
+    : null;
@@ -0,0 +1,147 @@
+import { fromItemRows, type QuotationItemRow, type QuotationLine } from '../../supabase/functions/_shared/quotationItems';
+import { BASE_CURRENCY, formatMoney } from '../../supabase/functions/_shared/currency';
+
+// Quotation revisions are immutable snapshots written by record_quotation_revision
+// on every save; this compares two of them line by line.
+
+export type RevisionSource = 'analysis' | 'import' | 'draft_save' | 'approval' | 'restore';
+
+export interface QuotationRevision {
+  id: string;
+  quotation_id: string;
+  revision: number;
+  source: RevisionSource;
+  restored_from: number | null;
+  items: QuotationItemRow[];
+  analysis: unknown;
+  total_amount: number;
+  margin_percentage: number;
+  // Null on revisions recorded before VAT
+  tax_code: string | null;
+  tax_rate: number | null;
+  tax_amount: number | null;
+  gross_amount: number | null;
+  // Null on revisions recorded before currencies, which are in EUR
+  currency: string | null;
+  exchange_rate: number | null;
+  client_details: Record<string, unknown> | null;
+  status: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  analysis: 'RFQ analysis',
+  import: 'BoQ import',
+  draft_save: 'Draft saved',
+  approval: 'Approved',
+  restore: 'Restored'
+};
+
+export interface LineChange {
+  kind: 'added' | 'removed' | 'changed';
+  label: string;
+  before?: QuotationLine;
+  after?: QuotationLine;
+  // Fields that differ, for changed lines
+  fields: string[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionDiff {
+  lines: LineChange[];
+  totals: FieldChange[];
+  client: FieldChange[];
+  // Currency of the later revision, for formatting amounts
+  currency: string;
+}
+
+const COMPARED_LINE_FIELDS = [
+  'quantity', 'unit', 'option_kind', 'option_group', 'cost_price', 'markup_percentage', 'markup_amount', 'unit_price',
+  'discount_percentage', 'discount_amount', 'total_price', 'tax_rate', 'description', 'notes'
+] as const;
+const COMPARED_CLIENT_FIELDS = ['name', 'company', 'email', 'phone', 'address', 'project_name', 'location', 'building_type'];
+
+export const lineLabel = (line: QuotationLine) =>
+  [line.brand, line.model].filter(Boolean).join(' ') || line.description || 'Unnamed item';
+
+// Lines get new row ids on every save, so they are paired by what they are:
+// the catalog item, else the BoQ row, else brand, model and description.
+// Repeated keys pair up in order.
+const lineKey = (line: QuotationLine) =>
+  line.equipment_id || line.boq_reference || `${line.brand}|${line.model}|${line.description}`;
+
+function groupByKey(lines: QuotationLine[]): Map<string, QuotationLine[]> {
+  const groups = new Map<string, QuotationLine[]>();
+  lines.forEach(line => {
+    const key = lineKey(line);
+    groups.set(key, [...(groups.get(key) || []), line]);
+  });
+  return groups;
+}
+
+const sameValue = (a: unknown, b: unknown) =>
+  typeof a === 'number' || typeof b === 'number' ? Number(a || 0) === Number(b || 0) : (a || '') === (b || '');
+
+export function diffRevisions(from: QuotationRevision, to: QuotationRevision): RevisionDiff {
+  const fromGroups = groupByKey(fromItemRows(from.items));
+  const toLines = fromItemRows(to.items);
+  const lines: LineChange[] = [];
+
+  toLines.forEach(after => {
+    const before = fromGroups.get(lineKey(after))?.shift();
+    if (!before) {
+      lines.push({ kind: 'added', label: lineLabel(after), after, fields: [] });
+      return;
+    }
+
+    const fields = COMPARED_LINE_FIELDS.filter(field => !sameValue(before[field], after[field]));
+    if (fields.length > 0) {
+      lines.push({ kind: 'changed', label: lineLabel(after), before, after, fields });
+    }
+  });
+
+  fromGroups.forEach(remaining => {
+    remaining.forEach(before => lines.push({ kind: 'removed', label: lineLabel(before), before, fields: [] }));
+  });
+
+  const totals: FieldChange[] = [
+    { field: 'total_amount', before: Number(from.total_amount), after: Number(to.total_amount) },
+    { field: 'margin_percentage', before: Number(from.margin_percentage), after: Number(to.margin_percentage) },
+    { field: 'tax_rate', before: Number(from.tax_rate ?? 0), after: Number(to.tax_rate ?? 0) },
+    { field: 'gross_amount', before: Number(from.gross_amount ?? from.total_amount), after: Number(to.gross_amount ?? to.total_amount) },
+    { field: 'currency', before: from.currency || BASE_CURRENCY, after: to.currency || BASE_CURRENCY }
+  ].filter(change => !sameValue(change.before, change.after));
+
+  const client = COMPARED_CLIENT_FIELDS
+    .map(field => ({ field, before: from.client_details?.[field], after: to.client_details?.[field] }))
+    .filter(change => !sameValue(change.before, change.after));
+
+  return { lines, totals, client, currency: to.currency || BASE_CURRENCY };
+}
+
+// One-line description for the revision list, e.g. "2 added, 1 changed, total +€1,200"
+export function summarizeDiff(diff: RevisionDiff): string {
+  const parts: string[] = [];
+  const count = (kind: LineChange['kind']) => diff.lines.filter(line => line.kind === kind).length;
+
+  if (count('added')) parts.push(`${count('added')} added`);
+  if (count('removed')) parts.push(`${count('removed')} removed`);
+  if (count('changed')) parts.push(`${count('changed')} changed`);
+
+  const total = diff.totals.find(change => change.field === 'total_amount');
+  if (total) {
+    const delta = Number(total.after) - Number(total.before);
+    parts.push(`total ${delta >= 0 ? '+' : '-'}${formatMoney(Math.abs(delta), diff.currency)}`);
+  }
+  if (diff.totals.some(change => change.field === 'currency')) parts.push('currency changed');
+  if (diff.totals.some(change => change.field === 'margin_percentage')) parts.push('margin changed');
+  if (diff.client.length) parts.push('client details changed');
+
+  return parts.length ? parts.join(', ') : 'No changes';
+}
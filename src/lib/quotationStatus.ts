@@ -0,0 +1,38 @@
+// Quotation statuses move along a state machine enforced by the database
+// (quotation_status_allowed); every change is written to quotation_events.
+
+export type QuotationStatus = 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
+
+// Kept in step with quotation_status_allowed in the migrations
+export const STATUS_TRANSITIONS: Record<QuotationStatus, QuotationStatus[]> = {
+  draft: ['approved'],
+  approved: ['sent', 'accepted', 'rejected', 'expired', 'draft'],
+  sent: ['accepted', 'rejected', 'expired', 'draft'],
+  expired: ['sent', 'approved', 'draft'],
+  rejected: ['draft'],
+  accepted: []
+};
+
+export const canTransition = (from: string, to: QuotationStatus) =>
+  (STATUS_TRANSITIONS[from as QuotationStatus] || []).includes(to);
+
+// Going back to draft to change a quotation that went out
+export const canRevise = (status: string) => status !== 'draft' && canTransition(status, 'draft');
+
+export interface QuotationEvent {
+  id: string;
+  quotation_id: string;
+  // Null for the creation of the quotation
+  from_status: QuotationStatus | null;
+  to_status: QuotationStatus;
+  // Null for the client portal and scheduled jobs
+  actor: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export function describeEvent(event: QuotationEvent): string {
+  if (!event.from_status) return `Created as ${event.to_status}`;
+  if (event.to_status === 'draft') return `Revised from ${event.from_status} to draft`;
+  return `${event.from_status} → ${event.to_status}`;
+}
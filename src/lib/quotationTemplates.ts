@@ -0,0 +1,70 @@
+import type { QuotationLine } from '../../supabase/functions/_shared/quotationItems';
+
+// Quotation templates are named packages of lines ("2-bed apartment split
+// system package") that are inserted into any quotation with the quantities
+// scaled. Costs keep their source currency like catalog lines; fixed markup and
+// discount amounts are in the template's currency.
+
+export interface QuotationTemplate {
+  id: string;
+  user_id: string;
+  company_id: string | null;
+  name: string;
+  description: string | null;
+  currency: string;
+  items: QuotationLine[];
+  created_at: string;
+  updated_at: string;
+}
+
+// What a line is and how it is priced, without anything that belongs to one
+// quotation (ids, BoQ references, derived prices and totals)
+export function toTemplateLines(lines: QuotationLine[], currency: string): QuotationLine[] {
+  return lines.map(line => {
+    const cost = line.cost_price ?? line.unit_price;
+    return {
+      equipment_id: line.equipment_id ?? null,
+      line_type: line.line_type || 'equipment',
+      unit: line.unit ?? null,
+      trade: line.trade ?? null,
+      option_kind: line.option_kind || 'base',
+      option_group: line.option_group ?? null,
+      brand: line.brand,
+      model: line.model,
+      category: line.category,
+      quantity: line.quantity,
+      cost_price: cost,
+      cost_currency: line.cost_currency || currency,
+      source_cost_price: line.source_cost_price ?? cost,
+      list_price: line.list_price,
+      markup_percentage: line.markup_percentage ?? null,
+      markup_amount: line.markup_amount ?? null,
+      unit_price: 0,
+      discount_percentage: line.discount_percentage || 0,
+      discount_amount: line.discount_amount || 0,
+      total_price: 0,
+      tax_code: line.tax_code ?? null,
+      description: line.description,
+      notes: line.notes ?? null,
+      specifications: line.specifications,
+      ai_specialization: line.ai_specialization,
+      power_kw: line.power_kw
+    };
+  });
+}
+
+// Quantities times `factor`. Equipment is counted in whole units and rounded
+// up; hours, metres and sums keep two decimals. Fixed line discounts scale too.
+export function scaleTemplateLines(lines: QuotationLine[], factor: number): QuotationLine[] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return lines.map(line => {
+    const scaled = line.quantity * factor;
+    const isEquipment = !line.line_type || line.line_type === 'equipment';
+    return {
+      ...line,
+      quantity: isEquipment ? Math.max(1, Math.ceil(scaled - 1e-9)) : round(scaled),
+      discount_amount: round((line.discount_amount || 0) * factor)
+    };
+  });
+}
@@ -83,6 +83,38 @@ export type Database = {
           analysis: any;
           total_amount: number;
           margin_percentage: number;
+          tax_code?: string | null;
+          tax_rate: number;
+          net_amount: number;
+          tax_amount: number;
+          gross_amount: number;
+          currency: string;
+          exchange_rate: number;
+          exchange_rates: Record<string, number>;
+          exchange_rates_locked_at?: string | null;
+          selected_alternative?: string | null;
+          selected_optionals: string[];
+          options_accepted_at?: string | null;
+          portal_link_issued_at?: string | null;
+          portal_viewed_at?: string | null;
+          accepted_at?: string | null;
+          accepted_by_name?: string | null;
+          acceptance_signature?: string | null;
+          rejected_at?: string | null;
+          rejection_reason?: string | null;
+          expired_at?: string | null;
+          error_message?: string | null;
+          last_error_at?: string | null;
+          last_modified_by?: string | null;
+          last_modified_at?: string | null;
+          number_revision?: number;
+          pdf_url?: string | null;
+          pdf_generated_at?: string | null;
+          docx_url?: string | null;
+          docx_generated_at?: string | null;
+          sent_message_id?: string | null;
+          sent_thread_id?: string | null;
+          sent_recipients?: string[];
           status: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
           valid_until?: string;
           sent_at?: string;
@@ -103,6 +135,38 @@ export type Database = {
           analysis?: any;
           total_amount?: number;
           margin_percentage?: number;
+          tax_code?: string | null;
+          tax_rate?: number;
+          net_amount?: number;
+          tax_amount?: number;
+          gross_amount?: number;
+          currency?: string;
+          exchange_rate?: number;
+          exchange_rates?: Record<string, number>;
+          exchange_rates_locked_at?: string | null;
+          selected_alternative?: string | null;
+          selected_optionals?: string[];
+          options_accepted_at?: string | null;
+          portal_link_issued_at?: string | null;
+          portal_viewed_at?: string | null;
+          accepted_at?: string | null;
+          accepted_by_name?: string | null;
+          acceptance_signature?: string | null;
+          rejected_at?: string | null;
+          rejection_reason?: string | null;
+          expired_at?: string | null;
+          error_message?: string | null;
+          last_error_at?: string | null;
+          last_modified_by?: string | null;
+          last_modified_at?: string | null;
+          number_revision?: number;
+          pdf_url?: string | null;
+          pdf_generated_at?: string | null;
+          docx_url?: string | null;
+          docx_generated_at?: string | null;
+          sent_message_id?: string | null;
+          sent_thread_id?: string | null;
+          sent_recipients?: string[];
           status?: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
           valid_until?: string;
           sent_at?: string;
@@ -123,6 +187,38 @@ export type Database = {
           analysis?: any;
           total_amount?: number;
           margin_percentage?: number;
+          tax_code?: string | null;
+          tax_rate?: number;
+          net_amount?: number;
+          tax_amount?: number;
+          gross_amount?: number;
+          currency?: string;
+          exchange_rate?: number;
+          exchange_rates?: Record<string, number>;
+          exchange_rates_locked_at?: string | null;
+          selected_alternative?: string | null;
+          selected_optionals?: string[];
+          options_accepted_at?: string | null;
+          portal_link_issued_at?: string | null;
+          portal_viewed_at?: string | null;
+          accepted_at?: string | null;
+          accepted_by_name?: string | null;
+          acceptance_signature?: string | null;
+          rejected_at?: string | null;
+          rejection_reason?: string | null;
+          expired_at?: string | null;
+          error_message?: string | null;
+          last_error_at?: string | null;
+          last_modified_by?: string | null;
+          last_modified_at?: string | null;
+          number_revision?: number;
+          pdf_url?: string | null;
+          pdf_generated_at?: string | null;
+          docx_url?: string | null;
+          docx_generated_at?: string | null;
+          sent_message_id?: string | null;
+          sent_thread_id?: string | null;
+          sent_recipients?: string[];
           status?: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
           valid_until?: string;
           sent_at?: string;
@@ -144,6 +240,8 @@ export type Database = {
           category: 'air_conditioning' | 'heating' | 'plumbing' | 'electrical';
           power_kw?: number;
           price_eur: number;
+          cost_eur?: number | null;
+          currency: string;
           description?: string;
           specifications: any;
           in_stock: boolean;
@@ -156,6 +254,8 @@ export type Database = {
           category: 'air_conditioning' | 'heating' | 'plumbing' | 'electrical';
           power_kw?: number;
           price_eur: number;
+          cost_eur?: number | null;
+          currency?: string;
           description?: string;
           specifications?: any;
           in_stock?: boolean;
@@ -168,6 +268,8 @@ export type Database = {
           category?: 'air_conditioning' | 'heating' | 'plumbing' | 'electrical';
           power_kw?: number;
           price_eur?: number;
+          cost_eur?: number | null;
+          currency?: string;
           description?: string;
           specifications?: any;
           in_stock?: boolean;
@@ -183,6 +285,12 @@ export type Database = {
           address?: string;
           logo_url?: string;
           is_default: boolean;
+          tax_rates: { code: string; label: string; rate: number }[];
+          default_tax_code: string;
+          labour_rates: { trade: string; label: string; rate: number }[];
+          quotation_numbering: { prefix: string; year: 'YYYY' | 'YY' | 'none'; padding: number; reset: 'yearly' | 'never' };
+          quotation_terms: string;
+          document_template: { sections: { key: string; title: string; body: string; enabled: boolean }[] } | null;
           created_at: string;
         };
         Insert: {
@@ -193,6 +301,12 @@ export type Database = {
           address?: string;
           logo_url?: string;
           is_default?: boolean;
+          tax_rates?: { code: string; label: string; rate: number }[];
+          default_tax_code?: string;
+          labour_rates?: { trade: string; label: string; rate: number }[];
+          quotation_numbering?: { prefix: string; year: 'YYYY' | 'YY' | 'none'; padding: number; reset: 'yearly' | 'never' };
+          quotation_terms?: string;
+          document_template?: { sections: { key: string; title: string; body: string; enabled: boolean }[] } | null;
           created_at?: string;
         };
         Update: {
@@ -203,9 +317,216 @@ export type Database = {
           address?: string;
           logo_url?: string;
           is_default?: boolean;
+          tax_rates?: { code: string; label: string; rate: number }[];
+          default_tax_code?: string;
+          labour_rates?: { trade: string; label: string; rate: number }[];
+          quotation_numbering?: { prefix: string; year: 'YYYY' | 'YY' | 'none'; padding: number; reset: 'yearly' | 'never' };
+          quotation_terms?: string;
+          document_template?: { sections: { key: string; title: string; body: string; enabled: boolean }[] } | null;
           created_at?: string;
         };
       };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          quotation_id: string | null;
+          kind: 'quotation_accepted' | 'quotation_rejected' | 'quotation_expired';
+          title: string;
+          message: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          quotation_id?: string | null;
+          kind: 'quotation_accepted' | 'quotation_rejected' | 'quotation_expired';
+          title: string;
+          message?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          quotation_id?: string | null;
+          kind?: 'quotation_accepted' | 'quotation_rejected' | 'quotation_expired';
+          title?: string;
+          message?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+      };
+      quotation_events: {
+        Row: {
+          id: string;
+          quotation_id: string;
+          from_status: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired' | null;
+          to_status: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
+          actor: string | null;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          quotation_id: string;
+          from_status?: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired' | null;
+          to_status: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
+          actor?: string | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          quotation_id?: string;
+          from_status?: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired' | null;
+          to_status?: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
+          actor?: string | null;
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
+      quotation_reply_checkpoints: {
+        Row: {
+          quotation_id: string;
+          user_id: string;
+          thread_id: string;
+          history_id: string | null;
+          checked_at: string;
+        };
+        Insert: {
+          quotation_id: string;
+          user_id: string;
+          thread_id: string;
+          history_id?: string | null;
+          checked_at?: string;
+        };
+        Update: {
+          quotation_id?: string;
+          user_id?: string;
+          thread_id?: string;
+          history_id?: string | null;
+          checked_at?: string;
+        };
+      };
+      quotation_replies: {
+        Row: {
+          id: string;
+          quotation_id: string;
+          user_id: string;
+          gmail_id: string;
+          thread_id: string;
+          from_email: string;
+          from_name: string | null;
+          subject: string | null;
+          snippet: string | null;
+          body: string | null;
+          received_at: string;
+          classification: 'accept' | 'reject' | 'question' | 'revision_request' | 'other';
+          suggested_status: 'accepted' | 'rejected' | 'draft' | null;
+          resolved_at: string | null;
+          resolution: 'applied' | 'dismissed' | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          quotation_id: string;
+          user_id: string;
+          gmail_id: string;
+          thread_id: string;
+          from_email: string;
+          from_name?: string | null;
+          subject?: string | null;
+          snippet?: string | null;
+          body?: string | null;
+          received_at: string;
+          classification: 'accept' | 'reject' | 'question' | 'revision_request' | 'other';
+          suggested_status?: 'accepted' | 'rejected' | 'draft' | null;
+          resolved_at?: string | null;
+          resolution?: 'applied' | 'dismissed' | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          quotation_id?: string;
+          user_id?: string;
+          gmail_id?: string;
+          thread_id?: string;
+          from_email?: string;
+          from_name?: string | null;
+          subject?: string | null;
+          snippet?: string | null;
+          body?: string | null;
+          received_at?: string;
+          classification?: 'accept' | 'reject' | 'question' | 'revision_request' | 'other';
+          suggested_status?: 'accepted' | 'rejected' | 'draft' | null;
+          resolved_at?: string | null;
+          resolution?: 'applied' | 'dismissed' | null;
+          created_at?: string;
+        };
+      };
+      quotation_templates: {
+        Row: {
+          id: string;
+          user_id: string;
+          company_id: string | null;
+          name: string;
+          description: string | null;
+          currency: string;
+          items: unknown[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          company_id?: string | null;
+          name: string;
+          description?: string | null;
+          currency?: string;
+          items?: unknown[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          company_id?: string | null;
+          name?: string;
+          description?: string | null;
+          currency?: string;
+          items?: unknown[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      exchange_rates: {
+        Row: {
+          id: string;
+          user_id: string;
+          currency: string;
+          rate: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          currency: string;
+          rate: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          currency?: string;
+          rate?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
   };
 };
\ No newline at end of file
@@ -0,0 +1,311 @@
+import React, { useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle, FileText, Loader2, AlertCircle } from 'lucide-react';
+import { usePortalQuotation } from '../hooks/usePortalQuotation';
+import { formatMoney } from '../../supabase/functions/_shared/currency';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// The page a client opens from a quotation link: no login, the link's token
+// is the only credential
+export default function ClientPortal() {
+  const [searchParams] = useSearchParams();
+  const { quotation, loading, submitting, error, respond } = usePortalQuotation(searchParams.get('token'));
+
+  const [name, setName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [alternative, setAlternative] = useState<string | null>(null);
+  const [optionals, setOptionals] = useState<string[] | null>(null);
+
+  const padRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!quotation) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+        <div className="max-w-lg bg-white rounded-3xl border border-slate-200 p-8 text-center">
+          <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-slate-900 mb-2">Link not valid</h1>
+          <p className="text-slate-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const money = (amount: number) => formatMoney(amount, quotation.currency);
+  const chosenAlternative = alternative ?? quotation.selected_alternative;
+  const chosenOptionals = optionals
+    ?? (quotation.options || []).filter(option => option.kind === 'optional' && option.included).map(option => option.group!);
+
+  const padPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [event.clientX - rect.left, event.clientY - rect.top] as const;
+  };
+
+  const startSignature = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = padRef.current?.getContext('2d');
+    if (!context) return;
+    drawingRef.current = true;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    context.beginPath();
+    context.moveTo(...padPoint(event));
+  };
+
+  const drawSignature = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = padRef.current?.getContext('2d');
+    if (!drawingRef.current || !context) return;
+    context.lineTo(...padPoint(event));
+    context.stroke();
+  };
+
+  const endSignature = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    setSignature(padRef.current?.toDataURL('image/png') || null);
+  };
+
+  const clearSignature = () => {
+    const pad = padRef.current;
+    pad?.getContext('2d')?.clearRect(0, 0, pad.width, pad.height);
+    setSignature(null);
+  };
+
+  const toggleOptional = (group: string) => {
+    setOptionals(chosenOptionals.includes(group)
+      ? chosenOptionals.filter(selected => selected !== group)
+      : [...chosenOptionals, group]);
+  };
+
+  const handleAccept = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await respond({
+        response: 'accept',
+        name: name.trim(),
+        signature,
+        alternative: chosenAlternative,
+        optionals: chosenOptionals
+      });
+    } catch {
+      // Shown from the hook's error
+    }
+  };
+
+  const handleReject = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      await respond({ response: 'reject', reason: reason.trim() });
+    } catch {
+      // Shown from the hook's error
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <main className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <section className="bg-white rounded-3xl border border-slate-200 p-8">
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Quotation {quotation.quotation_number}</h1>
+          <p className="text-slate-500">
+            {[
+              quotation.company_name,
+              quotation.project_name,
+              quotation.valid_until && `Valid until ${formatDate(quotation.valid_until)}`
+            ].filter(Boolean).join(' · ')}
+          </p>
+          <p className="mt-4 text-2xl font-bold text-slate-900">
+            {money(quotation.total)}
+            {quotation.tax && <span className="ml-2 text-base font-medium text-slate-500">incl. VAT</span>}
+          </p>
+        </section>
+
+        <section className="bg-white rounded-3xl border border-slate-200 p-8">
+          {quotation.html_quotation ? (
+            // The workflow's document is a page of its own, so it is shown in a frame
+            <iframe
+              title="Quotation"
+              sandbox=""
+              srcDoc={quotation.html_quotation}
+              className="w-full h-[70vh] border border-slate-200 rounded-xl"
+            />
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-slate-600">
+                  <th className="py-2">Item</th>
+                  <th className="py-2">Qty</th>
+                  <th className="py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quotation.items.map((item, index) => (
+                  <tr key={index} className="border-b border-slate-100">
+                    <td className="py-2 text-slate-900">{item.label}</td>
+                    <td className="py-2 text-slate-700">{item.quantity}{item.unit ? ` ${item.unit}` : ''}</td>
+                    <td className="py-2 text-right text-slate-900">{money(item.total_price)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {quotation.tax && (
+            <table className="w-full mt-6">
+              <tbody>
+                <tr>
+                  <td className="py-1 text-right text-slate-700">Total excl. VAT</td>
+                  <td className="py-1 pl-6 w-40 text-right text-slate-900">{money(quotation.tax.net)}</td>
+                </tr>
+                {quotation.tax.breakdown.map(group => (
+                  <tr key={`${group.code}-${group.rate}`}>
+                    <td className="py-1 text-right text-slate-700">{group.label} on {money(group.net)}</td>
+                    <td className="py-1 pl-6 text-right text-slate-900">{money(group.tax)}</td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-1 text-right font-bold text-slate-900">Total incl. VAT</td>
+                  <td className="py-1 pl-6 text-right font-bold text-slate-900">{money(quotation.tax.gross)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-2xl p-4 text-red-800 flex items-center">
+            <AlertCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {quotation.notice ? (
+          <section className="bg-white rounded-3xl border-l-4 border-blue-600 p-8">
+            <p className="text-slate-800 flex items-center">
+              <FileText className="w-5 h-5 mr-3 text-blue-600 flex-shrink-0" />
+              {quotation.notice}
+            </p>
+          </section>
+        ) : (
+          <>
+            <form onSubmit={handleAccept} className="bg-white rounded-3xl border border-slate-200 p-8 space-y-4">
+              {quotation.options && (
+                // Alternatives are chosen with radio buttons, optional extras with checkboxes
+                <div>
+                  <h2 className="text-xl font-bold text-slate-900 mb-4">Your options</h2>
+                  <table className="w-full">
+                    <tbody>
+                      {quotation.options.map(option => (
+                        <tr key={`${option.kind}-${option.group}`} className="border-b border-slate-100">
+                          <td className="py-2 w-8">
+                            {option.kind === 'alternative' ? (
+                              <input
+                                type="radio"
+                                name="alternative"
+                                checked={option.group === chosenAlternative}
+                                onChange={() => setAlternative(option.group)}
+                              />
+                            ) : option.kind === 'optional' ? (
+                              <input
+                                type="checkbox"
+                                checked={chosenOptionals.includes(option.group!)}
+                                onChange={() => toggleOptional(option.group!)}
+                              />
+                            ) : (
+                              <CheckCircle className="w-4 h-4 text-green-600" />
+                            )}
+                          </td>
+                          <td className="py-2 text-slate-900">
+                            {option.kind === 'base'
+                              ? 'Base scope'
+                              : `${option.kind === 'alternative' ? 'Alternative' : 'Optional extra'}: ${option.group}`}
+                          </td>
+                          <td className="py-2 text-right text-slate-900">{money(option.net + option.tax)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-sm text-slate-500">
+                    Amounts include VAT. Choose one alternative and any optional extras you would like.
+                  </p>
+                </div>
+              )}
+
+              <h2 className="text-xl font-bold text-slate-900">Accept this quotation</h2>
+              <div>
+                <label htmlFor="name" className="block font-semibold text-slate-700 mb-1">Full name</label>
+                <input
+                  id="name"
+                  type="text"
+                  required
+                  autoComplete="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-xl"
+                />
+              </div>
+              <div>
+                <label className="block font-semibold text-slate-700 mb-1">Signature</label>
+                <canvas
+                  ref={padRef}
+                  width={400}
+                  height={120}
+                  onPointerDown={startSignature}
+                  onPointerMove={drawSignature}
+                  onPointerUp={endSignature}
+                  className="max-w-full bg-white border border-dashed border-slate-400 rounded-xl touch-none"
+                />
+                <p className="mt-1 text-sm text-slate-500">
+                  Sign above with your mouse or finger.{' '}
+                  {signature && (
+                    <button type="button" onClick={clearSignature} className="text-blue-600 hover:underline">
+                      Clear
+                    </button>
+                  )}
+                </p>
+              </div>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="flex items-center px-6 py-3 bg-green-600 text-white font-semibold rounded-xl hover:bg-green-700 disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <CheckCircle className="w-5 h-5 mr-2" />}
+                Accept quotation
+              </button>
+            </form>
+
+            <form onSubmit={handleReject} className="bg-white rounded-3xl border border-slate-200 p-8 space-y-4">
+              <h2 className="text-xl font-bold text-slate-900">Decline this quotation</h2>
+              <div>
+                <label htmlFor="reason" className="block font-semibold text-slate-700 mb-1">Reason (optional)</label>
+                <textarea
+                  id="reason"
+                  rows={3}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-4 py-2 border border-slate-300 rounded-xl"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="flex items-center px-6 py-3 bg-red-600 text-white font-semibold rounded-xl hover:bg-red-700 disabled:opacity-50"
+              >
+                <XCircle className="w-5 h-5 mr-2" />
+                Decline quotation
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -36,6 +36,9 @@ import { format, startOfDay, endOfDay, subDays, startOfMonth, endOfMonth } from
 import { useAuth } from '../hooks/useAuth';
 import GettingStartedGuide from '../components/GettingStartedGuide';
 import { useNavigate } from 'react-router-dom';
+import { fromItemRows, type QuotationLine } from '../../supabase/functions/_shared/quotationItems';
+import { formatMoney, toBaseAmount } from '../../supabase/functions/_shared/currency';
+import { daysUntilExpiry, expiryLabel, isExpiringSoon } from '../lib/quotationExpiry';
 
 interface DashboardStats {
   todayRFQs: number;
@@ -75,10 +78,23 @@ interface RecentActivity {
   technical_info?: any;
 }
 
+interface ExpiringQuotation {
+  id: string;
+  quotation_number: string;
+  valid_until: string;
+  total_amount: number;
+  currency?: string | null;
+  days_left: number;
+}
+
 interface DashboardProps {
   onGlobalError?: (error: { title: string; message: string; type?: 'error' | 'timeout' | 'network' }) => void;
 }
 
+// Installed capacity of a quotation's lines in kW
+const equipmentLineCapacity = (lines: QuotationLine[]) =>
+  lines.reduce((sum, line) => sum + (line.power_kw || 0) * (line.quantity || 1), 0);
+
 export default function Dashboard({ onGlobalError }: DashboardProps) {
   const { user, profile } = useAuth();
   const navigate = useNavigate();
@@ -105,6 +121,7 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
     systemComplexity: { simple: 0, medium: 0, complex: 0 }
   });
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
+  const [expiringQuotations, setExpiringQuotations] = useState<ExpiringQuotation[]>([]);
   const [loading, setLoading] = useState(true);
   const [showGuide, setShowGuide] = useState(false);
 
@@ -133,7 +150,7 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
       console.log('📊 Dashboard: Fetching all quotations for MEP analysis');
       const { data: allQuotations } = await supabase
         .from('quotations')
-        .select('*')
+        .select('*, quotation_items(*)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -151,10 +168,10 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
         q.created_at >= monthStart && q.created_at <= monthEnd
       );
       
-      const monthlyRevenue = monthlyAccepted.reduce((sum, q) => sum + (q.total_amount || 0), 0);
+      const monthlyRevenue = monthlyAccepted.reduce((sum, q) => sum + toBaseAmount(q.total_amount || 0, q.exchange_rate), 0);
       const totalPipeline = allQuotations?.filter(q => 
         ['draft', 'approved', 'sent'].includes(q.status)
-      ).reduce((sum, q) => sum + (q.total_amount || 0), 0) || 0;
+      ).reduce((sum, q) => sum + toBaseAmount(q.total_amount || 0, q.exchange_rate), 0) || 0;
 
       // Success rate calculation
       const totalQuotations = allQuotations?.length || 0;
@@ -179,7 +196,7 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
 
       // Average quotation value
       const averageQuotationValue = totalQuotations > 0 
-        ? Math.round(allQuotations.reduce((sum, q) => sum + (q.total_amount || 0), 0) / totalQuotations)
+        ? Math.round(allQuotations.reduce((sum, q) => sum + toBaseAmount(q.total_amount || 0, q.exchange_rate), 0) / totalQuotations)
         : 0;
 
       // Conversion rate (emails to quotations)
@@ -209,27 +226,17 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
 
       allQuotations?.forEach(quotation => {
         try {
-          // Parse analysis data
-          let analysis = quotation.analysis;
-          if (typeof analysis === 'string') {
-            analysis = JSON.parse(analysis);
-          }
-
-          // Extract equipment for technical analysis
-          const equipmentList = analysis?.equipment || analysis?.equipment_selection || [];
+          // Quotation lines for technical analysis
+          const equipmentList = fromItemRows(quotation.quotation_items);
           
           // Calculate capacity
-          const quotationCapacity = equipmentList.reduce((sum: number, item: any) => {
-            const capacity = item.power_kw || item.total_capacity_provided || item.cooling_capacity_kw || 0;
-            return sum + (capacity * (item.quantity || 1));
-          }, 0);
-          totalCapacityKW += quotationCapacity;
+          totalCapacityKW += equipmentLineCapacity(equipmentList);
 
           // Count systems by specialization
-          equipmentList.forEach((item: any) => {
+          equipmentList.forEach(item => {
             if (item.ai_specialization === 'primary_hvac') hvacSystems++;
             else if (item.ai_specialization === 'ventilation_auxiliary') ventilationSystems++;
-            else if (['materials', 'services'].includes(item.ai_specialization)) materialsServices++;
+            else if (item.ai_specialization === 'materials' || item.ai_specialization === 'services') materialsServices++;
           });
 
           // Extract project summary for complexity
@@ -289,16 +296,8 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
 
       const recentQuotationsWithData = allQuotations?.slice(0, 5).map(quotation => {
         try {
-          let analysis = quotation.analysis;
-          if (typeof analysis === 'string') {
-            analysis = JSON.parse(analysis);
-          }
-          
-          const equipment = analysis?.equipment || [];
-          const capacity = equipment.reduce((sum: number, item: any) => {
-            const itemCapacity = item.power_kw || item.total_capacity_provided || 0;
-            return sum + (itemCapacity * (item.quantity || 1));
-          }, 0);
+          const equipment = fromItemRows(quotation.quotation_items);
+          const capacity = equipmentLineCapacity(equipment);
 
           return {
             id: quotation.id,
@@ -306,7 +305,7 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
             title: quotation.quotation_number,
             status: quotation.status,
             created_at: quotation.created_at,
-            value: quotation.total_amount,
+            value: toBaseAmount(quotation.total_amount || 0, quotation.exchange_rate),
             technical_info: {
               capacity: Math.round(capacity),
               equipmentCount: equipment.length
@@ -319,7 +318,7 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
             title: quotation.quotation_number,
             status: quotation.status,
             created_at: quotation.created_at,
-            value: quotation.total_amount
+            value: toBaseAmount(quotation.total_amount || 0, quotation.exchange_rate)
           };
         }
       }) || [];
@@ -337,6 +336,19 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
 
       setRecentActivity(activities);
 
+      // Quotations awaiting a response whose validity ends soon
+      setExpiringQuotations((allQuotations || [])
+        .filter(q => isExpiringSoon(q))
+        .map(q => ({
+          id: q.id,
+          quotation_number: q.quotation_number,
+          valid_until: q.valid_until,
+          total_amount: q.total_amount || 0,
+          currency: q.currency,
+          days_left: daysUntilExpiry(q.valid_until) ?? 0
+        }))
+        .sort((a, b) => a.days_left - b.days_left));
+
       console.log('📊 Dashboard: Professional MEP data loaded successfully', {
         todayRFQs: todayRFQs || 0,
         monthlyRevenue,
@@ -671,6 +683,33 @@ export default function Dashboard({ onGlobalError }: DashboardProps) {
 
         {/* Right Sidebar */}
         <div className="space-y-8">
+          {/* Expiring Quotations */}
+          {expiringQuotations.length > 0 && (
+            <div className="bg-gradient-to-r from-amber-50 to-orange-50 rounded-3xl shadow-xl border-2 border-amber-200 p-8">
+              <h3 className="text-xl font-bold text-amber-900 mb-6 flex items-center">
+                <AlertTriangle className="w-6 h-6 mr-3 text-amber-500" />
+                Expiring Soon
+              </h3>
+              <div className="space-y-3">
+                {expiringQuotations.map(quotation => (
+                  <button
+                    key={quotation.id}
+                    onClick={() => navigate('/quotations')}
+                    className="w-full flex items-center justify-between p-4 bg-white rounded-2xl border border-amber-200 hover:bg-amber-50 transition-colors text-left"
+                  >
+                    <div>
+                      <p className="font-semibold text-slate-900">{quotation.quotation_number}</p>
+                      <p className="text-sm text-amber-700">
+                        {expiryLabel(quotation.days_left)} • {format(new Date(quotation.valid_until), 'dd/MM/yyyy')}
+                      </p>
+                    </div>
+                    <p className="font-bold text-slate-900">{formatMoney(quotation.total_amount, quotation.currency)}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quick Actions */}
           <div className="bg-white rounded-3xl shadow-xl border border-slate-200 p-8">
             <h3 className="text-xl font-bold text-slate-900 mb-6 flex items-center">
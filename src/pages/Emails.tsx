@@ -106,7 +106,7 @@ export default function Emails() {
   // Processing state
   const [processingEmailId, setProcessingEmailId] = useState<string | null>(null);
   const [showProcessingModal, setShowProcessingModal] = useState(false);
-  const [processingResult, setProcessingResult] = useState<any>(null);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
   const [processingError, setProcessingError] = useState<string | null>(null);
   
   // Modal state
@@ -535,10 +535,10 @@ export default function Emails() {
     return undefined;
   };
 
-  const processRFQ = async (email: Email) => {
+  const processRFQ = async (email: Email, reanalyze = false) => {
     setProcessingEmailId(email.gmail_id);
     setShowProcessingModal(true);
-    setProcessingResult(null);
+    setProcessingJobId(null);
     setProcessingError(null);
     
     try {
@@ -546,7 +546,9 @@ export default function Emails() {
         throw new Error('Gmail access token not available. Please reconnect Gmail.');
       }
 
-      if (!currentUser) {
+      // process-rfq derives the user from this JWT, not from userId
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!currentUser || !session) {
         throw new Error('User authentication required. Please sign in again.');
       }
 
@@ -556,6 +558,7 @@ export default function Emails() {
         accessToken: accessToken,
         userId: currentUser.id,
         connectedGmail: userEmail,
+        reanalyze,
         emailData: {
           subject: email.subject,
           from_email: email.from_email,
@@ -569,13 +572,15 @@ export default function Emails() {
         }
       };
       
+      // process-rfq only enqueues a job, so this should return quickly
       const controller = new AbortController();
-      const timeout = setTimeout(() => controller.abort(), 160000);
+      const timeout = setTimeout(() => controller.abort(), 30000);
       
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-rfq`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
           'Content-Type': 'application/json',
           'Accept': 'application/json',
         },
@@ -591,15 +596,25 @@ export default function Emails() {
       }
       
       const result = await response.json();
-      setProcessingResult(result);
       
-      if (!result.success) {
-        setProcessingError(result.error);
+      // Already quoted: only analyse again when the user explicitly asks for it
+      if (result.success && result.status === 'existing') {
+        closeProcessingModal();
+        if (window.confirm(`Quotation ${result.quotation_number || ''} already exists for this email. Run a new analysis? The current analysis will be kept as version ${result.analysis_version || 1}.`)) {
+          processRFQ(email, true);
+        }
+        return;
+      }
+      
+      if (!result.success || !result.job_id) {
+        setProcessingError(result.error || 'Failed to queue RFQ processing');
+      } else {
+        setProcessingJobId(result.job_id);
       }
       
     } catch (error) {
       if (error.name === 'AbortError') {
-        setProcessingError('Analysis timed out. Please try again.');
+        setProcessingError('Could not reach the processing service. Please try again.');
       } else {
         setProcessingError(error.message || 'An unexpected error occurred. Please try again.');
       }
@@ -608,7 +623,7 @@ export default function Emails() {
 
   const closeProcessingModal = () => {
     setProcessingEmailId(null);
-    setProcessingResult(null);
+    setProcessingJobId(null);
     setProcessingError(null);
     setShowProcessingModal(false);
     loadEmails();
@@ -1375,11 +1390,8 @@ export default function Emails() {
           isOpen={true}
           onClose={closeProcessingModal}
           emailId={processingEmailId}
-          processingResult={processingResult}
+          jobId={processingJobId}
           processingError={processingError}
-          onProcessingComplete={(result) => {
-            setProcessingResult(result);
-          }}
         />
       )}
 
@@ -26,6 +26,7 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import EquipmentImportModal from '../components/EquipmentImportModal';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { BASE_CURRENCY, CURRENCIES, formatMoney } from '../../supabase/functions/_shared/currency';
 
 interface Equipment {
   id: string;
@@ -33,7 +34,11 @@ interface Equipment {
   model: string;
   category: 'air_conditioning' | 'heating' | 'plumbing' | 'materials' | 'services' | 'hot_water';
   power_kw?: number;
+  // List price; cost_eur is what the equipment costs us, when known. Both
+  // are in `currency`, despite the column names
   price_eur: number;
+  cost_eur?: number | null;
+  currency?: string;
   description?: string;
   specifications: any;
   in_stock: boolean;
@@ -92,6 +97,7 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
     category: 'air_conditioning',
     power_kw: 0,
     price_eur: 0,
+    currency: BASE_CURRENCY,
     description: '',
     specifications: {},
     in_stock: true
@@ -106,6 +112,7 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
       category: 'air_conditioning',
       power_kw: 0,
       price_eur: 0,
+      currency: BASE_CURRENCY,
       description: '',
       specifications: {},
       in_stock: true
@@ -233,6 +240,10 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
       errors.price_eur = 'Price must be greater than 0';
     }
 
+    if (formData.cost_eur !== null && formData.cost_eur !== undefined && formData.cost_eur < 0) {
+      errors.cost_eur = 'Cost price cannot be negative';
+    }
+
     if (formData.power_kw && formData.power_kw < 0) {
       errors.power_kw = 'Power cannot be negative';
     }
@@ -271,6 +282,8 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
         category: formData.category,
         power_kw: formData.power_kw || null,
         price_eur: formData.price_eur,
+        cost_eur: formData.cost_eur ?? null,
+        currency: formData.currency || BASE_CURRENCY,
         description: formData.description?.trim() || null,
         specifications: processedSpecs,
         in_stock: formData.in_stock ?? true,
@@ -686,8 +699,11 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
                               Price
                             </div>
                             <p className="text-lg font-bold text-slate-900">
-                              €{item.price_eur.toLocaleString()}
+                              {formatMoney(item.price_eur, item.currency)}
                             </p>
+                            {item.cost_eur !== null && item.cost_eur !== undefined && (
+                              <p className="text-xs text-slate-500">Cost {formatMoney(Number(item.cost_eur), item.currency)}</p>
+                            )}
                           </div>
 
                           {item.power_kw && (
@@ -843,7 +859,7 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
 
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-3">
-                    Price (EUR) *
+                    List Price ({formData.currency || BASE_CURRENCY}) *
                   </label>
                   <input
                     type="number"
@@ -860,6 +876,44 @@ export default function Equipment({ onGlobalError }: EquipmentProps) {
                   />
                   {formErrors.price_eur && <p className="text-red-600 text-sm mt-1">{formErrors.price_eur}</p>}
                 </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-3">
+                    Cost Price ({formData.currency || BASE_CURRENCY})
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.cost_eur ?? ''}
+                    onChange={(e) => setFormData(prev => ({
+                      ...prev,
+                      cost_eur: e.target.value === '' ? null : parseFloat(e.target.value) || 0
+                    }))}
+                    className={`w-full border rounded-xl px-4 py-3 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 ${
+                      formErrors.cost_eur ? 'border-red-300 bg-red-50' : 'border-slate-300'
+                    }`}
+                    placeholder="Defaults to the list price"
+                    disabled={operationLoading}
+                  />
+                  {formErrors.cost_eur && <p className="text-red-600 text-sm mt-1">{formErrors.cost_eur}</p>}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-3">
+                    Price Currency
+                  </label>
+                  <select
+                    value={formData.currency || BASE_CURRENCY}
+                    onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+                    className="w-full border border-slate-300 rounded-xl px-4 py-3 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                    disabled={operationLoading}
+                  >
+                    {CURRENCIES.map(currency => (
+                      <option key={currency.code} value={currency.code}>{currency.code} - {currency.label}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
 
               <div>
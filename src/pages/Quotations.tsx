@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { 
   FileText, 
   Download, 
@@ -25,16 +25,59 @@ import {
   MapPin,
   Mail,
   Phone,
-  Briefcase
+  Briefcase,
+  FileSpreadsheet,
+  Link2,
+  RotateCcw,
+  History,
+  MessageSquare
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
-import { format } from 'date-fns';
+import { addDays, format } from 'date-fns';
 import HTMLQuotationModal from '../components/HTMLQuotationModal';
 import QuotationEditorModal from '../components/QuotationEditorModal';
 import QuotationApprovalModal from '../components/QuotationApprovalModal';
+import QuotationEmailModal from '../components/QuotationEmailModal';
+import EquipmentImportModal from '../components/EquipmentImportModal';
 import { useQuotationEditor } from '../hooks/useQuotationEditor';
+import { useClientPortal } from '../hooks/useClientPortal';
+import { useQuotationEvents } from '../hooks/useQuotationEvents';
+import { useQuotationPdf } from '../hooks/useQuotationPdf';
+import { useGmailAuth } from '../hooks/useGmailAuth';
+import { useReplyTracking } from '../hooks/useReplyTracking';
+import { useQuotationReplies } from '../hooks/useQuotationReplies';
+import { applicableSuggestion, REPLY_LABELS, type QuotationReply } from '../lib/quotationReplies';
+import type { PdfCompany } from '../lib/quotationPdf';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { daysUntilExpiry, expiryLabel, isExpiringSoon, QUOTATION_VALIDITY_DAYS } from '../lib/quotationExpiry';
+import { canRevise, describeEvent, type QuotationStatus } from '../lib/quotationStatus';
+import { revisedQuotationNumber } from '../lib/quotationNumbering';
+import type { ApprovalDelivery, SchemaIssue } from '../../supabase/functions/_shared/workflowSchema';
+import { fromItemRows, type QuotationItemRow } from '../../supabase/functions/_shared/quotationItems';
+import {
+  normalizeTaxRates,
+  renderTaxBreakdownHtml,
+  summarizeTax,
+  type TaxRate
+} from '../../supabase/functions/_shared/tax';
+import { formatMoney, toBaseAmount } from '../../supabase/functions/_shared/currency';
+import {
+  hasOptions,
+  includedAlternative,
+  isIncluded,
+  optionGroups,
+  optionGroup,
+  optionKind,
+  renderOptionsHtml,
+  summarizeOptions,
+  type OptionSelection
+} from '../../supabase/functions/_shared/options';
+import {
+  normalizeDocumentTemplate,
+  type DocumentData,
+  type DocumentTemplate
+} from '../../supabase/functions/_shared/documentTemplate';
 
 interface Quotation {
   id: string;
@@ -42,7 +85,40 @@ interface Quotation {
   analysis: any;
   total_amount: number;
   margin_percentage: number;
-  status: 'draft' | 'approved' | 'sent' | 'accepted' | 'rejected' | 'expired';
+  tax_code?: string | null;
+  tax_rate?: number;
+  net_amount?: number;
+  tax_amount?: number;
+  gross_amount?: number;
+  currency?: string | null;
+  exchange_rate?: number | null;
+  // Options in the total; once options_accepted_at is set, those the client accepted
+  selected_alternative?: string | null;
+  selected_optionals?: string[] | null;
+  options_accepted_at?: string | null;
+  // Client acceptance portal: the current link, and how the client answered there
+  portal_link_issued_at?: string | null;
+  portal_viewed_at?: string | null;
+  accepted_at?: string | null;
+  accepted_by_name?: string | null;
+  acceptance_signature?: string | null;
+  rejected_at?: string | null;
+  rejection_reason?: string | null;
+  expired_at?: string | null;
+  // Times the quotation was revised after it went out (the -R suffix of its number)
+  number_revision?: number;
+  company?: ({ id: string; tax_rates: TaxRate[]; document_template?: unknown } & PdfCompany) | null;
+  // Path of the stored PDF in the quotation-pdfs bucket
+  pdf_url?: string | null;
+  pdf_generated_at?: string | null;
+  // Path of the stored Word document, next to the PDF
+  docx_url?: string | null;
+  docx_generated_at?: string | null;
+  // Gmail message and thread when sent from the app
+  sent_message_id?: string | null;
+  sent_thread_id?: string | null;
+  sent_recipients?: string[];
+  status: QuotationStatus;
   valid_until?: string;
   sent_at?: string;
   approved_at?: string;
@@ -53,12 +129,97 @@ interface Quotation {
   html_quotation?: string;
   gmail_id?: string;
   user_id: string;
+  quotation_items?: QuotationItemRow[];
+  processing_metadata?: {
+    processing_status?: string;
+    error?: string;
+    validation_errors?: SchemaIssue[];
+  };
 }
 
 interface QuotationsProps {
   onGlobalError?: (error: { title: string; message: string; type?: 'error' | 'timeout' | 'network' }) => void;
 }
 
+const optionSelection = (quotation: Quotation): OptionSelection => ({
+  selected_alternative: quotation.selected_alternative || null,
+  selected_optionals: quotation.selected_optionals || []
+});
+
+// VAT breakdown from the stored lines in the total; null for quotations without a rate
+function quotationTaxSummary(quotation: Quotation) {
+  if (!quotation.tax_code) return null;
+  const lines = fromItemRows(quotation.quotation_items);
+  return summarizeTax(
+    lines.filter(line => isIncluded(line, lines, optionSelection(quotation))),
+    { tax_code: quotation.tax_code, tax_rate: Number(quotation.tax_rate) || 0 },
+    normalizeTaxRates(quotation.company?.tax_rates)
+  );
+}
+
+// Subtotals per option; null for quotations with only base scope
+function quotationOptions(quotation: Quotation) {
+  const lines = fromItemRows(quotation.quotation_items);
+  return hasOptions(lines) ? summarizeOptions(lines, optionSelection(quotation)) : null;
+}
+
+// Option subtotals and the VAT breakdown, shown below the lines
+function quotationTotalsHtml(quotation: Quotation) {
+  const formatAmount = (amount: number) => formatMoney(amount, quotation.currency);
+  const options = quotationOptions(quotation);
+  const taxSummary = quotationTaxSummary(quotation);
+  return (options ? renderOptionsHtml(options, formatAmount) : '') +
+    (taxSummary ? renderTaxBreakdownHtml(taxSummary, formatAmount) : '');
+}
+
+// The workflow's document, for quotations from before line items were stored
+function quotationDocumentHtml(quotation: Quotation | null) {
+  if (!quotation?.html_quotation) return '';
+  return quotation.html_quotation + quotationTotalsHtml(quotation);
+}
+
+// The data the company's document template is filled with; null for quotations without lines
+function quotationDocumentData(
+  quotation: Quotation,
+  client: { name: string; company: string; project_name: string; location: string }
+): DocumentData | null {
+  const lines = fromItemRows(quotation.quotation_items);
+  if (lines.length === 0) return null;
+
+  const formatAmount = (amount: number) => formatMoney(amount, quotation.currency);
+  const net = Number(quotation.net_amount ?? quotation.total_amount) || 0;
+  const vat = Number(quotation.tax_amount) || 0;
+
+  return {
+    values: {
+      quotation_number: quotation.quotation_number,
+      quotation_date: format(new Date(quotation.created_at), 'dd/MM/yyyy'),
+      valid_until: quotation.valid_until ? format(new Date(quotation.valid_until), 'dd/MM/yyyy') : '',
+      client_name: client.name,
+      client_company: client.company,
+      project_name: client.project_name,
+      project_location: client.location,
+      total_net: formatAmount(net),
+      total_vat: formatAmount(vat),
+      total_gross: formatAmount(Number(quotation.gross_amount) || net + vat),
+      company_name: quotation.company?.name || '',
+      company_email: quotation.company?.email || '',
+      company_phone: quotation.company?.phone || '',
+      company_address: quotation.company?.address || ''
+    },
+    lines: lines.map(line => ({
+      description: line.description || [line.brand, line.model].filter(Boolean).join(' '),
+      option_label: optionKind(line) === 'base' ? null : optionGroup(line),
+      quantity: line.quantity,
+      unit: line.unit,
+      unit_price: line.unit_price,
+      total_price: line.total_price
+    })),
+    totalsHtml: quotationTotalsHtml(quotation),
+    formatAmount
+  };
+}
+
 export default function Quotations({ onGlobalError }: QuotationsProps) {
   const quotationDetailsRef = useRef<HTMLDivElement>(null);
   const { user } = useAuth();
@@ -72,12 +233,34 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
   const [selectedQuotationForHTML, setSelectedQuotationForHTML] = useState<Quotation | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showApprovalModal, setShowApprovalModal] = useState(false);
+  const [showBoqModal, setShowBoqModal] = useState(false);
+  // The client's choice of options, as entered in the details view
+  const [acceptedOptions, setAcceptedOptions] = useState<OptionSelection>({ selected_alternative: null, selected_optionals: [] });
+  const [recordingAcceptance, setRecordingAcceptance] = useState(false);
+  // Approved quotation being emailed from Gmail
+  const [emailQuotation, setEmailQuotation] = useState<Quotation | null>(null);
 
   const { saveDraft, approveQuotation } = useQuotationEditor();
+  const { createClientLink, creatingLink } = useClientPortal();
+  const { events: statusEvents } = useQuotationEvents(showDetails ? selectedQuotation?.id : null);
+  const { getPdfLink } = useQuotationPdf();
+  const { isGmailConnected } = useGmailAuth();
+  const { openReplies, syncing: checkingReplies, syncReplies, resolveReply } = useReplyTracking();
+  const { replies: quotationReplies } = useQuotationReplies(showDetails ? selectedQuotation?.id : null);
+  // Kept stable, so the designer's unsaved changes survive reloads of the list
+  const documentTemplate = useMemo(
+    () => normalizeDocumentTemplate(selectedQuotationForHTML?.company?.document_template),
+    [selectedQuotationForHTML?.company?.document_template]
+  );
 
   // Close quotation details modal when clicking outside
   useOutsideClick(quotationDetailsRef, () => setShowDetails(false));
 
+  // Look for client replies whenever the page opens with Gmail connected
+  useEffect(() => {
+    if (isGmailConnected) syncReplies().catch(() => undefined);
+  }, [isGmailConnected, syncReplies]);
+
   useEffect(() => {
     console.log('📋 Quotations: Component mounted/user changed', { hasUser: !!user, userId: user?.id });
     if (user) {
@@ -96,7 +279,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
       
       const { data, error } = await supabase
         .from('quotations')
-        .select('*')
+        .select('*, quotation_items(*), company:companies(id, tax_rates, name, email, phone, address, logo_url, quotation_terms, document_template)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
 
@@ -220,14 +403,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
 
   const extractEquipmentInfo = (quotation: Quotation) => {
     try {
-      // Parse analysis if it's a string
-      let analysis = quotation.analysis;
-      if (typeof analysis === 'string') {
-        analysis = JSON.parse(analysis);
-      }
-
-      // Extract equipment from multiple possible locations
-      const equipment = analysis?.equipment || analysis?.equipment_selection || [];
+      const equipment = fromItemRows(quotation.quotation_items);
       
       // Categorize equipment
       const hvacEquipment = equipment.filter((item: any) => 
@@ -269,29 +445,21 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
 
   const extractTechnicalMetrics = (quotation: Quotation) => {
     try {
-      let analysis = quotation.analysis;
-      if (typeof analysis === 'string') {
-        analysis = JSON.parse(analysis);
-      }
-
-      const equipment = analysis?.equipment || [];
+      const equipment = fromItemRows(quotation.quotation_items);
       
       // Calculate total capacity
-      const totalCapacity = equipment.reduce((sum: number, item: any) => {
-        const capacity = item.power_kw || item.total_capacity_provided || item.cooling_capacity_kw || 0;
-        return sum + (capacity * (item.quantity || 1));
-      }, 0);
+      const totalCapacity = equipment.reduce((sum, item) => sum + (item.power_kw || 0) * (item.quantity || 1), 0);
 
       // Count major systems
       const vrfSystems = equipment.filter((item: any) => 
         item.model?.toLowerCase().includes('vrf') || 
         item.model?.toLowerCase().includes('vrv') ||
-        item.specifications?.toLowerCase().includes('vrf')
+        (typeof item.specifications === 'string' && item.specifications.toLowerCase().includes('vrf'))
       ).length;
 
       const chillerSystems = equipment.filter((item: any) => 
         item.model?.toLowerCase().includes('chiller') ||
-        item.specifications?.toLowerCase().includes('chiller')
+        (typeof item.specifications === 'string' && item.specifications.toLowerCase().includes('chiller'))
       ).length;
 
       return {
@@ -345,21 +513,20 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
     }
   };
 
-  // Rest of the functions remain the same...
-  const updateQuotationStatus = async (quotationId: string, newStatus: string) => {
-    console.log('📋 Quotations: Updating quotation status', { quotationId, newStatus });
+  // Status changes go through the database's state machine, which records them with the reason
+  const updateQuotationStatus = async (quotationId: string, newStatus: QuotationStatus, reason?: string) => {
+    console.log('📋 Quotations: Updating quotation status', { quotationId, newStatus, reason });
     try {
-      const updateData: any = { status: newStatus };
-      
-      const { error } = await supabase
-        .from('quotations')
-        .update(updateData)
-        .eq('id', quotationId)
-        .eq('user_id', user?.id);
+      const { error } = await supabase.rpc('transition_quotation_status', {
+        p_quotation_id: quotationId,
+        p_status: newStatus,
+        p_reason: reason || null
+      });
 
       if (error) throw error;
       console.log('📋 Quotations: Status updated successfully, reloading quotations');
       await loadQuotations();
+      return true;
     } catch (error) {
       console.error('📋 Quotations: Error updating quotation status:', error);
       if (onGlobalError) {
@@ -369,6 +536,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
           type: 'network'
         });
       }
+      return false;
     }
   };
 
@@ -401,6 +569,10 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
   const viewQuotationDetails = (quotation: Quotation) => {
     console.log('📋 Quotations: Opening quotation details for:', quotation.id);
     setSelectedQuotation(quotation);
+    setAcceptedOptions({
+      selected_alternative: includedAlternative(fromItemRows(quotation.quotation_items), optionSelection(quotation)),
+      selected_optionals: quotation.selected_optionals || []
+    });
     setShowDetails(true);
   };
 
@@ -410,12 +582,78 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
     setShowHTMLModal(true);
   };
 
+  // The stored PDF or Word document, exactly as archived and sent
+  const handleOpenDocument = async (quotation: Quotation, path: string | null | undefined) => {
+    if (!path) return;
+    console.log('📋 Quotations: Opening stored document for quotation:', quotation.id, path);
+
+    try {
+      window.open(await getPdfLink(path), '_blank', 'noopener');
+    } catch (error) {
+      console.error('📋 Quotations: Error opening document:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Document Error',
+          message: `Failed to open the quotation document: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // The template is the company's, so the change applies to all its quotations
+  const handleSaveTemplate = async (template: DocumentTemplate) => {
+    const company = selectedQuotationForHTML?.company;
+    if (!company) return;
+    console.log('📋 Quotations: Saving document template for company:', company.id);
+
+    const { error } = await supabase
+      .from('companies')
+      .update({ document_template: template })
+      .eq('id', company.id);
+
+    if (error) {
+      console.error('📋 Quotations: Error saving document template:', error);
+      throw error;
+    }
+
+    setSelectedQuotationForHTML(current => current?.company
+      ? { ...current, company: { ...current.company, document_template: template } }
+      : current);
+    await loadQuotations();
+  };
+
   const handleEditQuotation = (quotation: Quotation) => {
     console.log('📋 Quotations: Opening editor for quotation:', quotation.id);
     setSelectedQuotation(quotation);
     setShowEditModal(true);
   };
 
+  // The restore rewrote the draft; reopen the editor on the stored state
+  const handleRevisionRestored = async () => {
+    if (!selectedQuotation) return;
+    console.log('📋 Quotations: Reloading quotation after revision restore:', selectedQuotation.id);
+
+    const { data, error } = await supabase
+      .from('quotations')
+      .select('*, quotation_items(*), company:companies(id, tax_rates, name, email, phone, address, logo_url, quotation_terms, document_template)')
+      .eq('id', selectedQuotation.id)
+      .single();
+
+    if (error) {
+      console.error('📋 Quotations: Error reloading restored quotation:', error);
+    } else {
+      setSelectedQuotation(data);
+    }
+    await loadQuotations();
+  };
+
+  const handleBoqQuotationCreated = (quotation: Quotation) => {
+    console.log('📋 Quotations: Opening editor for BoQ draft:', quotation.id);
+    setSelectedQuotation(quotation);
+    setShowEditModal(true);
+  };
+
   const handleApproveQuotation = (quotation: Quotation) => {
     console.log('📋 Quotations: Opening approval modal for quotation:', quotation.id);
     setSelectedQuotation(quotation);
@@ -442,14 +680,18 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
     }
   };
 
-  const handleConfirmApproval = async (quotationId: string) => {
-    console.log('📋 Quotations: Confirming approval for quotation:', quotationId);
+  const handleConfirmApproval = async (quotationId: string, delivery: ApprovalDelivery) => {
+    console.log('📋 Quotations: Confirming approval for quotation:', quotationId, delivery);
+    const approvedQuotation = selectedQuotation;
     try {
-      await approveQuotation(quotationId, selectedQuotation?.analysis || {});
+      const result = await approveQuotation(quotationId, selectedQuotation?.analysis || {}, delivery);
       console.log('📋 Quotations: Approval confirmed successfully, reloading quotations');
       await loadQuotations();
       setShowApprovalModal(false);
       setSelectedQuotation(null);
+      if (result.status === 'approved' && approvedQuotation) {
+        setEmailQuotation({ ...approvedQuotation, status: 'approved' });
+      }
     } catch (error) {
       console.error('📋 Quotations: Error approving quotation:', error);
       if (onGlobalError) {
@@ -462,6 +704,146 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
     }
   };
 
+  // A new link replaces the previous one, so only the latest link sent works
+  const handleClientLink = async (quotation: Quotation) => {
+    console.log('📋 Quotations: Creating client link for quotation:', quotation.id);
+    if (quotation.portal_link_issued_at && !window.confirm('Create a new client link? The previous link will stop working.')) return;
+
+    try {
+      const url = await createClientLink(quotation.id);
+      await navigator.clipboard?.writeText(url).catch(() => undefined);
+      window.prompt(`Client link for ${quotation.quotation_number} (copied to the clipboard):`, url);
+      await loadQuotations();
+    } catch (error) {
+      console.error('📋 Quotations: Error creating client link:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Client Link Error',
+          message: `Failed to create the client link: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // Back to draft for changes; the approval and any client link are withdrawn
+  const handleReviseQuotation = async (quotation: Quotation) => {
+    const renumbered = quotation.sent_at
+      ? ` as ${revisedQuotationNumber(quotation.quotation_number, (quotation.number_revision || 0) + 1)}`
+      : '';
+    const reason = window.prompt(
+      `Revise ${quotation.quotation_number}? It goes back to draft${renumbered} and its client link stops working.\n\nReason for the revision:`
+    );
+    if (reason === null) return;
+
+    await updateQuotationStatus(quotation.id, 'draft', reason.trim() || 'Revised');
+  };
+
+  const handleCheckReplies = async () => {
+    try {
+      await syncReplies(true);
+    } catch (error) {
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Reply Check Error',
+          message: `Failed to check for client replies: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // Makes the status change the client's reply points to, with the reply as the reason
+  const handleApplyReply = async (quotation: Quotation, reply: QuotationReply) => {
+    const suggestion = applicableSuggestion(reply, quotation.status);
+    if (!suggestion) return;
+    if (suggestion === 'draft' && !window.confirm(`Revise ${quotation.quotation_number}? It goes back to draft and its client link stops working.`)) return;
+
+    const reason = `${REPLY_LABELS[reply.classification]} from ${reply.from_name || reply.from_email} on ${format(new Date(reply.received_at), 'dd/MM/yyyy')}` +
+      (reply.snippet ? `: "${reply.snippet}"` : '');
+    if (await updateQuotationStatus(quotation.id, suggestion, reason)) {
+      await resolveReply(reply.id, 'applied').catch(() => undefined);
+    }
+  };
+
+  const handleDismissReply = async (reply: QuotationReply) => {
+    try {
+      await resolveReply(reply.id, 'dismissed');
+    } catch (error) {
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Reply Error',
+          message: `Failed to dismiss the reply: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // Moves valid_until (reopening an expired quotation as sent, or approved if it never went out), then offers a fresh client link
+  const handleExtendValidity = async (quotation: Quotation) => {
+    const validUntil = window.prompt(
+      `New validity date for ${quotation.quotation_number} (yyyy-mm-dd):`,
+      format(addDays(new Date(), QUOTATION_VALIDITY_DAYS), 'yyyy-MM-dd')
+    );
+    if (!validUntil) return;
+    console.log('📋 Quotations: Extending validity of quotation:', quotation.id, validUntil);
+
+    try {
+      const { data, error } = await supabase.rpc('extend_quotation_validity', {
+        p_quotation_id: quotation.id,
+        p_valid_until: validUntil
+      });
+
+      if (error) throw error;
+
+      await loadQuotations();
+      if (window.confirm(`Validity extended to ${format(new Date(validUntil), 'dd/MM/yyyy')}. Send the client a new link?`)) {
+        await handleClientLink({ ...quotation, ...data });
+      }
+    } catch (error) {
+      console.error('📋 Quotations: Error extending validity:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Validity Extension Error',
+          message: `Failed to extend the quotation's validity: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // Records the options the client accepted; the quotation's totals become those of that scope
+  const handleRecordAcceptance = async () => {
+    if (!selectedQuotation) return;
+    console.log('📋 Quotations: Recording accepted options for quotation:', selectedQuotation.id, acceptedOptions);
+
+    setRecordingAcceptance(true);
+    try {
+      const { data, error } = await supabase.rpc('accept_quotation_options', {
+        p_quotation_id: selectedQuotation.id,
+        p_alternative: acceptedOptions.selected_alternative,
+        p_optionals: acceptedOptions.selected_optionals
+      });
+
+      if (error) throw error;
+
+      setSelectedQuotation(prev => (prev ? { ...prev, ...data } : prev));
+      await loadQuotations();
+    } catch (error) {
+      console.error('📋 Quotations: Error recording accepted options:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Acceptance Error',
+          message: `Failed to record the accepted options: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    } finally {
+      setRecordingAcceptance(false);
+    }
+  };
+
   // Search and filter function
   const filteredQuotations = quotations.filter(quotation => {
     const clientInfo = extractClientInfo(quotation);
@@ -473,7 +855,8 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
       clientInfo.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
       clientInfo.project_name.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = statusFilter === 'all' || quotation.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' || quotation.status === statusFilter ||
+      (statusFilter === 'expiring' && isExpiringSoon(quotation));
     
     return matchesSearch && matchesStatus;
   });
@@ -542,7 +925,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                 <div>
                   <p className="text-sm font-medium text-purple-700">Total Value</p>
                   <p className="text-2xl font-bold text-purple-900">
-                    €{quotations.reduce((sum, q) => sum + q.total_amount, 0).toLocaleString()}
+                    {formatMoney(quotations.reduce((sum, q) => sum + toBaseAmount(q.total_amount, q.exchange_rate), 0))}
                   </p>
                 </div>
               </div>
@@ -563,6 +946,26 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
             </div>
           </div>
         </div>
+
+        {isGmailConnected && (
+          <button
+            onClick={handleCheckReplies}
+            disabled={checkingReplies}
+            className="ml-6 inline-flex items-center px-6 py-4 bg-white text-slate-700 border border-slate-300 rounded-2xl hover:bg-slate-50 disabled:opacity-50 transition-all duration-300 shadow-xl font-semibold"
+            title="Look for client replies in the threads of sent quotations"
+          >
+            <MessageSquare className="w-6 h-6 mr-3" />
+            {checkingReplies ? 'Checking...' : 'Check Replies'}
+          </button>
+        )}
+
+        <button
+          onClick={() => setShowBoqModal(true)}
+          className="ml-6 inline-flex items-center px-8 py-4 bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-2xl hover:from-emerald-700 hover:to-teal-700 transition-all duration-300 shadow-xl hover:shadow-2xl font-semibold"
+        >
+          <FileSpreadsheet className="w-6 h-6 mr-3" />
+          Price a BoQ
+        </button>
       </div>
 
       {/* Enhanced Filters */}
@@ -595,6 +998,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
               <option value="accepted">Accepted</option>
               <option value="rejected">Rejected</option>
               <option value="expired">Expired</option>
+              <option value="expiring">Expiring Soon</option>
             </select>
           </div>
         </div>
@@ -638,6 +1042,21 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                             <span className={`px-3 py-1 text-xs font-bold rounded-full border ${getStatusColor(quotation.status)}`}>
                               {quotation.status.toUpperCase()}
                             </span>
+                            {isExpiringSoon(quotation) && (
+                              <span className="px-3 py-1 text-xs font-bold rounded-full border bg-amber-100 text-amber-800 border-amber-200">
+                                {expiryLabel(daysUntilExpiry(quotation.valid_until) ?? 0).toUpperCase()}
+                              </span>
+                            )}
+                            {quotation.processing_metadata?.processing_status === 'quarantined' && (
+                              <span
+                                className="px-3 py-1 text-xs font-bold rounded-full border bg-yellow-100 text-yellow-800 border-yellow-200"
+                                title={quotation.processing_metadata.validation_errors
+                                  ?.map(issue => `${issue.path} ${issue.message}`)
+                                  .join('\n') || quotation.processing_metadata.error}
+                              >
+                                NEEDS REVIEW
+                              </span>
+                            )}
                             <span className="text-blue-200 text-sm">
                               {format(new Date(quotation.created_at), 'MMM d, yyyy')}
                             </span>
@@ -663,6 +1082,38 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                         View
                       </button>
 
+                      {(quotation.html_quotation || (quotation.quotation_items?.length ?? 0) > 0) && (
+                        <button
+                          onClick={() => handleViewHTML(quotation)}
+                          className="inline-flex items-center px-4 py-2 bg-white/20 backdrop-blur-sm text-white rounded-xl hover:bg-white/30 transition-all duration-300 font-medium"
+                        >
+                          <FileText className="w-4 h-4 mr-2" />
+                          Document
+                        </button>
+                      )}
+
+                      {quotation.pdf_url && (
+                        <button
+                          onClick={() => handleOpenDocument(quotation, quotation.pdf_url)}
+                          className="inline-flex items-center px-4 py-2 bg-white/20 backdrop-blur-sm text-white rounded-xl hover:bg-white/30 transition-all duration-300 font-medium"
+                          title={quotation.pdf_generated_at ? `Generated on ${format(new Date(quotation.pdf_generated_at), 'dd/MM/yyyy HH:mm')}` : undefined}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          PDF
+                        </button>
+                      )}
+
+                      {quotation.docx_url && (
+                        <button
+                          onClick={() => handleOpenDocument(quotation, quotation.docx_url)}
+                          className="inline-flex items-center px-4 py-2 bg-white/20 backdrop-blur-sm text-white rounded-xl hover:bg-white/30 transition-all duration-300 font-medium"
+                          title={quotation.docx_generated_at ? `Generated on ${format(new Date(quotation.docx_generated_at), 'dd/MM/yyyy HH:mm')}` : undefined}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Word
+                        </button>
+                      )}
+
                       {quotation.status === 'draft' && (
                         <>
                           <button
@@ -681,11 +1132,92 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                           </button>
                         </>
                       )}
+
+                      {quotation.status === 'approved' && (
+                        <button
+                          onClick={() => setEmailQuotation(quotation)}
+                          className="inline-flex items-center px-4 py-2 bg-green-500/80 backdrop-blur-sm text-white rounded-xl hover:bg-green-600/80 transition-all duration-300 font-medium"
+                          title="Compose the email to the client in Gmail"
+                        >
+                          <Mail className="w-4 h-4 mr-2" />
+                          Email
+                        </button>
+                      )}
+
+                      {['approved', 'sent'].includes(quotation.status) && (
+                        <button
+                          onClick={() => handleClientLink(quotation)}
+                          disabled={creatingLink}
+                          className="inline-flex items-center px-4 py-2 bg-indigo-500/80 backdrop-blur-sm text-white rounded-xl hover:bg-indigo-600/80 disabled:opacity-50 transition-all duration-300 font-medium"
+                          title={quotation.portal_viewed_at ? `Client opened the link on ${format(new Date(quotation.portal_viewed_at), 'dd/MM/yyyy HH:mm')}` : 'Link for the client to accept or decline online'}
+                        >
+                          <Link2 className="w-4 h-4 mr-2" />
+                          Client Link
+                        </button>
+                      )}
+
+                      {['approved', 'sent', 'expired'].includes(quotation.status) && (
+                        <button
+                          onClick={() => handleExtendValidity(quotation)}
+                          className="inline-flex items-center px-4 py-2 bg-amber-500/80 backdrop-blur-sm text-white rounded-xl hover:bg-amber-600/80 transition-all duration-300 font-medium"
+                          title={quotation.valid_until ? `Valid until ${format(new Date(quotation.valid_until), 'dd/MM/yyyy')}` : 'Set a validity date'}
+                        >
+                          <Calendar className="w-4 h-4 mr-2" />
+                          Extend
+                        </button>
+                      )}
+
+                      {canRevise(quotation.status) && (
+                        <button
+                          onClick={() => handleReviseQuotation(quotation)}
+                          className="inline-flex items-center px-4 py-2 bg-slate-500/80 backdrop-blur-sm text-white rounded-xl hover:bg-slate-600/80 transition-all duration-300 font-medium"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Revise
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
 
                 <div className="p-6">
+                  {/* Client replies waiting for a decision */}
+                  {openReplies.filter(reply => reply.quotation_id === quotation.id).map(reply => {
+                    const suggestion = applicableSuggestion(reply, quotation.status);
+                    return (
+                      <div key={reply.id} className="bg-gradient-to-r from-violet-50 to-purple-50 rounded-2xl p-4 mb-4 border border-violet-200 flex items-start justify-between">
+                        <div className="flex items-start space-x-3">
+                          <MessageSquare className="w-5 h-5 text-violet-600 mt-0.5" />
+                          <div>
+                            <p className="font-semibold text-violet-900">
+                              {REPLY_LABELS[reply.classification]} from {reply.from_name || reply.from_email}
+                              <span className="font-normal text-violet-700 ml-2 text-sm">
+                                {format(new Date(reply.received_at), 'dd/MM/yyyy HH:mm')}
+                              </span>
+                            </p>
+                            {reply.snippet && <p className="text-sm text-violet-800 mt-1">"{reply.snippet}"</p>}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2 ml-4">
+                          {suggestion && (
+                            <button
+                              onClick={() => handleApplyReply(quotation, reply)}
+                              className="px-3 py-1.5 bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors text-sm font-medium whitespace-nowrap"
+                            >
+                              {suggestion === 'draft' ? 'Revise' : `Mark ${suggestion}`}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDismissReply(reply)}
+                            className="px-3 py-1.5 bg-white text-violet-700 border border-violet-300 rounded-lg hover:bg-violet-100 transition-colors text-sm font-medium"
+                          >
+                            Dismiss
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+
                   {/* Client Information */}
                   {(clientInfo.name || clientInfo.company) && (
                     <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-2xl p-6 mb-6 border border-blue-200">
@@ -742,7 +1274,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                         <div>
                           <p className="text-xs font-semibold text-green-600">Total Value</p>
                           <p className="text-xl font-bold text-green-900">
-                            €{quotation.total_amount.toLocaleString()}
+                            {formatMoney(quotation.total_amount, quotation.currency)}
                           </p>
                         </div>
                       </div>
@@ -897,6 +1429,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
               {/* Enhanced Equipment Display */}
               {(() => {
                 const equipmentInfo = extractEquipmentInfo(selectedQuotation);
+                const taxSummary = quotationTaxSummary(selectedQuotation);
                 return equipmentInfo.equipment.length > 0 && (
                   <div className="bg-white border border-slate-200 rounded-3xl overflow-hidden">
                     <div className="bg-gradient-to-r from-slate-50 to-blue-50 p-6 border-b border-slate-200">
@@ -927,33 +1460,60 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                                   <p className="text-sm text-slate-600 capitalize">
                                     {item.category?.replace('_', ' ')} • {item.ai_specialization?.replace('_', ' ')}
                                   </p>
+                                  {optionKind(item) !== 'base' && (
+                                    <p className={`text-xs font-medium ${isIncluded(item, equipmentInfo.equipment, optionSelection(selectedQuotation)) ? 'text-green-700' : 'text-slate-500'}`}>
+                                      {optionKind(item) === 'alternative' ? 'Alternative' : 'Optional extra'}: {item.option_group}
+                                    </p>
+                                  )}
                                 </div>
                               </td>
                               <td className="px-6 py-4">
-                                <p className="text-sm text-slate-700">{item.specifications || item.description || 'Standard specifications'}</p>
-                                {item.power_kw && (
+                                <p className="text-sm text-slate-700">{(typeof item.specifications === 'string' && item.specifications) || item.description || 'Standard specifications'}</p>
+                                {item.power_kw > 0 && (
                                   <p className="text-xs text-blue-600 font-medium">{item.power_kw}kW Power</p>
                                 )}
                               </td>
                               <td className="px-6 py-4 text-center font-semibold text-slate-900">
-                                {item.quantity || 1}
+                                {item.quantity || 1}{item.unit ? ` ${item.unit}` : ''}
                               </td>
                               <td className="px-6 py-4 text-right font-semibold text-slate-900">
-                                €{(item.unit_price || 0).toLocaleString()}
+                                {formatMoney(item.unit_price || 0, selectedQuotation.currency)}
                               </td>
                               <td className="px-6 py-4 text-right font-bold text-slate-900">
-                                €{(item.total_price || 0).toLocaleString()}
+                                {formatMoney(item.total_price || 0, selectedQuotation.currency)}
                               </td>
                             </tr>
                           ))}
                         </tbody>
                         <tfoot className="bg-gradient-to-r from-green-50 to-emerald-50">
+                          {taxSummary && (
+                            <>
+                              <tr>
+                                <td colSpan={4} className="px-6 py-3 text-right font-semibold text-slate-700">
+                                  Total excl. VAT:
+                                </td>
+                                <td className="px-6 py-3 text-right font-semibold text-slate-900">
+                                  {formatMoney(taxSummary.net, selectedQuotation.currency)}
+                                </td>
+                              </tr>
+                              {taxSummary.breakdown.map(group => (
+                                <tr key={`${group.code}-${group.rate}`}>
+                                  <td colSpan={4} className="px-6 py-3 text-right text-slate-700">
+                                    {group.label} on {formatMoney(group.net, selectedQuotation.currency)}:
+                                  </td>
+                                  <td className="px-6 py-3 text-right text-slate-900">
+                                    {formatMoney(group.tax, selectedQuotation.currency)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </>
+                          )}
                           <tr>
                             <td colSpan={4} className="px-6 py-4 text-right font-bold text-green-900 text-lg">
-                              Total Project Value:
+                              {taxSummary ? 'Total incl. VAT:' : 'Total Project Value:'}
                             </td>
                             <td className="px-6 py-4 text-right font-bold text-green-900 text-2xl">
-                              €{selectedQuotation.total_amount.toLocaleString()}
+                              {formatMoney(taxSummary ? taxSummary.gross : selectedQuotation.total_amount, selectedQuotation.currency)}
                             </td>
                           </tr>
                         </tfoot>
@@ -962,6 +1522,188 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
                   </div>
                 );
               })()}
+
+              {/* Client Response */}
+              {(selectedQuotation.portal_link_issued_at || selectedQuotation.accepted_at || selectedQuotation.rejected_at) && (
+                <div className={`rounded-3xl p-8 border ${
+                  selectedQuotation.accepted_at ? 'bg-green-50 border-green-200' :
+                  selectedQuotation.rejected_at ? 'bg-red-50 border-red-200' :
+                  'bg-slate-50 border-slate-200'
+                }`}>
+                  <h3 className="text-2xl font-bold text-slate-900 mb-4 flex items-center">
+                    <Link2 className="w-6 h-6 mr-3" />
+                    Client Response
+                  </h3>
+                  {selectedQuotation.accepted_at ? (
+                    <div className="space-y-3">
+                      <p className="font-semibold text-green-900">
+                        Accepted by {selectedQuotation.accepted_by_name} on {format(new Date(selectedQuotation.accepted_at), 'dd/MM/yyyy HH:mm')}
+                      </p>
+                      {selectedQuotation.acceptance_signature && (
+                        <img
+                          src={selectedQuotation.acceptance_signature}
+                          alt={`Signature of ${selectedQuotation.accepted_by_name}`}
+                          className="h-24 bg-white border border-green-200 rounded-xl"
+                        />
+                      )}
+                    </div>
+                  ) : selectedQuotation.rejected_at ? (
+                    <div className="space-y-2">
+                      <p className="font-semibold text-red-900">
+                        Declined on {format(new Date(selectedQuotation.rejected_at), 'dd/MM/yyyy HH:mm')}
+                      </p>
+                      <p className="text-red-800">{selectedQuotation.rejection_reason || 'No reason given'}</p>
+                    </div>
+                  ) : (
+                    <p className="text-slate-700">
+                      Link sent {format(new Date(selectedQuotation.portal_link_issued_at!), 'dd/MM/yyyy')} •{' '}
+                      {selectedQuotation.portal_viewed_at
+                        ? `opened ${format(new Date(selectedQuotation.portal_viewed_at), 'dd/MM/yyyy HH:mm')}, no response yet`
+                        : 'not opened yet'}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Options */}
+              {(() => {
+                const options = quotationOptions(selectedQuotation);
+                if (!options) return null;
+                const lines = fromItemRows(selectedQuotation.quotation_items);
+                const canRecord = ['approved', 'sent', 'accepted'].includes(selectedQuotation.status);
+                return (
+                  <div className="bg-white border border-slate-200 rounded-3xl overflow-hidden">
+                    <div className="bg-gradient-to-r from-slate-50 to-purple-50 p-6 border-b border-slate-200">
+                      <h3 className="text-2xl font-bold text-slate-900 flex items-center">
+                        <CheckCircle className="w-6 h-6 mr-3" />
+                        Options
+                      </h3>
+                      <p className="text-slate-600 mt-2">
+                        {selectedQuotation.options_accepted_at
+                          ? `Client's choice recorded on ${format(new Date(selectedQuotation.options_accepted_at), 'dd/MM/yyyy')}`
+                          : 'Alternatives are priced instead of each other; optional extras are added on request'}
+                      </p>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-slate-50">
+                          <tr>
+                            {canRecord && <th className="px-6 py-4 text-left text-sm font-bold text-slate-700">Accepted</th>}
+                            <th className="px-6 py-4 text-left text-sm font-bold text-slate-700">Option</th>
+                            <th className="px-6 py-4 text-right text-sm font-bold text-slate-700">Net</th>
+                            <th className="px-6 py-4 text-right text-sm font-bold text-slate-700">VAT</th>
+                            <th className="px-6 py-4 text-right text-sm font-bold text-slate-700">Total</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200">
+                          {options.map(option => (
+                            <tr key={`${option.kind}-${option.group}`} className={option.included ? '' : 'text-slate-500'}>
+                              {canRecord && (
+                                <td className="px-6 py-4">
+                                  {option.kind === 'alternative' ? (
+                                    <input
+                                      type="radio"
+                                      name="accepted-alternative"
+                                      checked={acceptedOptions.selected_alternative === option.group}
+                                      onChange={() => setAcceptedOptions(prev => ({ ...prev, selected_alternative: option.group }))}
+                                      className="text-purple-600 focus:ring-purple-500"
+                                    />
+                                  ) : option.kind === 'optional' ? (
+                                    <input
+                                      type="checkbox"
+                                      checked={acceptedOptions.selected_optionals.includes(option.group!)}
+                                      onChange={() => setAcceptedOptions(prev => ({
+                                        ...prev,
+                                        selected_optionals: prev.selected_optionals.includes(option.group!)
+                                          ? prev.selected_optionals.filter(group => group !== option.group)
+                                          : [...prev.selected_optionals, option.group!]
+                                      }))}
+                                      className="rounded border-slate-300 text-purple-600 focus:ring-purple-500"
+                                    />
+                                  ) : (
+                                    <CheckCircle className="w-4 h-4 text-purple-600" />
+                                  )}
+                                </td>
+                              )}
+                              <td className="px-6 py-4 font-semibold">
+                                {option.kind === 'base' ? 'Base scope' : `${option.kind === 'alternative' ? 'Alternative' : 'Optional extra'}: ${option.group}`}
+                                {option.included && <span className="ml-2 text-xs font-medium text-green-700">in total</span>}
+                              </td>
+                              <td className="px-6 py-4 text-right">{formatMoney(option.net, selectedQuotation.currency)}</td>
+                              <td className="px-6 py-4 text-right">{formatMoney(option.tax, selectedQuotation.currency)}</td>
+                              <td className="px-6 py-4 text-right font-bold">{formatMoney(option.net + option.tax, selectedQuotation.currency)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {canRecord && (
+                      <div className="flex items-center justify-end gap-4 p-6 border-t border-slate-200">
+                        {optionGroups(lines, 'optional').length > 0 && (
+                          <p className="text-sm text-slate-600">
+                            {acceptedOptions.selected_optionals.length} optional extra{acceptedOptions.selected_optionals.length === 1 ? '' : 's'} accepted
+                          </p>
+                        )}
+                        <button
+                          onClick={handleRecordAcceptance}
+                          disabled={recordingAcceptance}
+                          className="bg-green-600 hover:bg-green-700 disabled:bg-slate-400 text-white px-6 py-3 rounded-xl font-medium transition-colors"
+                        >
+                          {recordingAcceptance ? 'Recording...' : selectedQuotation.options_accepted_at ? 'Update Accepted Options' : 'Record Client Acceptance'}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })()}
+
+              {/* Status History, with the client's replies in between */}
+              {(statusEvents.length > 0 || quotationReplies.length > 0) && (
+                <div className="bg-white rounded-3xl border border-slate-200 p-8">
+                  <h3 className="text-2xl font-bold text-slate-900 mb-6 flex items-center">
+                    <History className="w-6 h-6 mr-3" />
+                    Status History
+                  </h3>
+                  <ol className="space-y-4">
+                    {[
+                      ...statusEvents.map(event => ({ at: event.created_at, event, reply: null })),
+                      ...quotationReplies.map(reply => ({ at: reply.received_at, event: null, reply }))
+                    ]
+                      .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
+                      .map(({ event, reply }) => event ? (
+                        <li key={event.id} className="flex items-start space-x-4">
+                          <div className="mt-0.5">{getStatusIcon(event.to_status)}</div>
+                          <div className="flex-1">
+                            <p className="font-semibold text-slate-900 capitalize">{describeEvent(event)}</p>
+                            {event.reason && <p className="text-sm text-slate-600">{event.reason}</p>}
+                          </div>
+                          <p className="text-sm text-slate-500 whitespace-nowrap">
+                            {format(new Date(event.created_at), 'dd/MM/yyyy HH:mm')}
+                            {!event.actor && ' • system'}
+                          </p>
+                        </li>
+                      ) : reply && (
+                        <li key={reply.id} className="flex items-start space-x-4">
+                          <div className="mt-0.5"><MessageSquare className="w-5 h-5 text-violet-600" /></div>
+                          <div className="flex-1">
+                            <p className="font-semibold text-slate-900">
+                              {REPLY_LABELS[reply.classification]} from {reply.from_name || reply.from_email}
+                            </p>
+                            {reply.body && <p className="text-sm text-slate-600 whitespace-pre-line line-clamp-4">{reply.body}</p>}
+                            {reply.resolution && (
+                              <p className="text-xs text-slate-500 mt-1">
+                                Suggestion {reply.resolution} on {format(new Date(reply.resolved_at!), 'dd/MM/yyyy')}
+                              </p>
+                            )}
+                          </div>
+                          <p className="text-sm text-slate-500 whitespace-nowrap">
+                            {format(new Date(reply.received_at), 'dd/MM/yyyy HH:mm')}
+                          </p>
+                        </li>
+                      ))}
+                  </ol>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -974,8 +1716,22 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
           setShowHTMLModal(false);
           setSelectedQuotationForHTML(null);
         }}
-        htmlContent={selectedQuotationForHTML?.html_quotation || ''}
+        htmlContent={quotationDocumentHtml(selectedQuotationForHTML)}
+        documentData={selectedQuotationForHTML
+          ? quotationDocumentData(selectedQuotationForHTML, extractClientInfo(selectedQuotationForHTML))
+          : null}
+        template={documentTemplate}
+        onSaveTemplate={selectedQuotationForHTML?.company ? handleSaveTemplate : undefined}
         quotationNumber={selectedQuotationForHTML?.quotation_number || ''}
+        quotationId={selectedQuotationForHTML?.id}
+        company={selectedQuotationForHTML?.company}
+        validUntil={selectedQuotationForHTML?.valid_until}
+        onDocumentStored={loadQuotations}
+        onError={(message) => onGlobalError?.({
+          title: 'Document Error',
+          message: `Failed to generate the quotation document: ${message}`,
+          type: 'network'
+        })}
       />
       
       <QuotationEditorModal
@@ -986,6 +1742,7 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
         }}
         quotationData={selectedQuotation}
         onSave={handleSaveDraft}
+        onRevisionRestored={handleRevisionRestored}
         onApprove={async (quotationId, updatedData) => {
           await approveQuotation(quotationId, updatedData);
           await loadQuotations();
@@ -994,6 +1751,15 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
         }}
       />
       
+      <EquipmentImportModal
+        isOpen={showBoqModal}
+        mode="boq"
+        onClose={() => setShowBoqModal(false)}
+        onImportComplete={loadQuotations}
+        onQuotationCreated={(quotation) => handleBoqQuotationCreated(quotation as unknown as Quotation)}
+        onGlobalError={onGlobalError}
+      />
+
       <QuotationApprovalModal
         isOpen={showApprovalModal}
         onClose={() => {
@@ -1002,6 +1768,25 @@ export default function Quotations({ onGlobalError }: QuotationsProps) {
         }}
         quotationData={selectedQuotation}
         onConfirm={handleConfirmApproval}
+        gmailConnected={isGmailConnected}
+      />
+
+      <QuotationEmailModal
+        key={emailQuotation?.id}
+        isOpen={!!emailQuotation}
+        onClose={() => setEmailQuotation(null)}
+        quotation={emailQuotation}
+        clientEmail={emailQuotation ? extractClientInfo(emailQuotation).email : ''}
+        clientName={emailQuotation ? extractClientInfo(emailQuotation).name : ''}
+        projectName={emailQuotation ? extractClientInfo(emailQuotation).project_name : ''}
+        companyName={emailQuotation?.company?.name || ''}
+        gmailConnected={isGmailConnected}
+        onSent={loadQuotations}
+        onError={(message) => onGlobalError?.({
+          title: 'Email Error',
+          message: `Failed to send the quotation: ${message}`,
+          type: 'network'
+        })}
       />
     </div>
   );
@@ -11,11 +11,42 @@ import {
   Edit,
   Trash2,
   Check,
-  X
+  X,
+  Workflow,
+  Percent,
+  ArrowLeftRight,
+  LayoutTemplate
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../hooks/useAuth';
 import { useOutsideClick } from '../hooks/useOutsideClick';
+import { useExchangeRates } from '../hooks/useExchangeRates';
+import { useQuotationTemplates } from '../hooks/useQuotationTemplates';
+import type { QuotationTemplate } from '../lib/quotationTemplates';
+import {
+  DEFAULT_QUOTATION_NUMBERING,
+  NUMBERING_RESETS,
+  NUMBERING_YEARS,
+  formatQuotationNumber,
+  normalizeNumbering,
+  revisedQuotationNumber,
+  type QuotationNumbering
+} from '../lib/quotationNumbering';
+import { DEFAULT_QUOTATION_TERMS } from '../lib/quotationPdf';
+import { BASE_CURRENCY, CURRENCIES } from '../../supabase/functions/_shared/currency';
+import {
+  DEFAULT_TAX_CODE,
+  DEFAULT_TAX_RATES,
+  REVERSE_CHARGE_CODE,
+  normalizeTaxRates,
+  taxLabel,
+  type TaxRate
+} from '../../supabase/functions/_shared/tax';
+import {
+  DEFAULT_LABOUR_RATES,
+  normalizeLabourRates,
+  type LabourRate
+} from '../../supabase/functions/_shared/lineTypes';
 
 interface Company {
   id: string;
@@ -25,9 +56,23 @@ interface Company {
   address?: string;
   logo_url?: string;
   is_default: boolean;
+  tax_rates?: TaxRate[];
+  default_tax_code?: string;
+  labour_rates?: LabourRate[];
+  quotation_numbering?: QuotationNumbering;
+  quotation_terms?: string;
   created_at: string;
 }
 
+const marginCategories = [
+  { value: 'air_conditioning', label: 'Air Conditioning' },
+  { value: 'heating', label: 'Heating' },
+  { value: 'plumbing', label: 'Plumbing' },
+  { value: 'materials', label: 'Materials' },
+  { value: 'services', label: 'Services' },
+  { value: 'hot_water', label: 'Hot Water' }
+];
+
 interface SettingsProps {
   onGlobalError?: (error: { title: string; message: string; type?: 'error' | 'timeout' | 'network' }) => void;
 }
@@ -46,8 +91,28 @@ export default function Settings({ onGlobalError }: SettingsProps) {
     phone: '',
     address: '',
     logo_url: '',
-    is_default: false
+    is_default: false,
+    tax_rates: DEFAULT_TAX_RATES,
+    default_tax_code: DEFAULT_TAX_CODE,
+    labour_rates: DEFAULT_LABOUR_RATES,
+    quotation_numbering: DEFAULT_QUOTATION_NUMBERING,
+    quotation_terms: DEFAULT_QUOTATION_TERMS
   });
+  const [marginInputs, setMarginInputs] = useState<Record<string, string>>({});
+  const { rows: exchangeRateRows, saveRate } = useExchangeRates();
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+  const { templates, updateTemplate, deleteTemplate } = useQuotationTemplates();
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [templateForm, setTemplateForm] = useState({ name: '', description: '', company_id: '' });
+
+  useEffect(() => {
+    setRateInputs(Object.fromEntries(exchangeRateRows.map(row => [row.currency, String(Number(row.rate))])));
+  }, [exchangeRateRows]);
+
+  useEffect(() => {
+    const margins = profile?.category_margins || {};
+    setMarginInputs(Object.fromEntries(Object.entries(margins).map(([category, margin]) => [category, String(margin)])));
+  }, [profile?.category_margins]);
 
   const resetCompanyForm = () => {
     console.log('⚙️ Settings: Resetting company form');
@@ -57,7 +122,12 @@ export default function Settings({ onGlobalError }: SettingsProps) {
       phone: '',
       address: '',
       logo_url: '',
-      is_default: false
+      is_default: false,
+      tax_rates: DEFAULT_TAX_RATES,
+      default_tax_code: DEFAULT_TAX_CODE,
+      labour_rates: DEFAULT_LABOUR_RATES,
+      quotation_numbering: DEFAULT_QUOTATION_NUMBERING,
+      quotation_terms: DEFAULT_QUOTATION_TERMS
     });
     setEditingCompany(null);
     setShowAddCompany(false);
@@ -115,6 +185,9 @@ export default function Settings({ onGlobalError }: SettingsProps) {
     try {
       const companyData = {
         ...companyForm,
+        tax_rates: normalizeTaxRates(companyForm.tax_rates),
+        labour_rates: normalizeLabourRates(companyForm.labour_rates),
+        quotation_numbering: normalizeNumbering(companyForm.quotation_numbering),
         user_id: user.id
       };
 
@@ -205,6 +278,136 @@ export default function Settings({ onGlobalError }: SettingsProps) {
     }
   };
 
+  const startTemplateEdit = (template: QuotationTemplate) => {
+    setEditingTemplateId(template.id);
+    setTemplateForm({
+      name: template.name,
+      description: template.description || '',
+      company_id: template.company_id || ''
+    });
+  };
+
+  const saveTemplateEdit = async (templateId: string) => {
+    console.log('⚙️ Settings: Updating template:', templateId);
+    if (!templateForm.name.trim()) return;
+
+    try {
+      await updateTemplate(templateId, {
+        name: templateForm.name.trim(),
+        description: templateForm.description.trim() || null,
+        company_id: templateForm.company_id || null
+      });
+      setEditingTemplateId(null);
+    } catch (error) {
+      console.error('⚙️ Settings: Error updating template:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Template Update Error',
+          message: `Failed to update template: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  const removeTemplate = async (template: QuotationTemplate) => {
+    console.log('⚙️ Settings: Starting delete for template:', template.id);
+    if (!window.confirm(`Delete the template "${template.name}"? Quotations it was inserted into are not affected.`)) return;
+
+    try {
+      await deleteTemplate(template.id);
+    } catch (error) {
+      console.error('⚙️ Settings: Error deleting template:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Template Delete Error',
+          message: `Failed to delete template: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  const updateWorkflowProvider = async (provider: string) => {
+    console.log('⚙️ Settings: Updating RFQ workflow provider:', provider || 'environment default');
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({ workflow_provider: provider || null })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      console.log('⚙️ Settings: Workflow provider updated successfully');
+      refreshProfile();
+    } catch (error) {
+      console.error('⚙️ Settings: Error updating workflow provider:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Workflow Settings Error',
+          message: `Failed to update RFQ workflow: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  // Empty inputs fall back to the quotation margin
+  const updateCategoryMargins = async () => {
+    console.log('⚙️ Settings: Updating category margins:', marginInputs);
+    if (!user) return;
+
+    const categoryMargins: Record<string, number> = {};
+    Object.entries(marginInputs).forEach(([category, value]) => {
+      const margin = parseFloat(value);
+      if (value !== '' && Number.isFinite(margin) && margin >= 0) {
+        categoryMargins[category] = margin;
+      }
+    });
+
+    try {
+      const { error } = await supabase
+        .from('user_profiles')
+        .update({ category_margins: categoryMargins })
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      console.log('⚙️ Settings: Category margins updated successfully');
+      refreshProfile();
+    } catch (error) {
+      console.error('⚙️ Settings: Error updating category margins:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Pricing Settings Error',
+          message: `Failed to update category margins: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
+  const updateExchangeRate = async (currency: string) => {
+    const rate = parseFloat(rateInputs[currency] ?? '');
+    const current = exchangeRateRows.find(row => row.currency === currency);
+    if (!Number.isFinite(rate) || rate <= 0 || Number(current?.rate) === rate) return;
+
+    console.log('⚙️ Settings: Updating exchange rate:', currency, rate);
+    try {
+      await saveRate(currency, rate);
+      console.log('⚙️ Settings: Exchange rate updated successfully');
+    } catch (error) {
+      console.error('⚙️ Settings: Error updating exchange rate:', error);
+      if (onGlobalError) {
+        onGlobalError({
+          title: 'Exchange Rate Error',
+          message: `Failed to update the ${currency} rate: ${(error as Error).message}`,
+          type: 'network'
+        });
+      }
+    }
+  };
+
   const startEditingCompany = (company: Company) => {
     console.log('⚙️ Settings: Starting edit for company:', company.id);
     setEditingCompany(company);
@@ -214,14 +417,71 @@ export default function Settings({ onGlobalError }: SettingsProps) {
       phone: company.phone || '',
       address: company.address || '',
       logo_url: company.logo_url || '',
-      is_default: company.is_default
+      is_default: company.is_default,
+      tax_rates: normalizeTaxRates(company.tax_rates),
+      default_tax_code: company.default_tax_code || DEFAULT_TAX_CODE,
+      labour_rates: normalizeLabourRates(company.labour_rates),
+      quotation_numbering: normalizeNumbering(company.quotation_numbering),
+      quotation_terms: company.quotation_terms ?? DEFAULT_QUOTATION_TERMS
     });
     setShowAddCompany(true);
   };
 
+  const updateTaxRate = (index: number, changes: Partial<TaxRate>) => {
+    setCompanyForm(prev => ({
+      ...prev,
+      tax_rates: prev.tax_rates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate))
+    }));
+  };
+
+  const addTaxRate = () => {
+    setCompanyForm(prev => ({
+      ...prev,
+      tax_rates: [...prev.tax_rates, { code: `custom_${Date.now().toString(36)}`, label: '', rate: 0 }]
+    }));
+  };
+
+  // Lines that used a removed code fall back to its stored rate
+  const removeTaxRate = (index: number) => {
+    setCompanyForm(prev => {
+      const taxRates = prev.tax_rates.filter((_, i) => i !== index);
+      return {
+        ...prev,
+        tax_rates: taxRates,
+        default_tax_code: taxRates.some(rate => rate.code === prev.default_tax_code)
+          ? prev.default_tax_code
+          : taxRates[0]?.code || DEFAULT_TAX_CODE
+      };
+    });
+  };
+
+  const updateLabourRate = (index: number, changes: Partial<LabourRate>) => {
+    setCompanyForm(prev => ({
+      ...prev,
+      labour_rates: prev.labour_rates.map((rate, i) => (i === index ? { ...rate, ...changes } : rate))
+    }));
+  };
+
+  const addLabourRate = () => {
+    setCompanyForm(prev => ({
+      ...prev,
+      labour_rates: [...prev.labour_rates, { trade: `trade_${Date.now().toString(36)}`, label: '', rate: 0 }]
+    }));
+  };
+
+  // Labour lines that used a removed trade keep the cost they were priced with
+  const removeLabourRate = (index: number) => {
+    setCompanyForm(prev => ({ ...prev, labour_rates: prev.labour_rates.filter((_, i) => i !== index) }));
+  };
+
+  const updateNumbering = (changes: Partial<QuotationNumbering>) => {
+    setCompanyForm(prev => ({ ...prev, quotation_numbering: { ...prev.quotation_numbering, ...changes } }));
+  };
+
   const tabs = [
     { id: 'company', name: 'Company Settings', icon: Building2 },
     { id: 'profile', name: 'User Profile', icon: User },
+    { id: 'templates', name: 'Templates', icon: LayoutTemplate },
     { id: 'security', name: 'Security', icon: Shield },
     { id: 'data', name: 'Data Management', icon: Database }
   ];
@@ -348,6 +608,22 @@ export default function Settings({ onGlobalError }: SettingsProps) {
                                   <p className="text-slate-900">{company.address}</p>
                                 </div>
                               )}
+                              <div>
+                                <p className="text-sm font-semibold text-slate-600">Quotation Numbers</p>
+                                <p className="text-slate-900">
+                                  {formatQuotationNumber(normalizeNumbering(company.quotation_numbering), 1)}
+                                </p>
+                              </div>
+                              <div>
+                                <p className="text-sm font-semibold text-slate-600">Default VAT</p>
+                                <p className="text-slate-900">
+                                  {taxLabel(
+                                    normalizeTaxRates(company.tax_rates),
+                                    company.default_tax_code || DEFAULT_TAX_CODE,
+                                    0
+                                  )}
+                                </p>
+                              </div>
                             </div>
                           </div>
                           <div className="flex items-center space-x-3 ml-6">
@@ -422,6 +698,109 @@ export default function Settings({ onGlobalError }: SettingsProps) {
             </div>
           )}
 
+          {activeTab === 'templates' && (
+            <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8">
+              <div className="mb-8">
+                <h2 className="text-2xl font-bold text-slate-900">Quotation Templates</h2>
+                <p className="text-slate-600 mt-2">
+                  Standard packages to insert into quotations. Create them from the quotation editor with "Save as Template".
+                </p>
+              </div>
+
+              {templates.length === 0 ? (
+                <div className="text-center py-12">
+                  <LayoutTemplate className="w-16 h-16 text-slate-400 mx-auto mb-4" />
+                  <h3 className="text-xl font-semibold text-slate-700 mb-2">No Templates Yet</h3>
+                  <p className="text-slate-500">Select lines in a quotation and save them as a template</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {templates.map(template => (
+                    <div key={template.id} className="border border-slate-200 rounded-xl p-6">
+                      {editingTemplateId === template.id ? (
+                        <div className="space-y-4">
+                          <input
+                            type="text"
+                            required
+                            value={templateForm.name}
+                            onChange={(e) => setTemplateForm(prev => ({ ...prev, name: e.target.value }))}
+                            className="w-full border border-slate-300 rounded-xl px-4 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                            placeholder="2-bed apartment split system package"
+                          />
+                          <textarea
+                            rows={2}
+                            value={templateForm.description}
+                            onChange={(e) => setTemplateForm(prev => ({ ...prev, description: e.target.value }))}
+                            className="w-full border border-slate-300 rounded-xl px-4 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                            placeholder="What the package covers"
+                          />
+                          <select
+                            value={templateForm.company_id}
+                            onChange={(e) => setTemplateForm(prev => ({ ...prev, company_id: e.target.value }))}
+                            className="w-full border border-slate-300 rounded-xl px-4 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                          >
+                            <option value="">All companies</option>
+                            {companies.map(company => (
+                              <option key={company.id} value={company.id}>{company.name}</option>
+                            ))}
+                          </select>
+                          <div className="flex justify-end space-x-3">
+                            <button
+                              onClick={() => setEditingTemplateId(null)}
+                              className="px-4 py-2 bg-slate-200 text-slate-800 rounded-xl hover:bg-slate-300 font-semibold"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => saveTemplateEdit(template.id)}
+                              className="px-4 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 font-semibold flex items-center"
+                            >
+                              <Save className="w-4 h-4 mr-2" />
+                              Save
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <h3 className="text-lg font-bold text-slate-900">{template.name}</h3>
+                            {template.description && <p className="text-slate-600 mt-1">{template.description}</p>}
+                            <p className="text-sm text-slate-500 mt-2">
+                              {template.items.length} lines • {template.currency} •{' '}
+                              {companies.find(company => company.id === template.company_id)?.name || 'All companies'}
+                            </p>
+                            <ul className="mt-3 space-y-1 text-sm text-slate-700">
+                              {template.items.map((line, index) => (
+                                <li key={index}>
+                                  {line.quantity}{line.unit ? ` ${line.unit}` : ' ×'}{' '}
+                                  {[line.brand, line.model].filter(Boolean).join(' ') || line.description}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                          <div className="flex items-center space-x-3 ml-6">
+                            <button
+                              onClick={() => startTemplateEdit(template)}
+                              className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all duration-200"
+                            >
+                              <Edit className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => removeTemplate(template)}
+                              className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all duration-200"
+                            >
+                              <Trash2 className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {activeTab === 'security' && (
             <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8">
               <h2 className="text-2xl font-bold text-slate-900 mb-8">Security Settings</h2>
@@ -484,6 +863,99 @@ export default function Settings({ onGlobalError }: SettingsProps) {
                     </div>
                   </div>
                 </div>
+
+                <div className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-xl p-6 border border-slate-200">
+                  <div className="flex items-center space-x-3 mb-4">
+                    <Workflow className="w-6 h-6 text-slate-600" />
+                    <h3 className="text-lg font-bold text-slate-900">RFQ Workflow</h3>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-semibold text-slate-900">Analysis Provider</p>
+                      <p className="text-sm text-slate-600">Where RFQ emails are analyzed when you click Process</p>
+                    </div>
+                    <select
+                      value={profile?.workflow_provider || ''}
+                      onChange={(e) => updateWorkflowProvider(e.target.value)}
+                      className="border border-slate-300 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 bg-white"
+                    >
+                      <option value="">Environment default</option>
+                      <option value="n8n">n8n workflow</option>
+                      <option value="local">Built-in rule-based analyzer</option>
+                      {/* Replaces the analysis with canned data; offered in development only */}
+                      {(import.meta.env.DEV || profile?.workflow_provider === 'fixture') && (
+                        <option value="fixture">Recorded fixture (testing)</option>
+                      )}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-xl p-6 border border-slate-200">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <Percent className="w-6 h-6 text-slate-600" />
+                    <h3 className="text-lg font-bold text-slate-900">Default Margins by Category</h3>
+                  </div>
+                  <p className="text-sm text-slate-600 mb-4">
+                    Markup on cost for quotation lines without their own markup. Leave empty to use the quotation margin.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {marginCategories.map(category => (
+                      <div key={category.value}>
+                        <label className="block text-sm font-semibold text-slate-700 mb-2">{category.label}</label>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.1"
+                            value={marginInputs[category.value] ?? ''}
+                            onChange={(e) => setMarginInputs(prev => ({ ...prev, [category.value]: e.target.value }))}
+                            onBlur={updateCategoryMargins}
+                            className="w-full border border-slate-300 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 bg-white"
+                            placeholder="Quotation margin"
+                          />
+                          <span className="text-slate-600 text-sm">%</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-gradient-to-r from-slate-50 to-gray-50 rounded-xl p-6 border border-slate-200">
+                  <div className="flex items-center space-x-3 mb-2">
+                    <ArrowLeftRight className="w-6 h-6 text-slate-600" />
+                    <h3 className="text-lg font-bold text-slate-900">Exchange Rates</h3>
+                  </div>
+                  <p className="text-sm text-slate-600 mb-4">
+                    Maintained by hand. Draft quotations use the current rates; approval freezes the rates on the quotation.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {CURRENCIES.filter(currency => currency.code !== BASE_CURRENCY).map(currency => {
+                      const row = exchangeRateRows.find(entry => entry.currency === currency.code);
+                      return (
+                        <div key={currency.code}>
+                          <label className="block text-sm font-semibold text-slate-700 mb-2">
+                            1 {BASE_CURRENCY} = ? {currency.code}
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.0001"
+                            value={rateInputs[currency.code] ?? ''}
+                            onChange={(e) => setRateInputs(prev => ({ ...prev, [currency.code]: e.target.value }))}
+                            onBlur={() => updateExchangeRate(currency.code)}
+                            className="w-full border border-slate-300 rounded-xl px-4 py-2 text-sm focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 bg-white"
+                            placeholder="No rate set"
+                          />
+                          {row && (
+                            <p className="text-xs text-slate-500 mt-1">
+                              Updated {new Date(row.updated_at).toLocaleDateString()}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
               </div>
             </div>
           )}
@@ -578,6 +1050,192 @@ export default function Settings({ onGlobalError }: SettingsProps) {
                 />
               </div>
 
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-semibold text-slate-700">
+                    VAT Rates
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addTaxRate}
+                    className="inline-flex items-center text-sm font-semibold text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add rate
+                  </button>
+                </div>
+                <div className="space-y-3">
+                  {companyForm.tax_rates.map((rate, index) => (
+                    <div key={rate.code} className="flex items-center space-x-3">
+                      <input
+                        type="radio"
+                        name="default_tax_code"
+                        checked={companyForm.default_tax_code === rate.code}
+                        onChange={() => setCompanyForm(prev => ({ ...prev, default_tax_code: rate.code }))}
+                        className="text-blue-600 focus:ring-blue-500 w-4 h-4"
+                        title="Default for new quotations"
+                      />
+                      <input
+                        type="text"
+                        required
+                        value={rate.label}
+                        onChange={(e) => updateTaxRate(index, { label: e.target.value })}
+                        className="flex-1 border border-slate-300 rounded-xl px-4 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                        placeholder="VAT 19%"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={rate.rate}
+                        disabled={rate.code === REVERSE_CHARGE_CODE}
+                        onChange={(e) => updateTaxRate(index, { rate: parseFloat(e.target.value) || 0 })}
+                        className="w-24 border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 disabled:bg-slate-100"
+                      />
+                      <span className="text-slate-600 text-sm">%</span>
+                      <button
+                        type="button"
+                        onClick={() => removeTaxRate(index)}
+                        disabled={companyForm.tax_rates.length === 1}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all duration-200 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  The selected rate is the default for new quotations. Reverse-charged lines carry no VAT.
+                </p>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-semibold text-slate-700">
+                    Labour Rates
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addLabourRate}
+                    className="inline-flex items-center text-sm font-semibold text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add trade
+                  </button>
+                </div>
+                <div className="space-y-3">
+                  {companyForm.labour_rates.map((rate, index) => (
+                    <div key={rate.trade} className="flex items-center space-x-3">
+                      <input
+                        type="text"
+                        required
+                        value={rate.label}
+                        onChange={(e) => updateLabourRate(index, { label: e.target.value })}
+                        className="flex-1 border border-slate-300 rounded-xl px-4 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                        placeholder="Electrician"
+                      />
+                      <span className="text-slate-600 text-sm">€</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={rate.rate}
+                        onChange={(e) => updateLabourRate(index, { rate: parseFloat(e.target.value) || 0 })}
+                        className="w-24 border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                      />
+                      <span className="text-slate-600 text-sm">/ hour</span>
+                      <button
+                        type="button"
+                        onClick={() => removeLabourRate(index)}
+                        disabled={companyForm.labour_rates.length === 1}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all duration-200 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  Hourly cost per trade, used to price labour lines and suggested installation work.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">
+                  Quotation Numbers
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <p className="text-xs text-slate-500 mb-1">Prefix</p>
+                    <input
+                      type="text"
+                      maxLength={12}
+                      value={companyForm.quotation_numbering.prefix}
+                      onChange={(e) => updateNumbering({ prefix: e.target.value.replace(/\s/g, '') })}
+                      className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                      placeholder="QUO"
+                    />
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 mb-1">Year</p>
+                    <select
+                      value={companyForm.quotation_numbering.year}
+                      onChange={(e) => updateNumbering({ year: e.target.value as QuotationNumbering['year'] })}
+                      className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                    >
+                      {NUMBERING_YEARS.map(year => (
+                        <option key={year.value} value={year.value}>{year.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 mb-1">Digits</p>
+                    <input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={companyForm.quotation_numbering.padding}
+                      onChange={(e) => updateNumbering({ padding: parseInt(e.target.value) || 1 })}
+                      className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-500 mb-1">Restart numbering</p>
+                    <select
+                      value={companyForm.quotation_numbering.reset}
+                      onChange={(e) => updateNumbering({ reset: e.target.value as QuotationNumbering['reset'] })}
+                      className="w-full border border-slate-300 rounded-xl px-3 py-2 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500"
+                    >
+                      {NUMBERING_RESETS.map(reset => (
+                        <option key={reset.value} value={reset.value}>{reset.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  For example {formatQuotationNumber(normalizeNumbering(companyForm.quotation_numbering), 42)}, or{' '}
+                  {revisedQuotationNumber(formatQuotationNumber(normalizeNumbering(companyForm.quotation_numbering), 42), 2)} after
+                  its second revision once sent. Changes apply to new quotations.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-3">
+                  Quotation Terms
+                </label>
+                <textarea
+                  rows={4}
+                  value={companyForm.quotation_terms}
+                  onChange={(e) => setCompanyForm(prev => ({ ...prev, quotation_terms: e.target.value }))}
+                  className="w-full border border-slate-300 rounded-xl px-4 py-3 focus:outline-none focus:ring-4 focus:ring-blue-500/25 focus:border-blue-500 text-sm"
+                  placeholder="Payment terms, warranty, exclusions..."
+                />
+                <p className="text-xs text-slate-500 mt-2">
+                  Printed at the end of every quotation PDF, below the validity date.
+                </p>
+              </div>
+
               <div className="flex items-center space-x-3">
                 <input
                   type="checkbox"
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import * as XLSX from 'npm:xlsx@0.18.5';
+import { extractText, getDocumentProxy } from 'npm:unpdf@0.12.1';
+import { detectBoqLines, type BoqLine } from './boq.ts';
+import type { WorkflowContext } from './workflowProviders.ts';
+
+// RFQ attachment ingestion.
+//
+// Specs, schedules and BoQs usually arrive as attachments rather than in the
+// email body. Each supported attachment is downloaded from Gmail, kept in the
+// private `rfq-attachments` bucket and reduced to text (PDF) or rows and BoQ
+// lines (spreadsheets), recorded in rfq_attachments. A failing attachment is
+// recorded and skipped; it never fails the RFQ job.
+
+// Configuration constants
+const CONFIG = {
+  GMAIL_API_URL: 'https://gmail.googleapis.com/gmail/v1/users/me',
+  STORAGE_BUCKET: 'rfq-attachments',
+  MAX_ATTACHMENTS: 10,
+  MAX_ATTACHMENT_BYTES: 15 * 1024 * 1024,
+  MAX_TEXT_LENGTH: 50000,
+  MAX_TABLE_ROWS: 500
+};
+
+// As listed by the frontend Gmail service (src/lib/gmail.ts)
+export interface EmailAttachment {
+  filename: string;
+  mimeType?: string;
+  size?: number;
+  attachmentId?: string;
+}
+
+export interface SheetTable {
+  sheet: string;
+  rows: unknown[][];
+}
+
+export interface IngestedAttachment {
+  filename: string;
+  mime_type: string | null;
+  storage_path: string | null;
+  extraction_status: 'extracted' | 'unsupported' | 'failed';
+  extracted_text: string | null;
+  boq_lines: BoqLine[];
+  error: string | null;
+}
+
+type AttachmentKind = 'pdf' | 'spreadsheet';
+
+function attachmentKind(attachment: EmailAttachment): AttachmentKind | null {
+  const filename = attachment.filename.toLowerCase();
+  const mimeType = (attachment.mimeType || '').toLowerCase();
+
+  if (mimeType === 'application/pdf' || filename.endsWith('.pdf')) return 'pdf';
+  if (
+    /\.(xlsx|xlsm|xls|csv|ods)$/.test(filename) ||
+    mimeType.includes('spreadsheet') ||
+    mimeType.includes('ms-excel') ||
+    mimeType === 'text/csv'
+  ) {
+    return 'spreadsheet';
+  }
+  return null;
+}
+
+// Gmail returns attachment data as base64url
+function decodeBase64Url(data: string): Uint8Array {
+  const binary = atob(data.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function downloadAttachment(accessToken: string, gmailId: string, attachmentId: string): Promise<Uint8Array> {
+  const response = await fetch(
+    `${CONFIG.GMAIL_API_URL}/messages/${encodeURIComponent(gmailId)}/attachments/${encodeURIComponent(attachmentId)}`,
+    { headers: { Authorization: `Bearer ${accessToken}` } }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Gmail attachment download failed with status ${response.status}`);
+  }
+
+  const body = await response.json();
+  if (!body.data) {
+    throw new Error('Gmail returned an empty attachment');
+  }
+  return decodeBase64Url(body.data);
+}
+
+async function extractPdf(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: true });
+  return Array.isArray(text) ? text.join('\n') : text;
+}
+
+function extractSpreadsheet(bytes: Uint8Array): { text: string; tables: SheetTable[]; boqLines: BoqLine[] } {
+  const workbook = XLSX.read(bytes, { type: 'array' });
+  const tables: SheetTable[] = [];
+  const boqLines: BoqLine[] = [];
+
+  for (const sheet of workbook.SheetNames) {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheet], { header: 1, blankrows: false, defval: '' });
+    if (rows.length === 0) continue;
+
+    tables.push({ sheet, rows: rows.slice(0, CONFIG.MAX_TABLE_ROWS) });
+    boqLines.push(...detectBoqLines(rows, sheet));
+  }
+
+  // Flattened rows, so keyword detection also sees spreadsheet content
+  const text = tables
+    .map(table => `${table.sheet}\n${table.rows.map(row => row.filter(cell => cell !== '').join(' | ')).join('\n')}`)
+    .join('\n\n');
+
+  return { text, tables, boqLines };
+}
+
+const storagePath = (userId: string, gmailId: string, filename: string) =>
+  `${userId}/${gmailId}/${filename.replace(/[^\w.-]+/g, '_')}`;
+
+export async function ingestAttachments(
+  supabase: SupabaseClient,
+  params: {
+    userId: string;
+    gmailId: string;
+    quotationId: string;
+    accessToken: string | null;
+    attachments: EmailAttachment[];
+  },
+  log: WorkflowContext['log']
+): Promise<IngestedAttachment[]> {
+  const { userId, gmailId, quotationId, accessToken } = params;
+  const attachments = params.attachments.filter(attachment => attachment?.filename).slice(0, CONFIG.MAX_ATTACHMENTS);
+  if (attachments.length === 0) {
+    return [];
+  }
+
+  // Attachments do not change, so a retry or re-analysis reuses earlier extractions
+  const { data: previous } = await supabase
+    .from('rfq_attachments')
+    .select('filename, mime_type, storage_path, extraction_status, extracted_text, boq_lines, error')
+    .eq('user_id', userId)
+    .eq('gmail_id', gmailId);
+
+  const results: IngestedAttachment[] = [];
+
+  for (const attachment of attachments) {
+    const earlier = previous?.find(row => row.filename === attachment.filename);
+    if (earlier && earlier.extraction_status !== 'failed') {
+      results.push(earlier as IngestedAttachment);
+      continue;
+    }
+
+    const kind = attachmentKind(attachment);
+    const result: IngestedAttachment = {
+      filename: attachment.filename,
+      mime_type: attachment.mimeType || null,
+      storage_path: null,
+      extraction_status: 'unsupported',
+      extracted_text: null,
+      boq_lines: [],
+      error: null
+    };
+    let tables: SheetTable[] = [];
+
+    try {
+      if (kind) {
+        if (!accessToken || !attachment.attachmentId) {
+          throw new Error('Attachment cannot be downloaded without a Gmail access token');
+        }
+        if ((attachment.size || 0) > CONFIG.MAX_ATTACHMENT_BYTES) {
+          throw new Error(`Attachment is larger than ${CONFIG.MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+        }
+
+        const bytes = await downloadAttachment(accessToken, gmailId, attachment.attachmentId);
+        const path = storagePath(userId, gmailId, attachment.filename);
+
+        const { error: uploadError } = await supabase.storage
+          .from(CONFIG.STORAGE_BUCKET)
+          .upload(path, bytes, { contentType: attachment.mimeType || 'application/octet-stream', upsert: true });
+
+        if (uploadError) {
+          throw new Error(`Failed to store attachment: ${uploadError.message}`);
+        }
+        result.storage_path = path;
+
+        if (kind === 'pdf') {
+          result.extracted_text = (await extractPdf(bytes)).substring(0, CONFIG.MAX_TEXT_LENGTH);
+        } else {
+          const extracted = extractSpreadsheet(bytes);
+          result.extracted_text = extracted.text.substring(0, CONFIG.MAX_TEXT_LENGTH);
+          result.boq_lines = extracted.boqLines;
+          tables = extracted.tables;
+        }
+        result.extraction_status = 'extracted';
+      }
+    } catch (error) {
+      result.extraction_status = 'failed';
+      result.error = (error as Error).message;
+      log('warn', 'Attachment ingestion failed', { filename: attachment.filename, error: result.error });
+    }
+
+    const { error: saveError } = await supabase
+      .from('rfq_attachments')
+      .upsert({
+        user_id: userId,
+        gmail_id: gmailId,
+        quotation_id: quotationId,
+        filename: result.filename,
+        mime_type: result.mime_type,
+        size_bytes: attachment.size || 0,
+        storage_path: result.storage_path,
+        extraction_status: result.extraction_status,
+        extracted_text: result.extracted_text,
+        extracted_tables: tables,
+        boq_lines: result.boq_lines,
+        error: result.error
+      }, { onConflict: 'user_id,gmail_id,filename' });
+
+    if (saveError) {
+      log('warn', 'Failed to record attachment', { filename: attachment.filename, error: saveError.message });
+    }
+
+    results.push(result);
+  }
+
+  log('info', 'Ingested RFQ attachments', {
+    total: results.length,
+    extracted: results.filter(result => result.extraction_status === 'extracted').length,
+    boqLines: results.reduce((sum, result) => sum + result.boq_lines.length, 0)
+  });
+
+  return results;
+}
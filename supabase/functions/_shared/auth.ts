@@ -0,0 +1,79 @@
+import { createClient, type User } from 'npm:@supabase/supabase-js@2';
+
+// Caller authentication for edge functions invoked from the frontend.
+//
+// The user is always derived from the caller's JWT (same approach as
+// equipment-ai-import); ids in the request body are only cross-checked.
+// Errors use the 'Authentication required' / 'Forbidden' prefixes so the
+// functions can map them to 401 / 403.
+
+// Configuration constants
+const CONFIG = {
+  GMAIL_API_URL: 'https://gmail.googleapis.com/gmail/v1/users/me'
+};
+
+export async function getCallerUser(req: Request): Promise<User> {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization?.startsWith('Bearer ')) {
+    throw new Error('Authentication required');
+  }
+
+  const supabaseClient = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: {
+      headers: {
+        Authorization: authorization
+      }
+    }
+  });
+
+  const { data: { user }, error } = await supabaseClient.auth.getUser();
+  if (error || !user) {
+    throw new Error('Authentication required');
+  }
+  return user;
+}
+
+// Reject a body-supplied user id that does not match the caller
+export function assertSameUser(user: User, claimedUserId: unknown): void {
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== user.id) {
+    throw new Error('Forbidden: user id does not match the authenticated user');
+  }
+}
+
+// The Gmail token must belong to the caller's Google account and must be able
+// to read the message, otherwise the email is not theirs to quote.
+export async function assertGmailMessageOwnership(
+  user: User,
+  accessToken: unknown,
+  gmailId: string
+): Promise<void> {
+  if (!accessToken || typeof accessToken !== 'string') {
+    throw new Error('Forbidden: a Gmail access token is required to process this email');
+  }
+
+  const headers = { Authorization: `Bearer ${accessToken}` };
+
+  const profileResponse = await fetch(`${CONFIG.GMAIL_API_URL}/profile`, { headers });
+  if (!profileResponse.ok) {
+    throw new Error(`Forbidden: Gmail access token rejected (${profileResponse.status})`);
+  }
+
+  const profile = await profileResponse.json();
+  if (!user.email || profile.emailAddress?.toLowerCase() !== user.email.toLowerCase()) {
+    throw new Error('Forbidden: Gmail account does not belong to the authenticated user');
+  }
+
+  const messageResponse = await fetch(
+    `${CONFIG.GMAIL_API_URL}/messages/${encodeURIComponent(gmailId)}?format=minimal`,
+    { headers }
+  );
+  if (!messageResponse.ok) {
+    throw new Error(`Forbidden: email ${gmailId} is not accessible with this Gmail account`);
+  }
+}
+
+export function authErrorStatus(error: Error): number | null {
+  if (error.message.startsWith('Authentication required')) return 401;
+  if (error.message.startsWith('Forbidden')) return 403;
+  return null;
+}
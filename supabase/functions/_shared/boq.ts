@@ -0,0 +1,229 @@
+// Bill of quantities detection and catalog matching.
+//
+// Works on plain row arrays (as produced by XLSX.utils.sheet_to_json with
+// `header: 1`): finds the header row, maps the usual BoQ column names and
+// returns one line per row that has a description and a positive quantity.
+// matchBoqLine then finds the equipment row a line refers to.
+
+export interface BoqLine {
+  description: string;
+  quantity: number;
+  unit?: string;
+  unit_price?: number;
+  brand?: string;
+  model?: string;
+  power_kw?: number;
+  sheet?: string;
+  row: number;
+}
+
+type BoqColumn = 'description' | 'quantity' | 'unit' | 'unit_price' | 'brand' | 'model' | 'power_kw';
+
+const COLUMN_PATTERNS: Record<BoqColumn, RegExp> = {
+  description: /^(description|item description|particulars|specification|desc\.?)$/,
+  quantity: /^(qty\.?|quantity|quantities|q'ty)$/,
+  unit: /^(unit|units of measure|uom|u\.?m\.?)$/,
+  unit_price: /^(rate|unit rate|unit price|price|unit cost|cost|price per unit|€\/unit|eur\/unit)$/,
+  brand: /^(brand|make|manufacturer)$/,
+  model: /^(model|model no\.?|model number|type|ref\.?|reference)$/,
+  power_kw: /^(power|power kw|kw|capacity|capacity kw|cooling capacity|cooling kw)$/
+};
+
+// Used for the description only when no column above is named like one;
+// "Item" is often just the line number
+const DESCRIPTION_FALLBACK = /^(item|items|equipment|works?)$/;
+
+// Used for the quantity only when no column is named like one; "No." and
+// "Number" are left out, as they head the item number column
+const QUANTITY_FALLBACK = /^(nos\.?|pcs|units)$/;
+
+// Header rows are usually near the top, below a title block
+const HEADER_SEARCH_ROWS = 15;
+
+const normalizeHeader = (value: unknown) =>
+  String(value ?? '').toLowerCase().replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim();
+
+export const parseBoqNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  // Accept "1.250,50", "1,250.50", "€ 1250" and "2.5 kW"
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  if (cleaned.includes(',') && cleaned.includes('.')) {
+    cleaned = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.')
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (cleaned.includes(',')) {
+    cleaned = /,\d{3}$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  }
+
+  const parsed = Number.parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+function mapColumns(header: unknown[]): Partial<Record<BoqColumn, number>> {
+  const columns: Partial<Record<BoqColumn, number>> = {};
+  header.forEach((cell, index) => {
+    const name = normalizeHeader(cell);
+    if (!name) return;
+    for (const [column, pattern] of Object.entries(COLUMN_PATTERNS) as [BoqColumn, RegExp][]) {
+      if (columns[column] === undefined && pattern.test(name)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+
+  if (columns.description === undefined) {
+    const index = header.findIndex(cell => DESCRIPTION_FALLBACK.test(normalizeHeader(cell)));
+    if (index !== -1) columns.description = index;
+  }
+  if (columns.quantity === undefined) {
+    const index = header.findIndex(cell => QUANTITY_FALLBACK.test(normalizeHeader(cell)));
+    if (index !== -1) columns.quantity = index;
+  }
+  return columns;
+}
+
+// Index of the BoQ header row, or -1 when no row names a description and a quantity
+export function findBoqHeaderRow(rows: unknown[][]): number {
+  return rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const columns = mapColumns(row);
+    return columns.description !== undefined && columns.quantity !== undefined;
+  });
+}
+
+export function detectBoqLines(rows: unknown[][], sheet?: string): BoqLine[] {
+  const headerIndex = findBoqHeaderRow(rows);
+  if (headerIndex === -1) return [];
+
+  const columns = mapColumns(rows[headerIndex]);
+  const text = (row: unknown[], column: BoqColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : String(row[index] ?? '').trim();
+  };
+  const number = (row: unknown[], column: BoqColumn) => {
+    const index = columns[column];
+    return index === undefined ? undefined : parseBoqNumber(row[index]);
+  };
+
+  const lines: BoqLine[] = [];
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const description = text(row, 'description');
+    const quantity = number(row, 'quantity');
+    if (!description || !quantity || quantity <= 0) return;
+
+    lines.push({
+      description,
+      quantity,
+      unit: text(row, 'unit') || undefined,
+      unit_price: number(row, 'unit_price'),
+      brand: text(row, 'brand') || undefined,
+      model: text(row, 'model') || undefined,
+      power_kw: number(row, 'power_kw'),
+      sheet,
+      // 1-based spreadsheet row number, for pointing the user back at the file
+      row: headerIndex + offset + 2
+    });
+  });
+
+  return lines;
+}
+
+// Equipment fields the matcher needs (a subset of the equipment table)
+export interface BoqCatalogItem {
+  id: string;
+  brand: string;
+  model: string;
+  category: string;
+  power_kw: number | null;
+  price_eur: number;
+}
+
+export interface BoqMatch<T extends BoqCatalogItem> {
+  item: T;
+  // 0..1; below MIN_MATCH_SCORE the line is treated as unmatched
+  score: number;
+  reason: 'model' | 'similar_model' | 'brand_power';
+}
+
+export const MIN_MATCH_SCORE = 0.6;
+
+// Capacities within this fraction count as the same size
+const POWER_TOLERANCE = 0.1;
+
+const normalizeCode = (value: string | null | undefined) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// A capacity stated in the text, e.g. "Split unit 3,5 kW"
+export const parseKw = (text: string): number | undefined => {
+  const match = text.match(/(\d+(?:[.,]\d+)?)\s*kw\b/i);
+  return match ? Number.parseFloat(match[1].replace(',', '.')) : undefined;
+};
+
+// Dice coefficient over character bigrams; tolerates suffixes like
+// FTXM35R vs FTXM35R9 or a missing dash in the model code
+function similarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+// Model-like tokens in a description: contain both letters and digits
+const modelTokens = (text: string) =>
+  text.split(/[\s,;/()]+/).map(normalizeCode).filter(token => token.length >= 4 && /\d/.test(token) && /[a-z]/.test(token));
+
+function scoreItem(line: BoqLine, item: BoqCatalogItem): BoqMatch<BoqCatalogItem> | null {
+  const model = normalizeCode(item.model);
+  const brand = normalizeCode(item.brand);
+  const lineText = normalizeCode(`${line.brand || ''} ${line.model || ''} ${line.description}`);
+  const brandMatches = brand.length > 0 && lineText.includes(brand);
+
+  // The line names the model code outright
+  if (model.length >= 4 && lineText.includes(model)) {
+    return { item, score: 1, reason: 'model' };
+  }
+
+  // A close model code, e.g. a different suffix or a typo
+  const candidates = line.model ? [normalizeCode(line.model)] : modelTokens(line.description);
+  const bestSimilarity = model.length >= 4 ? Math.max(0, ...candidates.map(token => similarity(token, model))) : 0;
+  if (bestSimilarity >= 0.75) {
+    return { item, score: Math.min(0.95, bestSimilarity * 0.85 + (brandMatches ? 0.1 : 0)), reason: 'similar_model' };
+  }
+
+  // Same brand and capacity
+  const lineKw = line.power_kw ?? parseKw(line.description);
+  const itemKw = Number(item.power_kw);
+  if (brandMatches && lineKw && itemKw > 0) {
+    const difference = Math.abs(itemKw - lineKw) / lineKw;
+    if (difference <= POWER_TOLERANCE) {
+      return { item, score: 0.75 - difference, reason: 'brand_power' };
+    }
+  }
+
+  return null;
+}
+
+export function matchBoqLine<T extends BoqCatalogItem>(line: BoqLine, catalog: T[]): BoqMatch<T> | null {
+  let best: BoqMatch<T> | null = null;
+  for (const item of catalog) {
+    const match = scoreItem(line, item) as BoqMatch<T> | null;
+    // Ties go to the longer model code, the more specific product
+    if (match && (!best || match.score > best.score || (match.score === best.score && item.model.length > best.item.model.length))) {
+      best = match;
+    }
+  }
+  return best && best.score >= MIN_MATCH_SCORE ? best : null;
+}
@@ -0,0 +1,48 @@
+// Quotation currencies and exchange rates. Amounts on a quotation (lines and
+// totals) are in the quotation's currency; equipment keeps the currency it is
+// priced in. Rates are kept by hand per user in the exchange_rates table, as
+// units of a currency per 1 EUR, so pricing works without any rate service.
+// A quotation stores the rates it was priced with, and approval freezes them.
+
+export const BASE_CURRENCY = 'EUR';
+
+export const CURRENCIES = [
+  { code: 'EUR', symbol: '€', label: 'Euro' },
+  { code: 'GBP', symbol: '£', label: 'British pound' },
+  { code: 'USD', symbol: '$', label: 'US dollar' }
+];
+
+// Units of each currency per 1 EUR; EUR itself is implied
+export type ExchangeRates = Record<string, number>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function rateFor(currency: string | null | undefined, rates: ExchangeRates | null | undefined): number | null {
+  if (!currency || currency === BASE_CURRENCY) return 1;
+  const rate = Number(rates?.[currency]);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+// null when either currency has no rate
+export function convertAmount(
+  amount: number,
+  from: string | null | undefined,
+  to: string | null | undefined,
+  rates: ExchangeRates | null | undefined
+): number | null {
+  if ((from || BASE_CURRENCY) === (to || BASE_CURRENCY)) return amount;
+  const fromRate = rateFor(from, rates);
+  const toRate = rateFor(to, rates);
+  if (!fromRate || !toRate) return null;
+  return round((amount / fromRate) * toRate);
+}
+
+// Quotation totals in EUR for reporting, using the rate stored on the quotation
+export const toBaseAmount = (amount: number, exchangeRate: number | null | undefined) =>
+  round(amount / (Number(exchangeRate) > 0 ? Number(exchangeRate) : 1));
+
+export const currencySymbol = (currency: string | null | undefined) =>
+  CURRENCIES.find(entry => entry.code === (currency || BASE_CURRENCY))?.symbol ?? `${currency} `;
+
+export const formatMoney = (amount: number, currency: string | null | undefined = BASE_CURRENCY) =>
+  `${currencySymbol(currency)}${amount.toLocaleString()}`;
@@ -0,0 +1,206 @@
+// Quotation documents rendered from the company's template instead of the
+// workflow's finished HTML. A template has fixed sections in a fixed order;
+// each can be switched off and has editable text in which {{placeholders}}
+// are replaced by the quotation's data. The equipment section lists the lines
+// and totals below its text.
+
+export type DocumentSectionKey = 'cover_letter' | 'scope' | 'equipment' | 'exclusions' | 'payment_terms' | 'signature';
+
+export interface DocumentSection {
+  key: DocumentSectionKey;
+  title: string;
+  body: string;
+  enabled: boolean;
+}
+
+export interface DocumentTemplate {
+  sections: DocumentSection[];
+}
+
+export const DOCUMENT_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: 'quotation_number', label: 'Quotation number' },
+  { key: 'quotation_date', label: 'Date of the quotation' },
+  { key: 'valid_until', label: 'Valid until' },
+  { key: 'client_name', label: 'Client contact' },
+  { key: 'client_company', label: 'Client company' },
+  { key: 'project_name', label: 'Project' },
+  { key: 'project_location', label: 'Project location' },
+  { key: 'total_net', label: 'Total excl. VAT' },
+  { key: 'total_vat', label: 'VAT' },
+  { key: 'total_gross', label: 'Total incl. VAT' },
+  { key: 'company_name', label: 'Your company' },
+  { key: 'company_email', label: 'Your email' },
+  { key: 'company_phone', label: 'Your phone' },
+  { key: 'company_address', label: 'Your address' }
+];
+
+export const DEFAULT_DOCUMENT_TEMPLATE: DocumentTemplate = {
+  sections: [
+    {
+      key: 'cover_letter',
+      title: 'Cover Letter',
+      enabled: true,
+      body: 'Dear {{client_name}},\n\nThank you for your enquiry. We are pleased to submit our quotation {{quotation_number}} for {{project_name}}.\n\nWe trust the proposal meets your requirements and look forward to working with you.'
+    },
+    {
+      key: 'scope',
+      title: 'Scope of Works',
+      enabled: true,
+      body: 'Supply, installation, testing and commissioning of the mechanical and electrical services listed below at {{project_location}}.'
+    },
+    {
+      key: 'equipment',
+      title: 'Equipment and Pricing',
+      enabled: true,
+      body: ''
+    },
+    {
+      key: 'exclusions',
+      title: 'Exclusions',
+      enabled: true,
+      body: 'Builder\'s work, scaffolding, electrical supplies to the isolators and any work not listed above are excluded unless stated otherwise.'
+    },
+    {
+      key: 'payment_terms',
+      title: 'Payment Terms',
+      enabled: true,
+      body: 'This quotation is valid until {{valid_until}}. Total {{total_gross}} including VAT.'
+    },
+    {
+      key: 'signature',
+      title: 'Acceptance',
+      enabled: true,
+      body: 'Yours sincerely,\n{{company_name}}\n{{company_email}} · {{company_phone}}'
+    }
+  ]
+};
+
+export const DOCUMENT_SECTION_KEYS = DEFAULT_DOCUMENT_TEMPLATE.sections.map(section => section.key);
+
+// Every section in the fixed order; missing or malformed ones take the default
+export function normalizeDocumentTemplate(value: unknown): DocumentTemplate {
+  const stored = typeof value === 'object' && value !== null && Array.isArray((value as DocumentTemplate).sections)
+    ? (value as DocumentTemplate).sections.filter(section => typeof section === 'object' && section !== null)
+    : [];
+
+  return {
+    sections: DEFAULT_DOCUMENT_TEMPLATE.sections.map(fallback => {
+      const section = stored.find(candidate => candidate.key === fallback.key);
+      return section
+        ? {
+            key: fallback.key,
+            title: typeof section.title === 'string' && section.title.trim() !== '' ? section.title : fallback.title,
+            body: typeof section.body === 'string' ? section.body : fallback.body,
+            enabled: section.enabled !== false
+          }
+        : { ...fallback };
+    })
+  };
+}
+
+// Unknown placeholders are left as typed, so mistakes show in the preview
+export const fillPlaceholders = (text: string, values: Record<string, string>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => (key in values ? values[key] : match));
+
+export interface DocumentLine {
+  description: string;
+  // Option the line belongs to, e.g. "Optional extra: Heat recovery"
+  option_label?: string | null;
+  quantity: number;
+  unit?: string | null;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface DocumentData {
+  values: Record<string, string>;
+  lines: DocumentLine[];
+  // Option subtotals and VAT breakdown, already rendered
+  totalsHtml?: string;
+  formatAmount: (amount: number) => string;
+}
+
+// Embedded in the document, so the preview, print and PDF look the same
+const DOCUMENT_STYLES = `
+  .quotation-document .header { margin-bottom: 24px; }
+  .quotation-document h1 { font-size: 22px; font-weight: bold; margin: 0 0 4px; }
+  .quotation-document h2 { font-size: 15px; font-weight: bold; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #ddd; }
+  .quotation-document p { margin: 0 0 10px; }
+  .quotation-document .quotation-lines { width: 100%; border-collapse: collapse; margin: 12px 0; }
+  .quotation-document .quotation-lines th, .quotation-document .quotation-lines td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+  .quotation-document .quotation-lines th { background-color: #f5f5f5; }
+  .quotation-document small { color: #666; }
+`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Blank lines separate paragraphs; single line breaks are kept
+function textToHtml(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph !== '')
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+function renderLinesHtml(lines: DocumentLine[], formatAmount: (amount: number) => string): string {
+  const rows = lines
+    .map(line => `
+      <tr>
+        <td>${escapeHtml(line.description)}${line.option_label ? `<br><small>${escapeHtml(line.option_label)}</small>` : ''}</td>
+        <td style="text-align: right;">${line.quantity}${line.unit ? ` ${escapeHtml(line.unit)}` : ''}</td>
+        <td style="text-align: right;">${formatAmount(line.unit_price)}</td>
+        <td style="text-align: right;">${formatAmount(line.total_price)}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <table class="quotation-lines">
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th style="text-align: right;">Qty</th>
+          <th style="text-align: right;">Unit price</th>
+          <th style="text-align: right;">Total</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+    </table>`;
+}
+
+export function renderQuotationDocument(template: DocumentTemplate, data: DocumentData): string {
+  const value = (key: string) => escapeHtml(data.values[key] || '');
+
+  const sections = template.sections
+    .filter(section => section.enabled)
+    .map(section => {
+      const body = textToHtml(fillPlaceholders(section.body, data.values));
+      const extra = section.key === 'equipment'
+        ? renderLinesHtml(data.lines, data.formatAmount) + (data.totalsHtml || '')
+        : '';
+      if (!body && !extra) return '';
+
+      return `
+    <section class="document-section document-${section.key}">
+      <h2>${escapeHtml(fillPlaceholders(section.title, data.values))}</h2>
+      ${body}${extra}
+    </section>`;
+    })
+    .join('');
+
+  return `
+    <div class="quotation-document">
+      <style>${DOCUMENT_STYLES}</style>
+      <div class="header">
+        <h1>Quotation ${value('quotation_number')}</h1>
+        <p>${value('quotation_date')}${data.values.valid_until ? ` · Valid until ${value('valid_until')}` : ''}</p>
+      </div>
+      <div class="client-info">
+        <p><strong>${value('client_company') || value('client_name')}</strong>${data.values.client_company && data.values.client_name ? `<br>${value('client_name')}` : ''}
+        ${data.values.project_name ? `<br>${value('project_name')}` : ''}${data.values.project_location ? `, ${value('project_location')}` : ''}</p>
+      </div>${sections}
+    </div>`;
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+// Thin wrappers around the processing_jobs queue functions. Leasing, retry
+// backoff and crash recovery live in the database so every worker (the
+// process-rfq kick and the scheduled process-jobs sweep) behaves the same.
+
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  user_id: string;
+  job_type: 'process_rfq';
+  gmail_id: string | null;
+  quotation_id: string | null;
+  payload: Record<string, unknown>;
+  status: ProcessingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  result: Record<string, unknown> | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Configuration constants
+const CONFIG = {
+  LEASE_SECONDS: 240,
+  RETRY_DELAY_SECONDS: 30
+};
+
+// A null composite from plpgsql comes back as an object of nulls
+const toJob = (data: unknown): ProcessingJob | null => {
+  const job = data as ProcessingJob | null;
+  return job && job.id ? job : null;
+};
+
+export async function findInFlightJob(
+  supabase: SupabaseClient,
+  userId: string,
+  gmailId: string
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('gmail_id', gmailId)
+    .in('status', ['queued', 'running'])
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up in-flight processing job: ${error.message}`);
+  }
+  return data;
+}
+
+// Enqueue a job, or hand back the job already in flight for the same user and
+// email (idx_processing_jobs_in_flight allows only one at a time).
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  job: { userId: string; jobType: ProcessingJob['job_type']; gmailId: string; payload: Record<string, unknown> }
+): Promise<{ job: ProcessingJob; deduplicated: boolean }> {
+  const inFlight = await findInFlightJob(supabase, job.userId, job.gmailId);
+  if (inFlight) {
+    return { job: inFlight, deduplicated: true };
+  }
+
+  const { data, error } = await supabase.rpc('enqueue_processing_job', {
+    p_user_id: job.userId,
+    p_job_type: job.jobType,
+    p_gmail_id: job.gmailId,
+    p_payload: job.payload
+  });
+
+  // Lost the race against a concurrent request for the same email
+  if (error?.code === '23505') {
+    const concurrent = await findInFlightJob(supabase, job.userId, job.gmailId);
+    if (concurrent) {
+      return { job: concurrent, deduplicated: true };
+    }
+  }
+
+  const enqueued = toJob(data);
+  if (error || !enqueued) {
+    throw new Error(`Failed to enqueue processing job: ${error?.message || 'no job returned'}`);
+  }
+  return { job: enqueued, deduplicated: false };
+}
+
+export async function claimJob(
+  supabase: SupabaseClient,
+  workerId: string,
+  jobId?: string
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc('claim_processing_job', {
+    p_worker: workerId,
+    p_lease_seconds: CONFIG.LEASE_SECONDS,
+    p_job_id: jobId ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim processing job: ${error.message}`);
+  }
+  return toJob(data);
+}
+
+export async function completeJob(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+  result: object
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc('complete_processing_job', {
+    p_job_id: job.id,
+    p_worker: workerId,
+    p_result: result
+  });
+
+  if (error) {
+    throw new Error(`Failed to complete processing job: ${error.message}`);
+  }
+  return toJob(data);
+}
+
+export async function failJob(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  workerId: string,
+  errorMessage: string,
+  retryable = true
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc('fail_processing_job', {
+    p_job_id: job.id,
+    p_worker: workerId,
+    p_error: errorMessage,
+    p_retry_delay_seconds: CONFIG.RETRY_DELAY_SECONDS,
+    p_retryable: retryable
+  });
+
+  if (error) {
+    throw new Error(`Failed to record processing job failure: ${error.message}`);
+  }
+  return toJob(data);
+}
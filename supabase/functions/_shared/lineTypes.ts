@@ -0,0 +1,104 @@
+// Line kinds on a quotation. Equipment lines come from the catalog; labour is
+// priced per hour from the company's labour rates (`companies.labour_rates`),
+// materials by length, services and provisional sums as lump sums. Installing
+// and commissioning equipment is suggested as labour lines when it is added.
+
+export type LineType = 'equipment' | 'labour' | 'material' | 'service' | 'provisional_sum';
+
+// `category` is the category of lines of that kind added by hand
+export const LINE_TYPES: { value: LineType; label: string; category?: string; units: string[] }[] = [
+  { value: 'equipment', label: 'Equipment', units: ['each', 'set'] },
+  { value: 'labour', label: 'Labour', category: 'labour', units: ['hour', 'day'] },
+  { value: 'material', label: 'Material by length', category: 'materials', units: ['m', 'm²'] },
+  { value: 'service', label: 'Lump-sum service', category: 'services', units: ['lump sum', 'visit', 'each'] },
+  { value: 'provisional_sum', label: 'Provisional sum', category: 'services', units: ['lump sum'] }
+];
+
+export const lineTypeInfo = (type: string | null | undefined) =>
+  LINE_TYPES.find(entry => entry.value === type) || LINE_TYPES[0];
+
+// Hourly cost of a trade, in EUR
+export interface LabourRate {
+  trade: string;
+  label: string;
+  rate: number;
+}
+
+// The same list is the default of the companies.labour_rates column
+export const DEFAULT_LABOUR_RATES: LabourRate[] = [
+  { trade: 'hvac', label: 'HVAC technician', rate: 35 },
+  { trade: 'refrigeration', label: 'Refrigeration engineer', rate: 40 },
+  { trade: 'plumbing', label: 'Plumber', rate: 30 },
+  { trade: 'electrical', label: 'Electrician', rate: 32 },
+  { trade: 'ductwork', label: 'Ductwork fitter', rate: 28 },
+  { trade: 'commissioning', label: 'Commissioning engineer', rate: 45 },
+  { trade: 'general', label: 'General labourer', rate: 20 }
+];
+
+// Rates are jsonb, so anything stored there is checked before use
+export function normalizeLabourRates(value: unknown): LabourRate[] {
+  if (!Array.isArray(value)) return DEFAULT_LABOUR_RATES;
+
+  const rates = value
+    .filter((rate): rate is Record<string, unknown> => typeof rate === 'object' && rate !== null)
+    .filter(rate => typeof rate.trade === 'string' && rate.trade !== '')
+    .map(rate => ({
+      trade: String(rate.trade),
+      label: typeof rate.label === 'string' && rate.label !== '' ? rate.label : String(rate.trade),
+      rate: Math.max(0, Number(rate.rate) || 0)
+    }));
+
+  return rates.length > 0 ? rates : DEFAULT_LABOUR_RATES;
+}
+
+export const findLabourRate = (labourRates: LabourRate[], trade: string | null | undefined) =>
+  trade ? labourRates.find(rate => rate.trade === trade) : undefined;
+
+// Hours per unit to install and commission equipment, by category
+const INSTALLATION_HOURS: Record<string, { trade: string; hours: number }[]> = {
+  air_conditioning: [{ trade: 'refrigeration', hours: 6 }, { trade: 'electrical', hours: 2 }],
+  heating: [{ trade: 'plumbing', hours: 8 }, { trade: 'electrical', hours: 1 }],
+  plumbing: [{ trade: 'plumbing', hours: 4 }],
+  hot_water: [{ trade: 'plumbing', hours: 5 }, { trade: 'electrical', hours: 1 }]
+};
+
+const COMMISSIONING_HOURS: Record<string, number> = {
+  air_conditioning: 1.5,
+  heating: 2,
+  hot_water: 1
+};
+
+export interface SuggestedLine {
+  line_type: LineType;
+  trade: string;
+  unit: string;
+  quantity: number;
+  // Hourly cost in EUR
+  cost_price: number;
+  category: string;
+  description: string;
+}
+
+// Installation and commissioning labour for `quantity` units of equipment;
+// empty for materials and services
+export function suggestInstallationLines(
+  equipment: { brand: string; model: string; category: string; quantity: number },
+  labourRates: LabourRate[]
+): SuggestedLine[] {
+  const name = [equipment.brand, equipment.model].filter(Boolean).join(' ');
+  const labour = (trade: string, hours: number, task: string): SuggestedLine => ({
+    line_type: 'labour',
+    trade,
+    unit: 'hour',
+    quantity: Math.round(hours * equipment.quantity * 100) / 100,
+    cost_price: findLabourRate(labourRates, trade)?.rate ?? 0,
+    category: 'labour',
+    description: `${task} ${name} (${findLabourRate(labourRates, trade)?.label || trade})`
+  });
+
+  const installation = (INSTALLATION_HOURS[equipment.category] || [])
+    .map(step => labour(step.trade, step.hours, 'Install'));
+  const commissioning = COMMISSIONING_HOURS[equipment.category];
+
+  return commissioning ? [...installation, labour('commissioning', commissioning, 'Commission')] : installation;
+}
@@ -0,0 +1,130 @@
+// Optional extras and alternatives within one quotation. Lines are base scope
+// unless marked optional or alternative; lines of one option share an
+// `option_group` label ("Option A: Daikin"). Alternatives exclude each other:
+// the quotation total has the base scope, the selected alternative (the first
+// one until another is selected) and the optional extras selected. The same
+// rules as update_quotation_totals, so the totals here match the stored ones.
+
+export type OptionKind = 'base' | 'optional' | 'alternative';
+
+export const OPTION_KINDS: { value: OptionKind; label: string }[] = [
+  { value: 'base', label: 'Base scope' },
+  { value: 'optional', label: 'Optional extra' },
+  { value: 'alternative', label: 'Alternative' }
+];
+
+export interface OptionedLine {
+  option_kind?: string | null;
+  option_group?: string | null;
+  total_price: number;
+  tax_amount?: number;
+}
+
+// Which options count towards the quotation total; after acceptance, what the client took
+export interface OptionSelection {
+  selected_alternative: string | null;
+  selected_optionals: string[];
+}
+
+export const optionKind = (line: Pick<OptionedLine, 'option_kind'>): OptionKind =>
+  line.option_kind === 'optional' || line.option_kind === 'alternative' ? line.option_kind : 'base';
+
+// Unlabelled options are stored under the kind's name, as sync_quotation_items does
+export const optionGroup = (line: Pick<OptionedLine, 'option_kind' | 'option_group'>) => {
+  const kind = optionKind(line);
+  if (kind === 'base') return null;
+  return line.option_group || (kind === 'alternative' ? 'Alternative' : 'Optional');
+};
+
+// Groups of a kind in the order they first appear
+export const optionGroups = (lines: OptionedLine[], kind: OptionKind) =>
+  [...new Set(lines.filter(line => optionKind(line) === kind).map(line => optionGroup(line) as string))];
+
+export function includedAlternative(lines: OptionedLine[], selection: OptionSelection): string | null {
+  const groups = optionGroups(lines, 'alternative');
+  return selection.selected_alternative && groups.includes(selection.selected_alternative)
+    ? selection.selected_alternative
+    : groups[0] ?? null;
+}
+
+export function isIncluded(line: OptionedLine, lines: OptionedLine[], selection: OptionSelection): boolean {
+  const kind = optionKind(line);
+  if (kind === 'base') return true;
+  if (kind === 'alternative') return optionGroup(line) === includedAlternative(lines, selection);
+  return selection.selected_optionals.includes(optionGroup(line) as string);
+}
+
+export interface OptionSubtotal {
+  kind: OptionKind;
+  group: string | null;
+  net: number;
+  tax: number;
+  included: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Subtotal of the base scope, then each alternative, then each optional extra
+export function summarizeOptions(lines: OptionedLine[], selection: OptionSelection): OptionSubtotal[] {
+  const subtotal = (kind: OptionKind, group: string | null): OptionSubtotal => {
+    const groupLines = lines.filter(line => optionKind(line) === kind && optionGroup(line) === group);
+    return {
+      kind,
+      group,
+      net: round(groupLines.reduce((sum, line) => sum + (line.total_price || 0), 0)),
+      tax: round(groupLines.reduce((sum, line) => sum + (line.tax_amount || 0), 0)),
+      included: kind === 'base'
+        || (kind === 'alternative' ? group === includedAlternative(lines, selection) : selection.selected_optionals.includes(group as string))
+    };
+  };
+
+  return [
+    subtotal('base', null),
+    ...optionGroups(lines, 'alternative').map(group => subtotal('alternative', group)),
+    ...optionGroups(lines, 'optional').map(group => subtotal('optional', group))
+  ];
+}
+
+export const hasOptions = (lines: OptionedLine[]) => lines.some(line => optionKind(line) !== 'base');
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatEuro = (value: number) =>
+  `€${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Option subtotals for the quotation document; `formatAmount` formats money in
+// the quotation's currency
+export function renderOptionsHtml(subtotals: OptionSubtotal[], formatAmount: (amount: number) => string = formatEuro): string {
+  const label = (subtotal: OptionSubtotal) =>
+    subtotal.kind === 'base' ? 'Base scope' : `${subtotal.kind === 'alternative' ? 'Alternative' : 'Optional extra'}: ${subtotal.group}`;
+
+  const rows = subtotals
+    .map(subtotal => `
+      <tr>
+        <td>${escapeHtml(label(subtotal))}</td>
+        <td style="text-align: right;">${formatAmount(subtotal.net)}</td>
+        <td style="text-align: right;">${formatAmount(subtotal.tax)}</td>
+        <td style="text-align: right;">${formatAmount(round(subtotal.net + subtotal.tax))}</td>
+        <td style="text-align: center;">${subtotal.included ? 'Included' : ''}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <div class="options-summary total-section">
+      <table>
+        <thead>
+          <tr>
+            <th>Option</th>
+            <th style="text-align: right;">Net</th>
+            <th style="text-align: right;">VAT</th>
+            <th style="text-align: right;">Total</th>
+            <th style="text-align: center;">In total</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+      <p>Alternatives are priced instead of each other; optional extras are added on request.</p>
+    </div>`;
+}
@@ -0,0 +1,52 @@
+// Signed tokens for the client acceptance portal (quotation-portal). A token
+// names the quotation and when its link was issued, signed with HMAC-SHA256:
+//
+//   <quotation id>.<issued at, unix seconds>.<signature, base64url>
+//
+// The issue time must also match quotations.portal_link_issued_at, so issuing
+// a new link revokes the previous one.
+
+export interface PortalTokenClaims {
+  quotation_id: string;
+  issued_at: Date;
+}
+
+const encoder = new TextEncoder();
+
+const base64url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return base64url(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+}
+
+// Compares every character so the time taken does not reveal how much matched
+const sameSignature = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return difference === 0;
+};
+
+export async function signPortalToken(quotationId: string, issuedAt: Date, secret: string): Promise<string> {
+  const payload = `${quotationId}.${Math.floor(issuedAt.getTime() / 1000)}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+// The claims of a well-formed token with a valid signature, else null
+export async function verifyPortalToken(token: string, secret: string): Promise<PortalTokenClaims | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !/^\d+$/.test(parts[1])) return null;
+
+  const [quotationId, issuedAt, signature] = parts;
+  if (!sameSignature(signature, await sign(`${quotationId}.${issuedAt}`, secret))) return null;
+
+  return { quotation_id: quotationId, issued_at: new Date(Number(issuedAt) * 1000) };
+}
+
+// Link issue times are stored with microseconds; tokens carry whole seconds
+export const issuedAtMatches = (claims: PortalTokenClaims, storedIssuedAt: string | null) =>
+  storedIssuedAt !== null && Math.floor(new Date(storedIssuedAt).getTime() / 1000) === claims.issued_at.getTime() / 1000;
@@ -0,0 +1,261 @@
+// Quotation lines: conversion between the line objects the workflows and the
+// editor work with (the `analysis.equipment` shape) and `quotation_items` rows,
+// and line pricing (cost, markup and discount to sell price). Rows are written
+// through the sync_quotation_items database function, which replaces all lines
+// of a quotation in one transaction.
+//
+// Workflow lines carry no cost_price: their unit_price is the cost and the
+// quotation margin goes on top. Editor lines carry cost_price and a unit_price
+// that is already the sell price.
+
+// A quotation line as produced by the workflows and edited in QuotationEditorModal
+export interface QuotationLine {
+  id?: string;
+  equipment_id?: string | null;
+  // Kind of line (see lineTypes.ts); missing means equipment
+  line_type?: string;
+  unit?: string | null;
+  trade?: string | null;
+  // Base scope, optional extra or alternative, and the option it belongs to
+  // (see options.ts); missing means base scope
+  option_kind?: string;
+  option_group?: string | null;
+  brand: string;
+  model: string;
+  category: string;
+  quantity: number;
+  // Unit cost in the quotation currency; source_cost_price is the same cost in
+  // cost_currency, the currency it was sourced in (see currency.ts)
+  cost_price?: number;
+  cost_currency?: string | null;
+  source_cost_price?: number | null;
+  list_price?: number;
+  // Per-line markup on cost; both null means the category or quotation default
+  markup_percentage?: number | null;
+  markup_amount?: number | null;
+  unit_price: number;
+  discount_percentage?: number;
+  discount_amount?: number;
+  total_price: number;
+  // VAT code of the line; null means the quotation's rate (see tax.ts)
+  tax_code?: string | null;
+  tax_rate?: number;
+  tax_amount?: number;
+  description: string;
+  notes?: string | null;
+  specifications?: unknown;
+  ai_specialization?: string;
+  power_kw?: number;
+  boq_match?: 'matched' | 'unmatched';
+  boq_reference?: string;
+}
+
+// A `quotation_items` row
+export interface QuotationItemRow {
+  id: string;
+  quotation_id: string;
+  equipment_id: string | null;
+  sort_order: number;
+  line_type: string;
+  unit: string | null;
+  trade: string | null;
+  option_kind: string;
+  option_group: string | null;
+  brand: string;
+  model: string;
+  category: string | null;
+  description: string | null;
+  quantity: number;
+  cost_price: number;
+  cost_currency: string | null;
+  source_cost_price: number | null;
+  list_price: number;
+  markup_percentage: number | null;
+  markup_amount: number | null;
+  unit_price: number;
+  discount_percentage: number;
+  discount_amount: number;
+  total_price: number;
+  tax_code: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  notes: string | null;
+  power_kw: number;
+  specifications: unknown;
+  ai_specialization: string | null;
+  boq_match: 'matched' | 'unmatched' | null;
+  boq_reference: string | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toNumber = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value !== '' ? value : null);
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined || value === '' ? null : toNumber(value, 0));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Same rounding as sync_quotation_items
+export const lineTotal = (quantity: number, unitPrice: number, discountPercentage = 0, discountAmount = 0) =>
+  round(quantity * unitPrice * (1 - discountPercentage / 100) - discountAmount);
+
+// Default markup on cost, in percent, by equipment category (user_profiles.category_margins)
+export type CategoryMargins = Record<string, number>;
+
+// Markup for a line without its own: the category default, else the quotation margin
+export const defaultMarkup = (category: string | null | undefined, categoryMargins: CategoryMargins | null | undefined, quotationMargin: number) => {
+  const categoryMargin = category ? categoryMargins?.[category] : undefined;
+  return typeof categoryMargin === 'number' && Number.isFinite(categoryMargin) ? categoryMargin : quotationMargin;
+};
+
+export interface LinePricing {
+  unit_price: number;
+  total_price: number;
+  cost_total: number;
+  gross_profit: number;
+  // Gross profit as a share of the sell price
+  margin_percentage: number;
+}
+
+type PricedLineInput = Pick<QuotationLine, 'quantity' | 'markup_percentage' | 'markup_amount' | 'discount_percentage' | 'discount_amount'> & {
+  cost_price?: number;
+};
+
+// Unit sell price is cost plus markup (percentage or absolute); the discount
+// (percentage or absolute, on the line total) comes off the sell total
+export function priceLine(line: PricedLineInput, fallbackMarkup: number): LinePricing {
+  const cost = line.cost_price || 0;
+  const unitPrice = line.markup_amount !== null && line.markup_amount !== undefined
+    ? round(cost + line.markup_amount)
+    : round(cost * (1 + (line.markup_percentage ?? fallbackMarkup) / 100));
+  const totalPrice = lineTotal(line.quantity, unitPrice, line.discount_percentage || 0, line.discount_amount || 0);
+  const costTotal = round(cost * line.quantity);
+  const grossProfit = round(totalPrice - costTotal);
+
+  return {
+    unit_price: unitPrice,
+    total_price: totalPrice,
+    cost_total: costTotal,
+    gross_profit: grossProfit,
+    margin_percentage: totalPrice > 0 ? round((grossProfit / totalPrice) * 100) : 0
+  };
+}
+
+export interface PricingSummary {
+  cost: number;
+  sell: number;
+  gross_profit: number;
+  margin_percentage: number;
+}
+
+// Totals over priced lines, overall and per category
+export function summarizePricing(lines: (Pick<QuotationLine, 'category'> & LinePricing)[]): PricingSummary & {
+  categories: (PricingSummary & { category: string })[];
+} {
+  const summarize = (group: LinePricing[]): PricingSummary => {
+    const cost = round(group.reduce((sum, line) => sum + line.cost_total, 0));
+    const sell = round(group.reduce((sum, line) => sum + line.total_price, 0));
+    return {
+      cost,
+      sell,
+      gross_profit: round(sell - cost),
+      margin_percentage: sell > 0 ? round(((sell - cost) / sell) * 100) : 0
+    };
+  };
+
+  const categories = [...new Set(lines.map(line => line.category || 'other'))]
+    .map(category => ({ category, ...summarize(lines.filter(line => (line.category || 'other') === category)) }));
+
+  return { ...summarize(lines), categories };
+}
+
+// Payload for sync_quotation_items; lines keep their array order. Older
+// workflow output puts the equipment id in `id`; editor lines carry temporary
+// ids there, so only real uuids are sent. Workflow lines (no cost_price) are
+// priced at their unit_price plus `workflowMarkup`, the quotation margin.
+export function toItemPayload(lines: unknown[], workflowMarkup = 0): Record<string, unknown>[] {
+  return lines
+    .filter((line): line is Record<string, unknown> => typeof line === 'object' && line !== null)
+    .map((line, index) => {
+      const equipmentId = 'equipment_id' in line ? line.equipment_id : line.id;
+      const isWorkflowLine = !('cost_price' in line);
+      const costPrice = toNumber(isWorkflowLine ? line.unit_price : line.cost_price, 0);
+      const markupPercentage = isWorkflowLine ? workflowMarkup : optionalNumber(line.markup_percentage);
+      return {
+        equipment_id: typeof equipmentId === 'string' && UUID_PATTERN.test(equipmentId) ? equipmentId : null,
+        sort_order: index,
+        line_type: optionalText(line.line_type) ?? 'equipment',
+        unit: optionalText(line.unit),
+        trade: optionalText(line.trade),
+        option_kind: optionalText(line.option_kind) ?? 'base',
+        option_group: optionalText(line.option_group),
+        brand: typeof line.brand === 'string' ? line.brand : '',
+        model: typeof line.model === 'string' ? line.model : '',
+        category: optionalText(line.category),
+        description: optionalText(line.description),
+        quantity: toNumber(line.quantity, 1),
+        cost_price: costPrice,
+        cost_currency: optionalText(line.cost_currency),
+        source_cost_price: optionalNumber(line.source_cost_price),
+        list_price: toNumber(line.list_price, costPrice),
+        markup_percentage: markupPercentage,
+        markup_amount: isWorkflowLine ? null : optionalNumber(line.markup_amount),
+        unit_price: isWorkflowLine
+          ? round(costPrice * (1 + workflowMarkup / 100))
+          : toNumber(line.unit_price, 0),
+        discount_percentage: Math.min(100, Math.max(0, toNumber(line.discount_percentage, 0))),
+        discount_amount: Math.max(0, toNumber(line.discount_amount, 0)),
+        tax_code: optionalText(line.tax_code),
+        tax_rate: optionalNumber(line.tax_rate),
+        notes: optionalText(line.notes),
+        power_kw: toNumber(line.power_kw, 0),
+        specifications: line.specifications ?? {},
+        ai_specialization: optionalText(line.ai_specialization),
+        boq_match: line.boq_match === 'matched' || line.boq_match === 'unmatched' ? line.boq_match : null,
+        boq_reference: optionalText(line.boq_reference)
+      };
+    });
+}
+
+export function fromItemRows(rows: QuotationItemRow[] | null | undefined): QuotationLine[] {
+  return [...(rows || [])]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map(row => ({
+      id: row.id,
+      equipment_id: row.equipment_id,
+      line_type: row.line_type || 'equipment',
+      unit: row.unit,
+      trade: row.trade,
+      option_kind: row.option_kind || 'base',
+      option_group: row.option_group,
+      brand: row.brand || '',
+      model: row.model || '',
+      category: row.category || '',
+      quantity: Number(row.quantity),
+      cost_price: Number(row.cost_price) || 0,
+      cost_currency: row.cost_currency,
+      source_cost_price: optionalNumber(row.source_cost_price),
+      list_price: Number(row.list_price) || 0,
+      markup_percentage: optionalNumber(row.markup_percentage),
+      markup_amount: optionalNumber(row.markup_amount),
+      unit_price: Number(row.unit_price),
+      discount_percentage: Number(row.discount_percentage) || 0,
+      discount_amount: Number(row.discount_amount) || 0,
+      total_price: Number(row.total_price),
+      tax_code: row.tax_code,
+      tax_rate: Number(row.tax_rate) || 0,
+      tax_amount: Number(row.tax_amount) || 0,
+      description: row.description || '',
+      notes: row.notes,
+      specifications: row.specifications,
+      ai_specialization: row.ai_specialization || undefined,
+      power_kw: Number(row.power_kw) || 0,
+      boq_match: row.boq_match || undefined,
+      boq_reference: row.boq_reference || undefined
+    }));
+}
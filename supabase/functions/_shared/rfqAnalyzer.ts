@@ -0,0 +1,378 @@
+// Built-in rule-based RFQ analyzer.
+//
+// Reads the email subject/body, extracts project type, location, areas and
+// requested systems, sizes the cooling/heating capacity with rule-of-thumb
+// loads and picks matching rows from the user's equipment table. The output
+// is a draft `analysis` in the shape QuotationEditorModal.initializeData
+// reads. It is deliberately rough: it exists so an RFQ still yields an
+// editable draft when the n8n workflow is down.
+//
+// When the RFQ came with a bill of quantities (see attachments.ts) the BoQ
+// lines are priced as given instead of sizing from the floor area.
+
+import { matchBoqLine, parseKw, type BoqLine } from './boq.ts';
+
+export const ANALYZER_VERSION = '1.2';
+
+export interface AnalyzerEmail {
+  subject?: string;
+  body?: string;
+  snippet?: string;
+  from_name?: string;
+  from_email?: string;
+}
+
+export interface AnalyzerEquipment {
+  id: string;
+  brand: string;
+  model: string;
+  category: string;
+  power_kw: number | null;
+  // List price; cost_eur is the purchase cost when recorded
+  price_eur: number;
+  cost_eur?: number | null;
+  description?: string | null;
+  specifications?: Record<string, unknown> | null;
+}
+
+// BoQ line together with the attachment it came from
+export interface SourcedBoqLine extends BoqLine {
+  source?: string;
+}
+
+export interface AnalyzerOptions {
+  // Text extracted from PDF/spreadsheet attachments
+  attachmentText?: string;
+  boqLines?: SourcedBoqLine[];
+}
+
+export interface AnalyzedItem {
+  // null for BoQ lines that matched nothing in the equipment table
+  equipment_id: string | null;
+  brand: string;
+  model: string;
+  category: string;
+  quantity: number;
+  // Unit cost; the margin is applied on the subtotal
+  unit_price: number;
+  list_price?: number;
+  total_price: number;
+  description: string;
+  specifications: Record<string, unknown>;
+  ai_specialization: string;
+  power_kw: number;
+  boq_match?: 'matched' | 'unmatched';
+  boq_reference?: string;
+}
+
+export interface RfqAnalysis {
+  analyzer: 'local_rules';
+  analyzer_version: string;
+  project_identification: {
+    client_name: string;
+    client_email: string;
+    project_name: string;
+    location: string;
+    building_type: string;
+  };
+  capacity_requirements: {
+    total_area_m2: number | null;
+    rooms: number | null;
+    cooling_kw: number | null;
+    heating_kw: number | null;
+    cooling_load_w_per_m2: number;
+  };
+  requested_systems: string[];
+  equipment: AnalyzedItem[];
+  boq_summary?: {
+    total_lines: number;
+    matched_lines: number;
+    unmatched_lines: number;
+  };
+  pricing: {
+    subtotal: number;
+    margin_percentage: number;
+    grand_total: number;
+  };
+  qualification_assessment: {
+    project_complexity: 'simple' | 'medium' | 'complex';
+    confidence: 'low' | 'medium';
+    notes: string[];
+  };
+}
+
+// Rule-of-thumb loads per building type (W per m²)
+const COOLING_LOAD_W_PER_M2: Record<string, number> = {
+  residential: 100,
+  commercial: 125,
+  retail: 150,
+  hospitality: 120,
+  healthcare: 130,
+  education: 110,
+  industrial: 90
+};
+const DEFAULT_COOLING_LOAD = 120;
+const HEATING_LOAD_W_PER_M2 = 70;
+const KW_PER_ROOM = 2.5;
+
+const BUILDING_TYPES: [string, RegExp][] = [
+  ['hospitality', /\b(hotel|resort|guest ?house|hostel)\b/],
+  ['healthcare', /\b(clinic|hospital|medical|pharmacy)\b/],
+  ['education', /\b(school|university|college|kindergarten|nursery)\b/],
+  ['retail', /\b(shop|store|retail|showroom|supermarket)\b/],
+  ['industrial', /\b(warehouse|factory|industrial|workshop|plant)\b/],
+  ['commercial', /\b(office|commercial|restaurant|cafe|bank|gym)\b/],
+  ['residential', /\b(villa|apartment|flat|house|residential|residence|maisonette|bungalow|home)\b/]
+];
+
+const LOCATIONS = [
+  'Nicosia', 'Limassol', 'Larnaca', 'Paphos', 'Famagusta', 'Ayia Napa',
+  'Protaras', 'Paralimni', 'Kyrenia', 'Strovolos', 'Germasogeia', 'Polis', 'Troodos'
+];
+
+// Requested systems and the equipment category that serves them
+const SYSTEMS: { system: string; category: string; pattern: RegExp }[] = [
+  { system: 'air_conditioning', category: 'air_conditioning', pattern: /\b(air ?condition\w*|a\/c|split units?|vrf|vrv|cooling|hvac|fan ?coils?|chillers?)\b/ },
+  { system: 'heating', category: 'heating', pattern: /\b(heating|underfloor|radiators?|boilers?|heat pumps?)\b/ },
+  { system: 'hot_water', category: 'hot_water', pattern: /\b(hot water|water heaters?|solar (water|heater|panels?)|dhw|calorifier|cylinders?)\b/ },
+  { system: 'plumbing', category: 'plumbing', pattern: /\b(plumbing|drainage|sanitary|water supply|pipework)\b/ },
+  { system: 'ventilation', category: 'air_conditioning', pattern: /\b(ventilation|ahu|air handling|extract fans?|fresh air|hrv|erv)\b/ }
+];
+
+const SPECIALIZATION_BY_CATEGORY: Record<string, string> = {
+  air_conditioning: 'primary_hvac',
+  heating: 'primary_hvac',
+  hot_water: 'primary_hvac',
+  plumbing: 'primary_hvac',
+  materials: 'materials',
+  services: 'services'
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const parseNumber = (value: string) => Number.parseFloat(value.replace(/,/g, ''));
+
+// The earliest mention wins, so the subject line outranks the body
+function detectBuildingType(text: string): string {
+  let best = { type: '', index: Infinity };
+  for (const [type, pattern] of BUILDING_TYPES) {
+    const index = text.search(pattern);
+    if (index !== -1 && index < best.index) {
+      best = { type, index };
+    }
+  }
+  return best.type;
+}
+
+function detectLocation(original: string): string {
+  const labelled = original.match(/\blocation\s*[:-]\s*([^\n,.;]+)/i);
+  if (labelled) return labelled[1].trim();
+
+  const city = LOCATIONS.find(name => new RegExp(`\\b${name}\\b`, 'i').test(original));
+  return city ? `${city}, Cyprus` : '';
+}
+
+// Sum of every "<number> m2 / sqm / square metres" mention
+function detectArea(text: string): number | null {
+  const pattern = /(\d[\d,]*(?:\.\d+)?)\s*(?:m2|m²|sq\.?\s?m|sqm|square met(?:er|re)s?)(?![a-z0-9])/g;
+  let total = 0;
+  for (const match of text.matchAll(pattern)) {
+    total += parseNumber(match[1]);
+  }
+  return total > 0 ? round(total, 1) : null;
+}
+
+function detectRooms(text: string): number | null {
+  const pattern = /(\d+)\s*(?:x\s*)?(?:bed ?rooms?|rooms?|offices?|suites?|units?|apartments?|flats?)\b/g;
+  let total = 0;
+  for (const match of text.matchAll(pattern)) {
+    total += Number.parseInt(match[1], 10);
+  }
+  return total > 0 ? total : null;
+}
+
+// Zone the load over identical units: one per room when rooms are known,
+// otherwise as few of the largest units as needed.
+function selectSizedUnits(
+  candidates: AnalyzerEquipment[],
+  loadKw: number,
+  rooms: number | null
+): { unit: AnalyzerEquipment; quantity: number } | null {
+  const sized = candidates.filter(item => Number(item.power_kw) > 0)
+    .sort((a, b) => Number(a.power_kw) - Number(b.power_kw));
+  if (sized.length === 0) return null;
+
+  const largest = sized[sized.length - 1];
+  const zones = rooms || Math.max(1, Math.ceil(loadKw / Number(largest.power_kw)));
+  const perZone = loadKw / zones;
+  const unit = sized.find(item => Number(item.power_kw) >= perZone) || largest;
+  const quantity = Math.max(zones, Math.ceil(loadKw / Number(unit.power_kw)));
+
+  return { unit, quantity };
+}
+
+function categoryForText(text: string): string {
+  const lower = text.toLowerCase();
+  return SYSTEMS.find(entry => entry.pattern.test(lower))?.category || 'materials';
+}
+
+function boqItem(line: SourcedBoqLine, match: AnalyzerEquipment | null): AnalyzedItem {
+  const reference = [line.source, line.sheet, `row ${line.row}`].filter(Boolean).join(' / ');
+
+  if (match) {
+    return {
+      ...toItem(match, line.quantity, `BoQ: ${line.description}`),
+      boq_match: 'matched',
+      boq_reference: reference
+    };
+  }
+
+  // Keep the line so nothing in the BoQ is silently dropped; priced at the
+  // client's rate when the BoQ has one, otherwise left at 0 for review
+  const category = categoryForText(line.description);
+  const unitPrice = line.unit_price ?? 0;
+  return {
+    equipment_id: null,
+    brand: line.brand || '',
+    model: line.model || '',
+    category,
+    quantity: line.quantity,
+    unit_price: unitPrice,
+    total_price: round(unitPrice * line.quantity),
+    description: `${line.description} - not in your equipment database`,
+    specifications: line.unit ? { unit: line.unit } : {},
+    ai_specialization: SPECIALIZATION_BY_CATEGORY[category] || 'materials',
+    power_kw: line.power_kw ?? parseKw(line.description) ?? 0,
+    boq_match: 'unmatched',
+    boq_reference: reference
+  };
+}
+
+function toItem(equipment: AnalyzerEquipment, quantity: number, note: string): AnalyzedItem {
+  const listPrice = Number(equipment.price_eur) || 0;
+  const unitPrice = Number(equipment.cost_eur ?? listPrice) || 0;
+  return {
+    equipment_id: equipment.id,
+    brand: equipment.brand,
+    model: equipment.model,
+    category: equipment.category,
+    quantity,
+    unit_price: unitPrice,
+    list_price: listPrice,
+    total_price: round(unitPrice * quantity),
+    description: [equipment.description, note].filter(Boolean).join(' - '),
+    specifications: equipment.specifications || {},
+    ai_specialization: SPECIALIZATION_BY_CATEGORY[equipment.category] || 'materials',
+    power_kw: Number(equipment.power_kw) || 0
+  };
+}
+
+export function analyzeRfq(
+  email: AnalyzerEmail,
+  equipment: AnalyzerEquipment[],
+  marginPercentage = 20,
+  options: AnalyzerOptions = {}
+): RfqAnalysis {
+  const original = [email.subject || '', email.body || email.snippet || '', options.attachmentText || '']
+    .filter(Boolean)
+    .join('\n');
+  const text = original.toLowerCase();
+  const notes: string[] = [];
+
+  const buildingType = detectBuildingType(text);
+  const location = detectLocation(original);
+  const area = detectArea(text);
+  const rooms = detectRooms(text);
+  const coolingLoad = COOLING_LOAD_W_PER_M2[buildingType] || DEFAULT_COOLING_LOAD;
+
+  let requestedSystems = [...new Set(SYSTEMS.filter(entry => entry.pattern.test(text)).map(entry => entry.system))];
+  if (requestedSystems.length === 0) {
+    requestedSystems = ['air_conditioning'];
+    notes.push('No system named in the email; assumed air conditioning');
+  }
+
+  const coolingKw = area ? round((area * coolingLoad) / 1000, 1) : rooms ? round(rooms * KW_PER_ROOM, 1) : null;
+  const heatingKw = area ? round((area * HEATING_LOAD_W_PER_M2) / 1000, 1) : null;
+  if (!area && !options.boqLines?.length) {
+    notes.push(rooms ? `No floor area found; sized at ${KW_PER_ROOM} kW per room` : 'No floor area or room count found; quantities need review');
+  }
+
+  const items: AnalyzedItem[] = [];
+  const boqLines = options.boqLines || [];
+  let categories = [...new Set(requestedSystems.map(system => SYSTEMS.find(entry => entry.system === system)!.category))];
+  let boqSummary: RfqAnalysis['boq_summary'];
+
+  if (boqLines.length > 0) {
+    items.push(...boqLines.map(line => boqItem(line, matchBoqLine(line, equipment)?.item || null)));
+    categories = [...new Set(items.map(item => item.category))];
+
+    const unmatched = items.filter(item => item.boq_match === 'unmatched').length;
+    boqSummary = { total_lines: boqLines.length, matched_lines: boqLines.length - unmatched, unmatched_lines: unmatched };
+    notes.push(`Priced from the attached bill of quantities: ${boqSummary.matched_lines} of ${boqLines.length} lines matched your equipment`);
+    if (unmatched > 0) {
+      notes.push(`${unmatched} BoQ line(s) not in your equipment database; check their prices`);
+    }
+  }
+
+  for (const category of boqLines.length > 0 ? [] : categories) {
+    const candidates = equipment.filter(item => item.category === category);
+    if (candidates.length === 0) {
+      notes.push(`No ${category.replace(/_/g, ' ')} equipment in your database`);
+      continue;
+    }
+
+    const loadKw = category === 'air_conditioning' ? coolingKw : category === 'heating' ? heatingKw ?? coolingKw : null;
+    const sized = loadKw ? selectSizedUnits(candidates, loadKw, category === 'air_conditioning' ? rooms : null) : null;
+
+    if (sized) {
+      items.push(toItem(sized.unit, sized.quantity, `sized for ${loadKw} kW total`));
+    } else {
+      const cheapest = [...candidates].sort((a, b) => Number(a.price_eur) - Number(b.price_eur))[0];
+      items.push(toItem(cheapest, 1, 'quantity to be confirmed'));
+    }
+  }
+
+  // Installation/services line when the user keeps one
+  const service = equipment.filter(item => item.category === 'services')
+    .sort((a, b) => Number(a.price_eur) - Number(b.price_eur))[0];
+  if (items.length > 0 && service && !items.some(item => item.category === 'services')) {
+    items.push(toItem(service, 1, 'installation and commissioning'));
+  }
+
+  const subtotal = round(items.reduce((sum, item) => sum + item.total_price, 0));
+  const grandTotal = round(subtotal * (1 + marginPercentage / 100));
+  const unitCount = items.filter(item => item.ai_specialization === 'primary_hvac')
+    .reduce((sum, item) => sum + item.quantity, 0);
+
+  return {
+    analyzer: 'local_rules',
+    analyzer_version: ANALYZER_VERSION,
+    project_identification: {
+      client_name: email.from_name || email.from_email || '',
+      client_email: email.from_email || '',
+      project_name: email.subject || 'RFQ',
+      location,
+      building_type: buildingType
+    },
+    capacity_requirements: {
+      total_area_m2: area,
+      rooms,
+      cooling_kw: coolingKw,
+      heating_kw: heatingKw,
+      cooling_load_w_per_m2: coolingLoad
+    },
+    requested_systems: requestedSystems,
+    equipment: items,
+    boq_summary: boqSummary,
+    pricing: {
+      subtotal,
+      margin_percentage: marginPercentage,
+      grand_total: grandTotal
+    },
+    qualification_assessment: {
+      project_complexity: categories.length > 2 || unitCount > 20 ? 'complex' : categories.length > 1 || unitCount > 6 ? 'medium' : 'simple',
+      confidence: (area && buildingType) || (boqSummary && boqSummary.unmatched_lines === 0) ? 'medium' : 'low',
+      notes
+    }
+  };
+}
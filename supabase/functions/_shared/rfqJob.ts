@@ -0,0 +1,405 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { ingestAttachments } from './attachments.ts';
+import { claimJob, completeJob, failJob, type ProcessingJob } from './jobQueue.ts';
+import {
+  getWorkflowProvider,
+  resolveWorkflowProviderName,
+  validateWorkflowResult,
+  type WorkflowContext,
+  type WorkflowEmailData,
+  type WorkflowPayload,
+  type WorkflowProviderName
+} from './workflowProviders.ts';
+import { WORKFLOW_SCHEMA_VERSION, WorkflowSchemaError, type RfqJobResult } from './workflowSchema.ts';
+import { quarantineWorkflowResponse } from './workflowQuarantine.ts';
+import { toItemPayload } from './quotationItems.ts';
+
+// Runs a single `process_rfq` job: creates (or reuses) the draft quotation,
+// ingests the email's attachments, calls the configured workflow provider and
+// records the outcome on the job.
+
+// Configuration constants
+const CONFIG = {
+  QUOTATION_VALIDITY_DAYS: 30
+};
+
+interface RfqJobPayload {
+  emailId: string;
+  userId: string;
+  accessToken?: string | null;
+  emailData?: WorkflowEmailData;
+  reanalyze?: boolean;
+}
+
+export interface ExistingQuotation {
+  id: string;
+  quotation_number: string | null;
+  status: string;
+  analysis_version: number;
+  processing_metadata: Record<string, unknown> | null;
+}
+
+// Latest quotation for this email; gmail_id + user is the idempotency key
+export async function findExistingQuotation(
+  supabase: SupabaseClient,
+  userId: string,
+  gmailId: string
+): Promise<ExistingQuotation | null> {
+  const { data, error } = await supabase
+    .from('quotations')
+    .select('id, quotation_number, status, analysis_version, processing_metadata')
+    .eq('user_id', userId)
+    .eq('gmail_id', gmailId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up existing quotation: ${error.message}`);
+  }
+  return data;
+}
+
+// Keep the current analysis as a version before the workflow overwrites it
+async function archiveAnalysis(
+  supabase: SupabaseClient,
+  quotationId: string,
+  jobId: string,
+  log: WorkflowContext['log']
+): Promise<void> {
+  const { data: current, error } = await supabase
+    .from('quotations')
+    .select('analysis, total_amount, margin_percentage, client_details, project_summary, processing_metadata, analysis_version')
+    .eq('id', quotationId)
+    .single();
+
+  if (error || !current) {
+    throw new Error(`Failed to load quotation for re-analysis: ${error?.message}`);
+  }
+
+  const { error: versionError } = await supabase
+    .from('quotation_analysis_versions')
+    .insert({
+      quotation_id: quotationId,
+      version: current.analysis_version,
+      analysis: current.analysis,
+      total_amount: current.total_amount,
+      margin_percentage: current.margin_percentage,
+      client_details: current.client_details,
+      project_summary: current.project_summary,
+      processing_metadata: current.processing_metadata,
+      job_id: jobId
+    });
+
+  if (versionError) {
+    throw new Error(`Failed to archive previous analysis: ${versionError.message}`);
+  }
+
+  await supabase
+    .from('quotations')
+    .update({ analysis_version: current.analysis_version + 1 })
+    .eq('id', quotationId);
+
+  log('info', 'Archived previous analysis for re-analysis', {
+    quotationId,
+    version: current.analysis_version
+  });
+}
+
+// The draft is created on the first attempt and stored on the job, so retries
+// keep updating the same quotation instead of creating duplicates. An earlier
+// quotation for the same email is reused; on re-analysis its current analysis
+// is archived first.
+async function ensureQuotation(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  payload: RfqJobPayload,
+  log: WorkflowContext['log']
+): Promise<{ id: string; quotation_number: string | null }> {
+  if (job.quotation_id) {
+    const { data: existing } = await supabase
+      .from('quotations')
+      .select('id, quotation_number')
+      .eq('id', job.quotation_id)
+      .maybeSingle();
+
+    if (existing) {
+      log('info', 'Reusing quotation from previous attempt', { quotationId: existing.id });
+      return existing;
+    }
+  }
+
+  const existing = await findExistingQuotation(supabase, payload.userId, payload.emailId);
+  if (existing) {
+    if (payload.reanalyze) {
+      await archiveAnalysis(supabase, existing.id, job.id, log);
+    }
+
+    await supabase
+      .from('quotations')
+      .update({ processing_metadata: { processing_status: 'processing', job_id: job.id } })
+      .eq('id', existing.id);
+
+    await linkQuotation(supabase, job.id, existing.id);
+    log('info', 'Reusing existing quotation for email', {
+      quotationId: existing.id,
+      reanalyze: Boolean(payload.reanalyze)
+    });
+    return existing;
+  }
+
+  log('info', 'Creating initial quotation record');
+
+  // The user's default company, which also numbers the quotation
+  const { data: company } = await supabase
+    .from('companies')
+    .select('*')
+    .eq('user_id', payload.userId)
+    .eq('is_default', true)
+    .maybeSingle();
+
+  // Calculate quotation expiry date
+  const validUntil = new Date();
+  validUntil.setDate(validUntil.getDate() + CONFIG.QUOTATION_VALIDITY_DAYS);
+
+  const { data: quotation, error } = await supabase
+    .from('quotations')
+    .insert({
+      gmail_id: payload.emailId,
+      company_id: company?.id || null,
+      status: 'draft',
+      analysis: {},
+      total_amount: 0,
+      margin_percentage: 20.00,
+      project_summary: {},
+      client_details: {},
+      processing_metadata: { processing_status: 'processing', job_id: job.id },
+      valid_until: validUntil.toISOString().split('T')[0],
+      user_id: payload.userId
+    })
+    .select('id, quotation_number')
+    .single();
+
+  if (error || !quotation) {
+    throw new Error(`Failed to create quotation record: ${error?.message}`);
+  }
+
+  await linkQuotation(supabase, job.id, quotation.id);
+
+  log('info', 'Created quotation record', {
+    quotationId: quotation.id,
+    quotationNumber: quotation.quotation_number
+  });
+
+  return quotation;
+}
+
+async function linkQuotation(supabase: SupabaseClient, jobId: string, quotationId: string): Promise<void> {
+  await supabase
+    .from('processing_jobs')
+    .update({ quotation_id: quotationId })
+    .eq('id', jobId);
+}
+
+// Workflows write their lines to analysis.equipment; quotation_items is what
+// the app and reporting read, so copy them over once the workflow succeeded.
+// The result becomes a revision, so later edits can be compared with the draft.
+async function syncItemsFromAnalysis(
+  supabase: SupabaseClient,
+  quotationId: string,
+  log: WorkflowContext['log']
+): Promise<void> {
+  const { data: current, error } = await supabase
+    .from('quotations')
+    .select('analysis, margin_percentage')
+    .eq('id', quotationId)
+    .single();
+
+  if (error || !current) {
+    throw new Error(`Failed to load analysis for quotation items: ${error?.message}`);
+  }
+
+  const lines = Array.isArray(current.analysis?.equipment) ? current.analysis.equipment : [];
+  const { error: syncError } = await supabase.rpc('sync_quotation_items', {
+    p_quotation_id: quotationId,
+    p_items: toItemPayload(lines, Number(current.margin_percentage) || 0)
+  });
+
+  if (syncError) {
+    throw new Error(`Failed to store quotation items: ${syncError.message}`);
+  }
+
+  log('info', 'Stored quotation items', { quotationId, items: lines.length });
+
+  // Losing the history entry is not worth re-running the workflow for
+  const { error: revisionError } = await supabase.rpc('record_quotation_revision', {
+    p_quotation_id: quotationId,
+    p_source: 'analysis'
+  });
+
+  if (revisionError) {
+    log('warn', 'Failed to record analysis revision', { quotationId, error: revisionError.message });
+  }
+}
+
+// Only n8n falls back, only once its retries are used up, and only unless
+// RFQ_LOCAL_FALLBACK=false
+function shouldFallBack(providerName: WorkflowProviderName, job: ProcessingJob): boolean {
+  return providerName === 'n8n'
+    && job.attempts >= job.max_attempts
+    && Deno.env.get('RFQ_LOCAL_FALLBACK') !== 'false';
+}
+
+async function runRfqJob(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  log: WorkflowContext['log']
+): Promise<RfqJobResult> {
+  const payload = job.payload as unknown as RfqJobPayload;
+  const quotation = await ensureQuotation(supabase, job, payload, log);
+
+  const attachments = await ingestAttachments(supabase, {
+    userId: payload.userId,
+    gmailId: payload.emailId,
+    quotationId: quotation.id,
+    accessToken: payload.accessToken || null,
+    attachments: payload.emailData?.attachments || []
+  }, log);
+
+  // Run the configured workflow provider (n8n, local or fixture replay)
+  const providerName = await resolveWorkflowProviderName(supabase, payload.userId);
+  let provider = getWorkflowProvider(providerName);
+
+  log('info', 'Running RFQ workflow', {
+    jobId: job.id,
+    attempt: job.attempts,
+    provider: provider.name
+  });
+
+  const workflowPayload: WorkflowPayload = {
+    emailId: payload.emailId,
+    userId: payload.userId,
+    quotationId: quotation.id,
+    accessToken: payload.accessToken || null,
+    emailData: payload.emailData,
+    attachments
+  };
+
+  let rawResult: unknown;
+  let fallbackFrom: WorkflowPayload['fallbackFrom'];
+  try {
+    rawResult = await provider.run(workflowPayload, { supabase, log });
+  } catch (error) {
+    if (!shouldFallBack(provider.name, job)) {
+      throw error;
+    }
+
+    // Last attempt and n8n is still down: a rough local draft beats a failed RFQ
+    fallbackFrom = { provider: provider.name, error: (error as Error).message };
+    log('warn', 'Workflow unavailable on final attempt, falling back to local analyzer', fallbackFrom);
+
+    provider = getWorkflowProvider('local');
+    rawResult = await provider.run({ ...workflowPayload, fallbackFrom }, { supabase, log });
+  }
+
+  let workflowResult;
+  try {
+    workflowResult = validateWorkflowResult(rawResult, provider.name);
+  } catch (error) {
+    if (error instanceof WorkflowSchemaError) {
+      log('error', 'Workflow response failed schema validation', { issues: error.issues });
+      await quarantineWorkflowResponse(supabase, quotation.id, error, rawResult, {
+        job_id: job.id,
+        workflow_provider: provider.name
+      });
+    }
+    throw error;
+  }
+
+  if (!workflowResult.success) {
+    throw new Error(`${provider.name} workflow processing failed: ${workflowResult.message || 'Unknown error'}`);
+  }
+
+  const quotationId = workflowResult.quotation_details?.quotation_id || quotation.id;
+  await syncItemsFromAnalysis(supabase, quotationId, log);
+
+  // Same shape process-rfq used to return synchronously
+  return {
+    success: true,
+    status: workflowResult.status || 'draft',
+    quotation_id: quotationId,
+    quotation_number: workflowResult.quotation_details?.quotation_number || quotation.quotation_number,
+    message: workflowResult.message || 'Draft quotation created successfully',
+    quotation_data: {
+      total_amount: workflowResult.client_information?.total_amount,
+      equipment_count: workflowResult.pricing_summary?.equipment_count,
+      client_name: workflowResult.client_information?.client_name,
+      project_name: workflowResult.client_information?.project_name,
+      building_type: workflowResult.project_details?.building_type,
+      location: workflowResult.project_details?.location
+    },
+    processing_time: workflowResult.timestamp,
+    schema_version: workflowResult.schema_version || WORKFLOW_SCHEMA_VERSION,
+    workflow_version: '2.0',
+    workflow_provider: provider.name,
+    fallback_from: fallbackFrom?.provider
+  };
+}
+
+// Claim one job (or the given one) and run it to a settled state.
+// Returns the job as recorded after this attempt, or null if nothing was runnable.
+export async function processNextJob(
+  supabase: SupabaseClient,
+  workerId: string,
+  log: WorkflowContext['log'],
+  jobId?: string
+): Promise<ProcessingJob | null> {
+  const job = await claimJob(supabase, workerId, jobId);
+  if (!job) {
+    return null;
+  }
+
+  log('info', 'Claimed processing job', {
+    jobId: job.id,
+    attempt: job.attempts,
+    maxAttempts: job.max_attempts
+  });
+
+  try {
+    const result = await runRfqJob(supabase, job, log);
+    const completed = await completeJob(supabase, job, workerId, result);
+
+    log('info', 'Processing job completed', {
+      jobId: job.id,
+      quotationId: result.quotation_id,
+      leaseLost: !completed
+    });
+
+    return completed;
+  } catch (error) {
+    const message = (error as Error).message;
+    log('error', 'Processing job attempt failed', { jobId: job.id, error: message });
+
+    // A malformed response will not fix itself on retry; it is already
+    // quarantined on the quotation, so fail the job straight away
+    const quarantined = error instanceof WorkflowSchemaError;
+    const failed = await failJob(supabase, job, workerId, message, !quarantined);
+
+    // Out of retries: flag the draft so the quotations list shows the failure
+    if (failed?.status === 'failed' && failed.quotation_id && !quarantined) {
+      await supabase
+        .from('quotations')
+        .update({
+          processing_metadata: {
+            error: message,
+            failed_at: new Date().toISOString(),
+            processing_status: 'failed',
+            job_id: job.id
+          }
+        })
+        .eq('id', failed.quotation_id);
+    }
+
+    return failed;
+  }
+}
@@ -0,0 +1,161 @@
+// VAT on quotations. Each company keeps its own list of rates
+// (`companies.tax_rates`) and a default; a quotation takes one rate and lines
+// may override it with a code of their own. Line tax is rounded per line, the
+// same way sync_quotation_items stores it, so the totals here match the
+// quotation's `net_amount` / `tax_amount` / `gross_amount`.
+
+export interface TaxRate {
+  code: string;
+  label: string;
+  rate: number;
+}
+
+// Reverse-charged lines carry no VAT; the client accounts for it in their own
+// EU country. The code is fixed so outputs can add the legal note.
+export const REVERSE_CHARGE_CODE = 'reverse_charge';
+
+export const REVERSE_CHARGE_NOTE =
+  'Reverse charge: VAT to be accounted for by the recipient (Article 196, Council Directive 2006/112/EC).';
+
+// Cyprus rates; the same list is the default of the companies.tax_rates column
+export const DEFAULT_TAX_RATES: TaxRate[] = [
+  { code: 'standard', label: 'VAT 19%', rate: 19 },
+  { code: 'reduced', label: 'Reduced VAT 9%', rate: 9 },
+  { code: 'residential', label: 'Reduced VAT 5% (residential)', rate: 5 },
+  { code: 'zero', label: 'Zero-rated', rate: 0 },
+  { code: REVERSE_CHARGE_CODE, label: 'Reverse charge', rate: 0 }
+];
+
+export const DEFAULT_TAX_CODE = 'standard';
+
+export interface QuotationTax {
+  tax_code: string | null;
+  tax_rate: number;
+}
+
+export interface TaxedLine {
+  total_price: number;
+  // Null means the quotation's rate
+  tax_code?: string | null;
+  tax_rate?: number | null;
+}
+
+export interface TaxBreakdownLine {
+  code: string | null;
+  label: string;
+  rate: number;
+  net: number;
+  tax: number;
+}
+
+export interface TaxSummary {
+  net: number;
+  tax: number;
+  gross: number;
+  breakdown: TaxBreakdownLine[];
+  reverse_charge: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const taxAmount = (net: number, rate: number) => round((net * rate) / 100);
+
+// Rates are jsonb, so anything stored there is checked before use
+export function normalizeTaxRates(value: unknown): TaxRate[] {
+  if (!Array.isArray(value)) return DEFAULT_TAX_RATES;
+
+  const rates = value
+    .filter((rate): rate is Record<string, unknown> => typeof rate === 'object' && rate !== null)
+    .filter(rate => typeof rate.code === 'string' && rate.code !== '')
+    .map(rate => ({
+      code: String(rate.code),
+      label: typeof rate.label === 'string' && rate.label !== '' ? rate.label : String(rate.code),
+      rate: rate.code === REVERSE_CHARGE_CODE ? 0 : Math.max(0, Number(rate.rate) || 0)
+    }));
+
+  return rates.length > 0 ? rates : DEFAULT_TAX_RATES;
+}
+
+export const findTaxRate = (taxRates: TaxRate[], code: string | null | undefined) =>
+  code ? taxRates.find(rate => rate.code === code) : undefined;
+
+export const taxLabel = (taxRates: TaxRate[], code: string | null | undefined, rate: number) =>
+  findTaxRate(taxRates, code)?.label || (code === REVERSE_CHARGE_CODE ? 'Reverse charge' : `VAT ${rate}%`);
+
+// Effective code and rate of a line: its own code if it has one, else the quotation's
+export function resolveLineTax(line: TaxedLine, quotation: QuotationTax, taxRates: TaxRate[]) {
+  if (!line.tax_code) {
+    return { tax_code: quotation.tax_code, tax_rate: quotation.tax_rate };
+  }
+
+  const rate = findTaxRate(taxRates, line.tax_code)?.rate ?? line.tax_rate ?? 0;
+  return { tax_code: line.tax_code, tax_rate: line.tax_code === REVERSE_CHARGE_CODE ? 0 : rate };
+}
+
+// Net, tax and gross over all lines, with one breakdown row per rate
+export function summarizeTax(lines: TaxedLine[], quotation: QuotationTax, taxRates: TaxRate[]): TaxSummary {
+  const groups = new Map<string, TaxBreakdownLine>();
+
+  lines.forEach(line => {
+    const { tax_code, tax_rate } = resolveLineTax(line, quotation, taxRates);
+    const key = `${tax_code || ''}|${tax_rate}`;
+    const group = groups.get(key) || { code: tax_code, label: taxLabel(taxRates, tax_code, tax_rate), rate: tax_rate, net: 0, tax: 0 };
+    group.net = round(group.net + (line.total_price || 0));
+    group.tax = round(group.tax + taxAmount(line.total_price || 0, tax_rate));
+    groups.set(key, group);
+  });
+
+  const breakdown = [...groups.values()].sort((a, b) => b.rate - a.rate);
+  const net = round(breakdown.reduce((sum, group) => sum + group.net, 0));
+  const tax = round(breakdown.reduce((sum, group) => sum + group.tax, 0));
+
+  return {
+    net,
+    tax,
+    gross: round(net + tax),
+    breakdown,
+    reverse_charge: breakdown.some(group => group.code === REVERSE_CHARGE_CODE)
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatEuro = (value: number) =>
+  `€${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Tax breakdown table for the quotation document (preview, print and PDF);
+// `formatAmount` formats money in the quotation's currency
+export function renderTaxBreakdownHtml(summary: TaxSummary, formatAmount: (amount: number) => string = formatEuro): string {
+  const rows = summary.breakdown
+    .map(group => `
+      <tr>
+        <td>${escapeHtml(group.label)}</td>
+        <td style="text-align: right;">${formatAmount(group.net)}</td>
+        <td style="text-align: right;">${group.rate}%</td>
+        <td style="text-align: right;">${formatAmount(group.tax)}</td>
+      </tr>`)
+    .join('');
+
+  return `
+    <div class="tax-breakdown total-section">
+      <table>
+        <thead>
+          <tr>
+            <th>VAT</th>
+            <th style="text-align: right;">Net</th>
+            <th style="text-align: right;">Rate</th>
+            <th style="text-align: right;">VAT</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+        <tfoot>
+          <tr><td colspan="3" style="text-align: right;">Total excl. VAT</td><td style="text-align: right;">${formatAmount(summary.net)}</td></tr>
+          <tr><td colspan="3" style="text-align: right;">VAT</td><td style="text-align: right;">${formatAmount(summary.tax)}</td></tr>
+          <tr><th colspan="3" style="text-align: right;">Total incl. VAT</th><th style="text-align: right;">${formatAmount(summary.gross)}</th></tr>
+        </tfoot>
+      </table>
+      ${summary.reverse_charge ? `<p>${escapeHtml(REVERSE_CHARGE_NOTE)}</p>` : ''}
+    </div>`;
+}
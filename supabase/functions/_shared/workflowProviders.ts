@@ -0,0 +1,356 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { analyzeRfq, type AnalyzerEquipment } from './rfqAnalyzer.ts';
+import type { EmailAttachment, IngestedAttachment } from './attachments.ts';
+import { BASE_CURRENCY, convertAmount, type ExchangeRates } from './currency.ts';
+import { parseRfqWorkflowResponse, WORKFLOW_SCHEMA_VERSION, type RfqWorkflowResponse } from './workflowSchema.ts';
+
+// Workflow providers for RFQ analysis.
+//
+// process-rfq used to call a single hardcoded n8n webhook. The provider is now
+// resolved per user (user_profiles.workflow_provider) or per environment
+// (RFQ_WORKFLOW_PROVIDER), so staging and local setups can run the whole RFQ
+// path against the built-in analyzer or a recorded fixture instead of production.
+
+export type WorkflowProviderName = 'n8n' | 'local' | 'fixture';
+
+export const WORKFLOW_PROVIDERS: WorkflowProviderName[] = ['n8n', 'local', 'fixture'];
+
+// Configuration constants
+const CONFIG = {
+  WEBHOOK_TIMEOUT: 180000,
+  N8N_WEBHOOK_URL: 'https://n8n-cy.redloopai.com/webhook/rlcymep-rfq',
+  DEFAULT_FIXTURE: 'rfq-draft.json'
+};
+
+export interface WorkflowEmailData {
+  subject?: string;
+  from_email?: string;
+  from_name?: string;
+  body?: string;
+  snippet?: string;
+  attachments?: EmailAttachment[];
+  created_at?: string;
+  thread_id?: string;
+}
+
+export interface WorkflowPayload {
+  emailId: string;
+  userId: string;
+  quotationId: string;
+  accessToken: string | null;
+  emailData?: WorkflowEmailData;
+  // Extracted attachment text and BoQ lines (see attachments.ts)
+  attachments?: IngestedAttachment[];
+  // Set when the local analyzer stands in for a failed provider
+  fallbackFrom?: {
+    provider: WorkflowProviderName;
+    error: string;
+  };
+}
+
+// Contract shared by every provider; see workflowSchema.ts
+export type WorkflowResult = RfqWorkflowResponse;
+
+export interface WorkflowContext {
+  supabase: SupabaseClient;
+  log: (level: string, message: string, data?: unknown) => void;
+}
+
+export interface WorkflowProvider {
+  name: WorkflowProviderName;
+  // Resolves to the raw response; callers check it with validateWorkflowResult
+  run: (payload: WorkflowPayload, context: WorkflowContext) => Promise<unknown>;
+}
+
+const isProviderName = (value: unknown): value is WorkflowProviderName =>
+  typeof value === 'string' && WORKFLOW_PROVIDERS.includes(value as WorkflowProviderName);
+
+// Per-user setting wins over the environment default; n8n stays the fallback.
+// Fixture replay overwrites the quotation with canned data, so a user may only
+// pick it where the environment runs on fixtures already.
+export async function resolveWorkflowProviderName(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<WorkflowProviderName> {
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('workflow_provider')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const envProvider = Deno.env.get('RFQ_WORKFLOW_PROVIDER');
+
+  if (isProviderName(profile?.workflow_provider) && (profile.workflow_provider !== 'fixture' || envProvider === 'fixture')) {
+    return profile.workflow_provider;
+  }
+
+  if (isProviderName(envProvider)) {
+    return envProvider;
+  }
+
+  return 'n8n';
+}
+
+export function getWorkflowProvider(name: WorkflowProviderName): WorkflowProvider {
+  switch (name) {
+    case 'local':
+      return localProvider;
+    case 'fixture':
+      return fixtureProvider;
+    default:
+      return n8nProvider;
+  }
+}
+
+// Validate the workflowResult contract on the way back from any provider.
+// Throws WorkflowSchemaError with field-level issues.
+export function validateWorkflowResult(result: unknown, providerName: WorkflowProviderName): WorkflowResult {
+  return parseRfqWorkflowResponse(result, providerName);
+}
+
+// n8n webhook provider (MEP 2.0 A). Retries are owned by the processing job
+// queue, so a single timed-out call is reported back as a failed attempt.
+const n8nProvider: WorkflowProvider = {
+  name: 'n8n',
+  run: async (payload, { log }) => {
+    const webhookUrl = Deno.env.get('N8N_RFQ_WEBHOOK_URL') || CONFIG.N8N_WEBHOOK_URL;
+
+    log('info', 'Calling MEP 2.0 (A) workflow', { webhookUrl });
+
+    let workflowResponse: Response;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), CONFIG.WEBHOOK_TIMEOUT);
+
+    try {
+      workflowResponse = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'MEP-RFQ-Processor/2.0'
+        },
+        body: JSON.stringify({
+          emailId: payload.emailId,
+          userId: payload.userId,
+          quotationId: payload.quotationId,
+          accessToken: payload.accessToken,
+          attachments: (payload.attachments || []).map(attachment => ({
+            filename: attachment.filename,
+            mime_type: attachment.mime_type,
+            storage_path: attachment.storage_path,
+            extraction_status: attachment.extraction_status,
+            extracted_text: attachment.extracted_text,
+            boq_lines: attachment.boq_lines
+          }))
+        }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      throw new Error(`n8n workflow call failed: ${error.name === 'AbortError' ? 'timed out' : error.message}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    log('info', 'n8n workflow responded', { status: workflowResponse.status });
+
+    if (!workflowResponse.ok) {
+      const errorText = await workflowResponse.text();
+      log('error', 'n8n workflow error', {
+        status: workflowResponse.status,
+        error: errorText
+      });
+      throw new Error(`n8n workflow failed with status ${workflowResponse.status}: ${errorText}`);
+    }
+
+    const responseText = await workflowResponse.text();
+    if (!responseText || responseText.trim() === '') {
+      throw new Error('n8n workflow returned empty response');
+    }
+
+    try {
+      return JSON.parse(responseText);
+    } catch (parseError) {
+      log('error', 'Failed to parse workflow response', {
+        error: parseError.message,
+        responsePreview: responseText.substring(0, 200)
+      });
+      throw new Error(`Invalid JSON response from n8n workflow: ${responseText.substring(0, 200)}`);
+    }
+  }
+};
+
+// Local rule-based analyzer (see rfqAnalyzer.ts): drafts the quotation from
+// the email text and the user's own equipment, without any external call.
+// Also used as the fallback when n8n cannot be reached.
+const localProvider: WorkflowProvider = {
+  name: 'local',
+  run: async (payload, { supabase, log }) => {
+    const emailData = payload.emailData || {};
+
+    log('info', 'Running local RFQ analyzer', {
+      quotationId: payload.quotationId,
+      fallbackFrom: payload.fallbackFrom?.provider
+    });
+
+    const { data: equipment, error: equipmentError } = await supabase
+      .from('equipment')
+      .select('id, brand, model, category, power_kw, price_eur, cost_eur, currency, description, specifications')
+      .eq('user_id', payload.userId)
+      .eq('in_stock', true);
+
+    if (equipmentError) {
+      throw new Error(`Local analyzer failed to load equipment: ${equipmentError.message}`);
+    }
+
+    // Drafts are priced in EUR; equipment priced in a currency without a rate is left out
+    const { data: rateRows } = await supabase
+      .from('exchange_rates')
+      .select('currency, rate')
+      .eq('user_id', payload.userId);
+    const rates: ExchangeRates = Object.fromEntries((rateRows || []).map(row => [row.currency, Number(row.rate)]));
+
+    const catalog: AnalyzerEquipment[] = [];
+    const unconverted = new Set<string>();
+    (equipment || []).forEach(item => {
+      const currency = item.currency || BASE_CURRENCY;
+      const price = convertAmount(Number(item.price_eur) || 0, currency, BASE_CURRENCY, rates);
+      if (price === null) {
+        unconverted.add(currency);
+        return;
+      }
+      const cost = item.cost_eur === null || item.cost_eur === undefined
+        ? item.cost_eur
+        : convertAmount(Number(item.cost_eur), currency, BASE_CURRENCY, rates);
+      catalog.push({ ...item, price_eur: price, cost_eur: cost } as AnalyzerEquipment);
+    });
+
+    if (unconverted.size > 0) {
+      log('warn', 'Equipment skipped, no exchange rate set', { currencies: [...unconverted] });
+    }
+
+    const { data: current } = await supabase
+      .from('quotations')
+      .select('margin_percentage')
+      .eq('id', payload.quotationId)
+      .maybeSingle();
+
+    const attachments = (payload.attachments || []).filter(attachment => attachment.extraction_status === 'extracted');
+    const analysis = analyzeRfq(emailData, catalog, Number(current?.margin_percentage) || 20, {
+      attachmentText: attachments.map(attachment => attachment.extracted_text || '').join('\n'),
+      boqLines: attachments.flatMap(attachment => attachment.boq_lines.map(line => ({ ...line, source: attachment.filename })))
+    });
+    const identification = analysis.project_identification;
+
+    log('info', 'Local analyzer produced draft', {
+      buildingType: identification.building_type,
+      coolingKw: analysis.capacity_requirements.cooling_kw,
+      items: analysis.equipment.length,
+      boqLines: analysis.boq_summary?.total_lines ?? 0,
+      confidence: analysis.qualification_assessment.confidence
+    });
+
+    const { data: quotation, error } = await supabase
+      .from('quotations')
+      .update({
+        analysis,
+        total_amount: analysis.pricing.grand_total,
+        client_details: {
+          name: identification.client_name,
+          email: identification.client_email,
+          project_name: identification.project_name,
+          location: identification.location,
+          building_type: identification.building_type
+        },
+        project_summary: {
+          total_equipment_items: analysis.equipment.length,
+          requested_systems: analysis.requested_systems,
+          system_complexity: analysis.qualification_assessment.project_complexity
+        },
+        processing_metadata: {
+          processing_status: 'completed',
+          workflow_provider: 'local',
+          analyzer_version: analysis.analyzer_version,
+          attachments_used: attachments.map(attachment => attachment.filename),
+          fallback_from: payload.fallbackFrom?.provider,
+          fallback_reason: payload.fallbackFrom?.error,
+          completed_at: new Date().toISOString()
+        }
+      })
+      .eq('id', payload.quotationId)
+      .select('id, quotation_number')
+      .single();
+
+    if (error || !quotation) {
+      throw new Error(`Local analyzer failed to update quotation: ${error?.message}`);
+    }
+
+    return {
+      schema_version: WORKFLOW_SCHEMA_VERSION,
+      success: true,
+      status: 'draft',
+      message: payload.fallbackFrom
+        ? `Draft created by the built-in analyzer because the ${payload.fallbackFrom.provider} workflow was unavailable`
+        : 'Draft quotation created by the built-in analyzer',
+      timestamp: new Date().toISOString(),
+      quotation_details: {
+        quotation_id: quotation.id,
+        quotation_number: quotation.quotation_number
+      },
+      client_information: {
+        client_name: identification.client_name,
+        project_name: identification.project_name,
+        total_amount: analysis.pricing.grand_total
+      },
+      pricing_summary: { equipment_count: analysis.equipment.length },
+      project_details: {
+        building_type: identification.building_type,
+        location: identification.location
+      }
+    };
+  }
+};
+
+// Recorded-fixture replay: returns a captured workflow response and applies
+// the captured quotation changes to the current draft.
+interface WorkflowFixture {
+  response: WorkflowResult;
+  quotation_update?: Record<string, unknown>;
+}
+
+const fixtureProvider: WorkflowProvider = {
+  name: 'fixture',
+  run: async (payload, { supabase, log }) => {
+    const fixturePath = Deno.env.get('RFQ_WORKFLOW_FIXTURE');
+    const fixtureUrl = fixturePath
+      ? new URL(fixturePath, `file://${Deno.cwd()}/`)
+      : new URL(`./fixtures/${CONFIG.DEFAULT_FIXTURE}`, import.meta.url);
+
+    log('info', 'Replaying recorded workflow fixture', { fixture: fixtureUrl.pathname });
+
+    let fixture: WorkflowFixture;
+    try {
+      fixture = JSON.parse(await Deno.readTextFile(fixtureUrl));
+    } catch (error) {
+      throw new Error(`Failed to load workflow fixture ${fixtureUrl.pathname}: ${error.message}`);
+    }
+
+    if (fixture.quotation_update) {
+      const { error } = await supabase
+        .from('quotations')
+        .update(fixture.quotation_update)
+        .eq('id', payload.quotationId);
+
+      if (error) {
+        throw new Error(`Fixture workflow failed to update quotation: ${error.message}`);
+      }
+    }
+
+    return {
+      ...fixture.response,
+      timestamp: new Date().toISOString(),
+      // Recorded ids belong to another quotation; point at the current draft
+      quotation_details: {
+        quotation_id: payload.quotationId
+      }
+    };
+  }
+};
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { WORKFLOW_SCHEMA_VERSION, type WorkflowSchemaError } from './workflowSchema.ts';
+
+// Configuration constants
+const CONFIG = {
+  RAW_RESPONSE_LIMIT: 20000
+};
+
+// Park a response that failed schema validation on the quotation: the
+// field-level issues and the (truncated) raw payload land in
+// processing_metadata so the workflow change can be diagnosed later.
+export async function quarantineWorkflowResponse(
+  supabase: SupabaseClient,
+  quotationId: string,
+  error: WorkflowSchemaError,
+  rawResponse: unknown,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  const { data: quotation } = await supabase
+    .from('quotations')
+    .select('processing_metadata')
+    .eq('id', quotationId)
+    .maybeSingle();
+
+  let raw = '';
+  try {
+    raw = JSON.stringify(rawResponse) ?? String(rawResponse);
+  } catch {
+    raw = String(rawResponse);
+  }
+
+  const { error: updateError } = await supabase
+    .from('quotations')
+    .update({
+      processing_metadata: {
+        ...(quotation?.processing_metadata || {}),
+        ...extra,
+        processing_status: 'quarantined',
+        error: error.message,
+        workflow: error.workflow,
+        validation_errors: error.issues,
+        expected_schema_version: WORKFLOW_SCHEMA_VERSION,
+        raw_response: raw.substring(0, CONFIG.RAW_RESPONSE_LIMIT),
+        quarantined_at: new Date().toISOString()
+      }
+    })
+    .eq('id', quotationId);
+
+  if (updateError) {
+    throw new Error(`Failed to quarantine workflow response: ${updateError.message}`);
+  }
+}
@@ -0,0 +1,325 @@
+// Versioned response contracts for the n8n workflows: MEP 2.0 (A) behind
+// process-rfq and MEP 2.0 (B) behind approve-quotation.
+// The frontend is typed against the same shapes the functions check.
+
+export const WORKFLOW_SCHEMA_VERSION = '2.0';
+
+// Responses without a schema_version are treated as the current major
+const SUPPORTED_SCHEMA_MAJOR = 2;
+
+// RFQ statuses that mean a priced draft exists and must carry its totals
+const DRAFT_STATUSES = ['draft', 'draft_created'];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export class WorkflowSchemaError extends Error {
+  workflow: string;
+  issues: SchemaIssue[];
+
+  constructor(workflow: string, issues: SchemaIssue[]) {
+    super(`Invalid ${workflow} workflow response: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`);
+    this.name = 'WorkflowSchemaError';
+    this.workflow = workflow;
+    this.issues = issues;
+  }
+}
+
+// MEP 2.0 (A) response, as returned by every RFQ workflow provider
+export interface RfqWorkflowResponse {
+  schema_version?: string;
+  success: boolean;
+  status?: string;
+  message?: string;
+  timestamp?: string;
+  quotation_details?: {
+    quotation_id?: string;
+    quotation_number?: string;
+  };
+  client_information?: {
+    client_name?: string;
+    project_name?: string;
+    total_amount?: number;
+  };
+  pricing_summary?: {
+    equipment_count?: number;
+  };
+  project_details?: {
+    building_type?: string;
+    location?: string;
+  };
+}
+
+// MEP 2.0 (B) response from the approval workflow
+export interface ApprovalWorkflowResponse {
+  schema_version?: string;
+  success: boolean;
+  message?: string;
+  timestamp?: string;
+  workflow?: string;
+  quotation_details?: {
+    quotation_number?: string;
+    status?: string;
+    sent_at?: string;
+  };
+  client_information?: {
+    client_name?: string;
+    project_name?: string;
+    total_amount?: number;
+    currency?: string;
+  };
+  email_details?: {
+    word_file_sent?: boolean;
+    word_filename?: string;
+    email_thread_maintained?: boolean;
+  };
+  document_storage?: {
+    html_stored?: boolean;
+    html_available_for_pdf?: boolean;
+    pdf_generation?: string;
+  };
+  workflow_metadata?: Record<string, unknown>;
+}
+
+// What a completed process_rfq job stores in processing_jobs.result
+export interface RfqJobResult {
+  success: boolean;
+  status: string;
+  quotation_id: string;
+  quotation_number: string | null;
+  message: string;
+  quotation_data: {
+    total_amount?: number;
+    equipment_count?: number;
+    client_name?: string;
+    project_name?: string;
+    building_type?: string;
+    location?: string;
+  };
+  processing_time?: string;
+  schema_version: string;
+  workflow_version: string;
+  workflow_provider: string;
+  // Provider that failed before the local analyzer produced this draft
+  fallback_from?: string;
+}
+
+// How an approved quotation reaches the client: the n8n approval workflow
+// sends it, or the user sends it from their own Gmail after approval
+export type ApprovalDelivery = 'workflow' | 'gmail';
+
+// What approve-quotation returns to the frontend
+export interface ApprovalResult {
+  success: boolean;
+  // 'approved' when the quotation is left for the user to send from Gmail
+  status: 'sent' | 'approved';
+  message: string;
+  quotation_details: {
+    quotation_id: string;
+    quotation_number: string;
+    status: string;
+    sent_at?: string;
+  };
+  client_information: {
+    client_name?: string;
+    project_name?: string;
+    total_amount?: number;
+    currency: string;
+  };
+  email_details: {
+    word_file_sent: boolean;
+    word_filename?: string;
+    email_thread_maintained: boolean;
+  };
+  document_storage: {
+    html_stored: boolean;
+    html_available_for_pdf: boolean;
+    pdf_generation: string;
+  };
+  workflow_metadata?: Record<string, unknown>;
+  processing_time?: string;
+  schema_version: string;
+  // Set instead of the fields above when success is false
+  error?: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  min?: number;
+}
+
+type SectionRules = Record<string, FieldRule>;
+
+interface ResponseSchema {
+  root: SectionRules;
+  sections: Record<string, SectionRules>;
+}
+
+const RFQ_SCHEMA: ResponseSchema = {
+  root: {
+    schema_version: { type: 'string' },
+    success: { type: 'boolean', required: true },
+    status: { type: 'string' },
+    message: { type: 'string' },
+    timestamp: { type: 'string' }
+  },
+  sections: {
+    quotation_details: {
+      quotation_id: { type: 'string' },
+      quotation_number: { type: 'string' }
+    },
+    client_information: {
+      client_name: { type: 'string' },
+      project_name: { type: 'string' },
+      total_amount: { type: 'number', min: 0 }
+    },
+    pricing_summary: {
+      equipment_count: { type: 'number', min: 0 }
+    },
+    project_details: {
+      building_type: { type: 'string' },
+      location: { type: 'string' }
+    }
+  }
+};
+
+const APPROVAL_SCHEMA: ResponseSchema = {
+  root: {
+    schema_version: { type: 'string' },
+    success: { type: 'boolean', required: true },
+    message: { type: 'string' },
+    timestamp: { type: 'string' },
+    workflow: { type: 'string' },
+    workflow_metadata: { type: 'object' }
+  },
+  sections: {
+    quotation_details: {
+      quotation_number: { type: 'string' },
+      status: { type: 'string' },
+      sent_at: { type: 'string' }
+    },
+    client_information: {
+      client_name: { type: 'string' },
+      project_name: { type: 'string' },
+      total_amount: { type: 'number', min: 0 },
+      currency: { type: 'string' }
+    },
+    email_details: {
+      word_file_sent: { type: 'boolean' },
+      word_filename: { type: 'string' },
+      email_thread_maintained: { type: 'boolean' }
+    },
+    document_storage: {
+      html_stored: { type: 'boolean' },
+      html_available_for_pdf: { type: 'boolean' },
+      pdf_generation: { type: 'string' }
+    }
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+function checkFields(target: Record<string, unknown>, rules: SectionRules, prefix: string, issues: SchemaIssue[]) {
+  for (const [key, rule] of Object.entries(rules)) {
+    const value = target[key];
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    // n8n sends null for fields it could not fill; only required fields must be present
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        issues.push({ path, message: 'is required' });
+      }
+      continue;
+    }
+
+    const valid = rule.type === 'object'
+      ? isPlainObject(value)
+      : rule.type === 'number'
+        ? typeof value === 'number' && Number.isFinite(value)
+        : typeof value === rule.type;
+
+    if (!valid) {
+      issues.push({ path, message: `must be a ${rule.type}, got ${describe(value)}` });
+    } else if (rule.min !== undefined && (value as number) < rule.min) {
+      issues.push({ path, message: `must be >= ${rule.min}, got ${value}` });
+    }
+  }
+}
+
+function checkSchema(value: unknown, schema: ResponseSchema): SchemaIssue[] {
+  if (!isPlainObject(value)) {
+    return [{ path: '$', message: `must be an object, got ${describe(value)}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  checkFields(value, schema.root, '', issues);
+
+  if (typeof value.schema_version === 'string') {
+    const major = Number.parseInt(value.schema_version.split('.')[0], 10);
+    if (major !== SUPPORTED_SCHEMA_MAJOR) {
+      issues.push({
+        path: 'schema_version',
+        message: `${value.schema_version} is not supported (expected ${SUPPORTED_SCHEMA_MAJOR}.x)`
+      });
+    }
+  }
+
+  for (const [section, rules] of Object.entries(schema.sections)) {
+    const sectionValue = value[section];
+    if (sectionValue === undefined || sectionValue === null) continue;
+
+    if (!isPlainObject(sectionValue)) {
+      issues.push({ path: section, message: `must be an object, got ${describe(sectionValue)}` });
+      continue;
+    }
+    checkFields(sectionValue, rules, section, issues);
+  }
+
+  return issues;
+}
+
+export function parseRfqWorkflowResponse(value: unknown, workflow = 'MEP 2.0 (A)'): RfqWorkflowResponse {
+  const issues = checkSchema(value, RFQ_SCHEMA);
+
+  // A successful draft without totals is exactly the "empty quotation" case
+  if (issues.length === 0) {
+    const response = value as RfqWorkflowResponse;
+    if (response.success && DRAFT_STATUSES.includes(response.status || 'draft')) {
+      if (typeof response.client_information?.total_amount !== 'number') {
+        issues.push({ path: 'client_information.total_amount', message: 'is required for a draft quotation' });
+      }
+      if (typeof response.pricing_summary?.equipment_count !== 'number') {
+        issues.push({ path: 'pricing_summary.equipment_count', message: 'is required for a draft quotation' });
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowSchemaError(workflow, issues);
+  }
+  return value as RfqWorkflowResponse;
+}
+
+export function parseApprovalWorkflowResponse(value: unknown, workflow = 'MEP 2.0 (B)'): ApprovalWorkflowResponse {
+  const issues = checkSchema(value, APPROVAL_SCHEMA);
+
+  if (issues.length === 0) {
+    const response = value as ApprovalWorkflowResponse;
+    if (response.success && typeof response.email_details?.word_file_sent !== 'boolean') {
+      issues.push({ path: 'email_details.word_file_sent', message: 'is required for a successful approval' });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowSchemaError(workflow, issues);
+  }
+  return value as ApprovalWorkflowResponse;
+}
@@ -1,4 +1,15 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  parseApprovalWorkflowResponse,
+  WORKFLOW_SCHEMA_VERSION,
+  WorkflowSchemaError,
+  type ApprovalDelivery,
+  type ApprovalResult,
+  type ApprovalWorkflowResponse
+} from '../_shared/workflowSchema.ts';
+import { quarantineWorkflowResponse } from '../_shared/workflowQuarantine.ts';
+import { assertSameUser, authErrorStatus, getCallerUser } from '../_shared/auth.ts';
+import { toItemPayload } from '../_shared/quotationItems.ts';
 
 // CORS headers for cross-origin requests
 const corsHeaders = {
@@ -11,7 +22,9 @@ const corsHeaders = {
 const CONFIG = {
   WEBHOOK_TIMEOUT: 180000, // 3 minutes for document generation and email sending
   N8N_WEBHOOK_URL: 'https://n8n-cy.redloopai.com/webhook/approve-quotation-rlcymep',
-  MAX_RETRY_ATTEMPTS: 3
+  MAX_RETRY_ATTEMPTS: 3,
+  PDF_BUCKET: 'quotation-pdfs',
+  PDF_LINK_EXPIRY: 7 * 24 * 60 * 60 // the workflow fetches the PDF and Word document from these links
 };
 
 // Enhanced logging function
@@ -40,6 +53,15 @@ Deno.serve(async (req) => {
 
   let requestBody: any;
   let supabase: any;
+  // Only set once the caller is known to own a draft quotation, so a rejected
+  // request can never touch someone else's, or an already approved, quotation
+  // in the error path
+  let ownedQuotationId: string | null = null;
+  let ownerId: string | null = null;
+  // Only this request's own approval is withdrawn on failure, and never once
+  // the workflow has reported the quotation sent to the client
+  let approvedHere = false;
+  let workflowSucceeded = false;
 
   try {
     // Parse and validate request body
@@ -57,7 +79,8 @@ Deno.serve(async (req) => {
     }
 
     // Extract and validate required fields
-    const { quotation_id, user_id, updated_analysis_data } = requestBody;
+    const { quotation_id, user_id: claimed_user_id, updated_analysis_data } = requestBody;
+    const delivery: ApprovalDelivery = requestBody.delivery ?? 'workflow';
 
     // Input validation
     if (!quotation_id || typeof quotation_id !== 'string') {
@@ -70,20 +93,26 @@ Deno.serve(async (req) => {
       });
     }
 
-    if (!user_id || typeof user_id !== 'string') {
+    if (delivery !== 'workflow' && delivery !== 'gmail') {
       return new Response(JSON.stringify({
         success: false,
-        error: 'User ID is required'
+        error: 'Delivery must be "workflow" or "gmail"'
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 400
       });
     }
 
+    // Derive the user from the caller's JWT; a user_id in the body must match it
+    const user = await getCallerUser(req);
+    assertSameUser(user, claimed_user_id);
+    const user_id = user.id;
+
     log('info', 'Starting quotation approval process', {
       quotation_id,
       user_id,
-      hasUpdatedData: !!updated_analysis_data
+      hasUpdatedData: !!updated_analysis_data,
+      delivery
     });
 
     // Initialize Supabase client
@@ -100,7 +129,7 @@ Deno.serve(async (req) => {
     log('info', 'Verifying quotation exists');
     const { data: quotation, error: fetchError } = await supabase
       .from('quotations')
-      .select('id, quotation_number, status')
+      .select('id, quotation_number, status, user_id, margin_percentage, currency, pdf_url, docx_url')
       .eq('id', quotation_id)
       .single();
 
@@ -108,9 +137,15 @@ Deno.serve(async (req) => {
       throw new Error(`Quotation not found: ${quotation_id}`);
     }
 
+    if (quotation.user_id !== user_id) {
+      throw new Error(`Forbidden: quotation ${quotation_id} belongs to another user`);
+    }
+
     if (quotation.status !== 'draft') {
       throw new Error(`Quotation status is '${quotation.status}'. Only draft quotations can be approved.`);
     }
+    ownedQuotationId = quotation.id;
+    ownerId = quotation.user_id;
 
     log('info', 'Found quotation record', {
       quotation_number: quotation.quotation_number,
@@ -120,11 +155,23 @@ Deno.serve(async (req) => {
     // Update analysis data if provided (user made edits)
     if (updated_analysis_data) {
       log('info', 'Updating quotation with user edits');
+      const pricing = updated_analysis_data.pricing || {};
+      // Totals before VAT; sync_quotation_items recomputes net, VAT and gross from the lines
       const { error: updateError } = await supabase
         .from('quotations')
         .update({
           analysis: updated_analysis_data,
-          total_amount: updated_analysis_data.pricing?.grand_total || 0,
+          total_amount: pricing.net_total ?? pricing.grand_total ?? 0,
+          ...('tax_code' in pricing ? { tax_code: pricing.tax_code, tax_rate: Number(pricing.tax_rate) || 0 } : {}),
+          ...('currency' in pricing ? {
+            currency: pricing.currency,
+            exchange_rate: Number(pricing.exchange_rate) || 1,
+            exchange_rates: pricing.exchange_rates || {}
+          } : {}),
+          ...('selected_optionals' in pricing ? {
+            selected_alternative: pricing.selected_alternative ?? null,
+            selected_optionals: Array.isArray(pricing.selected_optionals) ? pricing.selected_optionals : []
+          } : {}),
           last_modified_at: new Date().toISOString(),
           last_modified_by: user_id
         })
@@ -134,13 +181,131 @@ Deno.serve(async (req) => {
         log('error', 'Failed to update quotation with user edits', { error: updateError });
         throw new Error('Failed to save quotation changes');
       }
+
+      // Keep quotation_items in step with the approved lines
+      if (Array.isArray(updated_analysis_data.equipment)) {
+        const { error: itemsError } = await supabase.rpc('sync_quotation_items', {
+          p_quotation_id: quotation_id,
+          p_items: toItemPayload(updated_analysis_data.equipment, Number(quotation.margin_percentage) || 0)
+        });
+
+        if (itemsError) {
+          log('error', 'Failed to update quotation items', { error: itemsError });
+          throw new Error('Failed to save quotation changes');
+        }
+      }
+
+      const { error: revisionError } = await supabase.rpc('record_quotation_revision', {
+        p_quotation_id: quotation_id,
+        p_source: 'approval',
+        p_created_by: user_id
+      });
+
+      if (revisionError) {
+        log('error', 'Failed to record quotation revision', { error: revisionError });
+        throw new Error('Failed to save quotation changes');
+      }
+    }
+
+    const { error: approveError } = await supabase.rpc('transition_quotation_status', {
+      p_quotation_id: quotation_id,
+      p_status: 'approved',
+      p_reason: 'Approved for sending',
+      p_actor: user_id
+    });
+
+    if (approveError) {
+      log('error', 'Failed to approve quotation', { error: approveError });
+      throw new Error(`Failed to approve quotation: ${approveError.message}`);
+    }
+    approvedHere = true;
+
+    // Freeze the exchange rates the quotation was priced with
+    const { error: lockError } = await supabase
+      .from('quotations')
+      .update({ exchange_rates_locked_at: new Date().toISOString() })
+      .eq('id', quotation_id);
+
+    if (lockError) {
+      log('error', 'Failed to lock exchange rates', { error: lockError });
+      throw new Error('Failed to save quotation changes');
+    }
+
+    // The user sends it from the compose dialog, which marks it sent afterwards
+    if (delivery === 'gmail') {
+      log('info', 'Quotation approved for sending from Gmail', { quotation_id });
+
+      const approvedResponse: ApprovalResult = {
+        success: true,
+        status: 'approved',
+        message: 'Quotation approved and ready to send',
+        quotation_details: {
+          quotation_id,
+          quotation_number: quotation.quotation_number,
+          status: 'approved'
+        },
+        client_information: {
+          currency: quotation.currency || 'EUR'
+        },
+        email_details: {
+          word_file_sent: false,
+          email_thread_maintained: false
+        },
+        document_storage: {
+          html_stored: false,
+          html_available_for_pdf: false,
+          pdf_generation: 'frontend_handled'
+        },
+        schema_version: WORKFLOW_SCHEMA_VERSION
+      };
+
+      return new Response(JSON.stringify(approvedResponse), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200
+      });
+    }
+
+    // Stored documents are attached as they are, so the client gets the archived
+    // files. Read them again: the edits saved above clear any that went stale,
+    // and the client must not get the quotation without the documents it had.
+    const { data: documents, error: documentsError } = await supabase
+      .from('quotations')
+      .select('pdf_url, docx_url')
+      .eq('id', quotation_id)
+      .single();
+
+    if (documentsError) {
+      log('error', 'Failed to read the stored documents', { error: documentsError });
+      throw new Error('Failed to read the quotation documents');
+    }
+
+    if ((quotation.pdf_url && !documents.pdf_url) || (quotation.docx_url && !documents.docx_url)) {
+      log('warn', 'Stored documents went stale with the approval edits', { quotation_id });
+      throw new Error('Outdated documents: the quotation changed since its PDF or Word document was generated. Generate them again from the Document view, then approve.');
     }
 
+    const signDocument = async (path: string | null, kind: string) => {
+      if (!path) return null;
+      const { data: signed, error: signError } = await supabase.storage
+        .from(CONFIG.PDF_BUCKET)
+        .createSignedUrl(path, CONFIG.PDF_LINK_EXPIRY);
+
+      if (signError) {
+        log('warn', `Could not sign the stored ${kind}; sending without it`, { error: signError.message });
+        return null;
+      }
+      return signed.signedUrl;
+    };
+    const pdfLink = await signDocument(documents.pdf_url, 'PDF');
+    const docxLink = await signDocument(documents.docx_url, 'Word document');
+
     // Prepare payload for n8n workflow (MEP 2.0 B)
     const workflowPayload = {
       quotation_id,
       user_id,
-      action: 'approve_and_send'
+      action: 'approve_and_send',
+      pdf_url: pdfLink,
+      docx_url: docxLink
     };
 
     log('info', 'Prepared workflow payload for MEP 2.0 (B)', {
@@ -208,9 +373,9 @@ Deno.serve(async (req) => {
       throw new Error('n8n workflow returned empty response');
     }
 
-    let workflowResult: any;
+    let rawResult: unknown;
     try {
-      workflowResult = JSON.parse(responseText);
+      rawResult = JSON.parse(responseText);
     } catch (parseError) {
       log('error', 'Failed to parse workflow response', {
         error: parseError.message,
@@ -219,9 +384,39 @@ Deno.serve(async (req) => {
       throw new Error(`Invalid JSON response from n8n workflow: ${responseText.substring(0, 200)}`);
     }
 
-    if (!workflowResult || !workflowResult.success) {
+    // Check the response against the shared schema before trusting any field
+    let workflowResult: ApprovalWorkflowResponse;
+    try {
+      workflowResult = parseApprovalWorkflowResponse(rawResult);
+    } catch (validationError) {
+      if (validationError instanceof WorkflowSchemaError) {
+        log('error', 'Approval workflow response failed schema validation', {
+          issues: validationError.issues
+        });
+        await quarantineWorkflowResponse(supabase, quotation_id, validationError, rawResult, {
+          quarantined_during: 'approval'
+        });
+      }
+      throw validationError;
+    }
+
+    if (!workflowResult.success) {
       throw new Error(`n8n workflow processing failed: ${workflowResult?.message || 'Unknown error'}`);
     }
+    workflowSucceeded = true;
+
+    // The workflow normally marks the quotation sent itself; this is a no-op then
+    const { error: sentError } = await supabase.rpc('transition_quotation_status', {
+      p_quotation_id: quotation_id,
+      p_status: 'sent',
+      p_reason: 'Sent to the client by the approval workflow',
+      p_actor: user_id
+    });
+
+    if (sentError) {
+      log('error', 'Failed to mark quotation sent', { error: sentError });
+      throw new Error(`Failed to mark quotation sent: ${sentError.message}`);
+    }
 
     log('info', 'Successfully processed approval workflow', {
       status: workflowResult.workflow,
@@ -230,7 +425,7 @@ Deno.serve(async (req) => {
     });
 
     // Prepare success response
-    const successResponse = {
+    const successResponse: ApprovalResult = {
       success: true,
       status: 'sent',
       message: workflowResult.message || 'Quotation sent successfully to client',
@@ -248,7 +443,7 @@ Deno.serve(async (req) => {
         client_name: workflowResult.client_information?.client_name,
         project_name: workflowResult.client_information?.project_name,
         total_amount: workflowResult.client_information?.total_amount,
-        currency: workflowResult.client_information?.currency || 'EUR'
+        currency: workflowResult.client_information?.currency || quotation.currency || 'EUR'
       },
       
       // Email details
@@ -267,7 +462,8 @@ Deno.serve(async (req) => {
       
       // Processing metadata
       workflow_metadata: workflowResult.workflow_metadata,
-      processing_time: workflowResult.timestamp
+      processing_time: workflowResult.timestamp,
+      schema_version: workflowResult.schema_version || WORKFLOW_SCHEMA_VERSION
     };
 
     log('info', 'Quotation approval completed successfully', {
@@ -289,20 +485,28 @@ Deno.serve(async (req) => {
       quotation_id: requestBody?.quotation_id
     });
 
-    // Revert quotation status back to draft on failure
+    // Revert quotation status back to draft on failure; this also withdraws the
+    // approval and unlocks the exchange rates
     try {
-      if (supabase && requestBody?.quotation_id) {
+      if (supabase && ownedQuotationId) {
+        if (approvedHere && !workflowSucceeded) {
+          const { error: revertError } = await supabase.rpc('transition_quotation_status', {
+            p_quotation_id: ownedQuotationId,
+            p_status: 'draft',
+            p_reason: `Approval failed: ${error.message}`,
+            p_actor: ownerId
+          });
+          if (revertError) throw revertError;
+          log('info', 'Reverted quotation status to draft due to failure');
+        }
+
         await supabase
           .from('quotations')
           .update({
-            status: 'draft',
-            approved_by: null,
-            approved_at: null,
             error_message: error.message,
             last_error_at: new Date().toISOString()
           })
-          .eq('id', requestBody.quotation_id);
-        log('info', 'Reverted quotation status to draft due to failure');
+          .eq('id', ownedQuotationId);
       }
     } catch (revertError) {
       log('error', 'Failed to revert quotation status', {
@@ -311,8 +515,10 @@ Deno.serve(async (req) => {
     }
 
     // Return appropriate error response
-    const statusCode = error.message.includes('not found') ? 404 : 
-                      error.message.includes('Invalid') || error.message.includes('Only draft') ? 400 : 500;
+    const statusCode = authErrorStatus(error) ?? (error instanceof WorkflowSchemaError ? 502 :
+                      error.message.includes('not found') ? 404 : 
+                      error.message.includes('Invalid') || error.message.includes('Only draft') ? 400 :
+                      error.message.includes('Outdated documents') ? 409 : 500);
                       
     return new Response(JSON.stringify({
       success: false,
@@ -0,0 +1,97 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { processNextJob } from '../_shared/rfqJob.ts';
+
+// Queue worker for processing_jobs. Meant to be called on a schedule
+// (pg_cron + pg_net or an external cron) with the service role key; picks up
+// retries that are due and jobs whose worker lease expired.
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Configuration constants
+const CONFIG = {
+  MAX_JOBS_PER_RUN: 3
+};
+
+// Enhanced logging function
+const log = (level: string, message: string, data?: unknown) => {
+  const timestamp = new Date().toISOString();
+  const logData = data ? ` | Data: ${JSON.stringify(data, null, 2)}` : '';
+  console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${logData}`);
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Validate HTTP method
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({
+      success: false,
+      error: 'Method not allowed. Use POST.'
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 405
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    // Only the scheduler (service role) may drive the queue
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseKey}`) {
+      return new Response(JSON.stringify({
+        success: false,
+        error: 'Unauthorized'
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const workerId = `process-jobs:${crypto.randomUUID()}`;
+    const processed: { id: string; status: string }[] = [];
+
+    for (let i = 0; i < CONFIG.MAX_JOBS_PER_RUN; i++) {
+      const job = await processNextJob(supabase, workerId, log);
+      if (!job) {
+        break;
+      }
+      processed.push({ id: job.id, status: job.status });
+    }
+
+    log('info', 'Queue sweep finished', { workerId, processed });
+
+    return new Response(JSON.stringify({
+      success: true,
+      processed
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200
+    });
+
+  } catch (error) {
+    log('error', 'Queue sweep failed', { error: (error as Error).message });
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: (error as Error).message,
+      timestamp: new Date().toISOString()
+    }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 500
+    });
+  }
+});
@@ -0,0 +1,281 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { authErrorStatus, getCallerUser } from '../_shared/auth.ts';
+import { fromItemRows, type QuotationItemRow } from '../_shared/quotationItems.ts';
+import { normalizeTaxRates, summarizeTax } from '../_shared/tax.ts';
+import { hasOptions, includedAlternative, isIncluded, optionGroups, summarizeOptions } from '../_shared/options.ts';
+import { issuedAtMatches, signPortalToken, verifyPortalToken } from '../_shared/portalToken.ts';
+
+// Client acceptance portal API. The page itself is the app's /portal route;
+// this function only answers POST application/json {action, ...}:
+//
+// - create_link {quotation_id}, from the app with the caller's JWT, issues a
+//   signed token for a sent quotation; a new token revokes the previous one.
+// - view {token} returns what the client sees: the quotation document, the
+//   options to choose from, and whether it can still be answered.
+// - respond {token, response, ...} records the client's acceptance (name and
+//   signature) or rejection through record_client_response, which also
+//   notifies the quotation's owner.
+//
+// The client has no Supabase session and calls view and respond with the
+// project's anon key; the signed token is the only credential.
+// PORTAL_SIGNING_SECRET signs the tokens.
+
+// CORS headers for cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Quotations a client can answer
+const OPEN_STATUSES = ['approved', 'sent'];
+
+// Enhanced logging function
+const log = (level: string, message: string, data?: unknown) => {
+  const timestamp = new Date().toISOString();
+  const logData = data ? ` | Data: ${JSON.stringify(data, null, 2)}` : '';
+  console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}${logData}`);
+};
+
+interface PortalQuotation {
+  id: string;
+  user_id: string;
+  quotation_number: string;
+  status: string;
+  valid_until: string | null;
+  currency: string | null;
+  tax_code: string | null;
+  tax_rate: number | null;
+  total_amount: number;
+  gross_amount: number | null;
+  html_quotation: string | null;
+  analysis: { project_identification?: { project_name?: string } } | null;
+  selected_alternative: string | null;
+  selected_optionals: string[] | null;
+  portal_link_issued_at: string | null;
+  portal_viewed_at: string | null;
+  accepted_at: string | null;
+  accepted_by_name: string | null;
+  rejected_at: string | null;
+  rejection_reason: string | null;
+  company: { name: string; tax_rates: unknown } | null;
+  quotation_items: QuotationItemRow[];
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  });
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const isExpired = (quotation: PortalQuotation) =>
+  Boolean(quotation.valid_until) && quotation.valid_until! < new Date().toISOString().split('T')[0];
+
+// Where the quotation stands once it can no longer be answered
+function closedNotice(quotation: PortalQuotation): string | null {
+  if (quotation.accepted_at) {
+    return `Accepted by ${quotation.accepted_by_name} on ${formatDate(quotation.accepted_at)}. Thank you, we will be in touch.`;
+  }
+  if (quotation.rejected_at) {
+    return `Declined on ${formatDate(quotation.rejected_at)}. Thank you for letting us know.`;
+  }
+  if (isExpired(quotation)) {
+    return `This quotation expired on ${formatDate(quotation.valid_until!)}. Please contact us for an updated offer.`;
+  }
+  if (!OPEN_STATUSES.includes(quotation.status)) {
+    return 'This quotation is no longer open for a response. Please contact us.';
+  }
+  return null;
+}
+
+// What the client page shows. Costs, margins and internal notes stay here;
+// only the client-facing lines and totals are returned.
+function portalView(quotation: PortalQuotation) {
+  const lines = fromItemRows(quotation.quotation_items);
+  const selection = {
+    selected_alternative: quotation.selected_alternative,
+    selected_optionals: quotation.selected_optionals || []
+  };
+
+  const tax = quotation.tax_code
+    ? summarizeTax(
+      lines.filter(line => isIncluded(line, lines, selection)),
+      { tax_code: quotation.tax_code, tax_rate: Number(quotation.tax_rate) || 0 },
+      normalizeTaxRates(quotation.company?.tax_rates)
+    )
+    : null;
+
+  return {
+    quotation_number: quotation.quotation_number,
+    company_name: quotation.company?.name || null,
+    project_name: quotation.analysis?.project_identification?.project_name || null,
+    valid_until: quotation.valid_until,
+    currency: quotation.currency,
+    html_quotation: quotation.html_quotation,
+    items: lines.map(line => ({
+      label: [line.brand, line.model].filter(Boolean).join(' ') || line.description,
+      quantity: line.quantity,
+      unit: line.unit || null,
+      total_price: line.total_price
+    })),
+    options: hasOptions(lines) ? summarizeOptions(lines, selection) : null,
+    selected_alternative: includedAlternative(lines, selection),
+    tax,
+    total: tax ? tax.gross : quotation.total_amount,
+    notice: closedNotice(quotation)
+  };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed. Use POST.' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const signingSecret = Deno.env.get('PORTAL_SIGNING_SECRET');
+
+  if (!supabaseUrl || !supabaseKey || !signingSecret) {
+    log('error', 'Portal configuration missing');
+    return jsonResponse({ success: false, error: 'Portal configuration missing' }, 500);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  const loadQuotation = async (quotationId: string): Promise<PortalQuotation | null> => {
+    const { data, error } = await supabase
+      .from('quotations')
+      .select('*, quotation_items(*), company:companies(name, tax_rates)')
+      .eq('id', quotationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // The quotation a client token stands for, if the token is genuine and current
+  const resolveToken = async (token: unknown) => {
+    const claims = token && typeof token === 'string' ? await verifyPortalToken(token, signingSecret) : null;
+    if (!claims) return null;
+
+    const quotation = await loadQuotation(claims.quotation_id);
+    return quotation && issuedAtMatches(claims, quotation.portal_link_issued_at) ? quotation : null;
+  };
+
+  const invalidLink = () =>
+    jsonResponse({ success: false, error: 'This link is not valid or has been replaced by a newer one. Please contact us.' }, 404);
+
+  try {
+    const body = await req.json();
+
+    // Issuing a link (from the app)
+    if (body.action === 'create_link') {
+      const { quotation_id } = body;
+      if (!quotation_id || typeof quotation_id !== 'string') {
+        return jsonResponse({ success: false, error: 'Invalid request: create_link with a quotation_id is required' }, 400);
+      }
+
+      const user = await getCallerUser(req);
+      const quotation = await loadQuotation(quotation_id);
+
+      if (!quotation || quotation.user_id !== user.id) {
+        return jsonResponse({ success: false, error: `Quotation ${quotation_id} not found` }, 404);
+      }
+      if (!OPEN_STATUSES.includes(quotation.status)) {
+        return jsonResponse({ success: false, error: `Quotation status is '${quotation.status}'. Only approved or sent quotations can be shared.` }, 400);
+      }
+
+      const issuedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+      const { error: updateError } = await supabase
+        .from('quotations')
+        .update({ portal_link_issued_at: issuedAt.toISOString() })
+        .eq('id', quotation_id);
+
+      if (updateError) throw updateError;
+
+      const token = await signPortalToken(quotation_id, issuedAt, signingSecret);
+      log('info', 'Issued client portal link', { quotation_id, issued_at: issuedAt.toISOString() });
+
+      return jsonResponse({ success: true, token, issued_at: issuedAt.toISOString() }, 200);
+    }
+
+    // The client opening the page
+    if (body.action === 'view') {
+      const quotation = await resolveToken(body.token);
+      if (!quotation) return invalidLink();
+
+      if (!quotation.portal_viewed_at) {
+        await supabase
+          .from('quotations')
+          .update({ portal_viewed_at: new Date().toISOString() })
+          .eq('id', quotation.id);
+      }
+
+      return jsonResponse({ success: true, quotation: portalView(quotation) }, 200);
+    }
+
+    // The client's response
+    if (body.action === 'respond') {
+      const quotation = await resolveToken(body.token);
+      if (!quotation) return invalidLink();
+
+      const notice = closedNotice(quotation);
+      if (notice) {
+        return jsonResponse({ success: false, error: notice, quotation: portalView(quotation) }, 409);
+      }
+
+      const { response } = body;
+      if (response !== 'accept' && response !== 'reject') {
+        return jsonResponse({ success: false, error: 'Please accept or decline the quotation using the form.' }, 400);
+      }
+
+      // Only options that exist on the quotation are taken
+      const lines = fromItemRows(quotation.quotation_items);
+      const alternative = String(body.alternative ?? '');
+      const optionals = (Array.isArray(body.optionals) ? body.optionals : [])
+        .map(String)
+        .filter((group: string) => optionGroups(lines, 'optional').includes(group));
+      const name = String(body.name ?? '').trim();
+      const signature = String(body.signature ?? '');
+
+      if (response === 'accept' && !name) {
+        return jsonResponse({ success: false, error: 'Please enter your full name to accept the quotation.' }, 400);
+      }
+
+      const { data: updated, error: responseError } = await supabase.rpc('record_client_response', {
+        p_quotation_id: quotation.id,
+        p_response: response,
+        p_name: name || null,
+        p_signature: signature.startsWith('data:image/png;base64,') ? signature : null,
+        p_reason: String(body.reason ?? '') || null,
+        p_alternative: optionGroups(lines, 'alternative').includes(alternative) ? alternative : null,
+        p_optionals: optionals
+      });
+
+      if (responseError) throw responseError;
+
+      log('info', 'Recorded client response', {
+        quotation_id: quotation.id,
+        quotation_number: quotation.quotation_number,
+        response
+      });
+
+      return jsonResponse({ success: true, quotation: portalView({ ...quotation, ...updated }) }, 200);
+    }
+
+    return jsonResponse({ success: false, error: 'Invalid request: action must be create_link, view or respond' }, 400);
+  } catch (error) {
+    log('error', 'Client portal request failed', { error: (error as Error).message });
+
+    const statusCode = authErrorStatus(error as Error);
+    return jsonResponse({ success: false, error: (error as Error).message }, statusCode || 500);
+  }
+});
@@ -0,0 +1,18 @@
+/*
+  # Configurable RFQ workflow provider
+
+  1. Database Changes
+    - Add `workflow_provider` to `user_profiles`
+      - `n8n` (hosted webhook), `local` (in-process analyzer) or `fixture` (recorded replay)
+      - NULL falls back to the RFQ_WORKFLOW_PROVIDER environment default
+
+  2. Security
+    - Covered by the existing "own profile" RLS policies
+*/
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS workflow_provider text;
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_workflow_provider_check;
+ALTER TABLE user_profiles ADD CONSTRAINT user_profiles_workflow_provider_check
+CHECK (workflow_provider IS NULL OR workflow_provider = ANY (ARRAY['n8n'::text, 'local'::text, 'fixture'::text]));
@@ -0,0 +1,217 @@
+/*
+  # Durable processing job queue for RFQ analysis
+
+  1. New Tables
+    - `processing_jobs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner of the job)
+      - `job_type` (text, currently only `process_rfq`)
+      - `gmail_id` (text, source email)
+      - `quotation_id` (uuid, draft created by the job, reused across retries)
+      - `payload` (jsonb, request data; credentials are stripped once the job settles)
+      - `status` (queued | running | completed | failed)
+      - `attempts` / `max_attempts` (retry accounting)
+      - `run_after` (earliest time the job may be claimed, used for backoff)
+      - `locked_by` / `locked_at` / `lease_expires_at` (worker lease)
+      - `last_error`, `result`, `completed_at`
+
+  2. Functions
+    - `enqueue_processing_job` - insert a queued job
+    - `claim_processing_job` - lease the next runnable job (or a specific one) with
+      FOR UPDATE SKIP LOCKED; jobs whose lease expired are reclaimed, which is how
+      a crashed worker is recovered
+    - `complete_processing_job` - store the result, only for the worker holding the lease
+    - `fail_processing_job` - requeue with exponential backoff or mark failed once
+      `max_attempts` is reached
+
+  3. Security
+    - Enable RLS; users can read their own jobs (the UI subscribes via realtime)
+    - Writes and queue functions are reserved for the service role (edge functions)
+
+  4. Scheduling
+    - `process-rfq` kicks the worker for the job it enqueues. Schedule the
+      `process-jobs` edge function (pg_cron + pg_net or an external cron) every
+      minute to pick up retries and reclaim expired leases.
+*/
+
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  job_type text NOT NULL DEFAULT 'process_rfq' CHECK (job_type IN ('process_rfq')),
+  gmail_id text,
+  quotation_id uuid REFERENCES quotations(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_at timestamptz,
+  lease_expires_at timestamptz,
+  last_error text,
+  result jsonb,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own processing jobs"
+  ON processing_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_runnable ON processing_jobs (run_after) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_lease ON processing_jobs (lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_user_gmail ON processing_jobs (user_id, gmail_id);
+
+CREATE TRIGGER update_processing_jobs_updated_at
+  BEFORE UPDATE ON processing_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enqueue a job
+CREATE OR REPLACE FUNCTION enqueue_processing_job(
+  p_user_id uuid,
+  p_job_type text,
+  p_gmail_id text,
+  p_payload jsonb,
+  p_max_attempts integer DEFAULT 3
+)
+RETURNS processing_jobs AS $$
+DECLARE
+  v_job processing_jobs;
+BEGIN
+  INSERT INTO processing_jobs (user_id, job_type, gmail_id, payload, max_attempts)
+  VALUES (p_user_id, p_job_type, p_gmail_id, COALESCE(p_payload, '{}'::jsonb), p_max_attempts)
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Lease the next runnable job, or a specific job when p_job_id is given
+CREATE OR REPLACE FUNCTION claim_processing_job(
+  p_worker text,
+  p_lease_seconds integer DEFAULT 240,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS processing_jobs AS $$
+DECLARE
+  v_job processing_jobs;
+BEGIN
+  -- Jobs abandoned by a crashed worker with no attempts left are failed for good
+  UPDATE processing_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Worker lease expired'),
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      payload = payload - 'accessToken',
+      completed_at = now()
+  WHERE status = 'running'
+    AND lease_expires_at < now()
+    AND attempts >= max_attempts;
+
+  UPDATE processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker,
+      locked_at = now(),
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = (
+    SELECT id FROM processing_jobs
+    WHERE (p_job_id IS NULL OR id = p_job_id)
+      AND (
+        (status = 'queued' AND run_after <= now())
+        OR (status = 'running' AND lease_expires_at < now())
+      )
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Store the result; ignored if the lease was lost to another worker
+CREATE OR REPLACE FUNCTION complete_processing_job(
+  p_job_id uuid,
+  p_worker text,
+  p_result jsonb
+)
+RETURNS processing_jobs AS $$
+DECLARE
+  v_job processing_jobs;
+BEGIN
+  UPDATE processing_jobs
+  SET status = 'completed',
+      result = p_result,
+      last_error = NULL,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      payload = payload - 'accessToken',
+      completed_at = now()
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Requeue with exponential backoff, or fail once attempts are exhausted
+CREATE OR REPLACE FUNCTION fail_processing_job(
+  p_job_id uuid,
+  p_worker text,
+  p_error text,
+  p_retry_delay_seconds integer DEFAULT 30
+)
+RETURNS processing_jobs AS $$
+DECLARE
+  v_job processing_jobs;
+BEGIN
+  UPDATE processing_jobs
+  SET status = CASE WHEN attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+      run_after = CASE
+        WHEN attempts < max_attempts
+          THEN now() + make_interval(secs => p_retry_delay_seconds * power(2, attempts - 1))
+        ELSE run_after
+      END,
+      last_error = p_error,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      payload = CASE WHEN attempts < max_attempts THEN payload ELSE payload - 'accessToken' END,
+      completed_at = CASE WHEN attempts < max_attempts THEN NULL ELSE now() END
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION enqueue_processing_job(uuid, text, text, jsonb, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_processing_job(text, integer, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_processing_job(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_processing_job(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_processing_job(uuid, text, text, jsonb, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_processing_job(text, integer, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_processing_job(uuid, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_processing_job(uuid, text, text, integer) TO service_role;
+
+-- Publish job changes so the UI can follow them via realtime
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'processing_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE processing_jobs;
+  END IF;
+END $$;
@@ -0,0 +1,63 @@
+/*
+  # Idempotent RFQ processing and analysis versions
+
+  1. Changes
+    - `processing_jobs`: at most one in-flight (queued or running) job per
+      user and gmail_id, so a double-clicked "Process" reuses the running job
+    - `quotations.analysis_version` (integer, bumped on every explicit re-analysis)
+    - Index on `quotations (user_id, gmail_id)` for the existing-quotation lookup
+
+  2. New Tables
+    - `quotation_analysis_versions`
+      - `id` (uuid, primary key)
+      - `quotation_id` (uuid, the re-analyzed quotation)
+      - `version` (integer, the analysis_version that was replaced)
+      - `analysis`, `client_details`, `project_summary`, `processing_metadata` (jsonb snapshot)
+      - `total_amount`, `margin_percentage` (snapshot)
+      - `job_id` (uuid, the job that requested the re-analysis)
+      - `created_at` (timestamp)
+
+  3. Security
+    - Enable RLS on `quotation_analysis_versions`
+    - Users can read versions of their own quotations; writes are service role only
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_processing_jobs_in_flight
+  ON processing_jobs (user_id, gmail_id)
+  WHERE status IN ('queued', 'running');
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS analysis_version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_quotations_user_gmail ON quotations (user_id, gmail_id);
+
+CREATE TABLE IF NOT EXISTS quotation_analysis_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid REFERENCES quotations(id) ON DELETE CASCADE NOT NULL,
+  version integer NOT NULL,
+  analysis jsonb,
+  total_amount decimal(10,2),
+  margin_percentage decimal(5,2),
+  client_details jsonb,
+  project_summary jsonb,
+  processing_metadata jsonb,
+  job_id uuid REFERENCES processing_jobs(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quotation_id, version)
+);
+
+ALTER TABLE quotation_analysis_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read analysis versions of their own quotations"
+  ON quotation_analysis_versions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations
+      WHERE quotations.id = quotation_analysis_versions.quotation_id
+        AND quotations.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_quotation_analysis_versions_quotation
+  ON quotation_analysis_versions (quotation_id, version DESC);
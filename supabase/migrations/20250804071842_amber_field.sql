@@ -0,0 +1,50 @@
+/*
+  # Non-retryable job failures
+
+  1. Changes
+    - `fail_processing_job` gains `p_retryable` (default true). Workflow
+      responses that fail schema validation are quarantined on the quotation
+      and the job is failed immediately instead of re-running the workflow.
+    - `quotations.processing_metadata` may now carry `processing_status =
+      'quarantined'` with `validation_errors` and a truncated `raw_response`
+
+  2. Security
+    - Execution stays reserved for the service role
+*/
+
+DROP FUNCTION IF EXISTS fail_processing_job(uuid, text, text, integer);
+
+CREATE OR REPLACE FUNCTION fail_processing_job(
+  p_job_id uuid,
+  p_worker text,
+  p_error text,
+  p_retry_delay_seconds integer DEFAULT 30,
+  p_retryable boolean DEFAULT true
+)
+RETURNS processing_jobs AS $$
+DECLARE
+  v_job processing_jobs;
+BEGIN
+  UPDATE processing_jobs
+  SET status = CASE WHEN p_retryable AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+      run_after = CASE
+        WHEN p_retryable AND attempts < max_attempts
+          THEN now() + make_interval(secs => p_retry_delay_seconds * power(2, attempts - 1))
+        ELSE run_after
+      END,
+      last_error = p_error,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      payload = CASE WHEN p_retryable AND attempts < max_attempts THEN payload ELSE payload - 'accessToken' END,
+      completed_at = CASE WHEN p_retryable AND attempts < max_attempts THEN NULL ELSE now() END
+  WHERE id = p_job_id
+    AND status = 'running'
+    AND locked_by = p_worker
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION fail_processing_job(uuid, text, text, integer, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fail_processing_job(uuid, text, text, integer, boolean) TO service_role;
@@ -0,0 +1,74 @@
+/*
+  # RFQ attachment ingestion
+
+  1. New Tables
+    - `rfq_attachments`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner)
+      - `gmail_id` (text, source email)
+      - `quotation_id` (uuid, quotation the attachment was analysed for)
+      - `filename`, `mime_type`, `size_bytes`
+      - `storage_path` (text, object path in the `rfq-attachments` bucket)
+      - `extraction_status` (pending | extracted | unsupported | failed)
+      - `extracted_text` (text, PDF text / flattened sheets, truncated)
+      - `extracted_tables` (jsonb, sheet rows for spreadsheets)
+      - `boq_lines` (jsonb, bill of quantities lines detected in the tables)
+      - `error` (text)
+      - `created_at`, `updated_at`
+
+  2. Storage
+    - Private `rfq-attachments` bucket; objects live under `<user_id>/<gmail_id>/`
+
+  3. Security
+    - Enable RLS on `rfq_attachments`; users can read their own rows
+    - Users can read objects in their own folder of the bucket
+    - Downloads, uploads and extraction are done by the process-rfq job (service role)
+*/
+
+CREATE TABLE IF NOT EXISTS rfq_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  gmail_id text NOT NULL,
+  quotation_id uuid REFERENCES quotations(id) ON DELETE SET NULL,
+  filename text NOT NULL,
+  mime_type text,
+  size_bytes integer DEFAULT 0,
+  storage_path text,
+  extraction_status text NOT NULL DEFAULT 'pending' CHECK (extraction_status IN ('pending', 'extracted', 'unsupported', 'failed')),
+  extracted_text text,
+  extracted_tables jsonb DEFAULT '[]'::jsonb,
+  boq_lines jsonb DEFAULT '[]'::jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, gmail_id, filename)
+);
+
+ALTER TABLE rfq_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own RFQ attachments"
+  ON rfq_attachments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_attachments_user_gmail ON rfq_attachments (user_id, gmail_id);
+CREATE INDEX IF NOT EXISTS idx_rfq_attachments_quotation ON rfq_attachments (quotation_id);
+
+CREATE TRIGGER update_rfq_attachments_updated_at
+  BEFORE UPDATE ON rfq_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('rfq-attachments', 'rfq-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own RFQ attachment files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'rfq-attachments'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,172 @@
+/*
+  # Normalized quotation items
+
+  1. Changes to `quotation_items`
+    - `quantity` becomes decimal(10,2) (BoQ lines are often in metres)
+    - New columns
+      - `sort_order` (integer, line position in the quotation)
+      - `discount_percentage` (decimal, 0-100)
+      - `brand`, `model`, `category`, `description`, `power_kw`, `specifications`,
+        `ai_specialization` (snapshot of the equipment as quoted)
+      - `boq_match`, `boq_reference` (lines priced from a bill of quantities)
+      - `updated_at`
+    - `equipment_id` is cleared when the equipment row is deleted; the line keeps its snapshot
+    - `total_price` is quantity × unit_price less the discount
+
+  2. Functions
+    - `sync_quotation_items(p_quotation_id, p_items)` replaces a quotation's lines in one
+      transaction; used by the editor, the RFQ job and approve-quotation
+
+  3. Data
+    - Lines are backfilled from `quotations.analysis->'equipment'` for quotations without any
+
+  4. Security
+    - The RLS policy checked ownership through `emails`; it now uses `quotations.user_id`
+*/
+
+ALTER TABLE quotation_items ALTER COLUMN quantity TYPE decimal(10,2);
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS discount_percentage decimal(5,2) NOT NULL DEFAULT 0
+  CHECK (discount_percentage >= 0 AND discount_percentage <= 100);
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS brand text DEFAULT '';
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS model text DEFAULT '';
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS description text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS power_kw decimal(10,2) DEFAULT 0;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS specifications jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS ai_specialization text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS boq_match text CHECK (boq_match IN ('matched', 'unmatched'));
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS boq_reference text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE quotation_items DROP CONSTRAINT IF EXISTS quotation_items_equipment_id_fkey;
+ALTER TABLE quotation_items
+  ADD CONSTRAINT quotation_items_equipment_id_fkey
+  FOREIGN KEY (equipment_id) REFERENCES equipment(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotation_items_quotation ON quotation_items (quotation_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_quotation_items_equipment ON quotation_items (equipment_id);
+
+CREATE TRIGGER update_quotation_items_updated_at
+  BEFORE UPDATE ON quotation_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP POLICY IF EXISTS "Users can manage their own quotation items" ON quotation_items;
+
+CREATE POLICY "Users can manage their own quotation items"
+  ON quotation_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations q
+      WHERE q.id = quotation_items.quotation_id
+      AND q.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM quotations q
+      WHERE q.id = quotation_items.quotation_id
+      AND q.user_id = auth.uid()
+    )
+  );
+
+-- Replace all lines of a quotation. Runs with the caller's rights, so RLS
+-- limits users to their own quotations. Unknown equipment ids are stored as
+-- null rather than failing the save. Touching the quotation lets realtime
+-- subscribers on `quotations` pick up line changes.
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+BEGIN
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  UPDATE quotations SET updated_at = now() WHERE id = p_quotation_id;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO quotation_items (
+      quotation_id, equipment_id, sort_order, brand, model, category, description,
+      quantity, unit_price, discount_percentage, total_price, notes,
+      power_kw, specifications, ai_specialization, boq_match, boq_reference
+    )
+    SELECT
+      p_quotation_id,
+      (SELECT e.id FROM equipment e WHERE e.id = item.equipment_id),
+      COALESCE(item.sort_order, 0),
+      COALESCE(item.brand, ''),
+      COALESCE(item.model, ''),
+      item.category,
+      item.description,
+      COALESCE(item.quantity, 1),
+      COALESCE(item.unit_price, 0),
+      COALESCE(item.discount_percentage, 0),
+      round(COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100), 2),
+      item.notes,
+      COALESCE(item.power_kw, 0),
+      COALESCE(item.specifications, '{}'::jsonb),
+      item.ai_specialization,
+      item.boq_match,
+      item.boq_reference
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+    RETURNING *
+  )
+  SELECT * FROM inserted ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION sync_quotation_items(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sync_quotation_items(uuid, jsonb) TO authenticated, service_role;
+
+-- Backfill from the analysis JSON the app used to read; non-numeric values
+-- from older workflow runs fall back to the defaults
+INSERT INTO quotation_items (
+  quotation_id, equipment_id, sort_order, brand, model, category, description,
+  quantity, unit_price, discount_percentage, total_price, power_kw, specifications, ai_specialization
+)
+SELECT
+  q.id,
+  (SELECT e.id FROM equipment e WHERE e.id::text = item.value->>'equipment_id'),
+  item.ordinality::integer - 1,
+  COALESCE(item.value->>'brand', ''),
+  COALESCE(item.value->>'model', ''),
+  item.value->>'category',
+  item.value->>'description',
+  n.quantity,
+  n.unit_price,
+  0,
+  COALESCE(n.total_price, round(n.quantity * n.unit_price, 2)),
+  n.power_kw,
+  CASE WHEN jsonb_typeof(item.value->'specifications') = 'object' THEN item.value->'specifications' ELSE '{}'::jsonb END,
+  item.value->>'ai_specialization'
+FROM quotations q
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(q.analysis->'equipment') = 'array' THEN q.analysis->'equipment' ELSE '[]'::jsonb END
+) WITH ORDINALITY AS item(value, ordinality)
+CROSS JOIN LATERAL (
+  SELECT
+    CASE WHEN jsonb_typeof(item.value->'quantity') = 'number' THEN (item.value->>'quantity')::decimal ELSE 1 END AS quantity,
+    CASE WHEN jsonb_typeof(item.value->'unit_price') = 'number' THEN (item.value->>'unit_price')::decimal ELSE 0 END AS unit_price,
+    CASE WHEN jsonb_typeof(item.value->'total_price') = 'number' THEN (item.value->>'total_price')::decimal END AS total_price,
+    CASE WHEN jsonb_typeof(item.value->'power_kw') = 'number' THEN (item.value->>'power_kw')::decimal ELSE 0 END AS power_kw
+) n
+WHERE jsonb_typeof(item.value) = 'object'
+  AND NOT EXISTS (SELECT 1 FROM quotation_items qi WHERE qi.quotation_id = q.id);
@@ -0,0 +1,169 @@
+/*
+  # Quotation revision history
+
+  1. New Tables
+    - `quotation_revisions`
+      - `id` (uuid, primary key)
+      - `quotation_id` (uuid, the quotation)
+      - `revision` (integer, 1 for the first snapshot of a quotation)
+      - `source` (text: analysis, import, draft_save, approval, restore)
+      - `restored_from` (integer, the revision a restore went back to)
+      - `items` (jsonb, the quotation_items rows at that point)
+      - `analysis`, `client_details` (jsonb snapshot)
+      - `total_amount`, `margin_percentage`, `status` (snapshot)
+      - `created_by` (uuid, the user who saved; null for the RFQ job)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `record_quotation_revision(p_quotation_id, p_source, p_created_by, p_restored_from)`
+      snapshots the quotation and its lines as the next revision
+    - `restore_quotation_revision(p_revision_id)` writes a revision back to its
+      draft quotation and records the restore as a new revision
+
+  3. Security
+    - Enable RLS on `quotation_revisions`
+    - Users can read revisions of their own quotations; there are no write
+      policies, revisions are only written through record_quotation_revision
+*/
+
+CREATE TABLE IF NOT EXISTS quotation_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid REFERENCES quotations(id) ON DELETE CASCADE NOT NULL,
+  revision integer NOT NULL,
+  source text NOT NULL CHECK (source IN ('analysis', 'import', 'draft_save', 'approval', 'restore')),
+  restored_from integer,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  analysis jsonb,
+  total_amount decimal(10,2),
+  margin_percentage decimal(5,2),
+  client_details jsonb,
+  status text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quotation_id, revision)
+);
+
+ALTER TABLE quotation_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read revisions of their own quotations"
+  ON quotation_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations
+      WHERE quotations.id = quotation_revisions.quotation_id
+        AND quotations.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_quotation_revisions_quotation
+  ON quotation_revisions (quotation_id, revision DESC);
+
+-- Snapshot the quotation as it is now. Runs as the owner so the table can stay
+-- read-only for users; callers with a JWT may only snapshot their own
+-- quotations and are always recorded as the author. The quotation row is
+-- locked so concurrent saves get consecutive revision numbers.
+CREATE OR REPLACE FUNCTION record_quotation_revision(
+  p_quotation_id uuid,
+  p_source text,
+  p_created_by uuid DEFAULT NULL,
+  p_restored_from integer DEFAULT NULL
+)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_quotation quotations;
+  v_revision quotation_revisions;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.uid() IS NOT NULL AND v_quotation.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  INSERT INTO quotation_revisions (
+    quotation_id, revision, source, restored_from, items, analysis,
+    total_amount, margin_percentage, client_details, status, created_by
+  )
+  SELECT
+    p_quotation_id,
+    COALESCE((SELECT max(revision) FROM quotation_revisions WHERE quotation_id = p_quotation_id), 0) + 1,
+    p_source,
+    p_restored_from,
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(qi) ORDER BY qi.sort_order) FROM quotation_items qi WHERE qi.quotation_id = p_quotation_id),
+      '[]'::jsonb
+    ),
+    v_quotation.analysis,
+    v_quotation.total_amount,
+    v_quotation.margin_percentage,
+    v_quotation.client_details,
+    v_quotation.status,
+    COALESCE(auth.uid(), p_created_by)
+  RETURNING * INTO v_revision;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Put a draft back to an earlier revision. Runs with the caller's rights, so
+-- RLS limits it to the caller's own quotations and revisions.
+CREATE OR REPLACE FUNCTION restore_quotation_revision(p_revision_id uuid)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_revision quotation_revisions;
+  v_status text;
+BEGIN
+  SELECT * INTO v_revision FROM quotation_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  SELECT status INTO v_status FROM quotations WHERE id = v_revision.quotation_id FOR UPDATE;
+
+  IF v_status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Quotation status is ''%''. Only draft quotations can be restored.', v_status;
+  END IF;
+
+  UPDATE quotations
+  SET
+    analysis = v_revision.analysis,
+    total_amount = v_revision.total_amount,
+    margin_percentage = v_revision.margin_percentage,
+    client_details = v_revision.client_details
+  WHERE id = v_revision.quotation_id;
+
+  PERFORM sync_quotation_items(v_revision.quotation_id, v_revision.items);
+
+  RETURN record_quotation_revision(v_revision.quotation_id, 'restore', NULL, v_revision.revision);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION record_quotation_revision(uuid, text, uuid, integer) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION restore_quotation_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_quotation_revision(uuid, text, uuid, integer) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION restore_quotation_revision(uuid) TO authenticated, service_role;
+
+-- Existing quotations start their history from their current state
+INSERT INTO quotation_revisions (
+  quotation_id, revision, source, items, analysis, total_amount, margin_percentage,
+  client_details, status, created_by, created_at
+)
+SELECT
+  q.id,
+  1,
+  CASE WHEN q.analysis->>'source' = 'boq_import' THEN 'import' ELSE 'analysis' END,
+  COALESCE(
+    (SELECT jsonb_agg(to_jsonb(qi) ORDER BY qi.sort_order) FROM quotation_items qi WHERE qi.quotation_id = q.id),
+    '[]'::jsonb
+  ),
+  q.analysis,
+  q.total_amount,
+  q.margin_percentage,
+  q.client_details,
+  q.status,
+  NULL,
+  COALESCE(q.updated_at, q.created_at)
+FROM quotations q
+WHERE NOT EXISTS (SELECT 1 FROM quotation_revisions r WHERE r.quotation_id = q.id);
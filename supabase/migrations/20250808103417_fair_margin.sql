@@ -0,0 +1,149 @@
+/*
+  # Cost and sell prices, per-line markups and discounts
+
+  1. Changes
+    - `equipment.cost_eur` (decimal, purchase cost); `price_eur` is the list price.
+      Lines fall back to `price_eur` as the cost when no cost is recorded.
+    - `user_profiles.category_margins` (jsonb, default markup on cost in percent
+      by equipment category, e.g. {"air_conditioning": 25})
+    - `quotation_items`
+      - `cost_price`, `list_price` (unit cost and unit list price)
+      - `markup_percentage` / `markup_amount` (per-line markup on cost; both null
+        means the category or quotation default)
+      - `discount_amount` (absolute discount on the line, next to `discount_percentage`)
+      - `unit_price` is now the unit sell price; `total_price` is quantity × unit_price
+        less both discounts
+
+  2. Functions
+    - `sync_quotation_items` stores the new columns
+
+  3. Data
+    - Existing lines were priced at cost with the quotation margin on the subtotal;
+      they keep their totals by taking the quotation margin as their markup.
+      Revision snapshots are converted the same way so restores stay consistent.
+*/
+
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS cost_eur decimal(10,2) CHECK (cost_eur >= 0);
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS category_margins jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS cost_price decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS list_price decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS markup_percentage decimal(6,2);
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS markup_amount decimal(10,2);
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS discount_amount decimal(10,2) NOT NULL DEFAULT 0
+  CHECK (discount_amount >= 0);
+
+UPDATE quotation_items qi
+SET
+  cost_price = qi.unit_price,
+  list_price = qi.unit_price,
+  markup_percentage = COALESCE(q.margin_percentage, 0),
+  unit_price = round(qi.unit_price * (1 + COALESCE(q.margin_percentage, 0) / 100), 2),
+  total_price = round(
+    qi.quantity * round(qi.unit_price * (1 + COALESCE(q.margin_percentage, 0) / 100), 2) * (1 - qi.discount_percentage / 100),
+    2
+  )
+FROM quotations q
+WHERE q.id = qi.quotation_id;
+
+UPDATE quotation_revisions r
+SET items = (
+  SELECT jsonb_agg(
+    line.item || jsonb_build_object(
+      'cost_price', line.unit_price,
+      'list_price', line.unit_price,
+      'markup_percentage', COALESCE(r.margin_percentage, 0),
+      'markup_amount', NULL,
+      'discount_amount', 0,
+      'unit_price', round(line.unit_price * (1 + COALESCE(r.margin_percentage, 0) / 100), 2),
+      'total_price', round(
+        line.quantity * round(line.unit_price * (1 + COALESCE(r.margin_percentage, 0) / 100), 2)
+          * (1 - line.discount_percentage / 100),
+        2
+      )
+    )
+    ORDER BY line.ordinality
+  )
+  FROM (
+    SELECT
+      e.item,
+      e.ordinality,
+      COALESCE((e.item->>'unit_price')::decimal, 0) AS unit_price,
+      COALESCE((e.item->>'quantity')::decimal, 1) AS quantity,
+      COALESCE((e.item->>'discount_percentage')::decimal, 0) AS discount_percentage
+    FROM jsonb_array_elements(r.items) WITH ORDINALITY AS e(item, ordinality)
+  ) line
+)
+WHERE jsonb_array_length(r.items) > 0
+  AND NOT (r.items->0 ? 'cost_price');
+
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+BEGIN
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  UPDATE quotations SET updated_at = now() WHERE id = p_quotation_id;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO quotation_items (
+      quotation_id, equipment_id, sort_order, brand, model, category, description,
+      quantity, cost_price, list_price, markup_percentage, markup_amount, unit_price,
+      discount_percentage, discount_amount, total_price, notes,
+      power_kw, specifications, ai_specialization, boq_match, boq_reference
+    )
+    SELECT
+      p_quotation_id,
+      (SELECT e.id FROM equipment e WHERE e.id = item.equipment_id),
+      COALESCE(item.sort_order, 0),
+      COALESCE(item.brand, ''),
+      COALESCE(item.model, ''),
+      item.category,
+      item.description,
+      COALESCE(item.quantity, 1),
+      COALESCE(item.cost_price, item.unit_price, 0),
+      COALESCE(item.list_price, item.cost_price, item.unit_price, 0),
+      item.markup_percentage,
+      item.markup_amount,
+      COALESCE(item.unit_price, 0),
+      COALESCE(item.discount_percentage, 0),
+      COALESCE(item.discount_amount, 0),
+      round(
+        COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100)
+          - COALESCE(item.discount_amount, 0),
+        2
+      ),
+      item.notes,
+      COALESCE(item.power_kw, 0),
+      COALESCE(item.specifications, '{}'::jsonb),
+      item.ai_specialization,
+      item.boq_match,
+      item.boq_reference
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      cost_price decimal,
+      list_price decimal,
+      markup_percentage decimal,
+      markup_amount decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      discount_amount decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+    RETURNING *
+  )
+  SELECT * FROM inserted ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,277 @@
+/*
+  # VAT on quotations
+
+  1. Changes
+    - `companies`
+      - `tax_rates` (jsonb, list of {code, label, rate}; defaults to the Cyprus
+        rates, the `reverse_charge` code is always 0%)
+      - `default_tax_code` (text, the rate new quotations start with)
+    - `quotations`
+      - `tax_code`, `tax_rate` (the quotation's rate; null code means no VAT chosen)
+      - `net_amount`, `tax_amount`, `gross_amount` (totals excluding VAT, VAT,
+        including VAT); `total_amount` stays the net total
+    - `quotation_items`
+      - `tax_code` (null means the quotation's rate), `tax_rate` (effective rate),
+        `tax_amount` (VAT on the line total)
+    - `quotation_revisions` snapshot `tax_code`, `tax_rate`, `tax_amount`, `gross_amount`
+
+  2. Functions
+    - `set_quotation_tax` trigger gives new quotations the default rate of
+      their company, or of the owner's default company
+    - `sync_quotation_items` stores line tax and writes the quotation totals
+    - `record_quotation_revision` / `restore_quotation_revision` include the rate
+
+  3. Data
+    - Existing quotations keep their totals with no VAT recorded
+*/
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS tax_rates jsonb NOT NULL DEFAULT '[
+  {"code": "standard", "label": "VAT 19%", "rate": 19},
+  {"code": "reduced", "label": "Reduced VAT 9%", "rate": 9},
+  {"code": "residential", "label": "Reduced VAT 5% (residential)", "rate": 5},
+  {"code": "zero", "label": "Zero-rated", "rate": 0},
+  {"code": "reverse_charge", "label": "Reverse charge", "rate": 0}
+]'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS default_tax_code text NOT NULL DEFAULT 'standard';
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS tax_code text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS tax_rate decimal(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0);
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS net_amount decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS tax_amount decimal(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS gross_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS tax_code text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS tax_rate decimal(5,2) NOT NULL DEFAULT 0 CHECK (tax_rate >= 0);
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS tax_amount decimal(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS tax_code text;
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS tax_rate decimal(5,2);
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS tax_amount decimal(10,2);
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS gross_amount decimal(10,2);
+
+UPDATE quotations
+SET
+  net_amount = COALESCE(total_amount, 0),
+  gross_amount = COALESCE(total_amount, 0);
+
+-- New quotations start with the default rate of their company
+CREATE OR REPLACE FUNCTION set_quotation_tax()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_company companies;
+BEGIN
+  IF NEW.tax_code IS NULL THEN
+    SELECT * INTO v_company
+    FROM companies
+    WHERE id = NEW.company_id
+       OR (NEW.company_id IS NULL AND user_id = NEW.user_id)
+    ORDER BY is_default DESC NULLS LAST, created_at
+    LIMIT 1;
+
+    IF FOUND THEN
+      NEW.tax_code := v_company.default_tax_code;
+      NEW.tax_rate := CASE
+        WHEN v_company.default_tax_code = 'reverse_charge' THEN 0
+        ELSE COALESCE(
+          (SELECT (r->>'rate')::decimal FROM jsonb_array_elements(v_company.tax_rates) r
+           WHERE r->>'code' = v_company.default_tax_code LIMIT 1),
+          0
+        )
+      END;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_quotation_tax ON quotations;
+CREATE TRIGGER trigger_set_quotation_tax
+  BEFORE INSERT ON quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_quotation_tax();
+
+-- Lines without a tax code take the quotation's rate; the quotation totals are
+-- always the sum of its lines
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+DECLARE
+  v_tax_rate decimal;
+BEGIN
+  SELECT tax_rate INTO v_tax_rate FROM quotations WHERE id = p_quotation_id;
+
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  WITH lines AS (
+    SELECT
+      item.*,
+      round(
+        COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100)
+          - COALESCE(item.discount_amount, 0),
+        2
+      ) AS line_total,
+      CASE
+        WHEN item.tax_code IS NULL THEN COALESCE(v_tax_rate, 0)
+        WHEN item.tax_code = 'reverse_charge' THEN 0
+        ELSE COALESCE(item.tax_rate, 0)
+      END AS line_tax_rate
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      cost_price decimal,
+      list_price decimal,
+      markup_percentage decimal,
+      markup_amount decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      discount_amount decimal,
+      tax_code text,
+      tax_rate decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+  )
+  INSERT INTO quotation_items (
+    quotation_id, equipment_id, sort_order, brand, model, category, description,
+    quantity, cost_price, list_price, markup_percentage, markup_amount, unit_price,
+    discount_percentage, discount_amount, total_price, tax_code, tax_rate, tax_amount,
+    notes, power_kw, specifications, ai_specialization, boq_match, boq_reference
+  )
+  SELECT
+    p_quotation_id,
+    (SELECT e.id FROM equipment e WHERE e.id = lines.equipment_id),
+    COALESCE(lines.sort_order, 0),
+    COALESCE(lines.brand, ''),
+    COALESCE(lines.model, ''),
+    lines.category,
+    lines.description,
+    COALESCE(lines.quantity, 1),
+    COALESCE(lines.cost_price, lines.unit_price, 0),
+    COALESCE(lines.list_price, lines.cost_price, lines.unit_price, 0),
+    lines.markup_percentage,
+    lines.markup_amount,
+    COALESCE(lines.unit_price, 0),
+    COALESCE(lines.discount_percentage, 0),
+    COALESCE(lines.discount_amount, 0),
+    lines.line_total,
+    lines.tax_code,
+    lines.line_tax_rate,
+    round(lines.line_total * lines.line_tax_rate / 100, 2),
+    lines.notes,
+    COALESCE(lines.power_kw, 0),
+    COALESCE(lines.specifications, '{}'::jsonb),
+    lines.ai_specialization,
+    lines.boq_match,
+    lines.boq_reference
+  FROM lines;
+
+  UPDATE quotations q
+  SET
+    updated_at = now(),
+    total_amount = totals.net,
+    net_amount = totals.net,
+    tax_amount = totals.tax,
+    gross_amount = totals.net + totals.tax
+  FROM (
+    SELECT
+      COALESCE(sum(total_price), 0) AS net,
+      COALESCE(sum(tax_amount), 0) AS tax
+    FROM quotation_items
+    WHERE quotation_id = p_quotation_id
+  ) totals
+  WHERE q.id = p_quotation_id;
+
+  RETURN QUERY
+  SELECT * FROM quotation_items WHERE quotation_id = p_quotation_id ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_quotation_revision(
+  p_quotation_id uuid,
+  p_source text,
+  p_created_by uuid DEFAULT NULL,
+  p_restored_from integer DEFAULT NULL
+)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_quotation quotations;
+  v_revision quotation_revisions;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.uid() IS NOT NULL AND v_quotation.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  INSERT INTO quotation_revisions (
+    quotation_id, revision, source, restored_from, items, analysis,
+    total_amount, margin_percentage, tax_code, tax_rate, tax_amount, gross_amount,
+    client_details, status, created_by
+  )
+  SELECT
+    p_quotation_id,
+    COALESCE((SELECT max(revision) FROM quotation_revisions WHERE quotation_id = p_quotation_id), 0) + 1,
+    p_source,
+    p_restored_from,
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(qi) ORDER BY qi.sort_order) FROM quotation_items qi WHERE qi.quotation_id = p_quotation_id),
+      '[]'::jsonb
+    ),
+    v_quotation.analysis,
+    v_quotation.total_amount,
+    v_quotation.margin_percentage,
+    v_quotation.tax_code,
+    v_quotation.tax_rate,
+    v_quotation.tax_amount,
+    v_quotation.gross_amount,
+    v_quotation.client_details,
+    v_quotation.status,
+    COALESCE(auth.uid(), p_created_by)
+  RETURNING * INTO v_revision;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revisions from before VAT have no rate and keep the quotation's current one
+CREATE OR REPLACE FUNCTION restore_quotation_revision(p_revision_id uuid)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_revision quotation_revisions;
+  v_status text;
+BEGIN
+  SELECT * INTO v_revision FROM quotation_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  SELECT status INTO v_status FROM quotations WHERE id = v_revision.quotation_id FOR UPDATE;
+
+  IF v_status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Quotation status is ''%''. Only draft quotations can be restored.', v_status;
+  END IF;
+
+  UPDATE quotations
+  SET
+    analysis = v_revision.analysis,
+    total_amount = v_revision.total_amount,
+    margin_percentage = v_revision.margin_percentage,
+    tax_code = CASE WHEN v_revision.tax_rate IS NULL THEN tax_code ELSE v_revision.tax_code END,
+    tax_rate = COALESCE(v_revision.tax_rate, tax_rate),
+    client_details = v_revision.client_details
+  WHERE id = v_revision.quotation_id;
+
+  PERFORM sync_quotation_items(v_revision.quotation_id, v_revision.items);
+
+  RETURN record_quotation_revision(v_revision.quotation_id, 'restore', NULL, v_revision.revision);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,300 @@
+/*
+  # Multi-currency quotations
+
+  1. New Tables
+    - `exchange_rates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, the owner)
+      - `currency` (text, ISO code)
+      - `rate` (decimal, units of the currency per 1 EUR)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - `equipment.currency` (text, default EUR): the currency `price_eur` and
+      `cost_eur` are in; the column names are kept for existing imports
+    - `quotations`
+      - `currency` (text, default EUR): lines and totals are in this currency
+      - `exchange_rate` (decimal, quotation currency per 1 EUR, for reporting)
+      - `exchange_rates` (jsonb, every rate the quotation was priced with)
+      - `exchange_rates_locked_at` (timestamp, set at approval; the rates can
+        no longer change afterwards)
+    - `quotation_items`
+      - `cost_currency`, `source_cost_price` (the cost in the currency it was
+        sourced in; `cost_price` is that cost in the quotation currency)
+    - `quotation_revisions` snapshot `currency` and `exchange_rate`
+
+  3. Functions
+    - `protect_locked_exchange_rates` trigger rejects rate changes on
+      quotations whose rates are locked
+    - `sync_quotation_items` stores the cost currency
+    - `record_quotation_revision` / `restore_quotation_revision` include the currency
+
+  4. Security
+    - Enable RLS on `exchange_rates`; users manage their own rates
+
+  5. Data
+    - Existing quotations are in EUR; those already approved are locked
+*/
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  currency text NOT NULL CHECK (currency ~ '^[A-Z]{3}$' AND currency <> 'EUR'),
+  rate decimal(12,6) NOT NULL CHECK (rate > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, currency)
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exchange rates"
+  ON exchange_rates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER set_exchange_rates_user_id
+  BEFORE INSERT ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION set_user_id_on_insert();
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON exchange_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'EUR'
+  CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS exchange_rate decimal(12,6) NOT NULL DEFAULT 1
+  CHECK (exchange_rate > 0);
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS exchange_rates jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS exchange_rates_locked_at timestamptz;
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS cost_currency text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS source_cost_price decimal(10,2);
+
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS currency text;
+ALTER TABLE quotation_revisions ADD COLUMN IF NOT EXISTS exchange_rate decimal(12,6);
+
+UPDATE quotations
+SET exchange_rates_locked_at = COALESCE(approved_at, sent_at, updated_at)
+WHERE status <> 'draft' AND exchange_rates_locked_at IS NULL;
+
+-- Approved totals must not drift: once locked, the currency and rates stay as
+-- they were unless the lock itself is lifted (a failed approval going back to draft)
+CREATE OR REPLACE FUNCTION protect_locked_exchange_rates()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.exchange_rates_locked_at IS NOT NULL
+     AND NEW.exchange_rates_locked_at IS NOT NULL
+     AND (NEW.currency, NEW.exchange_rate, NEW.exchange_rates)
+         IS DISTINCT FROM (OLD.currency, OLD.exchange_rate, OLD.exchange_rates) THEN
+    RAISE EXCEPTION 'Exchange rates of quotation % are locked since %', OLD.quotation_number, OLD.exchange_rates_locked_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_locked_exchange_rates ON quotations;
+CREATE TRIGGER trigger_protect_locked_exchange_rates
+  BEFORE UPDATE ON quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_locked_exchange_rates();
+
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+DECLARE
+  v_tax_rate decimal;
+BEGIN
+  SELECT tax_rate INTO v_tax_rate FROM quotations WHERE id = p_quotation_id;
+
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  WITH lines AS (
+    SELECT
+      item.*,
+      round(
+        COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100)
+          - COALESCE(item.discount_amount, 0),
+        2
+      ) AS line_total,
+      CASE
+        WHEN item.tax_code IS NULL THEN COALESCE(v_tax_rate, 0)
+        WHEN item.tax_code = 'reverse_charge' THEN 0
+        ELSE COALESCE(item.tax_rate, 0)
+      END AS line_tax_rate
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      cost_price decimal,
+      cost_currency text,
+      source_cost_price decimal,
+      list_price decimal,
+      markup_percentage decimal,
+      markup_amount decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      discount_amount decimal,
+      tax_code text,
+      tax_rate decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+  )
+  INSERT INTO quotation_items (
+    quotation_id, equipment_id, sort_order, brand, model, category, description,
+    quantity, cost_price, cost_currency, source_cost_price, list_price, markup_percentage,
+    markup_amount, unit_price, discount_percentage, discount_amount, total_price,
+    tax_code, tax_rate, tax_amount, notes, power_kw, specifications, ai_specialization,
+    boq_match, boq_reference
+  )
+  SELECT
+    p_quotation_id,
+    (SELECT e.id FROM equipment e WHERE e.id = lines.equipment_id),
+    COALESCE(lines.sort_order, 0),
+    COALESCE(lines.brand, ''),
+    COALESCE(lines.model, ''),
+    lines.category,
+    lines.description,
+    COALESCE(lines.quantity, 1),
+    COALESCE(lines.cost_price, lines.unit_price, 0),
+    lines.cost_currency,
+    lines.source_cost_price,
+    COALESCE(lines.list_price, lines.cost_price, lines.unit_price, 0),
+    lines.markup_percentage,
+    lines.markup_amount,
+    COALESCE(lines.unit_price, 0),
+    COALESCE(lines.discount_percentage, 0),
+    COALESCE(lines.discount_amount, 0),
+    lines.line_total,
+    lines.tax_code,
+    lines.line_tax_rate,
+    round(lines.line_total * lines.line_tax_rate / 100, 2),
+    lines.notes,
+    COALESCE(lines.power_kw, 0),
+    COALESCE(lines.specifications, '{}'::jsonb),
+    lines.ai_specialization,
+    lines.boq_match,
+    lines.boq_reference
+  FROM lines;
+
+  UPDATE quotations q
+  SET
+    updated_at = now(),
+    total_amount = totals.net,
+    net_amount = totals.net,
+    tax_amount = totals.tax,
+    gross_amount = totals.net + totals.tax
+  FROM (
+    SELECT
+      COALESCE(sum(total_price), 0) AS net,
+      COALESCE(sum(tax_amount), 0) AS tax
+    FROM quotation_items
+    WHERE quotation_id = p_quotation_id
+  ) totals
+  WHERE q.id = p_quotation_id;
+
+  RETURN QUERY
+  SELECT * FROM quotation_items WHERE quotation_id = p_quotation_id ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_quotation_revision(
+  p_quotation_id uuid,
+  p_source text,
+  p_created_by uuid DEFAULT NULL,
+  p_restored_from integer DEFAULT NULL
+)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_quotation quotations;
+  v_revision quotation_revisions;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.uid() IS NOT NULL AND v_quotation.user_id IS DISTINCT FROM auth.uid()) THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  INSERT INTO quotation_revisions (
+    quotation_id, revision, source, restored_from, items, analysis,
+    total_amount, margin_percentage, tax_code, tax_rate, tax_amount, gross_amount,
+    currency, exchange_rate, client_details, status, created_by
+  )
+  SELECT
+    p_quotation_id,
+    COALESCE((SELECT max(revision) FROM quotation_revisions WHERE quotation_id = p_quotation_id), 0) + 1,
+    p_source,
+    p_restored_from,
+    COALESCE(
+      (SELECT jsonb_agg(to_jsonb(qi) ORDER BY qi.sort_order) FROM quotation_items qi WHERE qi.quotation_id = p_quotation_id),
+      '[]'::jsonb
+    ),
+    v_quotation.analysis,
+    v_quotation.total_amount,
+    v_quotation.margin_percentage,
+    v_quotation.tax_code,
+    v_quotation.tax_rate,
+    v_quotation.tax_amount,
+    v_quotation.gross_amount,
+    v_quotation.currency,
+    v_quotation.exchange_rate,
+    v_quotation.client_details,
+    v_quotation.status,
+    COALESCE(auth.uid(), p_created_by)
+  RETURNING * INTO v_revision;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revisions from before multi-currency are in EUR
+CREATE OR REPLACE FUNCTION restore_quotation_revision(p_revision_id uuid)
+RETURNS quotation_revisions AS $$
+DECLARE
+  v_revision quotation_revisions;
+  v_status text;
+BEGIN
+  SELECT * INTO v_revision FROM quotation_revisions WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision % not found', p_revision_id;
+  END IF;
+
+  SELECT status INTO v_status FROM quotations WHERE id = v_revision.quotation_id FOR UPDATE;
+
+  IF v_status IS DISTINCT FROM 'draft' THEN
+    RAISE EXCEPTION 'Quotation status is ''%''. Only draft quotations can be restored.', v_status;
+  END IF;
+
+  UPDATE quotations
+  SET
+    analysis = v_revision.analysis,
+    total_amount = v_revision.total_amount,
+    margin_percentage = v_revision.margin_percentage,
+    tax_code = CASE WHEN v_revision.tax_rate IS NULL THEN tax_code ELSE v_revision.tax_code END,
+    tax_rate = COALESCE(v_revision.tax_rate, tax_rate),
+    currency = COALESCE(v_revision.currency, 'EUR'),
+    exchange_rate = COALESCE(v_revision.exchange_rate, 1),
+    client_details = v_revision.client_details
+  WHERE id = v_revision.quotation_id;
+
+  PERFORM sync_quotation_items(v_revision.quotation_id, v_revision.items);
+
+  RETURN record_quotation_revision(v_revision.quotation_id, 'restore', NULL, v_revision.revision);
+END;
+$$ LANGUAGE plpgsql;
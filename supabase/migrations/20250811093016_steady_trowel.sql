@@ -0,0 +1,148 @@
+/*
+  # Labour, material, service and provisional sum lines
+
+  1. Changes
+    - `quotation_items`
+      - `line_type` (text, one of equipment, labour, material, service,
+        provisional_sum; existing lines are equipment)
+      - `unit` (text, e.g. hour, m, lump sum; null for equipment counted in units)
+      - `trade` (text, the labour trade a labour line is priced with)
+    - `companies`
+      - `labour_rates` (jsonb, list of {trade, label, rate}; hourly cost in EUR
+        per trade)
+
+  2. Functions
+    - `sync_quotation_items` stores the line type, unit and trade
+*/
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS line_type text NOT NULL DEFAULT 'equipment'
+  CHECK (line_type IN ('equipment', 'labour', 'material', 'service', 'provisional_sum'));
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS unit text;
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS trade text;
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS labour_rates jsonb NOT NULL DEFAULT '[
+  {"trade": "hvac", "label": "HVAC technician", "rate": 35},
+  {"trade": "refrigeration", "label": "Refrigeration engineer", "rate": 40},
+  {"trade": "plumbing", "label": "Plumber", "rate": 30},
+  {"trade": "electrical", "label": "Electrician", "rate": 32},
+  {"trade": "ductwork", "label": "Ductwork fitter", "rate": 28},
+  {"trade": "commissioning", "label": "Commissioning engineer", "rate": 45},
+  {"trade": "general", "label": "General labourer", "rate": 20}
+]'::jsonb;
+
+-- Lines of an unknown kind are stored as equipment
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+DECLARE
+  v_tax_rate decimal;
+BEGIN
+  SELECT tax_rate INTO v_tax_rate FROM quotations WHERE id = p_quotation_id;
+
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  WITH lines AS (
+    SELECT
+      item.*,
+      round(
+        COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100)
+          - COALESCE(item.discount_amount, 0),
+        2
+      ) AS line_total,
+      CASE
+        WHEN item.tax_code IS NULL THEN COALESCE(v_tax_rate, 0)
+        WHEN item.tax_code = 'reverse_charge' THEN 0
+        ELSE COALESCE(item.tax_rate, 0)
+      END AS line_tax_rate
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      line_type text,
+      unit text,
+      trade text,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      cost_price decimal,
+      cost_currency text,
+      source_cost_price decimal,
+      list_price decimal,
+      markup_percentage decimal,
+      markup_amount decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      discount_amount decimal,
+      tax_code text,
+      tax_rate decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+  )
+  INSERT INTO quotation_items (
+    quotation_id, equipment_id, sort_order, line_type, unit, trade, brand, model, category, description,
+    quantity, cost_price, cost_currency, source_cost_price, list_price, markup_percentage,
+    markup_amount, unit_price, discount_percentage, discount_amount, total_price,
+    tax_code, tax_rate, tax_amount, notes, power_kw, specifications, ai_specialization,
+    boq_match, boq_reference
+  )
+  SELECT
+    p_quotation_id,
+    (SELECT e.id FROM equipment e WHERE e.id = lines.equipment_id),
+    COALESCE(lines.sort_order, 0),
+    CASE
+      WHEN lines.line_type IN ('equipment', 'labour', 'material', 'service', 'provisional_sum') THEN lines.line_type
+      ELSE 'equipment'
+    END,
+    lines.unit,
+    lines.trade,
+    COALESCE(lines.brand, ''),
+    COALESCE(lines.model, ''),
+    lines.category,
+    lines.description,
+    COALESCE(lines.quantity, 1),
+    COALESCE(lines.cost_price, lines.unit_price, 0),
+    lines.cost_currency,
+    lines.source_cost_price,
+    COALESCE(lines.list_price, lines.cost_price, lines.unit_price, 0),
+    lines.markup_percentage,
+    lines.markup_amount,
+    COALESCE(lines.unit_price, 0),
+    COALESCE(lines.discount_percentage, 0),
+    COALESCE(lines.discount_amount, 0),
+    lines.line_total,
+    lines.tax_code,
+    lines.line_tax_rate,
+    round(lines.line_total * lines.line_tax_rate / 100, 2),
+    lines.notes,
+    COALESCE(lines.power_kw, 0),
+    COALESCE(lines.specifications, '{}'::jsonb),
+    lines.ai_specialization,
+    lines.boq_match,
+    lines.boq_reference
+  FROM lines;
+
+  UPDATE quotations q
+  SET
+    updated_at = now(),
+    total_amount = totals.net,
+    net_amount = totals.net,
+    tax_amount = totals.tax,
+    gross_amount = totals.net + totals.tax
+  FROM (
+    SELECT
+      COALESCE(sum(total_price), 0) AS net,
+      COALESCE(sum(tax_amount), 0) AS tax
+    FROM quotation_items
+    WHERE quotation_id = p_quotation_id
+  ) totals
+  WHERE q.id = p_quotation_id;
+
+  RETURN QUERY
+  SELECT * FROM quotation_items WHERE quotation_id = p_quotation_id ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
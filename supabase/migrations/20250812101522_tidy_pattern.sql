@@ -0,0 +1,50 @@
+/*
+  # Quotation templates
+
+  1. New Tables
+    - `quotation_templates`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, owner)
+      - `company_id` (uuid, optional; the company the package belongs to)
+      - `name` (text, e.g. "2-bed apartment split system package")
+      - `description` (text)
+      - `currency` (text, the currency the lines' fixed amounts are in)
+      - `items` (jsonb, the lines with quantities for one package)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `quotation_templates`; users manage their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS quotation_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  company_id uuid REFERENCES companies(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (name <> ''),
+  description text,
+  currency text NOT NULL DEFAULT 'EUR' CHECK (currency ~ '^[A-Z]{3}$'),
+  items jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(items) = 'array'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_templates_user_id ON quotation_templates(user_id);
+
+ALTER TABLE quotation_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own quotation templates"
+  ON quotation_templates
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER set_quotation_templates_user_id
+  BEFORE INSERT ON quotation_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION set_user_id_on_insert();
+
+CREATE TRIGGER update_quotation_templates_updated_at
+  BEFORE UPDATE ON quotation_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,214 @@
+/*
+  # Optional extras and alternative options
+
+  1. Changes
+    - `quotation_items`
+      - `option_kind` (text, one of base, optional, alternative; existing lines
+        are base scope)
+      - `option_group` (text, the option a line belongs to, e.g. "Option A:
+        Daikin"; null for base scope)
+    - `quotations`
+      - `selected_alternative` (text, the alternative in the total; null means
+        the first one)
+      - `selected_optionals` (text[], the optional extras in the total)
+      - `options_accepted_at` (timestamptz, when the client's choice was
+        recorded)
+
+  2. Functions
+    - `update_quotation_totals` sums the base scope, the selected alternative
+      and the selected optional extras into the quotation's totals
+    - `sync_quotation_items` stores the option of each line
+    - `accept_quotation_options` records the options the client accepted and
+      marks the quotation accepted
+*/
+
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS option_kind text NOT NULL DEFAULT 'base'
+  CHECK (option_kind IN ('base', 'optional', 'alternative'));
+ALTER TABLE quotation_items ADD COLUMN IF NOT EXISTS option_group text;
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS selected_alternative text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS selected_optionals text[] NOT NULL DEFAULT '{}';
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS options_accepted_at timestamptz;
+
+-- Alternatives exclude each other: only the selected one (else the first by
+-- line order) is in the total. Optional extras are in it once selected.
+CREATE OR REPLACE FUNCTION update_quotation_totals(p_quotation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_selected_alternative text;
+  v_selected_optionals text[];
+  v_alternative text;
+BEGIN
+  SELECT selected_alternative, selected_optionals
+  INTO v_selected_alternative, v_selected_optionals
+  FROM quotations
+  WHERE id = p_quotation_id;
+
+  SELECT option_group INTO v_alternative
+  FROM quotation_items
+  WHERE quotation_id = p_quotation_id AND option_kind = 'alternative'
+  ORDER BY (option_group IS NOT DISTINCT FROM v_selected_alternative) DESC, sort_order
+  LIMIT 1;
+
+  UPDATE quotations q
+  SET
+    updated_at = now(),
+    total_amount = totals.net,
+    net_amount = totals.net,
+    tax_amount = totals.tax,
+    gross_amount = totals.net + totals.tax
+  FROM (
+    SELECT
+      COALESCE(sum(total_price), 0) AS net,
+      COALESCE(sum(tax_amount), 0) AS tax
+    FROM quotation_items
+    WHERE quotation_id = p_quotation_id
+      AND (
+        option_kind = 'base'
+        OR (option_kind = 'alternative' AND option_group = v_alternative)
+        OR (option_kind = 'optional' AND option_group = ANY (COALESCE(v_selected_optionals, '{}')))
+      )
+  ) totals
+  WHERE q.id = p_quotation_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Lines of an unknown kind are stored as equipment, of an unknown option as
+-- base scope
+CREATE OR REPLACE FUNCTION sync_quotation_items(p_quotation_id uuid, p_items jsonb)
+RETURNS SETOF quotation_items AS $$
+DECLARE
+  v_tax_rate decimal;
+BEGIN
+  SELECT tax_rate INTO v_tax_rate FROM quotations WHERE id = p_quotation_id;
+
+  DELETE FROM quotation_items WHERE quotation_id = p_quotation_id;
+
+  WITH lines AS (
+    SELECT
+      item.*,
+      round(
+        COALESCE(item.quantity, 1) * COALESCE(item.unit_price, 0) * (1 - COALESCE(item.discount_percentage, 0) / 100)
+          - COALESCE(item.discount_amount, 0),
+        2
+      ) AS line_total,
+      CASE
+        WHEN item.tax_code IS NULL THEN COALESCE(v_tax_rate, 0)
+        WHEN item.tax_code = 'reverse_charge' THEN 0
+        ELSE COALESCE(item.tax_rate, 0)
+      END AS line_tax_rate
+    FROM jsonb_to_recordset(COALESCE(p_items, '[]'::jsonb)) AS item(
+      equipment_id uuid,
+      sort_order integer,
+      line_type text,
+      unit text,
+      trade text,
+      option_kind text,
+      option_group text,
+      brand text,
+      model text,
+      category text,
+      description text,
+      quantity decimal,
+      cost_price decimal,
+      cost_currency text,
+      source_cost_price decimal,
+      list_price decimal,
+      markup_percentage decimal,
+      markup_amount decimal,
+      unit_price decimal,
+      discount_percentage decimal,
+      discount_amount decimal,
+      tax_code text,
+      tax_rate decimal,
+      notes text,
+      power_kw decimal,
+      specifications jsonb,
+      ai_specialization text,
+      boq_match text,
+      boq_reference text
+    )
+  )
+  INSERT INTO quotation_items (
+    quotation_id, equipment_id, sort_order, line_type, unit, trade, option_kind, option_group, brand, model, category, description,
+    quantity, cost_price, cost_currency, source_cost_price, list_price, markup_percentage,
+    markup_amount, unit_price, discount_percentage, discount_amount, total_price,
+    tax_code, tax_rate, tax_amount, notes, power_kw, specifications, ai_specialization,
+    boq_match, boq_reference
+  )
+  SELECT
+    p_quotation_id,
+    (SELECT e.id FROM equipment e WHERE e.id = lines.equipment_id),
+    COALESCE(lines.sort_order, 0),
+    CASE
+      WHEN lines.line_type IN ('equipment', 'labour', 'material', 'service', 'provisional_sum') THEN lines.line_type
+      ELSE 'equipment'
+    END,
+    lines.unit,
+    lines.trade,
+    CASE WHEN lines.option_kind IN ('optional', 'alternative') THEN lines.option_kind ELSE 'base' END,
+    CASE
+      WHEN lines.option_kind = 'optional' THEN COALESCE(NULLIF(lines.option_group, ''), 'Optional')
+      WHEN lines.option_kind = 'alternative' THEN COALESCE(NULLIF(lines.option_group, ''), 'Alternative')
+    END,
+    COALESCE(lines.brand, ''),
+    COALESCE(lines.model, ''),
+    lines.category,
+    lines.description,
+    COALESCE(lines.quantity, 1),
+    COALESCE(lines.cost_price, lines.unit_price, 0),
+    lines.cost_currency,
+    lines.source_cost_price,
+    COALESCE(lines.list_price, lines.cost_price, lines.unit_price, 0),
+    lines.markup_percentage,
+    lines.markup_amount,
+    COALESCE(lines.unit_price, 0),
+    COALESCE(lines.discount_percentage, 0),
+    COALESCE(lines.discount_amount, 0),
+    lines.line_total,
+    lines.tax_code,
+    lines.line_tax_rate,
+    round(lines.line_total * lines.line_tax_rate / 100, 2),
+    lines.notes,
+    COALESCE(lines.power_kw, 0),
+    COALESCE(lines.specifications, '{}'::jsonb),
+    lines.ai_specialization,
+    lines.boq_match,
+    lines.boq_reference
+  FROM lines;
+
+  PERFORM update_quotation_totals(p_quotation_id);
+
+  RETURN QUERY
+  SELECT * FROM quotation_items WHERE quotation_id = p_quotation_id ORDER BY sort_order;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The client's choice; the totals become those of the accepted scope
+CREATE OR REPLACE FUNCTION accept_quotation_options(
+  p_quotation_id uuid,
+  p_alternative text,
+  p_optionals text[]
+)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  UPDATE quotations
+  SET
+    selected_alternative = p_alternative,
+    selected_optionals = COALESCE(p_optionals, '{}'),
+    options_accepted_at = now(),
+    status = 'accepted'
+  WHERE id = p_quotation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  PERFORM update_quotation_totals(p_quotation_id);
+
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id;
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
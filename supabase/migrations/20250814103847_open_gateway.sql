@@ -0,0 +1,150 @@
+/*
+  # Client acceptance portal
+
+  1. Changes
+    - `quotations`
+      - `portal_link_issued_at` (timestamptz, when the current client link was
+        issued; links signed with an earlier time no longer work)
+      - `portal_viewed_at` (timestamptz, first time the client opened the link)
+      - `accepted_at`, `accepted_by_name`, `acceptance_signature` (when and by
+        whom the client accepted; the signature is a PNG data URL)
+      - `rejected_at`, `rejection_reason` (when and why the client rejected)
+
+  2. New Tables
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, who is notified)
+      - `quotation_id` (uuid, the quotation it is about)
+      - `kind` (text, quotation_accepted or quotation_rejected)
+      - `title`, `message` (text)
+      - `read_at` (timestamptz, null while unread)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `record_client_response` records an acceptance or rejection made through
+      the portal and notifies the quotation's owner; service role only
+
+  4. Security
+    - Enable RLS on `notifications`; users manage their own notifications
+*/
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS portal_link_issued_at timestamptz;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS portal_viewed_at timestamptz;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS accepted_at timestamptz;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS accepted_by_name text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS acceptance_signature text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS rejected_at timestamptz;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  quotation_id uuid REFERENCES quotations(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('quotation_accepted', 'quotation_rejected')),
+  title text NOT NULL,
+  message text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notifications"
+  ON notifications
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Only quotations that went out and have not been answered or expired take a
+-- response. An acceptance takes the client's options like accept_quotation_options.
+CREATE OR REPLACE FUNCTION record_client_response(
+  p_quotation_id uuid,
+  p_response text,
+  p_name text DEFAULT NULL,
+  p_signature text DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_alternative text DEFAULT NULL,
+  p_optionals text[] DEFAULT '{}'
+)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  IF v_quotation.status NOT IN ('approved', 'sent') THEN
+    RAISE EXCEPTION 'Quotation % is %, not awaiting a response', v_quotation.quotation_number, v_quotation.status;
+  END IF;
+
+  IF v_quotation.valid_until IS NOT NULL AND v_quotation.valid_until < current_date THEN
+    RAISE EXCEPTION 'Quotation % expired on %', v_quotation.quotation_number, v_quotation.valid_until;
+  END IF;
+
+  IF p_response = 'accept' THEN
+    IF COALESCE(btrim(p_name), '') = '' THEN
+      RAISE EXCEPTION 'A name is required to accept quotation %', v_quotation.quotation_number;
+    END IF;
+
+    PERFORM accept_quotation_options(p_quotation_id, p_alternative, p_optionals);
+
+    UPDATE quotations
+    SET
+      accepted_at = now(),
+      accepted_by_name = btrim(p_name),
+      acceptance_signature = p_signature
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      p_quotation_id,
+      'quotation_accepted',
+      format('Quotation %s accepted', v_quotation.quotation_number),
+      format('Accepted by %s', v_quotation.accepted_by_name)
+    );
+  ELSIF p_response = 'reject' THEN
+    UPDATE quotations
+    SET
+      status = 'rejected',
+      rejected_at = now(),
+      rejection_reason = NULLIF(btrim(p_reason), '')
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      p_quotation_id,
+      'quotation_rejected',
+      format('Quotation %s rejected', v_quotation.quotation_number),
+      COALESCE(v_quotation.rejection_reason, 'No reason given')
+    );
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_response;
+  END IF;
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_client_response(uuid, text, text, text, text, text, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_client_response(uuid, text, text, text, text, text, text[]) TO service_role;
+
+-- Publish notifications so the UI shows them as they arrive
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
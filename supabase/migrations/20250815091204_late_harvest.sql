@@ -0,0 +1,94 @@
+/*
+  # Automatic expiry of quotations
+
+  1. Changes
+    - `quotations`
+      - `expired_at` (timestamptz, when the quotation was expired; cleared when
+        its validity is extended)
+    - `notifications.kind` also allows quotation_expired
+
+  2. Functions
+    - `expire_quotations` expires quotations that went out (approved or sent)
+      and are past `valid_until`, and notifies their owners; service role only
+    - `extend_quotation_validity` moves `valid_until` and reopens an expired
+      quotation as sent
+
+  3. Schedule
+    - With pg_cron available, `expire_quotations` runs daily at 00:15
+*/
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS expired_at timestamptz;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check
+CHECK (kind IN ('quotation_accepted', 'quotation_rejected', 'quotation_expired'));
+
+-- Returns how many quotations were expired
+CREATE OR REPLACE FUNCTION expire_quotations()
+RETURNS integer AS $$
+DECLARE
+  v_quotation quotations;
+  v_count integer := 0;
+BEGIN
+  FOR v_quotation IN
+    UPDATE quotations
+    SET
+      status = 'expired',
+      expired_at = now()
+    WHERE status IN ('approved', 'sent')
+      AND valid_until < current_date
+    RETURNING *
+  LOOP
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      v_quotation.id,
+      'quotation_expired',
+      format('Quotation %s expired', v_quotation.quotation_number),
+      format('Valid until %s; extend its validity to send it again', to_char(v_quotation.valid_until, 'DD/MM/YYYY'))
+    );
+
+    RAISE LOG 'Expired quotation % (valid until %)', v_quotation.quotation_number, v_quotation.valid_until;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION expire_quotations() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_quotations() TO service_role;
+
+-- Only quotations that went out can be extended; drafts are edited instead
+CREATE OR REPLACE FUNCTION extend_quotation_validity(p_quotation_id uuid, p_valid_until date)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  IF p_valid_until IS NULL OR p_valid_until < current_date THEN
+    RAISE EXCEPTION 'The new validity date must not be in the past';
+  END IF;
+
+  UPDATE quotations
+  SET
+    valid_until = p_valid_until,
+    status = CASE WHEN status = 'expired' THEN 'sent' ELSE status END,
+    expired_at = NULL
+  WHERE id = p_quotation_id
+    AND status IN ('approved', 'sent', 'expired')
+  RETURNING * INTO v_quotation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found or not sent', p_quotation_id;
+  END IF;
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-quotations', '15 0 * * *', 'SELECT expire_quotations()');
+  END IF;
+END $$;
@@ -0,0 +1,350 @@
+/*
+  # Quotation status state machine and audit trail
+
+  1. Changes
+    - `quotations`
+      - `error_message` (text, why the last approval failed)
+      - `last_error_at` (timestamptz, when it failed)
+      - `last_modified_by` (uuid, who last saved the quotation's content)
+      - `last_modified_at` (timestamptz)
+
+  2. New Tables
+    - `quotation_events`
+      - `id` (uuid, primary key)
+      - `quotation_id` (uuid, the quotation)
+      - `from_status` (text, null when the quotation was created)
+      - `to_status` (text)
+      - `actor` (uuid, the user who made the change; null for the client
+        portal and scheduled jobs)
+      - `reason` (text)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `quotation_status_allowed(from, to)` is the state machine:
+        draft -> approved -> sent -> accepted / rejected / expired
+        a quotation that went out can also be answered or expire before it is
+        marked sent, an expired one is sent again when its validity is
+        extended, and anything not yet accepted can be revised back to draft
+    - `transition_quotation_status(p_quotation_id, p_status, p_reason, p_actor)`
+      moves a quotation along the state machine with a reason
+    - `expire_quotations`, `extend_quotation_validity` and
+      `record_client_response` record why they changed the status
+
+  4. Triggers
+    - Status changes outside the state machine are rejected
+    - Every creation and status change is written to `quotation_events`
+
+  5. Security
+    - Enable RLS on `quotation_events`
+    - Users can read the events of their own quotations; there are no write
+      policies, events are only written by the trigger
+*/
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS last_error_at timestamptz;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS last_modified_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS last_modified_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS quotation_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid REFERENCES quotations(id) ON DELETE CASCADE NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  actor uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE quotation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read events of their own quotations"
+  ON quotation_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM quotations
+      WHERE quotations.id = quotation_events.quotation_id
+        AND quotations.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_quotation_events_quotation
+  ON quotation_events (quotation_id, created_at DESC);
+
+-- Kept in step with STATUS_TRANSITIONS in src/lib/quotationStatus.ts
+CREATE OR REPLACE FUNCTION quotation_status_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('approved')
+    WHEN 'approved' THEN p_to IN ('sent', 'accepted', 'rejected', 'expired', 'draft')
+    WHEN 'sent' THEN p_to IN ('accepted', 'rejected', 'expired', 'draft')
+    WHEN 'expired' THEN p_to IN ('sent', 'draft')
+    WHEN 'rejected' THEN p_to IN ('draft')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_quotation_status()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT quotation_status_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Quotation % cannot go from ''%'' to ''%''', OLD.quotation_number, OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_quotation_status ON quotations;
+CREATE TRIGGER enforce_quotation_status
+  BEFORE UPDATE OF status ON quotations
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION enforce_quotation_status();
+
+-- The actor and reason come from transition_quotation_status (or the functions
+-- below) through transaction-local settings; plain updates are recorded
+-- without a reason. Runs as the owner so the table can stay read-only for users.
+CREATE OR REPLACE FUNCTION record_quotation_event()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO quotation_events (quotation_id, from_status, to_status, actor, reason)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    COALESCE(auth.uid(), NULLIF(current_setting('quotation_event.actor', true), '')::uuid),
+    NULLIF(current_setting('quotation_event.reason', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_quotation_created ON quotations;
+CREATE TRIGGER record_quotation_created
+  AFTER INSERT ON quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_quotation_event();
+
+DROP TRIGGER IF EXISTS record_quotation_status_change ON quotations;
+CREATE TRIGGER record_quotation_status_change
+  AFTER UPDATE OF status ON quotations
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION record_quotation_event();
+
+CREATE OR REPLACE FUNCTION set_quotation_event_context(p_reason text, p_actor uuid DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('quotation_event.reason', COALESCE(btrim(p_reason), ''), true);
+  PERFORM set_config('quotation_event.actor', COALESCE(p_actor::text, ''), true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Moving to the current status changes nothing. Runs with the caller's rights,
+-- so RLS limits it to the caller's own quotations; callers with a JWT are
+-- always recorded as the actor. Revising back to draft withdraws the approval
+-- and the client link.
+CREATE OR REPLACE FUNCTION transition_quotation_status(
+  p_quotation_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_actor uuid DEFAULT NULL
+)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+  v_actor uuid := COALESCE(auth.uid(), p_actor);
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  IF v_quotation.status = p_status THEN
+    RETURN v_quotation;
+  END IF;
+
+  PERFORM set_quotation_event_context(p_reason, v_actor);
+
+  UPDATE quotations
+  SET
+    status = p_status,
+    approved_at = CASE
+      WHEN p_status = 'approved' THEN now()
+      WHEN p_status = 'draft' THEN NULL
+      ELSE approved_at
+    END,
+    approved_by = CASE
+      WHEN p_status = 'approved' THEN v_actor
+      WHEN p_status = 'draft' THEN NULL
+      ELSE approved_by
+    END,
+    sent_at = CASE WHEN p_status = 'sent' THEN COALESCE(sent_at, now()) ELSE sent_at END,
+    exchange_rates_locked_at = CASE WHEN p_status = 'draft' THEN NULL ELSE exchange_rates_locked_at END,
+    portal_link_issued_at = CASE WHEN p_status = 'draft' THEN NULL ELSE portal_link_issued_at END,
+    expired_at = CASE WHEN p_status = 'draft' THEN NULL ELSE expired_at END
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION expire_quotations()
+RETURNS integer AS $$
+DECLARE
+  v_quotation quotations;
+  v_count integer := 0;
+BEGIN
+  PERFORM set_quotation_event_context('Past its validity date');
+
+  FOR v_quotation IN
+    UPDATE quotations
+    SET
+      status = 'expired',
+      expired_at = now()
+    WHERE status IN ('approved', 'sent')
+      AND valid_until < current_date
+    RETURNING *
+  LOOP
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      v_quotation.id,
+      'quotation_expired',
+      format('Quotation %s expired', v_quotation.quotation_number),
+      format('Valid until %s; extend its validity to send it again', to_char(v_quotation.valid_until, 'DD/MM/YYYY'))
+    );
+
+    RAISE LOG 'Expired quotation % (valid until %)', v_quotation.quotation_number, v_quotation.valid_until;
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION extend_quotation_validity(p_quotation_id uuid, p_valid_until date)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  IF p_valid_until IS NULL OR p_valid_until < current_date THEN
+    RAISE EXCEPTION 'The new validity date must not be in the past';
+  END IF;
+
+  PERFORM set_quotation_event_context(format('Validity extended to %s', to_char(p_valid_until, 'DD/MM/YYYY')));
+
+  UPDATE quotations
+  SET
+    valid_until = p_valid_until,
+    status = CASE WHEN status = 'expired' THEN 'sent' ELSE status END,
+    expired_at = NULL
+  WHERE id = p_quotation_id
+    AND status IN ('approved', 'sent', 'expired')
+  RETURNING * INTO v_quotation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found or not sent', p_quotation_id;
+  END IF;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_client_response(
+  p_quotation_id uuid,
+  p_response text,
+  p_name text DEFAULT NULL,
+  p_signature text DEFAULT NULL,
+  p_reason text DEFAULT NULL,
+  p_alternative text DEFAULT NULL,
+  p_optionals text[] DEFAULT '{}'
+)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  IF v_quotation.status NOT IN ('approved', 'sent') THEN
+    RAISE EXCEPTION 'Quotation % is %, not awaiting a response', v_quotation.quotation_number, v_quotation.status;
+  END IF;
+
+  IF v_quotation.valid_until IS NOT NULL AND v_quotation.valid_until < current_date THEN
+    RAISE EXCEPTION 'Quotation % expired on %', v_quotation.quotation_number, v_quotation.valid_until;
+  END IF;
+
+  IF p_response = 'accept' THEN
+    IF COALESCE(btrim(p_name), '') = '' THEN
+      RAISE EXCEPTION 'A name is required to accept quotation %', v_quotation.quotation_number;
+    END IF;
+
+    PERFORM set_quotation_event_context(format('Accepted by %s through the client portal', btrim(p_name)));
+    PERFORM accept_quotation_options(p_quotation_id, p_alternative, p_optionals);
+
+    UPDATE quotations
+    SET
+      accepted_at = now(),
+      accepted_by_name = btrim(p_name),
+      acceptance_signature = p_signature
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      p_quotation_id,
+      'quotation_accepted',
+      format('Quotation %s accepted', v_quotation.quotation_number),
+      format('Accepted by %s', v_quotation.accepted_by_name)
+    );
+  ELSIF p_response = 'reject' THEN
+    PERFORM set_quotation_event_context(COALESCE('Rejected through the client portal: ' || NULLIF(btrim(p_reason), ''), 'Rejected through the client portal'));
+
+    UPDATE quotations
+    SET
+      status = 'rejected',
+      rejected_at = now(),
+      rejection_reason = NULLIF(btrim(p_reason), '')
+    WHERE id = p_quotation_id
+    RETURNING * INTO v_quotation;
+
+    INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+    VALUES (
+      v_quotation.user_id,
+      p_quotation_id,
+      'quotation_rejected',
+      format('Quotation %s rejected', v_quotation.quotation_number),
+      COALESCE(v_quotation.rejection_reason, 'No reason given')
+    );
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_response;
+  END IF;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Quotations from before the audit trail start with their current status
+INSERT INTO quotation_events (quotation_id, from_status, to_status, reason, created_at)
+SELECT q.id, NULL, q.status, 'Status when the audit trail was introduced', now()
+FROM quotations q
+WHERE NOT EXISTS (SELECT 1 FROM quotation_events e WHERE e.quotation_id = q.id);
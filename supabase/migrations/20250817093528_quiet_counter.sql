@@ -0,0 +1,218 @@
+/*
+  # Per-company quotation numbering
+
+  1. Changes
+    - `companies`
+      - `quotation_numbering` (jsonb, the number format: prefix, year as
+        YYYY, YY or none, padding of the sequence, and reset yearly or never)
+    - `quotations`
+      - `number_revision` (integer, how often the quotation was revised after
+        it went out; revised quotations are numbered like QUO-2026-0042-R2)
+      - Quotation numbers are unique per user instead of globally
+
+  2. New Tables
+    - `quotation_number_sequences`
+      - `scope_id` (uuid, the company; the user for quotations without one)
+      - `period` (text, the year for sequences reset yearly, '' otherwise)
+      - `last_value` (integer, the last number handed out)
+      - `updated_at` (timestamp)
+      - Seeded from the existing QUO-YYYY-NNNN numbers
+
+  3. Functions
+    - `format_quotation_number(p_numbering, p_value, p_at)` applies a format
+    - `revised_quotation_number(p_number, p_revision)` adds the revision suffix
+    - `generate_quotation_number(p_company_id, p_user_id, p_at)` takes the
+      next number from the company's sequence. The sequence row is locked by
+      the upsert until the inserting transaction ends, so concurrent inserts
+      get consecutive numbers instead of colliding.
+    - `transition_quotation_status` gives a quotation that went out a revision
+      suffix when it is revised back to draft
+
+  4. Security
+    - Enable RLS on `quotation_number_sequences` without policies; it is only
+      used through generate_quotation_number
+*/
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS quotation_numbering jsonb NOT NULL DEFAULT
+  '{"prefix": "QUO", "year": "YYYY", "padding": 4, "reset": "yearly"}'::jsonb;
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS number_revision integer NOT NULL DEFAULT 0;
+
+ALTER TABLE quotations DROP CONSTRAINT IF EXISTS quotations_quotation_number_key;
+ALTER TABLE quotations DROP CONSTRAINT IF EXISTS quotations_user_quotation_number_key;
+ALTER TABLE quotations ADD CONSTRAINT quotations_user_quotation_number_key UNIQUE (user_id, quotation_number);
+
+CREATE TABLE IF NOT EXISTS quotation_number_sequences (
+  scope_id uuid NOT NULL,
+  period text NOT NULL DEFAULT '',
+  last_value integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (scope_id, period)
+);
+
+ALTER TABLE quotation_number_sequences ENABLE ROW LEVEL SECURITY;
+
+-- Existing numbers continue where the old global sequence left off
+INSERT INTO quotation_number_sequences (scope_id, period, last_value)
+SELECT
+  COALESCE(company_id, user_id),
+  substring(quotation_number FROM '^QUO-([0-9]{4})-'),
+  max(substring(quotation_number FROM '^QUO-[0-9]{4}-([0-9]+)')::integer)
+FROM quotations
+WHERE quotation_number ~ '^QUO-[0-9]{4}-[0-9]+'
+  AND COALESCE(company_id, user_id) IS NOT NULL
+GROUP BY 1, 2
+ON CONFLICT (scope_id, period) DO UPDATE
+SET last_value = GREATEST(quotation_number_sequences.last_value, EXCLUDED.last_value);
+
+-- Kept in step with formatQuotationNumber in src/lib/quotationNumbering.ts.
+-- An empty prefix is left out; the sequence is never cut to the padding.
+CREATE OR REPLACE FUNCTION format_quotation_number(p_numbering jsonb, p_value integer, p_at timestamptz DEFAULT now())
+RETURNS text AS $$
+DECLARE
+  v_padding integer := LEAST(GREATEST(COALESCE((p_numbering->>'padding')::integer, 4), 1), 10);
+BEGIN
+  RETURN concat_ws('-',
+    NULLIF(btrim(COALESCE(p_numbering->>'prefix', 'QUO')), ''),
+    CASE COALESCE(p_numbering->>'year', 'YYYY')
+      WHEN 'none' THEN NULL
+      WHEN 'YY' THEN to_char(p_at, 'YY')
+      ELSE to_char(p_at, 'YYYY')
+    END,
+    CASE WHEN length(p_value::text) >= v_padding THEN p_value::text ELSE lpad(p_value::text, v_padding, '0') END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION revised_quotation_number(p_number text, p_revision integer)
+RETURNS text AS $$
+  SELECT regexp_replace(p_number, '-R[0-9]+$', '') || '-R' || p_revision;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Numbers already taken by the user (from before per-company sequences, or by
+-- another company with the same format) are skipped. Callers with a JWT may
+-- only number their own quotations.
+DROP FUNCTION IF EXISTS generate_quotation_number();
+CREATE OR REPLACE FUNCTION generate_quotation_number(
+  p_company_id uuid,
+  p_user_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS text AS $$
+DECLARE
+  v_company_id uuid;
+  v_numbering jsonb;
+  v_scope uuid;
+  v_period text;
+  v_value integer;
+  v_number text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Quotation numbers can only be generated for your own quotations';
+  END IF;
+
+  SELECT id, quotation_numbering INTO v_company_id, v_numbering
+  FROM companies
+  WHERE id = p_company_id
+     OR (p_company_id IS NULL AND user_id = p_user_id)
+  ORDER BY is_default DESC NULLS LAST, created_at
+  LIMIT 1;
+
+  v_numbering := COALESCE(v_numbering, '{}'::jsonb);
+  v_scope := COALESCE(v_company_id, p_user_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  v_period := CASE WHEN COALESCE(v_numbering->>'reset', 'yearly') = 'never' THEN '' ELSE to_char(p_at, 'YYYY') END;
+
+  LOOP
+    INSERT INTO quotation_number_sequences (scope_id, period, last_value)
+    VALUES (v_scope, v_period, 1)
+    ON CONFLICT (scope_id, period) DO UPDATE
+    SET
+      last_value = quotation_number_sequences.last_value + 1,
+      updated_at = now()
+    RETURNING last_value INTO v_value;
+
+    v_number := format_quotation_number(v_numbering, v_value, p_at);
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM quotations
+      WHERE user_id IS NOT DISTINCT FROM p_user_id
+        AND regexp_replace(quotation_number, '-R[0-9]+$', '') = v_number
+    );
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_quotation_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quotation_number IS NULL THEN
+    NEW.quotation_number := generate_quotation_number(NEW.company_id, NEW.user_id, COALESCE(NEW.created_at, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- As before, plus: a quotation that went out (sent_at set) gets the next
+-- revision suffix when it is revised, and counts as unsent again
+CREATE OR REPLACE FUNCTION transition_quotation_status(
+  p_quotation_id uuid,
+  p_status text,
+  p_reason text DEFAULT NULL,
+  p_actor uuid DEFAULT NULL
+)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+  v_actor uuid := COALESCE(auth.uid(), p_actor);
+BEGIN
+  SELECT * INTO v_quotation FROM quotations WHERE id = p_quotation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found', p_quotation_id;
+  END IF;
+
+  IF v_quotation.status = p_status THEN
+    RETURN v_quotation;
+  END IF;
+
+  PERFORM set_quotation_event_context(p_reason, v_actor);
+
+  UPDATE quotations
+  SET
+    status = p_status,
+    approved_at = CASE
+      WHEN p_status = 'approved' THEN now()
+      WHEN p_status = 'draft' THEN NULL
+      ELSE approved_at
+    END,
+    approved_by = CASE
+      WHEN p_status = 'approved' THEN v_actor
+      WHEN p_status = 'draft' THEN NULL
+      ELSE approved_by
+    END,
+    sent_at = CASE
+      WHEN p_status = 'sent' THEN COALESCE(sent_at, now())
+      WHEN p_status = 'draft' THEN NULL
+      ELSE sent_at
+    END,
+    number_revision = CASE
+      WHEN p_status = 'draft' AND sent_at IS NOT NULL THEN number_revision + 1
+      ELSE number_revision
+    END,
+    quotation_number = CASE
+      WHEN p_status = 'draft' AND sent_at IS NOT NULL THEN revised_quotation_number(quotation_number, number_revision + 1)
+      ELSE quotation_number
+    END,
+    exchange_rates_locked_at = CASE WHEN p_status = 'draft' THEN NULL ELSE exchange_rates_locked_at END,
+    portal_link_issued_at = CASE WHEN p_status = 'draft' THEN NULL ELSE portal_link_issued_at END,
+    expired_at = CASE WHEN p_status = 'draft' THEN NULL ELSE expired_at END
+  WHERE id = p_quotation_id
+  RETURNING * INTO v_quotation;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,58 @@
+/*
+  # Quotation PDFs
+
+  1. Changes
+    - `companies`
+      - `quotation_terms` (text, the terms printed at the end of every
+        quotation PDF)
+    - `quotations`
+      - `pdf_url` now holds the path of the quotation's PDF in the
+        quotation-pdfs bucket (`<user id>/<quotation id>/<number>.pdf`)
+      - `pdf_generated_at` (timestamptz, when that PDF was rendered)
+
+  2. Storage
+    - Private `quotation-pdfs` bucket; the PDF stored there is the one that is
+      archived and sent to the client
+
+  3. Security
+    - Users can read and write PDFs in their own folder of the bucket
+*/
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS quotation_terms text NOT NULL DEFAULT
+  'Prices are valid until the date stated on this quotation. Installation is carried out during normal working hours. '
+  'Payment terms: 40% on order, 50% on delivery of the equipment and 10% on completion. '
+  'Equipment remains our property until paid in full.';
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS pdf_generated_at timestamptz;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('quotation-pdfs', 'quotation-pdfs', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can read their own quotation PDFs" ON storage.objects;
+CREATE POLICY "Users can read their own quotation PDFs"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'quotation-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can upload their own quotation PDFs" ON storage.objects;
+CREATE POLICY "Users can upload their own quotation PDFs"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'quotation-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can replace their own quotation PDFs" ON storage.objects;
+CREATE POLICY "Users can replace their own quotation PDFs"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'quotation-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Users can delete their own quotation PDFs" ON storage.objects;
+CREATE POLICY "Users can delete their own quotation PDFs"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'quotation-pdfs' AND (storage.foldername(name))[1] = auth.uid()::text);
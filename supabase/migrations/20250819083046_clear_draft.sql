@@ -0,0 +1,19 @@
+/*
+  # Quotation document templates
+
+  1. Changes
+    - `companies`
+      - `document_template` (jsonb, the sections of the company's quotation
+        document: cover letter, scope, equipment table, exclusions, payment
+        terms and signature, each with a title, text with {{placeholders}}
+        and whether it is shown; null uses the default template)
+
+  2. Security
+    - Covered by the existing policies on `companies`
+*/
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS document_template jsonb;
+
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS companies_document_template_check;
+ALTER TABLE companies ADD CONSTRAINT companies_document_template_check
+  CHECK (document_template IS NULL OR jsonb_typeof(document_template -> 'sections') = 'array');
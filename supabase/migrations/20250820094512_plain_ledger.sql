@@ -0,0 +1,16 @@
+/*
+  # Quotation Word documents
+
+  1. Changes
+    - `quotations`
+      - `docx_url` (text, path of the quotation's Word document in the
+        quotation-pdfs bucket, next to its PDF)
+      - `docx_generated_at` (timestamptz, when that document was rendered)
+
+  2. Security
+    - Covered by the existing policies on the quotation-pdfs bucket, which
+      apply to every file in the user's own folder
+*/
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS docx_url text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS docx_generated_at timestamptz;
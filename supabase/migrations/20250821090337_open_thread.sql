@@ -0,0 +1,23 @@
+/*
+  # Quotations sent from Gmail
+
+  1. Changes
+    - `quotations`
+      - `sent_message_id` (text, Gmail id of the email the quotation was sent
+        in from the app; null when the approval workflow sent it)
+      - `sent_thread_id` (text, Gmail thread of that email, the RFQ's thread
+        when it was sent as a reply)
+      - `sent_recipients` (text[], the To, CC and BCC addresses it went to)
+    - Index on `quotations (user_id, sent_thread_id)` to find the quotation a
+      reply in a thread belongs to
+
+  2. Security
+    - Covered by the existing policies on `quotations`
+*/
+
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS sent_message_id text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS sent_thread_id text;
+ALTER TABLE quotations ADD COLUMN IF NOT EXISTS sent_recipients text[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_quotations_user_sent_thread ON quotations (user_id, sent_thread_id)
+  WHERE sent_thread_id IS NOT NULL;
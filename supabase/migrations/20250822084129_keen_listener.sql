@@ -0,0 +1,91 @@
+/*
+  # Client replies on sent quotations
+
+  1. New Tables
+    - `quotation_replies`
+      - `id` (uuid, primary key)
+      - `quotation_id` (uuid, the quotation whose thread the reply is in)
+      - `user_id` (uuid, owner of the quotation and the mailbox)
+      - `gmail_id`, `thread_id` (text, the reply's Gmail message and thread)
+      - `from_email`, `from_name`, `subject`, `snippet`, `body` (text)
+      - `received_at` (timestamptz)
+      - `classification` (text, accept, reject, question, revision_request or
+        other, from the keyword classifier in the app)
+      - `suggested_status` (text, the status the reply points to, if any)
+      - `resolved_at`, `resolution` (when the suggestion was applied or
+        dismissed; null while it waits on the Quotations page)
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `notifications.kind` also allows `quotation_reply`
+
+  3. Functions
+    - `notify_quotation_reply` trigger notifies the owner of each new reply
+
+  4. Security
+    - Enable RLS on `quotation_replies`; users manage their own replies
+*/
+
+CREATE TABLE IF NOT EXISTS quotation_replies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id uuid NOT NULL REFERENCES quotations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  gmail_id text NOT NULL,
+  thread_id text NOT NULL,
+  from_email text NOT NULL,
+  from_name text,
+  subject text,
+  snippet text,
+  body text,
+  received_at timestamptz NOT NULL,
+  classification text NOT NULL
+    CHECK (classification IN ('accept', 'reject', 'question', 'revision_request', 'other')),
+  suggested_status text CHECK (suggested_status IN ('accepted', 'rejected', 'draft')),
+  resolved_at timestamptz,
+  resolution text CHECK (resolution IN ('applied', 'dismissed')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (quotation_id, gmail_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_replies_quotation ON quotation_replies (quotation_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quotation_replies_open ON quotation_replies (user_id, received_at DESC)
+  WHERE resolved_at IS NULL;
+
+ALTER TABLE quotation_replies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own quotation replies" ON quotation_replies;
+CREATE POLICY "Users can manage their own quotation replies"
+  ON quotation_replies
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_kind_check
+CHECK (kind IN ('quotation_accepted', 'quotation_rejected', 'quotation_expired', 'quotation_reply'));
+
+CREATE OR REPLACE FUNCTION notify_quotation_reply()
+RETURNS trigger AS $$
+DECLARE
+  v_quotation_number text;
+BEGIN
+  SELECT quotation_number INTO v_quotation_number FROM quotations WHERE id = NEW.quotation_id;
+
+  INSERT INTO notifications (user_id, quotation_id, kind, title, message)
+  VALUES (
+    NEW.user_id,
+    NEW.quotation_id,
+    'quotation_reply',
+    format('Reply on quotation %s', v_quotation_number),
+    format('%s: %s', COALESCE(NEW.from_name, NEW.from_email), COALESCE(NEW.snippet, NEW.subject, ''))
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS notify_quotation_reply ON quotation_replies;
+CREATE TRIGGER notify_quotation_reply
+  AFTER INSERT ON quotation_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_quotation_reply();
@@ -0,0 +1,45 @@
+/*
+  # Stale quotation documents
+
+  1. Changes
+    - `quotations`
+      - The stored PDF and Word document (`pdf_url`, `docx_url` and their
+        `*_generated_at`) are cleared when what they print changes: the lines,
+        prices, options, client, validity or number, or the quotation going
+        back to draft. Approval and the compose dialog then send no document
+        rather than an outdated one, until it is generated again.
+
+  2. Security
+    - No change; the trigger only runs on updates the caller may already make
+*/
+
+CREATE OR REPLACE FUNCTION clear_stale_quotation_documents()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Storing a new document is not an edit of the quotation
+  IF NEW.pdf_url IS DISTINCT FROM OLD.pdf_url OR NEW.docx_url IS DISTINCT FROM OLD.docx_url THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status = 'draft' AND OLD.status <> 'draft')
+     OR (NEW.analysis, NEW.client_details, NEW.margin_percentage, NEW.tax_code, NEW.tax_rate,
+         NEW.currency, NEW.exchange_rate, NEW.exchange_rates, NEW.selected_alternative,
+         NEW.selected_optionals, NEW.valid_until, NEW.quotation_number)
+        IS DISTINCT FROM
+        (OLD.analysis, OLD.client_details, OLD.margin_percentage, OLD.tax_code, OLD.tax_rate,
+         OLD.currency, OLD.exchange_rate, OLD.exchange_rates, OLD.selected_alternative,
+         OLD.selected_optionals, OLD.valid_until, OLD.quotation_number) THEN
+    NEW.pdf_url := NULL;
+    NEW.pdf_generated_at := NULL;
+    NEW.docx_url := NULL;
+    NEW.docx_generated_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_clear_stale_quotation_documents ON quotations;
+CREATE TRIGGER trigger_clear_stale_quotation_documents
+  BEFORE UPDATE ON quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_stale_quotation_documents();
@@ -0,0 +1,60 @@
+/*
+  # Restore the pre-expiry status when extending validity
+
+  1. Changes
+    - `quotation_status_allowed`: an expired quotation can go back to
+      `approved` as well as to `sent`
+    - `extend_quotation_validity`: an expired quotation returns to `sent` only
+      if it went out (`sent_at` set); an approved quotation that expired before
+      it was sent returns to `approved`, so it is not reported as sent
+
+  2. Security
+    - No change
+*/
+
+-- Kept in step with STATUS_TRANSITIONS in src/lib/quotationStatus.ts
+CREATE OR REPLACE FUNCTION quotation_status_allowed(p_from text, p_to text)
+RETURNS boolean AS $$
+  SELECT CASE p_from
+    WHEN 'draft' THEN p_to IN ('approved')
+    WHEN 'approved' THEN p_to IN ('sent', 'accepted', 'rejected', 'expired', 'draft')
+    WHEN 'sent' THEN p_to IN ('accepted', 'rejected', 'expired', 'draft')
+    WHEN 'expired' THEN p_to IN ('sent', 'approved', 'draft')
+    WHEN 'rejected' THEN p_to IN ('draft')
+    ELSE false
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION extend_quotation_validity(p_quotation_id uuid, p_valid_until date)
+RETURNS quotations AS $$
+DECLARE
+  v_quotation quotations;
+BEGIN
+  IF p_valid_until IS NULL OR p_valid_until < current_date THEN
+    RAISE EXCEPTION 'The new validity date must not be in the past';
+  END IF;
+
+  PERFORM set_quotation_event_context(format('Validity extended to %s', to_char(p_valid_until, 'DD/MM/YYYY')));
+
+  UPDATE quotations
+  SET
+    valid_until = p_valid_until,
+    status = CASE
+      WHEN status <> 'expired' THEN status
+      WHEN sent_at IS NOT NULL THEN 'sent'
+      ELSE 'approved'
+    END,
+    expired_at = NULL
+  WHERE id = p_quotation_id
+    AND status IN ('approved', 'sent', 'expired')
+  RETURNING * INTO v_quotation;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation % not found or not sent', p_quotation_id;
+  END IF;
+
+  PERFORM set_quotation_event_context(NULL);
+
+  RETURN v_quotation;
+END;
+$$ LANGUAGE plpgsql;
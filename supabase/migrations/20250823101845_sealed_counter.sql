@@ -0,0 +1,81 @@
+/*
+  # Company ownership check when numbering quotations
+
+  1. Changes
+    - `generate_quotation_number` runs as its owner, so it bypasses RLS on
+      companies and quotation_number_sequences. Callers with a JWT could pass
+      another user's company and advance its sequence or read its number
+      format; they may now only number quotations of their own companies.
+    - Calls without a user are only accepted from the service role (edge
+      functions); an anon key call has no user either and is refused
+
+  2. Security
+    - EXECUTE revoked from PUBLIC and anon; kept for authenticated, whose
+      inserts run the numbering trigger, and for service_role
+*/
+
+-- As before, plus: users may only use their own companies, and only the
+-- service role may number without a user
+CREATE OR REPLACE FUNCTION generate_quotation_number(
+  p_company_id uuid,
+  p_user_id uuid,
+  p_at timestamptz DEFAULT now()
+)
+RETURNS text AS $$
+DECLARE
+  v_company_id uuid;
+  v_numbering jsonb;
+  v_scope uuid;
+  v_period text;
+  v_value integer;
+  v_number text;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'Quotation numbers can only be generated for signed-in users';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Quotation numbers can only be generated for your own quotations';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND p_company_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM companies WHERE id = p_company_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Quotation numbers can only be generated for your own companies';
+  END IF;
+
+  SELECT id, quotation_numbering INTO v_company_id, v_numbering
+  FROM companies
+  WHERE id = p_company_id
+     OR (p_company_id IS NULL AND user_id = p_user_id)
+  ORDER BY is_default DESC NULLS LAST, created_at
+  LIMIT 1;
+
+  v_numbering := COALESCE(v_numbering, '{}'::jsonb);
+  v_scope := COALESCE(v_company_id, p_user_id, '00000000-0000-0000-0000-000000000000'::uuid);
+  v_period := CASE WHEN COALESCE(v_numbering->>'reset', 'yearly') = 'never' THEN '' ELSE to_char(p_at, 'YYYY') END;
+
+  LOOP
+    INSERT INTO quotation_number_sequences (scope_id, period, last_value)
+    VALUES (v_scope, v_period, 1)
+    ON CONFLICT (scope_id, period) DO UPDATE
+    SET
+      last_value = quotation_number_sequences.last_value + 1,
+      updated_at = now()
+    RETURNING last_value INTO v_value;
+
+    v_number := format_quotation_number(v_numbering, v_value, p_at);
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM quotations
+      WHERE user_id IS NOT DISTINCT FROM p_user_id
+        AND regexp_replace(quotation_number, '-R[0-9]+$', '') = v_number
+    );
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_quotation_number(uuid, uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_quotation_number(uuid, uuid, timestamptz) TO authenticated, service_role;
@@ -0,0 +1,22 @@
+/*
+  # Schedule quotation expiry
+
+  1. Changes
+    - Enables `pg_cron`. Expiry was only scheduled when the extension
+      happened to be installed already, so on a new project no quotation ever
+      expired.
+    - `expire_quotations` runs daily at 00:15 (job `expire-quotations`);
+      scheduling again replaces the existing job of that name
+
+  2. Requirements
+    - pg_cron must be available to the database (it is on Supabase; on other
+      Postgres hosts it has to be in shared_preload_libraries). Nothing else is
+      needed: the job calls the function directly, without an edge function.
+
+  3. Security
+    - No change; the job runs as the migration owner
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-quotations', '15 0 * * *', 'SELECT expire_quotations()');
@@ -0,0 +1,39 @@
+/*
+  # Checkpoints for client reply tracking
+
+  1. New Tables
+    - `quotation_reply_checkpoints`
+      - `quotation_id` (uuid, primary key)
+      - `user_id` (uuid, owner of the quotation and the mailbox)
+      - `thread_id` (text, the Gmail thread watched for the quotation, so it
+        is looked up only once)
+      - `history_id` (text, the thread's Gmail history id when it was last
+        read; an unchanged id means no new messages)
+      - `checked_at` (timestamptz, when the thread was last checked)
+
+    Kept apart from `quotations` so a check does not touch the quotation's
+    `updated_at` or send realtime updates for it.
+
+  2. Security
+    - Enable RLS on `quotation_reply_checkpoints`; users manage their own
+*/
+
+CREATE TABLE IF NOT EXISTS quotation_reply_checkpoints (
+  quotation_id uuid PRIMARY KEY REFERENCES quotations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  thread_id text NOT NULL,
+  history_id text,
+  checked_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotation_reply_checkpoints_user ON quotation_reply_checkpoints (user_id, checked_at);
+
+ALTER TABLE quotation_reply_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own reply checkpoints" ON quotation_reply_checkpoints;
+CREATE POLICY "Users can manage their own reply checkpoints"
+  ON quotation_reply_checkpoints
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);